@@ -5,16 +5,29 @@ import {
   ListBucketsCommand,
   DeleteBucketCommand,
   HeadBucketCommand,
+  GetBucketVersioningCommand,
+  PutBucketVersioningCommand,
 } from '@aws-sdk/client-s3';
 import { mockClient } from 'aws-sdk-client-mock';
 import bucketsRoutes from '../../../../routes/api/buckets';
-import { getS3Config } from '../../../../utils/config';
+import { getS3Config, getS3Connections } from '../../../../utils/config';
 import { S3ServiceException } from '@aws-sdk/client-s3';
 
 // Mock the S3 config
-jest.mock('../../../../utils/config', () => ({
-  getS3Config: jest.fn(),
-}));
+jest.mock('../../../../utils/config', () => {
+  const getS3Config = jest.fn();
+  return {
+    DEFAULT_S3_CONNECTION_ID: 'default',
+    getS3Config,
+    getS3Connections: jest.fn(),
+    getS3Location: (locationId: string) => ({
+      s3Client: (getS3Config() as any).s3Client,
+      bucket: locationId,
+      connectionId: 'default',
+    }),
+    formatS3LocationId: (_connectionId: string, bucket: string) => bucket,
+  };
+});
 
 describe('Bucket Routes', () => {
   let fastify: FastifyInstance;
@@ -26,6 +39,9 @@ describe('Bucket Routes', () => {
       s3Client: new S3Client({ region: 'us-east-1' }), // It's a mock, so region is illustrative
       defaultBucket: 'test-default-bucket',
     });
+    (getS3Connections as jest.Mock).mockReturnValue([
+      { id: 'default', name: 'Default', endpoint: 'https://s3.example.com' },
+    ]);
 
     // Import and register Fastify instance for each test
     // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -56,7 +72,20 @@ describe('Bucket Routes', () => {
       const payload = JSON.parse(response.payload);
       expect(payload.owner).toEqual({ ID: 'owner-id', DisplayName: 'owner-name' });
       expect(payload.defaultBucket).toBe('test-default-bucket');
-      expect(payload.buckets).toEqual([{ Name: 'bucket1' }, { Name: 'bucket2' }]);
+      expect(payload.buckets).toEqual([
+        {
+          Name: 'bucket1',
+          connectionId: 'default',
+          connectionName: 'Default',
+          locationId: 'bucket1',
+        },
+        {
+          Name: 'bucket2',
+          connectionId: 'default',
+          connectionName: 'Default',
+          locationId: 'bucket2',
+        },
+      ]);
     });
 
     it('should filter out inaccessible buckets', async () => {
@@ -77,8 +106,23 @@ describe('Bucket Routes', () => {
 
       expect(response.statusCode).toBe(200);
       const payload = JSON.parse(response.payload);
-      expect(payload.buckets).toEqual([{ Name: 'bucket1' }, { Name: 'bucket2' }]);
-      expect(payload.buckets).not.toContainEqual({ Name: 'inaccessible-bucket' });
+      expect(payload.buckets).toEqual([
+        {
+          Name: 'bucket1',
+          connectionId: 'default',
+          connectionName: 'Default',
+          locationId: 'bucket1',
+        },
+        {
+          Name: 'bucket2',
+          connectionId: 'default',
+          connectionName: 'Default',
+          locationId: 'bucket2',
+        },
+      ]);
+      expect(payload.buckets.map((bucket: any) => bucket.Name)).not.toContain(
+        'inaccessible-bucket',
+      );
     });
 
     it('should handle S3ServiceException when listing buckets', async () => {
@@ -114,6 +158,57 @@ describe('Bucket Routes', () => {
       expect(payload.error).toBe('Error');
       expect(payload.message).toBe('Some other error');
     });
+
+    it('should not list the default connection when it is not configured', async () => {
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      (getS3Connections as jest.Mock).mockReturnValue([
+        { id: 'default', name: 'Default', endpoint: '', accessKeyId: '', secretAccessKey: '' },
+      ]);
+
+      const response = await fastify.inject({ method: 'GET', url: '/' });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual(
+        expect.objectContaining({ buckets: [], connectionErrors: [] }),
+      );
+      expect(s3Mock.commandCalls(ListBucketsCommand)).toHaveLength(0);
+      expect(consoleErrorSpy).not.toHaveBeenCalled();
+
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should report connections that do not answer in time', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const defaultClient = new S3Client({ region: 'us-east-1' });
+      (getS3Connections as jest.Mock).mockReturnValue([
+        { id: 'default', name: 'Default', endpoint: 'https://s3.example.com' },
+        { id: 'offline', name: 'Offline', endpoint: 'https://offline.example.com' },
+      ]);
+      (getS3Config as jest.Mock).mockImplementation((connectionId?: string) =>
+        connectionId === 'offline'
+          ? { s3Client: { send: () => new Promise(() => undefined) } }
+          : { s3Client: defaultClient, defaultBucket: 'test-default-bucket' },
+      );
+      s3Mock.on(ListBucketsCommand).resolves({ Buckets: [{ Name: 'bucket1' }] });
+      s3Mock.on(HeadBucketCommand).resolves({});
+
+      try {
+        const responsePromise = fastify.inject({ method: 'GET', url: '/' });
+        await jest.advanceTimersByTimeAsync(15000);
+        const response = await responsePromise;
+
+        expect(response.statusCode).toBe(200);
+        const payload = JSON.parse(response.payload);
+        expect(payload.buckets.map((bucket: any) => bucket.Name)).toEqual(['bucket1']);
+        expect(payload.connectionErrors).toEqual([
+          expect.objectContaining({ connectionId: 'offline', error: 'TimeoutError' }),
+        ]);
+      } finally {
+        jest.useRealTimers();
+        consoleErrorSpy.mockRestore();
+      }
+    });
   });
 
   describe('POST /', () => {
@@ -222,4 +317,45 @@ describe('Bucket Routes', () => {
       expect(payload.message).toBe('Some other delete error');
     });
   });
+
+  describe('Bucket versioning', () => {
+    it('should return the versioning status, null when never enabled', async () => {
+      s3Mock.on(GetBucketVersioningCommand).resolvesOnce({ Status: 'Enabled' }).resolvesOnce({});
+
+      const enabled = await fastify.inject({ method: 'GET', url: '/test-bucket/versioning' });
+      expect(enabled.statusCode).toBe(200);
+      expect(JSON.parse(enabled.payload)).toEqual({ status: 'Enabled' });
+
+      const never = await fastify.inject({ method: 'GET', url: '/test-bucket/versioning' });
+      expect(JSON.parse(never.payload)).toEqual({ status: null });
+    });
+
+    it('should enable versioning', async () => {
+      s3Mock.on(PutBucketVersioningCommand).resolves({});
+
+      const response = await fastify.inject({
+        method: 'PUT',
+        url: '/test-bucket/versioning',
+        payload: { status: 'Enabled' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(PutBucketVersioningCommand)[0].args[0].input).toEqual({
+        Bucket: 'test-bucket',
+        VersioningConfiguration: { Status: 'Enabled' },
+      });
+    });
+
+    it('should reject unknown versioning states', async () => {
+      const response = await fastify.inject({
+        method: 'PUT',
+        url: '/test-bucket/versioning',
+        payload: { status: 'Disabled' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).error).toBe('ValidationError');
+      expect(s3Mock.commandCalls(PutBucketVersioningCommand)).toHaveLength(0);
+    });
+  });
 });
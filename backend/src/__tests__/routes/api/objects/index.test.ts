@@ -5,22 +5,45 @@ import {
   GetObjectCommand,
   DeleteObjectCommand,
   DeleteObjectsCommand,
+  ListObjectVersionsCommand,
+  HeadObjectCommand,
+  CopyObjectCommand,
+  GetObjectTaggingCommand,
+  PutObjectTaggingCommand,
+  CreateMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+  UploadPartCommand,
   S3ServiceException,
 } from '@aws-sdk/client-s3';
 import { mockClient } from 'aws-sdk-client-mock';
 import objectsRoutes from '../../../../routes/api/objects';
 import { getS3Config, getHFConfig, getMaxConcurrentTransfers } from '../../../../utils/config';
 import { Readable } from 'stream';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
 import multipart from '@fastify/multipart';
 import { Upload as AwsUpload } from '@aws-sdk/lib-storage';
+import { transferQueue, TransferFileJob } from '../../../../utils/transferQueue';
+import { BandwidthLimiter } from '../../../../utils/bandwidthThrottle';
 
 // Mock config
-jest.mock('../../../../utils/config', () => ({
-  getS3Config: jest.fn(),
-  getHFConfig: jest.fn(),
-  getMaxConcurrentTransfers: jest.fn().mockReturnValue(2), // Default value for transferQueue initialization
-  getProxyConfig: jest.fn().mockReturnValue({ httpProxy: undefined, httpsProxy: undefined }),
-}));
+jest.mock('../../../../utils/config', () => {
+  const getS3Config = jest.fn();
+  return {
+    getS3Config,
+    // All buckets belong to the mocked default connection
+    getS3Location: (locationId: string) => ({
+      s3Client: (getS3Config() as any).s3Client,
+      bucket: locationId,
+      connectionId: 'default',
+    }),
+    getHFConfig: jest.fn(),
+    getMaxConcurrentTransfers: jest.fn().mockReturnValue(2), // Default value for transferQueue initialization
+    getProxyConfig: jest.fn().mockReturnValue({ httpProxy: undefined, httpsProxy: undefined }),
+  };
+});
 
 // Mock localStorage utils
 jest.mock('../../../../utils/localStorage', () => ({
@@ -408,6 +431,387 @@ describe('Object Routes', () => {
     });
   });
 
+  describe('Object versions', () => {
+    const key = 'models/model.bin';
+    const encodedKey = Buffer.from(key).toString('base64');
+
+    it('should download a given version of an object', async () => {
+      const mockStream = new Readable();
+      mockStream.push('old content');
+      mockStream.push(null);
+      s3Mock
+        .on(GetObjectCommand, { Bucket: 'test-bucket', Key: key, VersionId: 'v1' })
+        .resolves({ Body: mockStream as any });
+
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/download/test-bucket/${encodedKey}?versionId=v1`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.payload).toBe('old content');
+    });
+
+    it('should reject invalid version ids', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/view/test-bucket/${encodedKey}?versionId=${encodeURIComponent('v1&acl')}`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).error).toBe('ValidationError');
+    });
+
+    it('should list the versions of an object', async () => {
+      s3Mock.on(ListObjectVersionsCommand).resolves({
+        Versions: [
+          { Key: key, VersionId: 'v2', IsLatest: true, LastModified: new Date('2026-01-02') },
+          { Key: key, VersionId: 'v1', IsLatest: false, LastModified: new Date('2026-01-01') },
+        ],
+      });
+
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/versions/test-bucket/${encodedKey}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const payload = JSON.parse(response.payload);
+      expect(payload.versions.map((version: any) => version.versionId)).toEqual(['v2', 'v1']);
+      expect(payload.isTruncated).toBe(false);
+      expect(s3Mock.commandCalls(ListObjectVersionsCommand)[0].args[0].input.Prefix).toBe(key);
+    });
+
+    it('should restore a version', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 100 });
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/versions/test-bucket/${encodedKey}/restore`,
+        payload: { versionId: 'v1' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input.CopySource).toBe(
+        `test-bucket/${key}?versionId=v1`,
+      );
+    });
+
+    it('should not restore delete markers', async () => {
+      s3Mock.on(HeadObjectCommand).rejects(
+        new S3ServiceException({
+          name: 'MethodNotAllowed',
+          $fault: 'client',
+          message: 'The specified method is not allowed against this resource.',
+          $metadata: { httpStatusCode: 405 },
+        }),
+      );
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/versions/test-bucket/${encodedKey}/restore`,
+        payload: { versionId: 'd1' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).message).toBe('A delete marker cannot be restored.');
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+    });
+
+    it('should require a version id to restore', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/versions/test-bucket/${encodedKey}/restore`,
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.payload).message).toBe('Version ID is required.');
+    });
+  });
+
+  describe('Object details', () => {
+    const key = 'models/config.json';
+    const encodedKey = Buffer.from(key).toString('base64');
+
+    beforeEach(() => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 700,
+        ContentType: 'application/json',
+        ETag: '"etag"',
+        Metadata: { source: 'huggingface' },
+      });
+      s3Mock.on(GetObjectTaggingCommand).resolves({ TagSet: [{ Key: 'team', Value: 'ml' }] });
+    });
+
+    it('should return the details of an object', async () => {
+      const response = await fastify.inject({
+        method: 'GET',
+        url: `/details/test-bucket/${encodedKey}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const payload = JSON.parse(response.payload);
+      expect(payload.contentType).toBe('application/json');
+      expect(payload.metadata).toEqual({ source: 'huggingface' });
+      expect(payload.tags).toEqual({ team: 'ml' });
+      expect(payload.storageClass).toBe('STANDARD');
+    });
+
+    it('should update the metadata and content type of an object', async () => {
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      const response = await fastify.inject({
+        method: 'PUT',
+        url: `/metadata/test-bucket/${encodedKey}`,
+        payload: { metadata: { stage: 'prod' }, contentType: 'text/plain; charset=utf-8' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toEqual(
+        expect.objectContaining({
+          MetadataDirective: 'REPLACE',
+          Metadata: { stage: 'prod' },
+          ContentType: 'text/plain; charset=utf-8',
+        }),
+      );
+    });
+
+    it('should update the metadata of an object whose key has special characters', async () => {
+      s3Mock.on(CopyObjectCommand).resolves({});
+      const specialKey = 'models/résumé #1?versionId=v2 100%+.json';
+
+      const response = await fastify.inject({
+        method: 'PUT',
+        url: `/metadata/test-bucket/${Buffer.from(specialKey).toString('base64')}`,
+        payload: { metadata: { stage: 'prod' } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toEqual(
+        expect.objectContaining({
+          Key: specialKey,
+          CopySource:
+            'test-bucket/models/r%C3%A9sum%C3%A9%20%231%3FversionId%3Dv2%20100%25%2B.json',
+        }),
+      );
+    });
+
+    it('should reject invalid metadata changes', async () => {
+      const empty = await fastify.inject({
+        method: 'PUT',
+        url: `/metadata/test-bucket/${encodedKey}`,
+        payload: {},
+      });
+      expect(empty.statusCode).toBe(400);
+      expect(JSON.parse(empty.payload).message).toBe('Metadata or content type is required.');
+
+      const invalid = await fastify.inject({
+        method: 'PUT',
+        url: `/metadata/test-bucket/${encodedKey}`,
+        payload: { contentType: 'not a type' },
+      });
+      expect(invalid.statusCode).toBe(400);
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+    });
+
+    it('should replace the tags of an object', async () => {
+      s3Mock.on(PutObjectTaggingCommand).resolves({});
+
+      const response = await fastify.inject({
+        method: 'PUT',
+        url: `/tags/test-bucket/${encodedKey}`,
+        payload: { tags: { team: 'ml', stage: 'prod' } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(PutObjectTaggingCommand)[0].args[0].input.Tagging).toEqual({
+        TagSet: [
+          { Key: 'team', Value: 'ml' },
+          { Key: 'stage', Value: 'prod' },
+        ],
+      });
+    });
+
+    it('should reject invalid tags', async () => {
+      const response = await fastify.inject({
+        method: 'PUT',
+        url: `/tags/test-bucket/${encodedKey}`,
+        payload: { tags: { team: 'a&b' } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(s3Mock.commandCalls(PutObjectTaggingCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('POST /presign/:bucketName/:encodedKey', () => {
+    const encodedKey = Buffer.from('models/config.json').toString('base64');
+    let consoleLogSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      // Presigned URLs are signed locally, the client needs credentials
+      (getS3Config as jest.Mock).mockReturnValue({
+        s3Client: new S3Client({
+          region: 'us-east-1',
+          credentials: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' },
+        }),
+        defaultBucket: 'test-default-bucket',
+      });
+      consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should return a presigned URL and record it in the audit log', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/presign/test-bucket/${encodedKey}`,
+        payload: { method: 'GET', expiresIn: 900 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const payload = JSON.parse(response.payload);
+      expect(payload.method).toBe('GET');
+      expect(payload.expiresIn).toBe(900);
+      expect(payload.url).toContain('/models/config.json?');
+      expect(payload.url).toContain('X-Amz-Expires=900');
+
+      const auditEntries = consoleLogSpy.mock.calls.map(([entry]) => JSON.parse(entry));
+      expect(auditEntries).toContainEqual(
+        expect.objectContaining({
+          action: 'presign',
+          resource: 's3:test-bucket/models/config.json',
+          status: 'success',
+          details: `GET URL expiring at ${payload.expiresAt}`,
+        }),
+      );
+    });
+
+    it('should reject invalid methods and expiries', async () => {
+      const invalidMethod = await fastify.inject({
+        method: 'POST',
+        url: `/presign/test-bucket/${encodedKey}`,
+        payload: { method: 'DELETE' },
+      });
+      expect(invalidMethod.statusCode).toBe(400);
+      expect(JSON.parse(invalidMethod.payload).message).toBe("Method must be 'GET' or 'PUT'.");
+
+      const invalidExpiry = await fastify.inject({
+        method: 'POST',
+        url: `/presign/test-bucket/${encodedKey}`,
+        payload: { method: 'PUT', expiresIn: 30 * 24 * 3600 },
+      });
+      expect(invalidExpiry.statusCode).toBe(400);
+      expect(JSON.parse(invalidExpiry.payload).message).toBe(
+        'Expiry must be between 1 second and 7 days.',
+      );
+    });
+  });
+
+  describe('Direct uploads', () => {
+    const encodedKey = Buffer.from('models/model.bin').toString('base64');
+
+    beforeEach(() => {
+      // Part URLs are signed locally, the client needs credentials
+      (getS3Config as jest.Mock).mockReturnValue({
+        s3Client: new S3Client({
+          region: 'us-east-1',
+          credentials: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' },
+        }),
+        defaultBucket: 'test-default-bucket',
+      });
+    });
+
+    it('should start a direct upload', async () => {
+      s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/direct-upload/test-bucket/${encodedKey}`,
+        payload: { size: 20 * 1024 * 1024 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.payload)).toEqual({
+        uploadId: 'upload-1',
+        key: 'models/model.bin',
+        partSize: 8 * 1024 * 1024,
+        partCount: 3,
+      });
+    });
+
+    it('should return presigned URLs for the parts', async () => {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/direct-upload/test-bucket/${encodedKey}/parts`,
+        payload: { uploadId: 'upload-1', partNumbers: [1, 2] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { parts } = JSON.parse(response.payload);
+      expect(parts).toHaveLength(2);
+      expect(parts[1].partNumber).toBe(2);
+      expect(parts[1].url).toContain('partNumber=2');
+      expect(parts[1].url).toContain('uploadId=upload-1');
+    });
+
+    it('should complete a direct upload', async () => {
+      s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/direct-upload/test-bucket/${encodedKey}/complete`,
+        payload: { uploadId: 'upload-1', parts: [{ partNumber: 1, etag: '"etag-1"' }] },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)[0].args[0].input).toEqual(
+        expect.objectContaining({
+          Key: 'models/model.bin',
+          UploadId: 'upload-1',
+          MultipartUpload: { Parts: [{ PartNumber: 1, ETag: '"etag-1"' }] },
+        }),
+      );
+    });
+
+    it('should abort a direct upload', async () => {
+      s3Mock.on(AbortMultipartUploadCommand).resolves({});
+
+      const response = await fastify.inject({
+        method: 'POST',
+        url: `/direct-upload/test-bucket/${encodedKey}/abort`,
+        payload: { uploadId: 'upload-1' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)[0].args[0].input.UploadId).toBe(
+        'upload-1',
+      );
+    });
+
+    it('should reject invalid direct upload requests', async () => {
+      const noSize = await fastify.inject({
+        method: 'POST',
+        url: `/direct-upload/test-bucket/${encodedKey}`,
+        payload: {},
+      });
+      expect(noSize.statusCode).toBe(400);
+
+      const noUploadId = await fastify.inject({
+        method: 'POST',
+        url: `/direct-upload/test-bucket/${encodedKey}/complete`,
+        payload: { parts: [{ partNumber: 1, etag: '"etag-1"' }] },
+      });
+      expect(noUploadId.statusCode).toBe(400);
+      expect(JSON.parse(noUploadId.payload).message).toBe('Upload ID is required.');
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(0);
+    });
+  });
+
   describe('DELETE /:bucketName/:encodedKey', () => {
     it('should delete a single object successfully', async () => {
       const key = 'fileToDelete.txt';
@@ -555,6 +959,217 @@ describe('Object Routes', () => {
     });
   });
 
+  describe('Upload sessions', () => {
+    const encodedKey = Buffer.from('uploads/file.txt').toString('base64');
+    const boundary = '--------------------------123456789012345678901234';
+    const payload =
+      `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="file"; filename="file.txt"\r\n` +
+      `Content-Type: text/plain\r\n` +
+      `\r\n` +
+      `content\r\n` +
+      `--${boundary}--\r\n`;
+    const uploadWith = (uploadId: string) =>
+      fastify.inject({
+        method: 'POST',
+        url: `/upload/test-bucket/${encodedKey}?uploadId=${uploadId}`,
+        payload: Buffer.from(payload),
+        headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+      });
+
+    it('should create a session for each upload', async () => {
+      const first = await fastify.inject({ method: 'POST', url: '/upload-sessions' });
+      const second = await fastify.inject({ method: 'POST', url: '/upload-sessions' });
+
+      expect(first.statusCode).toBe(200);
+      expect(JSON.parse(first.payload).uploadId).toEqual(expect.any(String));
+      expect(JSON.parse(first.payload).uploadId).not.toBe(JSON.parse(second.payload).uploadId);
+    });
+
+    it('should abort a session so its upload does not start', async () => {
+      const created = await fastify.inject({ method: 'POST', url: '/upload-sessions' });
+      const { uploadId } = JSON.parse(created.payload);
+
+      const aborted = await fastify.inject({ method: 'GET', url: `/abort-upload/${uploadId}` });
+      expect(aborted.statusCode).toBe(200);
+      expect(JSON.parse(aborted.payload).message).toBe('Upload aborted');
+
+      const response = await uploadWith(uploadId);
+      expect(response.statusCode).toBe(409);
+      expect(Upload).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown sessions', async () => {
+      const progress = await fastify.inject({ method: 'GET', url: '/upload-progress/unknown' });
+      expect(progress.statusCode).toBe(404);
+
+      const aborted = await fastify.inject({ method: 'GET', url: '/abort-upload/unknown' });
+      expect(aborted.statusCode).toBe(404);
+
+      const response = await uploadWith('unknown');
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.payload).error).toBe('NotFound');
+      expect(Upload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('URL imports', () => {
+    it('should record that an import was submitted with custom headers', async () => {
+      const queueJob = jest.spyOn(transferQueue, 'queueJob').mockReturnValue('transfer-url-1');
+
+      try {
+        const response = await fastify.inject({
+          method: 'POST',
+          url: '/url-import',
+          payload: {
+            bucketName: 'test-bucket',
+            urls: ['https://example.com/model.bin'],
+            headers: { Authorization: 'Bearer secret' },
+          },
+        });
+
+        expect(response.statusCode).toBe(200);
+        const options = queueJob.mock.calls[0][3];
+        expect(options?.params).toEqual({ destinationType: 's3', hasHeaders: true });
+        expect(JSON.stringify(options?.params)).not.toContain('secret');
+      } finally {
+        queueJob.mockRestore();
+      }
+    });
+
+    it('should not resume imports that were submitted with custom headers', async () => {
+      const registerExecutorFactory = jest.spyOn(transferQueue, 'registerExecutorFactory');
+
+      try {
+        await require('fastify')().register(objectsRoutes);
+        const [, factory] = registerExecutorFactory.mock.calls.find(
+          ([type]) => type === 'url-import',
+        )!;
+
+        expect(factory({ destinationType: 's3' })).toEqual(expect.any(Function));
+        expect(() => factory({ destinationType: 's3', hasHeaders: true })).toThrow(
+          /re-submit the import with its credentials/,
+        );
+      } finally {
+        registerExecutorFactory.mockRestore();
+      }
+    });
+
+    describe('resuming an import to S3', () => {
+      const partSize = 8 * 1024 * 1024;
+      const content = Buffer.alloc(partSize + 1024, 'a');
+      let server: Server;
+      let requests: IncomingHttpHeaders[];
+      let etags: string[]; // ETag served for each request, the last one is repeated
+
+      beforeEach(async () => {
+        requests = [];
+        server = createServer((req, res) => {
+          requests.push(req.headers);
+          const etag = etags[Math.min(requests.length, etags.length) - 1];
+          const range = /^bytes=(\d+)-$/.exec(req.headers.range || '');
+          if (range && req.headers['if-range'] === etag) {
+            const start = Number(range[1]);
+            res.writeHead(206, { ETag: etag, 'Content-Length': content.length - start });
+            res.end(content.subarray(start));
+            return;
+          }
+          res.writeHead(200, { ETag: etag, 'Content-Length': content.length });
+          res.end(content);
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        s3Mock
+          .on(ListPartsCommand)
+          .resolves({ Parts: [{ PartNumber: 1, ETag: '"p1"', Size: partSize }] });
+        s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'new-upload' });
+        s3Mock.on(UploadPartCommand).resolves({ ETag: '"part"' });
+        s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+      });
+
+      afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+      });
+
+      const runImport = async () => {
+        const registerExecutorFactory = jest.spyOn(transferQueue, 'registerExecutorFactory');
+        try {
+          await require('fastify')().register(objectsRoutes);
+          const [, factory] = registerExecutorFactory.mock.calls.find(
+            ([type]) => type === 'url-import',
+          )!;
+          const fileJob: TransferFileJob = {
+            sourcePath: `http://127.0.0.1:${(server.address() as AddressInfo).port}/model.bin`,
+            destinationPath: 's3:test-bucket/model.bin',
+            size: content.length,
+            loaded: 0,
+            status: 'transferring',
+            sourceETag: '"v1"',
+            // One part uploaded by a previous attempt
+            multipartUpload: {
+              uploadId: 'old-upload',
+              bucket: 'test-bucket',
+              key: 'model.bin',
+              size: content.length,
+              partSize,
+              parts: [{ PartNumber: 1, ETag: '"p1"' }],
+            },
+          };
+          await factory({ destinationType: 's3' })(
+            fileJob,
+            jest.fn(),
+            new AbortController().signal,
+            new BandwidthLimiter(() => 0),
+          );
+          return fileJob;
+        } finally {
+          registerExecutorFactory.mockRestore();
+        }
+      };
+
+      it('should only download the missing parts of an unchanged file', async () => {
+        etags = ['"v1"'];
+
+        await runImport();
+
+        expect(requests[1]).toMatchObject({ range: `bytes=${partSize}-`, 'if-range': '"v1"' });
+        expect(s3Mock.commandCalls(AbortMultipartUploadCommand)).toHaveLength(0);
+        expect(s3Mock.commandCalls(UploadPartCommand)).toHaveLength(1);
+        expect(s3Mock.commandCalls(UploadPartCommand)[0].args[0].input.PartNumber).toBe(2);
+      });
+
+      it('should restart the upload when the file changed since its parts were uploaded', async () => {
+        etags = ['"v2"'];
+
+        const fileJob = await runImport();
+
+        expect(requests).toHaveLength(1);
+        expect(s3Mock.commandCalls(AbortMultipartUploadCommand)[0].args[0].input.UploadId).toBe(
+          'old-upload',
+        );
+        expect(s3Mock.commandCalls(UploadPartCommand)).toHaveLength(2);
+        expect(fileJob.sourceETag).toBe('"v2"');
+      });
+
+      it('should restart the upload when the file changes while resuming', async () => {
+        etags = ['"v1"', '"v2"'];
+
+        const fileJob = await runImport();
+
+        expect(requests[1]).toMatchObject({ range: `bytes=${partSize}-`, 'if-range': '"v1"' });
+        expect(s3Mock.commandCalls(AbortMultipartUploadCommand)[0].args[0].input.UploadId).toBe(
+          'old-upload',
+        );
+        const uploadedParts = s3Mock.commandCalls(UploadPartCommand);
+        expect(uploadedParts.map((call) => call.args[0].input.PartNumber)).toEqual([1, 2]);
+        expect(uploadedParts.every((call) => call.args[0].input.UploadId === 'new-upload')).toBe(
+          true,
+        );
+        expect(fileJob.sourceETag).toBe('"v2"');
+      });
+    });
+  });
+
   describe('POST /upload/:bucketName/:encodedPrefix', () => {
     it('should upload a file successfully', async () => {
       const prefix = 'uploads/';
@@ -7,10 +7,19 @@ import * as configUtils from '../../../../utils/config';
 
 // Mock config utilities
 jest.mock('../../../../utils/config', () => ({
+  DEFAULT_S3_CONNECTION_ID: 'default',
   getS3Config: jest.fn(),
   updateS3Config: jest.fn(),
+  getS3Connections: jest.fn(),
+  saveS3Connection: jest.fn(),
+  removeS3Connection: jest.fn(),
+  isValidS3ConnectionId: jest.requireActual('../../../../utils/config').isValidS3ConnectionId,
   getHFConfig: jest.fn(),
   updateHFConfig: jest.fn(),
+  getHFEndpoint: jest.fn(),
+  updateHFEndpoint: jest.fn(),
+  normalizeHFEndpoint: jest.requireActual('../../../../utils/config').normalizeHFEndpoint,
+  getHFCaCertificates: jest.fn(),
   getMaxConcurrentTransfers: jest.fn(),
   updateMaxConcurrentTransfers: jest.fn(),
   getProxyConfig: jest.fn(),
@@ -110,6 +119,60 @@ describe('Settings Routes', () => {
       });
     });
 
+    // S3 connections
+    describe('S3 connections', () => {
+      it('should list the S3 connections', async () => {
+        (configUtils.getS3Connections as jest.Mock).mockReturnValue([
+          { id: 'default', name: 'Default' },
+          { id: 'archive', name: 'Archive' },
+        ]);
+        const response = await fastify.inject({ method: 'GET', url: '/s3-connections' });
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.payload).connections).toHaveLength(2);
+      });
+
+      it('should save a connection with defaults for missing settings', async () => {
+        const response = await fastify.inject({
+          method: 'PUT',
+          url: '/s3-connections/archive',
+          payload: { endpoint: 'https://minio.example.com', httpsProxy: 'http://proxy:3128' },
+        });
+        expect(response.statusCode).toBe(200);
+        expect(configUtils.saveS3Connection).toHaveBeenCalledWith({
+          id: 'archive',
+          name: 'archive',
+          accessKeyId: '',
+          secretAccessKey: '',
+          region: 'us-east-1',
+          endpoint: 'https://minio.example.com',
+          defaultBucket: '',
+          httpProxy: undefined,
+          httpsProxy: 'http://proxy:3128',
+        });
+      });
+
+      it('should reject an invalid connection id', async () => {
+        const response = await fastify.inject({
+          method: 'PUT',
+          url: '/s3-connections/Not:Valid',
+          payload: {},
+        });
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.payload).error).toBe('ValidationError');
+        expect(configUtils.saveS3Connection).not.toHaveBeenCalled();
+      });
+
+      it('should remove a connection but not the default one', async () => {
+        const removed = await fastify.inject({ method: 'DELETE', url: '/s3-connections/archive' });
+        expect(removed.statusCode).toBe(200);
+        expect(configUtils.removeS3Connection).toHaveBeenCalledWith('archive');
+
+        const rejected = await fastify.inject({ method: 'DELETE', url: '/s3-connections/default' });
+        expect(rejected.statusCode).toBe(400);
+        expect(configUtils.removeS3Connection).toHaveBeenCalledTimes(1);
+      });
+    });
+
     // POST /test-s3
     describe('POST /test-s3', () => {
       it('should test S3 connection successfully', async () => {
@@ -1,20 +1,48 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
+import { Readable } from 'stream';
 import { FastifyInstance } from 'fastify';
-import { S3Client, ListObjectsV2Command, HeadObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  ListObjectsV2Command,
+  HeadObjectCommand,
+  GetObjectTaggingCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCopyCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  GetObjectCommand,
+  ListPartsCommand,
+  PutObjectCommand,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
 import { mockClient } from 'aws-sdk-client-mock';
 import transferRoutes from '../../../../routes/api/transfer';
-import { getS3Config } from '../../../../utils/config';
+import { canCopyBetweenS3Connections, getS3Config } from '../../../../utils/config';
 import { validatePath } from '../../../../utils/localStorage';
 import { listLocalDirectoryRecursive } from '../../../../utils/directoryListing';
+import { transferQueue } from '../../../../utils/transferQueue';
+import { checkRateLimit } from '../../../../utils/rateLimit';
+import { MultipartETagHash } from '../../../../utils/checksum';
 
 // Mock config
-jest.mock('../../../../utils/config', () => ({
-  getS3Config: jest.fn(),
-  getMaxConcurrentTransfers: jest.fn().mockReturnValue(2),
-}));
+jest.mock('../../../../utils/config', () => {
+  const getS3Config = jest.fn();
+  return {
+    getS3Config,
+    // All buckets belong to the mocked default connection
+    getS3Location: (locationId: string) => ({
+      s3Client: (getS3Config() as any).s3Client,
+      bucket: locationId,
+      connectionId: 'default',
+    }),
+    canCopyBetweenS3Connections: jest.fn().mockReturnValue(true),
+    getMaxConcurrentTransfers: jest.fn().mockReturnValue(2),
+  };
+});
 
 // Mock localStorage utils
 jest.mock('../../../../utils/localStorage', () => ({
@@ -29,11 +57,20 @@ jest.mock('../../../../utils/directoryListing', () => ({
 
 // Mock other required utils
 jest.mock('../../../../utils/transferQueue', () => ({
+  isTransferPriority: (jest.requireActual('../../../../utils/transferQueue') as any)
+    .isTransferPriority,
   transferQueue: {
     addJob: jest.fn(),
+    queueJob: jest.fn().mockReturnValue('transfer-1-1'),
     getJob: jest.fn(),
     cancelJob: jest.fn(),
+    retryJob: jest.fn(),
+    pauseJob: jest.fn(),
+    resumeJob: jest.fn(),
     getAllJobs: jest.fn().mockReturnValue([]),
+    getJobs: jest.fn().mockReturnValue([]),
+    registerExecutorFactory: jest.fn(),
+    getMetadataLimiter: () => (fn: () => any) => fn(),
   },
 }));
 
@@ -681,3 +718,470 @@ describe('POST /check-conflicts - Updated Endpoint (Task 1.7)', () => {
     });
   });
 });
+
+describe('POST /:jobId/retry', () => {
+  let fastify: FastifyInstance;
+
+  const failedJob = {
+    id: 'transfer-1-1',
+    type: 'cross-storage',
+    status: 'failed',
+    files: [
+      {
+        sourcePath: 's3:bucket/a.txt',
+        destinationPath: 'local:local-0/a.txt',
+        status: 'completed',
+      },
+      { sourcePath: 's3:bucket/b.txt', destinationPath: 'local:local-0/b.txt', status: 'error' },
+      { sourcePath: 's3:bucket/c.txt', destinationPath: 'local:local-0/c.txt', status: 'error' },
+    ],
+  };
+
+  beforeEach(async () => {
+    const Fastify = require('fastify');
+    fastify = Fastify();
+    await fastify.register(transferRoutes);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should re-queue the failed files of a job', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue(failedJob);
+    (transferQueue.retryJob as jest.Mock).mockReturnValue(true);
+
+    const response = await fastify.inject({ method: 'POST', url: '/transfer-1-1/retry' });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.payload)).toEqual({
+      jobId: 'transfer-1-1',
+      retriedFiles: 2,
+      sseUrl: '/transfer/progress/transfer-1-1',
+    });
+    expect(transferQueue.retryJob).toHaveBeenCalledWith('transfer-1-1');
+  });
+
+  it('should return 404 for an unknown job', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue(undefined);
+
+    const response = await fastify.inject({ method: 'POST', url: '/unknown/retry' });
+
+    expect(response.statusCode).toBe(404);
+    expect(transferQueue.retryJob).not.toHaveBeenCalled();
+  });
+
+  it('should reject jobs that are not failed', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue({ ...failedJob, status: 'active' });
+
+    const response = await fastify.inject({ method: 'POST', url: '/transfer-1-1/retry' });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.payload).error).toBe('InvalidStatus');
+    expect(transferQueue.retryJob).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 when the job can no longer be executed', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue(failedJob);
+    (transferQueue.retryJob as jest.Mock).mockReturnValue(false);
+
+    const response = await fastify.inject({ method: 'POST', url: '/transfer-1-1/retry' });
+
+    expect(response.statusCode).toBe(409);
+    expect(JSON.parse(response.payload).error).toBe('NotRetryable');
+  });
+});
+
+describe('POST /:jobId/pause and /:jobId/resume', () => {
+  let fastify: FastifyInstance;
+
+  const job = { id: 'transfer-1-1', type: 'huggingface', status: 'active', files: [] as unknown[] };
+
+  beforeEach(async () => {
+    const Fastify = require('fastify');
+    fastify = Fastify();
+    await fastify.register(transferRoutes);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should pause an active job', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue(job);
+    (transferQueue.pauseJob as jest.Mock).mockReturnValue(true);
+
+    const response = await fastify.inject({ method: 'POST', url: '/transfer-1-1/pause' });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.payload)).toEqual({ jobId: 'transfer-1-1', status: 'paused' });
+    expect(transferQueue.pauseJob).toHaveBeenCalledWith('transfer-1-1');
+  });
+
+  it('should reject pausing a finished job', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue({ ...job, status: 'completed' });
+    (transferQueue.pauseJob as jest.Mock).mockReturnValue(false);
+
+    const response = await fastify.inject({ method: 'POST', url: '/transfer-1-1/pause' });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.payload).error).toBe('InvalidStatus');
+  });
+
+  it('should resume a paused job', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue({ ...job, status: 'paused' });
+    (transferQueue.resumeJob as jest.Mock).mockReturnValue(true);
+
+    const response = await fastify.inject({ method: 'POST', url: '/transfer-1-1/resume' });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.payload)).toEqual({
+      jobId: 'transfer-1-1',
+      status: 'queued',
+      sseUrl: '/transfer/progress/transfer-1-1',
+    });
+  });
+
+  it('should reject resuming a job that is not paused', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue(job);
+
+    const response = await fastify.inject({ method: 'POST', url: '/transfer-1-1/resume' });
+
+    expect(response.statusCode).toBe(400);
+    expect(transferQueue.resumeJob).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown job', async () => {
+    (transferQueue.getJob as jest.Mock).mockReturnValue(undefined);
+
+    const pause = await fastify.inject({ method: 'POST', url: '/unknown/pause' });
+    const resume = await fastify.inject({ method: 'POST', url: '/unknown/resume' });
+
+    expect(pause.statusCode).toBe(404);
+    expect(resume.statusCode).toBe(404);
+  });
+});
+
+describe('GET /', () => {
+  let fastify: FastifyInstance;
+
+  beforeEach(async () => {
+    const Fastify = require('fastify');
+    fastify = Fastify();
+    await fastify.register(transferRoutes);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list job summaries with their progress URL', async () => {
+    (transferQueue.getJobs as jest.Mock).mockReturnValue([
+      {
+        id: 'transfer-2-1',
+        type: 'cross-storage',
+        status: 'active',
+        progress: { totalFiles: 2, completedFiles: 1, failedFiles: 0, percentage: 50 },
+        files: [
+          { sourcePath: 's3:bucket/a.bin', destinationPath: 'local:local-0/a.bin' },
+          { sourcePath: 's3:bucket/b.bin', destinationPath: 'local:local-0/b.bin' },
+        ],
+        createdAt: new Date('2026-01-01T10:00:00Z'),
+      },
+    ]);
+
+    const response = await fastify.inject({ method: 'GET', url: '/' });
+
+    expect(response.statusCode).toBe(200);
+    const { jobs } = JSON.parse(response.payload);
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({
+      jobId: 'transfer-2-1',
+      type: 'cross-storage',
+      status: 'active',
+      sourcePath: 's3:bucket/a.bin',
+      destinationPath: 'local:local-0/a.bin',
+      createdAt: '2026-01-01T10:00:00.000Z',
+      sseUrl: '/transfer/progress/transfer-2-1',
+    });
+    expect(jobs[0].files).toBeUndefined();
+  });
+
+  it('should pass status, type and time range filters to the queue', async () => {
+    const response = await fastify.inject({
+      method: 'GET',
+      url: '/?status=active,paused&type=huggingface&since=2026-01-01T00:00:00Z&until=2026-01-02T00:00:00Z',
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(transferQueue.getJobs).toHaveBeenCalledWith({
+      status: ['active', 'paused'],
+      type: ['huggingface'],
+      createdAfter: new Date('2026-01-01T00:00:00Z'),
+      createdBefore: new Date('2026-01-02T00:00:00Z'),
+    });
+  });
+
+  it('should reject an unknown status', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/?status=running' });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.payload).error).toBe('InvalidQuery');
+    expect(transferQueue.getJobs).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid timestamp', async () => {
+    const response = await fastify.inject({ method: 'GET', url: '/?since=yesterday' });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.payload).message).toContain('since');
+  });
+});
+
+describe('POST / priority', () => {
+  let fastify: FastifyInstance;
+  let tmpDir: string;
+
+  const request = (priority?: string) => ({
+    source: { type: 'local', locationId: 'local-0', path: '' },
+    destination: { type: 'local', locationId: 'local-1', path: '' },
+    items: [{ path: 'config.json', type: 'file' }],
+    conflictResolution: 'overwrite',
+    priority,
+  });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'transfer-priority-'));
+    const filePath = path.join(tmpDir, 'config.json');
+    await fs.writeFile(filePath, '{}');
+    (validatePath as jest.Mock<any>).mockResolvedValue(filePath);
+    (checkRateLimit as jest.Mock).mockReturnValueOnce(false);
+
+    const Fastify = require('fastify');
+    fastify = Fastify();
+    await fastify.register(transferRoutes);
+  });
+
+  afterEach(async () => {
+    jest.clearAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should queue the job with the requested priority', async () => {
+    const response = await fastify.inject({ method: 'POST', url: '/', payload: request('high') });
+
+    expect(response.statusCode).toBe(200);
+    expect(transferQueue.queueJob).toHaveBeenCalledWith(
+      'cross-storage',
+      expect.any(Array),
+      expect.any(Function),
+      expect.objectContaining({ priority: 'high' }),
+    );
+  });
+
+  it('should reject an unknown priority', async () => {
+    const response = await fastify.inject({ method: 'POST', url: '/', payload: request('urgent') });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.payload).message).toContain('priority');
+    expect(transferQueue.queueJob).not.toHaveBeenCalled();
+  });
+});
+
+describe('S3 to S3 copies', () => {
+  const s3Mock = mockClient(S3Client);
+  const MiB = 1024 * 1024;
+
+  // Executor of the cross-storage jobs, as rebuilt for restored jobs
+  const createExecutor = async () => {
+    const Fastify = require('fastify');
+    const fastify: FastifyInstance = Fastify();
+    await fastify.register(transferRoutes);
+    const [, factory] = (transferQueue.registerExecutorFactory as jest.Mock).mock.calls[0] as [
+      string,
+      (params: any) => any,
+    ];
+    return factory({
+      source: { type: 's3', locationId: 'source-bucket', path: '' },
+      destination: { type: 's3', locationId: 'dest-bucket', path: '' },
+      conflictResolution: 'overwrite',
+    });
+  };
+
+  beforeEach(() => {
+    s3Mock.reset();
+    (getS3Config as jest.Mock).mockReturnValue({ s3Client: new S3Client({ region: 'us-east-1' }) });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should keep the headers, metadata and tags of objects copied part by part', async () => {
+    s3Mock.on(HeadObjectCommand).resolves({
+      ContentLength: 600 * MiB,
+      ETag: '"source-etag-5"',
+      ContentType: 'application/octet-stream',
+      CacheControl: 'no-cache',
+      Metadata: { origin: 'training' },
+      StorageClass: 'STANDARD_IA',
+      ServerSideEncryption: 'AES256',
+    });
+    s3Mock.on(GetObjectTaggingCommand).resolves({
+      TagSet: [
+        { Key: 'team', Value: 'ml' },
+        { Key: 'stage', Value: 'prod & test' },
+      ],
+    });
+    s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+    s3Mock.on(UploadPartCopyCommand).resolves({ CopyPartResult: { ETag: '"part"' } });
+    s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+
+    const executor = await createExecutor();
+    const fileJob = {
+      sourcePath: 's3:source-bucket/model.bin',
+      destinationPath: 's3:dest-bucket/model.bin',
+      size: 0,
+      loaded: 0,
+      status: 'transferring',
+    };
+    await executor(fileJob, jest.fn(), new AbortController().signal);
+
+    expect(s3Mock.commandCalls(CreateMultipartUploadCommand)[0].args[0].input).toEqual(
+      expect.objectContaining({
+        Bucket: 'dest-bucket',
+        Key: 'model.bin',
+        ContentType: 'application/octet-stream',
+        CacheControl: 'no-cache',
+        Metadata: { origin: 'training' },
+        StorageClass: 'STANDARD_IA',
+        ServerSideEncryption: 'AES256',
+        Tagging: 'team=ml&stage=prod%20%26%20test',
+      }),
+    );
+    expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(1);
+  });
+
+  it('should copy objects whose key has special characters', async () => {
+    s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 100, ETag: '"etag"' });
+    s3Mock.on(CopyObjectCommand).resolves({ CopyObjectResult: { ETag: '"etag"' } });
+
+    const executor = await createExecutor();
+    await executor(
+      {
+        sourcePath: 's3:source-bucket/reports/Q1 #2?.csv',
+        destinationPath: 's3:dest-bucket/reports/Q1 #2?.csv',
+        size: 0,
+        loaded: 0,
+        status: 'transferring',
+      },
+      jest.fn(),
+      new AbortController().signal,
+    );
+
+    expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toEqual(
+      expect.objectContaining({
+        Key: 'reports/Q1 #2?.csv',
+        CopySource: 'source-bucket/reports/Q1%20%232%3F.csv',
+      }),
+    );
+  });
+
+  describe('between connections that cannot copy server-side', () => {
+    const md5 = (data: Buffer) => createHash('md5').update(data).digest('hex');
+
+    const mockSource = (data: Buffer, destETag: string) => {
+      s3Mock.on(HeadObjectCommand, { Bucket: 'source-bucket' }).resolves({
+        ContentLength: data.length,
+        ETag: '"source-etag"',
+        ContentType: 'application/json',
+        Metadata: { origin: 'training' },
+        StorageClass: 'GLACIER_IR',
+      });
+      s3Mock.on(HeadObjectCommand, { Bucket: 'dest-bucket' }).resolves({ ETag: `"${destETag}"` });
+      s3Mock.on(GetObjectCommand).callsFake((input) => {
+        const [start, end] = (input.Range ?? `bytes=0-${data.length - 1}`)
+          .replace('bytes=', '')
+          .split('-')
+          .map((value: string) => (value ? Number(value) : data.length - 1));
+        return { Body: Readable.from([data.subarray(start, end + 1)]) };
+      });
+    };
+
+    const runExecutor = async (fileJob: any) => {
+      (canCopyBetweenS3Connections as jest.Mock).mockReturnValue(false);
+      const executor = await createExecutor();
+      await executor(fileJob, jest.fn(), new AbortController().signal);
+    };
+
+    afterEach(() => {
+      (canCopyBetweenS3Connections as jest.Mock).mockReturnValue(true);
+    });
+
+    it('should keep the content type and metadata of streamed objects', async () => {
+      const data = Buffer.from('{"weights": []}');
+      mockSource(data, md5(data));
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      await runExecutor({
+        sourcePath: 's3:source-bucket/config.json',
+        destinationPath: 's3:dest-bucket/config.json',
+        size: 0,
+        loaded: 0,
+        status: 'transferring',
+      });
+
+      const input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+      expect(input).toEqual(
+        expect.objectContaining({
+          Bucket: 'dest-bucket',
+          Key: 'config.json',
+          ContentType: 'application/json',
+          Metadata: { origin: 'training' },
+        }),
+      );
+      // The storage class is specific to the source service
+      expect(input.StorageClass).toBeUndefined();
+    });
+
+    it('should resume a streamed upload without downloading the uploaded parts again', async () => {
+      const data = Buffer.alloc(17 * MiB, 7);
+      const etagHash = new MultipartETagHash(8 * MiB);
+      etagHash.update(data);
+      mockSource(data, etagHash.digest());
+      s3Mock.on(ListPartsCommand).resolves({
+        Parts: [
+          { PartNumber: 1, ETag: '"etag-1"', Size: 8 * MiB },
+          { PartNumber: 2, ETag: '"etag-2"', Size: 8 * MiB },
+        ],
+      });
+      s3Mock.on(UploadPartCommand).resolves({ ETag: '"etag-3"' });
+      s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+
+      await runExecutor({
+        sourcePath: 's3:source-bucket/model.bin',
+        destinationPath: 's3:dest-bucket/model.bin',
+        size: 17 * MiB,
+        loaded: 0,
+        status: 'transferring',
+        sourceETag: '"source-etag"',
+        multipartUpload: {
+          uploadId: 'upload-1',
+          bucket: 'dest-bucket',
+          key: 'model.bin',
+          size: 17 * MiB,
+          partSize: 8 * MiB,
+          parts: [
+            { PartNumber: 1, ETag: '"etag-1"', MD5: md5(data.subarray(0, 8 * MiB)) },
+            { PartNumber: 2, ETag: '"etag-2"', MD5: md5(data.subarray(8 * MiB, 16 * MiB)) },
+          ],
+        },
+      });
+
+      expect(s3Mock.commandCalls(GetObjectCommand).map((call) => call.args[0].input.Range)).toEqual(
+        [`bytes=${16 * MiB}-`],
+      );
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Readable } from 'stream';
+import {
+  BandwidthLimiter,
+  createThrottleTransform,
+  throttleStream,
+} from '../../utils/bandwidthThrottle';
+
+describe('Bandwidth Throttle', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('BandwidthLimiter', () => {
+    it('should not delay chunks without a limit', () => {
+      const limiter = new BandwidthLimiter(() => 0);
+
+      expect(limiter.reserve(1024 * 1024)).toBe(0);
+      expect(limiter.reserve(1024 * 1024)).toBe(0);
+    });
+
+    it('should delay chunks beyond the budget', () => {
+      const limiter = new BandwidthLimiter(() => 1000);
+
+      expect(limiter.reserve(500)).toBe(0);
+      expect(limiter.reserve(500)).toBe(500);
+      expect(limiter.reserve(1000)).toBe(1000);
+
+      // Time catches up with the reserved budget
+      jest.advanceTimersByTime(2000);
+      expect(limiter.reserve(100)).toBe(0);
+    });
+
+    it('should apply a changed limit immediately', () => {
+      let limit = 1000;
+      const limiter = new BandwidthLimiter(() => limit);
+
+      limiter.reserve(10000);
+      expect(limiter.reserve(1000)).toBe(10000);
+
+      limit = 0;
+      expect(limiter.reserve(1000)).toBe(0);
+
+      limit = 2000;
+      expect(limiter.reserve(1000)).toBe(0);
+      expect(limiter.reserve(1000)).toBe(500);
+    });
+
+    it('should apply the longer wait of a limiter and its parent', () => {
+      const parent = new BandwidthLimiter(() => 1000);
+      const first = new BandwidthLimiter(() => 0, parent);
+      const second = new BandwidthLimiter(() => 4000, parent);
+
+      expect(first.reserve(1000)).toBe(0);
+      // Budget of the parent is shared by both children
+      expect(second.reserve(1000)).toBe(1000);
+      expect(second.reserve(1000)).toBe(2000);
+    });
+  });
+
+  describe('throttleStream', () => {
+    it('should return the source as is without a limiter', () => {
+      const source = Readable.from(['data']);
+
+      expect(throttleStream(source)).toBe(source);
+    });
+
+    it('should pass all chunks on in order', async () => {
+      jest.useRealTimers();
+      const limiter = new BandwidthLimiter(() => 1024 * 1024);
+      const source = Readable.from([Buffer.from('abc'), Buffer.from('def')]);
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of throttleStream(source, limiter)) {
+        chunks.push(chunk);
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe('abcdef');
+    });
+
+    it('should hold a chunk back until its budget is available', () => {
+      const limiter = new BandwidthLimiter(() => 100);
+      const transform = createThrottleTransform(limiter);
+      const received: string[] = [];
+      transform.on('data', (chunk) => received.push(chunk.toString()));
+
+      transform.write(Buffer.alloc(100, 'a'));
+      transform.write(Buffer.alloc(100, 'b'));
+      expect(received).toHaveLength(1);
+
+      jest.advanceTimersByTime(1000);
+      expect(received).toHaveLength(2);
+    });
+
+    it('should release a held back chunk when destroyed', () => {
+      const limiter = new BandwidthLimiter(() => 100);
+      const transform = createThrottleTransform(limiter);
+      transform.on('data', () => undefined);
+
+      transform.write(Buffer.alloc(100));
+      transform.write(Buffer.alloc(100));
+      transform.destroy();
+
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { GetObjectCommand, HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import {
+  ChecksumMismatchError,
+  digestFile,
+  getComparableETag,
+  hashStream,
+  MultipartETagHash,
+  verifyChecksum,
+  verifyS3Object,
+} from '../../utils/checksum';
+import { TransferFileJob } from '../../utils/transferQueue';
+
+const md5 = (data: Buffer) => createHash('md5').update(data).digest('hex');
+
+describe('Checksum Utilities', () => {
+  let fileJob: TransferFileJob;
+
+  beforeEach(() => {
+    fileJob = {
+      sourcePath: 'local:local-0/model.bin',
+      destinationPath: 's3:bucket/model.bin',
+      size: 0,
+      loaded: 0,
+      status: 'transferring',
+    };
+  });
+
+  describe('MultipartETagHash', () => {
+    it('should compute the ETag S3 gives to a multipart upload', () => {
+      const data = Buffer.from('0123456789');
+      const expected = createHash('md5')
+        .update(
+          Buffer.concat([
+            createHash('md5').update(data.subarray(0, 4)).digest(),
+            createHash('md5').update(data.subarray(4, 8)).digest(),
+            createHash('md5').update(data.subarray(8)).digest(),
+          ]),
+        )
+        .digest('hex');
+
+      // Chunks that don't line up with the parts
+      const hash = new MultipartETagHash(4);
+      hash.update(data.subarray(0, 3));
+      hash.update(data.subarray(3, 9));
+      hash.update(data.subarray(9));
+
+      expect(hash.digest()).toBe(`${expected}-3`);
+    });
+
+    it('should continue from the MD5s of parts hashed before', () => {
+      const data = Buffer.from('0123456789');
+      const full = new MultipartETagHash(4);
+      full.update(data);
+
+      const resumed = new MultipartETagHash(4).addPartDigests([
+        md5(data.subarray(0, 4)),
+        md5(data.subarray(4, 8)),
+      ]);
+      resumed.update(data.subarray(8));
+
+      expect(resumed.digest()).toBe(full.digest());
+      expect(() => resumed.addPartDigests([md5(data)])).toThrow();
+    });
+  });
+
+  describe('getComparableETag', () => {
+    it('should return MD5 and multipart ETags without quotes', () => {
+      const etag = md5(Buffer.from('data'));
+
+      expect(getComparableETag({ ETag: `"${etag.toUpperCase()}"` })).toBe(etag);
+      expect(getComparableETag({ ETag: `"${etag}-12"` })).toBe(`${etag}-12`);
+    });
+
+    it('should ignore ETags that are not a digest of the content', () => {
+      const etag = `"${md5(Buffer.from('data'))}"`;
+
+      expect(getComparableETag({ ETag: etag, ServerSideEncryption: 'aws:kms' })).toBeUndefined();
+      expect(getComparableETag({ ETag: etag, SSECustomerAlgorithm: 'AES256' })).toBeUndefined();
+      expect(getComparableETag({ ETag: '"not-a-digest"' })).toBeUndefined();
+      expect(getComparableETag({})).toBeUndefined();
+    });
+
+    it('should keep ETags of objects encrypted with SSE-S3', () => {
+      const etag = md5(Buffer.from('data'));
+
+      expect(getComparableETag({ ETag: `"${etag}"`, ServerSideEncryption: 'AES256' })).toBe(etag);
+    });
+  });
+
+  describe('verifyChecksum', () => {
+    it('should record a matching checksum on the file job', () => {
+      verifyChecksum(fileJob, 'sha256', 'abc', 'abc', 'destination');
+
+      expect(fileJob.checksum).toEqual({
+        algorithm: 'sha256',
+        value: 'abc',
+        verifiedAgainst: 'destination',
+      });
+    });
+
+    it('should throw on a mismatch', () => {
+      expect(() => verifyChecksum(fileJob, 'md5', 'abc', 'def', 'etag')).toThrow(
+        ChecksumMismatchError,
+      );
+      expect(fileJob.checksum).toBeUndefined();
+    });
+  });
+
+  describe('digestFile and hashStream', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checksum-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should digest a whole file or its beginning', async () => {
+      const filePath = path.join(tmpDir, 'model.bin');
+      fs.writeFileSync(filePath, 'partial data');
+
+      const whole = createHash('md5');
+      await digestFile(filePath, whole);
+      const beginning = createHash('md5');
+      await digestFile(filePath, beginning, 7);
+      const empty = createHash('md5');
+      await digestFile(filePath, empty, 0);
+
+      expect(whole.digest('hex')).toBe(md5(Buffer.from('partial data')));
+      expect(beginning.digest('hex')).toBe(md5(Buffer.from('partial')));
+      expect(empty.digest('hex')).toBe(md5(Buffer.alloc(0)));
+    });
+
+    it('should hash a stream while passing it on', async () => {
+      const hash = createHash('md5');
+      const chunks: Buffer[] = [];
+      for await (const chunk of hashStream(
+        Readable.from([Buffer.from('ab'), Buffer.from('c')]),
+        hash,
+      )) {
+        chunks.push(chunk);
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe('abc');
+      expect(hash.digest('hex')).toBe(md5(Buffer.from('abc')));
+    });
+  });
+
+  describe('verifyS3Object', () => {
+    const s3Mock = mockClient(S3Client);
+    let s3Client: S3Client;
+    const data = Buffer.from('model weights');
+
+    beforeEach(() => {
+      s3Mock.reset();
+      s3Client = new S3Client({ region: 'us-east-1' });
+    });
+
+    it('should compare with the ETag of the object', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ETag: `"${md5(data)}"` });
+
+      await verifyS3Object(s3Client, 'bucket', 'model.bin', fileJob, md5(data), () =>
+        createHash('md5'),
+      );
+
+      expect(fileJob.checksum).toEqual({
+        algorithm: 'md5',
+        value: md5(data),
+        verifiedAgainst: 'etag',
+      });
+      expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+    });
+
+    it('should fail when the ETag does not match', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ETag: `"${md5(Buffer.from('other'))}"` });
+
+      await expect(
+        verifyS3Object(s3Client, 'bucket', 'model.bin', fileJob, md5(data), () =>
+          createHash('md5'),
+        ),
+      ).rejects.toThrow(ChecksumMismatchError);
+    });
+
+    it('should re-read the object when its ETag is not comparable', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ETag: `"${md5(data)}-2"` });
+      s3Mock.on(GetObjectCommand).resolves({ Body: Readable.from([data]) as any });
+
+      await verifyS3Object(s3Client, 'bucket', 'model.bin', fileJob, md5(data), () =>
+        createHash('md5'),
+      );
+
+      expect(fileJob.checksum).toEqual({
+        algorithm: 'md5',
+        value: md5(data),
+        verifiedAgainst: 'destination',
+      });
+    });
+  });
+});
@@ -1,3 +1,6 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import {
   getLocalStoragePaths,
   getMaxFileSizeGB,
@@ -9,8 +12,21 @@ import {
   getMaxConcurrentTransfers,
   getS3Config,
   updateS3Config,
+  getS3Connections,
+  saveS3Connection,
+  removeS3Connection,
+  getS3Location,
+  formatS3LocationId,
+  parseS3LocationId,
+  S3ConnectionNotFoundError,
+  canCopyBetweenS3Connections,
   getHFConfig,
   updateHFConfig,
+  getHFEndpoint,
+  updateHFEndpoint,
+  normalizeHFEndpoint,
+  getHFCaCertificates,
+  DEFAULT_HF_ENDPOINT,
   getProxyConfig,
   updateProxyConfig,
   updateMaxConcurrentTransfers,
@@ -196,6 +212,197 @@ describe('Configuration', () => {
     });
   });
 
+  describe('S3 Connections', () => {
+    const archive = {
+      id: 'archive',
+      name: 'Archive',
+      accessKeyId: 'archiveKeyId',
+      secretAccessKey: 'archiveSecret',
+      region: 'eu-west-1',
+      endpoint: 'https://archive.example.com',
+      defaultBucket: 'models',
+    };
+
+    afterEach(() => {
+      if (getS3Connections().some((c) => c.id === 'archive')) {
+        removeS3Connection('archive');
+      }
+    });
+
+    it('should keep the default connection first', () => {
+      saveS3Connection(archive);
+
+      const connections = getS3Connections();
+      expect(connections.map((c) => c.id)).toEqual(['default', 'archive']);
+      expect(getS3Config('archive').endpoint).toBe('https://archive.example.com');
+      expect(getS3Config('archive').s3Client).not.toBe(getS3Config().s3Client);
+    });
+
+    it('should resolve location ids to the client of their connection', () => {
+      saveS3Connection(archive);
+
+      expect(getS3Location('archive:models')).toEqual({
+        s3Client: getS3Config('archive').s3Client,
+        bucket: 'models',
+        connectionId: 'archive',
+      });
+      expect(getS3Location('models').s3Client).toBe(getS3Config().s3Client);
+      expect(() => getS3Location('unknown:models')).toThrow(S3ConnectionNotFoundError);
+    });
+
+    it('should only copy server-side between connections to the same service', () => {
+      saveS3Connection(archive);
+      saveS3Connection({ ...getS3Connections()[0], id: 'mirror', name: 'Mirror' });
+
+      expect(canCopyBetweenS3Connections('archive', 'archive')).toBe(true);
+      expect(canCopyBetweenS3Connections('default', 'mirror')).toBe(true);
+      expect(canCopyBetweenS3Connections('default', 'archive')).toBe(false);
+      expect(() => canCopyBetweenS3Connections('default', 'unknown')).toThrow(
+        S3ConnectionNotFoundError,
+      );
+
+      removeS3Connection('mirror');
+    });
+
+    it('should use plain bucket names as location ids of the default connection', () => {
+      expect(formatS3LocationId('default', 'models')).toBe('models');
+      expect(formatS3LocationId('archive', 'models')).toBe('archive:models');
+      expect(parseS3LocationId('models')).toEqual({ connectionId: 'default', bucket: 'models' });
+      expect(parseS3LocationId('archive:models')).toEqual({
+        connectionId: 'archive',
+        bucket: 'models',
+      });
+    });
+
+    it('should reject invalid ids and removing the default connection', () => {
+      expect(() => saveS3Connection({ ...archive, id: 'has:colon' })).toThrow();
+      expect(() => removeS3Connection('default')).toThrow();
+      expect(() => removeS3Connection('unknown')).toThrow(S3ConnectionNotFoundError);
+    });
+
+    it('should parse additional connections from S3_CONNECTIONS', () => {
+      const originalValue = process.env.S3_CONNECTIONS;
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      process.env.S3_CONNECTIONS = JSON.stringify([
+        { id: 'archive', endpoint: 'https://archive.example.com' },
+        { id: 'default' },
+        { id: 'Invalid Id' },
+      ]);
+
+      jest.resetModules();
+      const { getS3Connections: getConnectionsFresh } = require('../../utils/config');
+
+      const connections = getConnectionsFresh();
+      expect(connections.map((c: any) => c.id)).toEqual(['default', 'archive']);
+      expect(connections[1]).toMatchObject({ name: 'archive', region: 'us-east-1' });
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('default'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('Invalid Id'));
+
+      process.env.S3_CONNECTIONS = originalValue;
+      consoleWarnSpy.mockRestore();
+      jest.resetModules();
+    });
+
+    it('should skip S3_CONNECTIONS entries that are not connections', () => {
+      const originalValue = process.env.S3_CONNECTIONS;
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      process.env.S3_CONNECTIONS = JSON.stringify([null, 'archive', { id: 'archive' }]);
+
+      jest.resetModules();
+      const { getS3Connections: getConnectionsFresh } = require('../../utils/config');
+
+      expect(getConnectionsFresh().map((c: any) => c.id)).toEqual(['default', 'archive']);
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('entry 0'));
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('entry 1'));
+
+      process.env.S3_CONNECTIONS = originalValue;
+      consoleWarnSpy.mockRestore();
+      jest.resetModules();
+    });
+  });
+
+  describe('Data Connections', () => {
+    const originalEnv = process.env;
+    let tmpDir: string;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.S3_CONNECTIONS;
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-connections-'));
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+      jest.resetModules();
+    });
+
+    it('should register suffixed groups of AWS_* variables', () => {
+      process.env.AWS_ACCESS_KEY_ID_MODELS_ARCHIVE = 'archiveKeyId';
+      process.env.AWS_SECRET_ACCESS_KEY_MODELS_ARCHIVE = 'archiveSecret';
+      process.env.AWS_S3_ENDPOINT_MODELS_ARCHIVE = 'https://archive.example.com';
+      process.env.AWS_S3_BUCKET_MODELS_ARCHIVE = 'models';
+
+      jest.resetModules();
+      const { getS3Connections: getConnectionsFresh } = require('../../utils/config');
+
+      expect(getConnectionsFresh()[1]).toEqual({
+        id: 'models-archive',
+        name: 'models-archive',
+        accessKeyId: 'archiveKeyId',
+        secretAccessKey: 'archiveSecret',
+        region: 'us-east-1',
+        endpoint: 'https://archive.example.com',
+        defaultBucket: 'models',
+        source: 'data-connection',
+        sourceDetail: 'AWS_*_MODELS_ARCHIVE environment variables',
+      });
+    });
+
+    it('should register Data Connection secrets mounted as directories', () => {
+      const secretDir = path.join(tmpDir, 'aws-connection-minio');
+      fs.mkdirSync(secretDir);
+      fs.writeFileSync(path.join(secretDir, 'AWS_ACCESS_KEY_ID'), 'minioKeyId\n');
+      fs.writeFileSync(path.join(secretDir, 'AWS_S3_ENDPOINT'), 'https://minio.example.com');
+      // Not a Data Connection
+      fs.mkdirSync(path.join(tmpDir, 'other'));
+      process.env.S3_DATA_CONNECTIONS_DIR = tmpDir;
+
+      jest.resetModules();
+      const { getS3Connections: getConnectionsFresh } = require('../../utils/config');
+
+      const connections = getConnectionsFresh();
+      expect(connections.map((c: any) => c.id)).toEqual(['default', 'minio']);
+      expect(connections[0]).toMatchObject({ source: 'environment' });
+      expect(connections[1]).toMatchObject({
+        accessKeyId: 'minioKeyId',
+        endpoint: 'https://minio.example.com',
+        source: 'data-connection',
+        sourceDetail: secretDir,
+      });
+    });
+
+    it('should skip Data Connection secrets that cannot be read', () => {
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const secretDir = path.join(tmpDir, 'aws-connection-minio');
+      fs.mkdirSync(secretDir);
+      fs.writeFileSync(path.join(secretDir, 'AWS_S3_ENDPOINT'), 'https://minio.example.com');
+      // Dangling symlink, e.g. a secret removed while its directory is listed
+      fs.symlinkSync(path.join(tmpDir, 'removed'), path.join(tmpDir, 'aws-connection-broken'));
+      process.env.S3_DATA_CONNECTIONS_DIR = tmpDir;
+
+      jest.resetModules();
+      const { getS3Connections: getConnectionsFresh } = require('../../utils/config');
+
+      expect(getConnectionsFresh().map((c: any) => c.id)).toEqual(['default', 'minio']);
+      expect(consoleWarnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('aws-connection-broken'),
+        expect.any(String),
+      );
+      consoleWarnSpy.mockRestore();
+    });
+  });
+
   describe('HuggingFace Configuration', () => {
     it('should get HF token', () => {
       const token = getHFConfig();
@@ -206,6 +413,54 @@ describe('Configuration', () => {
       updateHFConfig('hf_newtesttoken');
       expect(getHFConfig()).toBe('hf_newtesttoken');
     });
+
+    it('should normalize HF endpoints', () => {
+      expect(normalizeHFEndpoint('https://hf-mirror.example.com/')).toBe(
+        'https://hf-mirror.example.com',
+      );
+      expect(normalizeHFEndpoint('http://artifactory:8081/api/huggingfaceml/hf//')).toBe(
+        'http://artifactory:8081/api/huggingfaceml/hf',
+      );
+      expect(normalizeHFEndpoint('hf-mirror.example.com')).toBeNull();
+      expect(normalizeHFEndpoint('ftp://hf-mirror.example.com')).toBeNull();
+      expect(normalizeHFEndpoint('https://hf-mirror.example.com/?token=x')).toBeNull();
+    });
+
+    it('should update the HF endpoint and restore the default when cleared', () => {
+      updateHFEndpoint('https://hf-mirror.example.com/');
+      expect(getHFEndpoint()).toBe('https://hf-mirror.example.com');
+
+      expect(() => updateHFEndpoint('not a url')).toThrow('Invalid HuggingFace endpoint');
+      expect(getHFEndpoint()).toBe('https://hf-mirror.example.com');
+
+      updateHFEndpoint('');
+      expect(getHFEndpoint()).toBe(DEFAULT_HF_ENDPOINT);
+    });
+
+    it('should add the HF_CA_BUNDLE certificates to the default ones', () => {
+      const originalCaBundle = process.env.HF_CA_BUNDLE;
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hf-ca-'));
+      const caBundlePath = path.join(tmpDir, 'ca.pem');
+      const pem = '-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----\n';
+      fs.writeFileSync(caBundlePath, pem);
+
+      try {
+        delete process.env.HF_CA_BUNDLE;
+        expect(getHFCaCertificates()).toBeUndefined();
+
+        process.env.HF_CA_BUNDLE = caBundlePath;
+        const certificates = getHFCaCertificates();
+        expect(certificates?.[certificates.length - 1]).toBe(pem);
+        expect(certificates!.length).toBeGreaterThan(1);
+      } finally {
+        if (originalCaBundle === undefined) {
+          delete process.env.HF_CA_BUNDLE;
+        } else {
+          process.env.HF_CA_BUNDLE = originalCaBundle;
+        }
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('Proxy Configuration', () => {
@@ -223,6 +478,100 @@ describe('Configuration', () => {
     });
   });
 
+  describe('Settings Persistence', () => {
+    const originalEnv = process.env;
+
+    const loadConfig = (saved: any = {}) => {
+      jest.resetModules();
+      const config = require('../../utils/config');
+      const store = {
+        load: jest.fn().mockReturnValue(saved),
+        save: jest.fn().mockResolvedValue(undefined),
+      };
+      config.enableSettingsPersistence(store);
+      return { config, store };
+    };
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.SETTINGS_PRECEDENCE;
+      delete process.env.HF_TOKEN;
+      delete process.env.S3_CONNECTIONS;
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+      jest.resetModules();
+    });
+
+    it('should save changed settings only', () => {
+      const { config, store } = loadConfig();
+
+      config.updateMaxFilesPerPage(500);
+      config.updateHFConfig('hf_saved');
+
+      expect(store.save).toHaveBeenLastCalledWith({ maxFilesPerPage: 500, hfToken: 'hf_saved' });
+    });
+
+    it('should apply saved settings over environment variables', () => {
+      process.env.MAX_FILES_PER_PAGE = '200';
+
+      const { config } = loadConfig({ maxFilesPerPage: 500, hfToken: 'hf_saved' });
+
+      expect(config.getMaxFilesPerPage()).toBe(500);
+      expect(config.getHFConfig()).toBe('hf_saved');
+    });
+
+    it('should save and restore the HF endpoint', () => {
+      delete process.env.HF_ENDPOINT;
+      const { config, store } = loadConfig({ hfEndpoint: 'https://hf-mirror.example.com' });
+      expect(config.getHFEndpoint()).toBe('https://hf-mirror.example.com');
+
+      config.updateHFEndpoint('https://other-mirror.example.com/');
+      expect(store.save).toHaveBeenLastCalledWith({
+        hfEndpoint: 'https://other-mirror.example.com',
+      });
+    });
+
+    it('should let environment variables win with SETTINGS_PRECEDENCE=environment', () => {
+      process.env.SETTINGS_PRECEDENCE = 'environment';
+      process.env.MAX_FILES_PER_PAGE = '200';
+
+      const { config } = loadConfig({ maxFilesPerPage: 500, hfToken: 'hf_saved' });
+
+      expect(config.getMaxFilesPerPage()).toBe(200);
+      // HF_TOKEN is not set, the saved token applies
+      expect(config.getHFConfig()).toBe('hf_saved');
+    });
+
+    it('should restore saved connections and keep removed ones removed', () => {
+      process.env.S3_CONNECTIONS = JSON.stringify([{ id: 'legacy' }]);
+      const archive = {
+        id: 'archive',
+        name: 'Archive',
+        accessKeyId: 'archiveKeyId',
+        secretAccessKey: 'archiveSecret',
+        region: 'eu-west-1',
+        endpoint: 'https://archive.example.com',
+        defaultBucket: 'models',
+      };
+
+      const { config, store } = loadConfig({
+        s3Connections: [archive],
+        removedS3Connections: ['legacy'],
+      });
+
+      expect(config.getS3Connections().map((c: any) => c.id)).toEqual(['default', 'archive']);
+      expect(config.getS3Config('archive').secretAccessKey).toBe('archiveSecret');
+
+      config.removeS3Connection('archive');
+      expect(store.save).toHaveBeenLastCalledWith({
+        s3Connections: [],
+        removedS3Connections: ['legacy', 'archive'],
+      });
+    });
+  });
+
   describe('Environment variable parsing edge cases', () => {
     it('should handle invalid MAX_FILE_SIZE_GB', () => {
       const originalValue = process.env.MAX_FILE_SIZE_GB;
@@ -0,0 +1,135 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import {
+  abortDirectUpload,
+  completeDirectUpload,
+  getDirectUploadPartUrls,
+  initiateDirectUpload,
+} from '../../utils/directUpload';
+
+const MiB = 1024 * 1024;
+
+describe('Direct Upload', () => {
+  const s3Mock = mockClient(S3Client);
+  let s3Client: S3Client;
+
+  beforeEach(() => {
+    s3Mock.reset();
+    s3Client = new S3Client({
+      region: 'us-east-1',
+      endpoint: 'https://s3.example.com',
+      forcePathStyle: true,
+      credentials: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' },
+    });
+  });
+
+  describe('initiateDirectUpload', () => {
+    it('should start a multipart upload and return its part layout', async () => {
+      s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+
+      const upload = await initiateDirectUpload(
+        s3Client,
+        'bucket',
+        'model.bin',
+        20 * MiB,
+        'application/octet-stream',
+      );
+
+      expect(upload).toEqual({
+        uploadId: 'upload-1',
+        key: 'model.bin',
+        partSize: 8 * MiB,
+        partCount: 3,
+      });
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)[0].args[0].input).toEqual({
+        Bucket: 'bucket',
+        Key: 'model.bin',
+        ContentType: 'application/octet-stream',
+      });
+    });
+
+    it('should grow the parts to stay within 10000 parts', async () => {
+      s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+
+      const upload = await initiateDirectUpload(s3Client, 'bucket', 'huge.bin', 200 * 1024 * MiB);
+
+      expect(upload.partCount).toBeLessThanOrEqual(10000);
+      expect(upload.partSize * upload.partCount).toBeGreaterThanOrEqual(200 * 1024 * MiB);
+    });
+  });
+
+  describe('getDirectUploadPartUrls', () => {
+    it('should sign a PUT URL for each part', async () => {
+      const parts = await getDirectUploadPartUrls(
+        s3Client,
+        'bucket',
+        'model.bin',
+        'upload-1',
+        [1, 2],
+      );
+
+      expect(parts.map((part) => part.partNumber)).toEqual([1, 2]);
+      const url = new URL(parts[1].url);
+      expect(url.pathname).toBe('/bucket/model.bin');
+      expect(url.searchParams.get('uploadId')).toBe('upload-1');
+      expect(url.searchParams.get('partNumber')).toBe('2');
+      expect(url.searchParams.get('x-id')).toBe('UploadPart');
+      expect(url.searchParams.get('X-Amz-Signature')).toBeTruthy();
+      expect(url.searchParams.has('x-amz-checksum-crc32')).toBe(false);
+    });
+  });
+
+  describe('completeDirectUpload', () => {
+    it('should complete the upload with the parts sorted by part number', async () => {
+      s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+
+      await completeDirectUpload(s3Client, 'bucket', 'model.bin', 'upload-1', [
+        { partNumber: 2, etag: '"etag-2"' },
+        { partNumber: 1, etag: '"etag-1"' },
+      ]);
+
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)[0].args[0].input).toEqual({
+        Bucket: 'bucket',
+        Key: 'model.bin',
+        UploadId: 'upload-1',
+        MultipartUpload: {
+          Parts: [
+            { PartNumber: 1, ETag: '"etag-1"' },
+            { PartNumber: 2, ETag: '"etag-2"' },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('abortDirectUpload', () => {
+    it('should ignore uploads that no longer exist', async () => {
+      s3Mock.on(AbortMultipartUploadCommand).rejects(
+        new S3ServiceException({
+          name: 'NoSuchUpload',
+          $fault: 'client',
+          message: 'The specified upload does not exist.',
+          $metadata: { httpStatusCode: 404 },
+        }),
+      );
+
+      await expect(
+        abortDirectUpload(s3Client, 'bucket', 'model.bin', 'upload-1'),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should rethrow other errors', async () => {
+      s3Mock.on(AbortMultipartUploadCommand).rejects(new Error('Access Denied'));
+
+      await expect(abortDirectUpload(s3Client, 'bucket', 'model.bin', 'upload-1')).rejects.toThrow(
+        'Access Denied',
+      );
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { Agent as HttpsAgent } from 'https';
+import {
+  filterHuggingFaceFiles,
+  getHuggingFaceAxiosOptions,
+  getHuggingFaceFileUrl,
+  getHuggingFaceRepoInfoUrl,
+  getHuggingFaceWhoAmIUrl,
+  isHuggingFaceRepoType,
+  normalizeHuggingFacePatterns,
+  PARQUET_CONVERSION_REVISION,
+  validateHuggingFaceRevision,
+} from '../../utils/huggingFace';
+
+const HF = 'https://huggingface.co';
+
+describe('HuggingFace', () => {
+  describe('isHuggingFaceRepoType', () => {
+    it('should accept models and datasets', () => {
+      expect(isHuggingFaceRepoType('model')).toBe(true);
+      expect(isHuggingFaceRepoType('dataset')).toBe(true);
+      expect(isHuggingFaceRepoType('space')).toBe(false);
+      expect(isHuggingFaceRepoType(undefined)).toBe(false);
+    });
+  });
+
+  describe('getHuggingFaceRepoInfoUrl', () => {
+    it('should use the API path of the repository type', () => {
+      expect(getHuggingFaceRepoInfoUrl(HF, 'model', 'ibm-granite/granite-3.1-2b-instruct')).toBe(
+        'https://huggingface.co/api/models/ibm-granite/granite-3.1-2b-instruct',
+      );
+      expect(getHuggingFaceRepoInfoUrl(HF, 'dataset', 'openai/gsm8k')).toBe(
+        'https://huggingface.co/api/datasets/openai/gsm8k',
+      );
+    });
+
+    it('should describe the requested revision', () => {
+      expect(
+        getHuggingFaceRepoInfoUrl(HF, 'dataset', 'openai/gsm8k', PARQUET_CONVERSION_REVISION),
+      ).toBe('https://huggingface.co/api/datasets/openai/gsm8k/revision/refs%2Fconvert%2Fparquet');
+      expect(getHuggingFaceRepoInfoUrl(HF, 'model', 'openai/gpt-oss-20b', 'v1.0', true)).toBe(
+        'https://huggingface.co/api/models/openai/gpt-oss-20b/revision/v1.0?blobs=true',
+      );
+    });
+  });
+
+  describe('validateHuggingFaceRevision', () => {
+    it('should accept branches, tags and commits', () => {
+      expect(validateHuggingFaceRevision(undefined)).toBeNull();
+      expect(validateHuggingFaceRevision('main')).toBeNull();
+      expect(validateHuggingFaceRevision('refs/pr/12')).toBeNull();
+      expect(validateHuggingFaceRevision('a1b2c3d4e5f6')).toBeNull();
+    });
+
+    it('should reject empty and malformed revisions', () => {
+      expect(validateHuggingFaceRevision('')).toContain('must be a branch');
+      expect(validateHuggingFaceRevision(42)).toContain('must be a branch');
+      expect(validateHuggingFaceRevision('main branch')).toContain('Invalid revision');
+      expect(validateHuggingFaceRevision('../main')).toContain('Invalid revision');
+    });
+  });
+
+  describe('normalizeHuggingFacePatterns', () => {
+    it('should accept a single pattern or a list of patterns', () => {
+      expect(normalizeHuggingFacePatterns(undefined)).toBeUndefined();
+      expect(normalizeHuggingFacePatterns('*.gguf')).toEqual(['*.gguf']);
+      expect(normalizeHuggingFacePatterns(['*.json', 'onnx/'])).toEqual(['*.json', 'onnx/*']);
+    });
+
+    it('should reject patterns that are not strings', () => {
+      expect(normalizeHuggingFacePatterns([42])).toBeNull();
+      expect(normalizeHuggingFacePatterns([''])).toBeNull();
+    });
+  });
+
+  describe('filterHuggingFaceFiles', () => {
+    const files = [
+      'README.md',
+      'config.json',
+      'model-Q4_K_M.gguf',
+      'model-Q8_0.gguf',
+      'onnx/model.onnx',
+      'original/[draft].bin',
+    ];
+    const filter = (allowPatterns?: string[], ignorePatterns?: string[]) =>
+      filterHuggingFaceFiles(files, (file) => file, allowPatterns, ignorePatterns);
+
+    it('should keep all files without patterns', () => {
+      expect(filter()).toEqual(files);
+    });
+
+    it('should keep files matching any allow pattern and no ignore pattern', () => {
+      expect(filter(['*Q4_K_M.gguf', '*.json'])).toEqual(['config.json', 'model-Q4_K_M.gguf']);
+      expect(filter(undefined, ['*.gguf', 'onnx/*'])).toEqual([
+        'README.md',
+        'config.json',
+        'original/[draft].bin',
+      ]);
+      expect(filter(['*.gguf'], ['*Q8_0*'])).toEqual(['model-Q4_K_M.gguf']);
+    });
+
+    it('should match patterns with the semantics of fnmatch', () => {
+      // "*" also matches "/", as in huggingface_hub
+      expect(filter(['*.onnx'])).toEqual(['onnx/model.onnx']);
+      expect(filter(['model-Q?_0.gguf'])).toEqual(['model-Q8_0.gguf']);
+      expect(filter(['model-Q[!4]*'])).toEqual(['model-Q8_0.gguf']);
+      expect(filter(['original/[[]draft].bin'])).toEqual(['original/[draft].bin']);
+      expect(filter(['readme.md'])).toEqual([]);
+    });
+  });
+
+  describe('getHuggingFaceFileUrl', () => {
+    it('should resolve model files from the repository root', () => {
+      expect(
+        getHuggingFaceFileUrl(
+          HF,
+          'model',
+          'ibm-granite/granite-3.1-2b-instruct',
+          'main',
+          'config.json',
+        ),
+      ).toBe('https://huggingface.co/ibm-granite/granite-3.1-2b-instruct/resolve/main/config.json');
+    });
+
+    it('should resolve dataset files and encode the revision and file names', () => {
+      expect(
+        getHuggingFaceFileUrl(
+          HF,
+          'dataset',
+          'openai/gsm8k',
+          PARQUET_CONVERSION_REVISION,
+          'main/train/0000 #1.parquet',
+        ),
+      ).toBe(
+        'https://huggingface.co/datasets/openai/gsm8k/resolve/refs%2Fconvert%2Fparquet/main/train/0000%20%231.parquet',
+      );
+    });
+  });
+
+  describe('mirror endpoints', () => {
+    const mirror = 'https://artifactory.example.com/api/huggingfaceml/hf-remote';
+
+    it('should build all URLs from the endpoint', () => {
+      expect(getHuggingFaceRepoInfoUrl(mirror, 'model', 'org/model')).toBe(
+        `${mirror}/api/models/org/model`,
+      );
+      expect(getHuggingFaceFileUrl(mirror, 'model', 'org/model', 'main', 'config.json')).toBe(
+        `${mirror}/org/model/resolve/main/config.json`,
+      );
+      expect(getHuggingFaceWhoAmIUrl(mirror)).toBe(`${mirror}/api/whoami-v2`);
+    });
+  });
+
+  describe('getHuggingFaceAxiosOptions', () => {
+    const noProxy = { httpProxy: '', httpsProxy: '' };
+
+    it('should authenticate with the token', () => {
+      expect(getHuggingFaceAxiosOptions(`${HF}/api/whoami-v2`, noProxy).headers).toEqual({});
+      expect(
+        getHuggingFaceAxiosOptions(`${HF}/api/whoami-v2`, { ...noProxy, hfToken: 'hf_token' })
+          .headers,
+      ).toEqual({ Authorization: 'Bearer hf_token' });
+    });
+
+    it('should trust the custom CA with or without proxy', () => {
+      const ca = ['-----BEGIN CERTIFICATE-----'];
+
+      expect(getHuggingFaceAxiosOptions(`${HF}/api/models/x`, noProxy).httpsAgent).toBeUndefined();
+
+      const direct = getHuggingFaceAxiosOptions(`${HF}/api/models/x`, { ...noProxy, ca });
+      expect(direct.httpsAgent).toBeInstanceOf(HttpsAgent);
+      expect(direct.httpsAgent.options.ca).toBe(ca);
+
+      const proxied = getHuggingFaceAxiosOptions(`${HF}/api/models/x`, {
+        httpProxy: '',
+        httpsProxy: 'http://proxy.example.com:3128',
+        ca,
+      });
+      expect(proxied.httpsAgent).toBeInstanceOf(HttpsProxyAgent);
+      expect(proxied.proxy).toBe(false);
+    });
+  });
+});
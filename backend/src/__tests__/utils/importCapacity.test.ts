@@ -0,0 +1,52 @@
+import { checkImportCapacity } from '../../utils/importCapacity';
+
+const GiB = 1024 * 1024 * 1024;
+
+describe('Import Capacity', () => {
+  const files = [
+    { path: 'config.json', size: 1024 },
+    { path: 'model-00001-of-00002.safetensors', size: 5 * GiB },
+    { path: 'model-00002-of-00002.safetensors', size: 3 * GiB },
+  ];
+
+  it('should accept imports that fit in the destination', () => {
+    const capacity = checkImportCapacity(files, 100 * GiB, 20 * GiB);
+
+    expect(capacity.totalSize).toBe(8 * GiB + 1024);
+    expect(capacity.insufficientSpace).toBe(false);
+    expect(capacity.oversizedFiles).toEqual([]);
+    expect(capacity.errors).toEqual([]);
+    expect(capacity.warnings).toEqual([]);
+  });
+
+  it('should refuse local imports larger than the available space', () => {
+    const capacity = checkImportCapacity(files, 6 * GiB, 20 * GiB);
+
+    expect(capacity.insufficientSpace).toBe(true);
+    expect(capacity.errors).toEqual(['The import needs 8.00GB but only 6.00GB are available.']);
+  });
+
+  it('should refuse local files over the size limit and only warn for S3', () => {
+    const local = checkImportCapacity(files, 100 * GiB, 4 * GiB);
+    expect(local.oversizedFiles).toEqual(['model-00001-of-00002.safetensors']);
+    expect(local.errors[0]).toContain('exceed the 4.00GB file size limit');
+
+    const s3 = checkImportCapacity(files, null, 4 * GiB);
+    expect(s3.availableSpace).toBeNull();
+    expect(s3.errors).toEqual([]);
+    expect(s3.warnings[0]).toContain('model-00001-of-00002.safetensors');
+  });
+
+  it('should warn about files of unknown size', () => {
+    const capacity = checkImportCapacity(
+      [...files, { path: 'README.md', size: null }, { path: 'LICENSE' }],
+      100 * GiB,
+      20 * GiB,
+    );
+
+    expect(capacity.totalSize).toBe(8 * GiB + 1024);
+    expect(capacity.unknownSizeFiles).toBe(2);
+    expect(capacity.errors).toEqual([]);
+    expect(capacity.warnings).toEqual(['The size of 2 file(s) is unknown and not counted.']);
+  });
+});
@@ -34,6 +34,7 @@ import {
   deleteFileOrDirectory,
   getFileMetadata,
   checkFileSize,
+  getAvailableSpace,
   streamFile,
   SecurityError,
   NotFoundError,
@@ -564,6 +565,37 @@ describe('Local Storage Utilities - Security Tests', () => {
     });
   });
 
+  describe('getAvailableSpace', () => {
+    it('should return the space available on the filesystem of the nearest existing path', async () => {
+      const { fs } = require('memfs');
+      const originalStatfs = fs.promises.statfs;
+      fs.promises.statfs = jest.fn(async (checkedPath: string) => {
+        if (checkedPath !== '/opt/app-root/src/data') {
+          throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+        }
+        return { bavail: 1000, bsize: 4096 };
+      });
+
+      await expect(getAvailableSpace('/opt/app-root/src/data/models/new')).resolves.toBe(
+        1000 * 4096,
+      );
+
+      fs.promises.statfs = originalStatfs;
+    });
+
+    it('should throw StorageError when the filesystem cannot be queried', async () => {
+      const { fs } = require('memfs');
+      const originalStatfs = fs.promises.statfs;
+      fs.promises.statfs = jest
+        .fn()
+        .mockRejectedValue(Object.assign(new Error('EACCES'), { code: 'EACCES' }));
+
+      await expect(getAvailableSpace('/opt/app-root/src/data')).rejects.toThrow(StorageError);
+
+      fs.promises.statfs = originalStatfs;
+    });
+  });
+
   describe('Custom Errors', () => {
     it('SecurityError should have correct name', () => {
       const error = new SecurityError('test');
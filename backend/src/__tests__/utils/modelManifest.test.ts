@@ -0,0 +1,143 @@
+import {
+  buildModelManifest,
+  getHuggingFaceFileChecksum,
+  MODEL_MANIFEST_VERSION,
+  parseModelConfig,
+} from '../../utils/modelManifest';
+
+describe('Model Manifest', () => {
+  describe('getHuggingFaceFileChecksum', () => {
+    it('should use the SHA-256 of LFS files and the git blob id of the others', () => {
+      expect(
+        getHuggingFaceFileChecksum({
+          blobId: '1f2e3d',
+          lfs: { sha256: 'a1b2c3' },
+        }),
+      ).toEqual({ algorithm: 'sha256', value: 'a1b2c3' });
+      expect(getHuggingFaceFileChecksum({ blobId: '1f2e3d' })).toEqual({
+        algorithm: 'git-sha1',
+        value: '1f2e3d',
+      });
+      expect(getHuggingFaceFileChecksum({})).toBeUndefined();
+    });
+  });
+
+  describe('parseModelConfig', () => {
+    it('should extract the fields used to deploy a model', () => {
+      expect(
+        parseModelConfig({
+          architectures: ['LlamaForCausalLM'],
+          model_type: 'llama',
+          torch_dtype: 'bfloat16',
+          max_position_embeddings: 131072,
+          hidden_size: 4096,
+          num_hidden_layers: 32,
+          num_attention_heads: 32,
+          num_key_value_heads: 8,
+          vocab_size: 128256,
+          quantization_config: { quant_method: 'fp8' },
+          transformers_version: '4.45.0',
+          rope_scaling: { factor: 8.0 },
+        }),
+      ).toEqual({
+        modelType: 'llama',
+        architectures: ['LlamaForCausalLM'],
+        dtype: 'bfloat16',
+        maxPositionEmbeddings: 131072,
+        hiddenSize: 4096,
+        numHiddenLayers: 32,
+        numAttentionHeads: 32,
+        numKeyValueHeads: 8,
+        vocabSize: 128256,
+        quantization: 'fp8',
+        transformersVersion: '4.45.0',
+      });
+    });
+
+    it('should read the language model of multimodal configs and the new dtype field', () => {
+      const summary = parseModelConfig({
+        architectures: ['LlavaForConditionalGeneration'],
+        model_type: 'llava',
+        dtype: 'float16',
+        text_config: { model_type: 'mistral', hidden_size: 5120, num_hidden_layers: 40 },
+      });
+
+      expect(summary?.modelType).toBe('llava');
+      expect(summary?.dtype).toBe('float16');
+      expect(summary?.hiddenSize).toBe(5120);
+      expect(summary?.numHiddenLayers).toBe(40);
+    });
+
+    it('should ignore configs that are not objects and fields of the wrong type', () => {
+      expect(parseModelConfig(null)).toBeUndefined();
+      expect(parseModelConfig(['llama'])).toBeUndefined();
+      expect(parseModelConfig({ hidden_size: '4096', architectures: 'Llama' })).toEqual(
+        expect.objectContaining({ hiddenSize: undefined, architectures: undefined }),
+      );
+    });
+  });
+
+  describe('buildModelManifest', () => {
+    it('should list the imported files with their checksums', () => {
+      const manifest = buildModelManifest(
+        {
+          endpoint: 'https://huggingface.co',
+          repoType: 'model',
+          repoId: 'ibm-granite/granite-3.1-2b-instruct',
+          revision: 'main',
+          sha: 'abc123',
+          checksums: {
+            'model.safetensors': { algorithm: 'sha256', value: 'a1b2c3' },
+            'config.json': { algorithm: 'git-sha1', value: '1f2e3d' },
+          },
+        },
+        [
+          { path: 'model.safetensors', size: 5000 },
+          { path: 'config.json', size: 700 },
+          { path: 'README.md', size: 300 },
+        ],
+        { model_type: 'granite', torch_dtype: 'bfloat16' },
+        new Date('2026-01-02T03:04:05Z'),
+      );
+
+      expect(manifest).toEqual({
+        manifestVersion: MODEL_MANIFEST_VERSION,
+        source: 'huggingface',
+        endpoint: 'https://huggingface.co',
+        repoType: 'model',
+        repoId: 'ibm-granite/granite-3.1-2b-instruct',
+        revision: 'main',
+        sha: 'abc123',
+        importedAt: '2026-01-02T03:04:05.000Z',
+        totalSize: 6000,
+        files: [
+          { path: 'config.json', size: 700, checksum: { algorithm: 'git-sha1', value: '1f2e3d' } },
+          {
+            path: 'model.safetensors',
+            size: 5000,
+            checksum: { algorithm: 'sha256', value: 'a1b2c3' },
+          },
+          { path: 'README.md', size: 300, checksum: undefined },
+        ],
+        config: expect.objectContaining({ modelType: 'granite', dtype: 'bfloat16' }),
+      });
+    });
+
+    it('should leave the config out when it was not imported', () => {
+      const manifest = buildModelManifest(
+        {
+          endpoint: 'https://huggingface.co',
+          repoType: 'dataset',
+          repoId: 'openai/gsm8k',
+          revision: 'refs/convert/parquet',
+          checksums: {},
+        },
+        [{ path: 'main/train/0000.parquet', size: 2048 }],
+      );
+
+      expect(manifest.config).toBeUndefined();
+      expect(manifest.sha).toBeUndefined();
+      expect(manifest.totalSize).toBe(2048);
+    });
+  });
+});
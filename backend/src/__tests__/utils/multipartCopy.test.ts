@@ -0,0 +1,207 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  ListPartsCommand,
+  S3Client,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import {
+  copyObjectMultipart,
+  getCopyPartSize,
+  getCopySource,
+  shouldUseMultipartCopy,
+} from '../../utils/multipartCopy';
+import { TransferFileJob } from '../../utils/transferQueue';
+
+const MiB = 1024 * 1024;
+const GiB = 1024 * MiB;
+
+describe('Multipart Copy', () => {
+  const s3Mock = mockClient(S3Client);
+  let s3Client: S3Client;
+  let fileJob: TransferFileJob;
+  const onProgress = jest.fn();
+
+  // 300 MiB source: two full 128 MiB parts and a 44 MiB last part
+  const size = 300 * MiB;
+
+  const copy = (
+    options: { abortSignal?: AbortSignal; sourceETag?: string; sourceVersionId?: string } = {},
+  ) =>
+    copyObjectMultipart({
+      s3Client,
+      sourceBucket: 'source-bucket',
+      sourceKey: 'models/model.safetensors',
+      sourceETag: '"source-etag"',
+      bucket: 'dest-bucket',
+      key: 'models/model.safetensors',
+      size,
+      fileJob,
+      onProgress,
+      ...options,
+    });
+
+  beforeEach(() => {
+    s3Mock.reset();
+    onProgress.mockClear();
+    s3Client = new S3Client({ region: 'us-east-1' });
+    fileJob = {
+      sourcePath: 's3:source-bucket/models/model.safetensors',
+      destinationPath: 's3:dest-bucket/models/model.safetensors',
+      size,
+      loaded: 0,
+      status: 'transferring',
+    };
+
+    s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+    s3Mock
+      .on(UploadPartCopyCommand)
+      .callsFake((input) => ({ CopyPartResult: { ETag: `"etag-${input.PartNumber}"` } }));
+    s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+    s3Mock.on(AbortMultipartUploadCommand).resolves({});
+  });
+
+  describe('shouldUseMultipartCopy', () => {
+    it('should copy large objects part by part', () => {
+      expect(shouldUseMultipartCopy(100 * MiB)).toBe(false);
+      expect(shouldUseMultipartCopy(6 * GiB)).toBe(true);
+    });
+  });
+
+  describe('getCopyPartSize', () => {
+    it('should grow the part size to stay within 10000 parts', () => {
+      expect(getCopyPartSize(size)).toBe(128 * MiB);
+
+      const partSize = getCopyPartSize(2000 * GiB);
+      expect(partSize % MiB).toBe(0);
+      expect(Math.ceil((2000 * GiB) / partSize)).toBeLessThanOrEqual(10000);
+    });
+  });
+
+  describe('getCopySource', () => {
+    it.each([
+      ['what?.txt', 'what%3F.txt'],
+      ['notes#1.md', 'notes%231.md'],
+      ['100%.csv', '100%25.csv'],
+      ['a+b.bin', 'a%2Bb.bin'],
+      ['my model/weights v2.bin', 'my%20model/weights%20v2.bin'],
+      ['données/模型.bin', 'donn%C3%A9es/%E6%A8%A1%E5%9E%8B.bin'],
+      ['model.bin?versionId=v1', 'model.bin%3FversionId%3Dv1'],
+    ])('should encode the key %s', (key, encoded) => {
+      expect(getCopySource('bucket', key)).toBe(`bucket/${encoded}`);
+    });
+
+    it('should add the version after the encoded key', () => {
+      expect(getCopySource('bucket', 'dir/a?b.bin', 'v1/+')).toBe(
+        'bucket/dir/a%3Fb.bin?versionId=v1%2F%2B',
+      );
+    });
+  });
+
+  describe('copyObjectMultipart', () => {
+    it('should copy all parts by range and complete the upload', async () => {
+      await copy();
+
+      const partCalls = s3Mock.commandCalls(UploadPartCopyCommand);
+      expect(partCalls.map((call) => call.args[0].input.CopySourceRange).sort()).toEqual([
+        `bytes=0-${128 * MiB - 1}`,
+        `bytes=${128 * MiB}-${256 * MiB - 1}`,
+        `bytes=${256 * MiB}-${size - 1}`,
+      ]);
+      expect(partCalls[0].args[0].input.CopySource).toBe('source-bucket/models/model.safetensors');
+      expect(partCalls[0].args[0].input.CopySourceIfMatch).toBe('"source-etag"');
+
+      const completeCalls = s3Mock.commandCalls(CompleteMultipartUploadCommand);
+      expect(completeCalls[0].args[0].input.MultipartUpload?.Parts).toEqual([
+        { PartNumber: 1, ETag: '"etag-1"' },
+        { PartNumber: 2, ETag: '"etag-2"' },
+        { PartNumber: 3, ETag: '"etag-3"' },
+      ]);
+      expect(onProgress).toHaveBeenLastCalledWith(size);
+      expect(fileJob.multipartUpload).toBeUndefined();
+    });
+
+    it('should copy a given version of the source', async () => {
+      await copy({ sourceVersionId: '3/L4kqtJlc+pX' });
+
+      expect(s3Mock.commandCalls(UploadPartCopyCommand)[0].args[0].input.CopySource).toBe(
+        'source-bucket/models/model.safetensors?versionId=3%2FL4kqtJlc%2BpX',
+      );
+    });
+
+    it('should only copy the parts missing from a recorded upload', async () => {
+      fileJob.sourceETag = '"source-etag"';
+      fileJob.multipartUpload = {
+        uploadId: 'upload-1',
+        bucket: 'dest-bucket',
+        key: 'models/model.safetensors',
+        size,
+        partSize: 128 * MiB,
+        parts: [],
+      };
+      s3Mock.on(ListPartsCommand).resolves({
+        Parts: [{ PartNumber: 2, ETag: '"etag-2"', Size: 128 * MiB }],
+      });
+
+      await copy();
+
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)).toHaveLength(0);
+      expect(
+        s3Mock
+          .commandCalls(UploadPartCopyCommand)
+          .map((call) => call.args[0].input.PartNumber)
+          .sort(),
+      ).toEqual([1, 3]);
+      expect(onProgress).toHaveBeenCalledWith(128 * MiB);
+      expect(
+        s3Mock.commandCalls(CompleteMultipartUploadCommand)[0].args[0].input.MultipartUpload?.Parts,
+      ).toHaveLength(3);
+    });
+
+    it('should start over when the source changed since the copy started', async () => {
+      fileJob.sourceETag = '"previous-etag"';
+      fileJob.multipartUpload = {
+        uploadId: 'stale',
+        bucket: 'dest-bucket',
+        key: 'models/model.safetensors',
+        size,
+        partSize: 128 * MiB,
+        parts: [{ PartNumber: 1, ETag: '"etag-1"' }],
+      };
+
+      await copy();
+
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)[0].args[0].input.UploadId).toBe(
+        'stale',
+      );
+      expect(s3Mock.commandCalls(UploadPartCopyCommand)).toHaveLength(3);
+    });
+
+    it('should keep the copied parts when a part fails', async () => {
+      s3Mock
+        .on(UploadPartCopyCommand, { PartNumber: 2 })
+        .rejects(Object.assign(new Error('socket hang up'), { name: 'NetworkError' }));
+
+      await expect(copy()).rejects.toThrow('socket hang up');
+
+      expect(fileJob.multipartUpload?.uploadId).toBe('upload-1');
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(0);
+    });
+
+    it('should abort the multipart upload when the transfer is cancelled', async () => {
+      const controller = new AbortController();
+      s3Mock.on(UploadPartCopyCommand).callsFake(() => {
+        controller.abort();
+        throw Object.assign(new Error('Request aborted'), { name: 'AbortError' });
+      });
+
+      await expect(copy({ abortSignal: controller.signal })).rejects.toThrow();
+
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)).toHaveLength(1);
+      expect(fileJob.multipartUpload).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  PutObjectTaggingCommand,
+  S3Client,
+  S3ServiceException,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import { getObjectDetails, putObjectTags, updateObjectMetadata } from '../../utils/objectDetails';
+
+const MiB = 1024 * 1024;
+
+describe('Object Details', () => {
+  const s3Mock = mockClient(S3Client);
+  let s3Client: S3Client;
+
+  beforeEach(() => {
+    s3Mock.reset();
+    s3Client = new S3Client({ region: 'us-east-1' });
+  });
+
+  describe('getObjectDetails', () => {
+    it('should return the headers, metadata, tags, checksum and encryption', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 1024,
+        ContentType: 'application/json',
+        ETag: '"etag"',
+        Metadata: { source: 'huggingface' },
+        ChecksumSHA256: 'c2hhMjU2',
+        ChecksumType: 'FULL_OBJECT',
+        ServerSideEncryption: 'aws:kms',
+        SSEKMSKeyId: 'key-1',
+      });
+      s3Mock.on(GetObjectTaggingCommand).resolves({ TagSet: [{ Key: 'team', Value: 'ml' }] });
+
+      const details = await getObjectDetails(s3Client, 'bucket', 'config.json');
+
+      expect(s3Mock.commandCalls(HeadObjectCommand)[0].args[0].input.ChecksumMode).toBe('ENABLED');
+      expect(details).toEqual(
+        expect.objectContaining({
+          key: 'config.json',
+          size: 1024,
+          contentType: 'application/json',
+          storageClass: 'STANDARD',
+          metadata: { source: 'huggingface' },
+          tags: { team: 'ml' },
+          checksum: { algorithm: 'SHA256', value: 'c2hhMjU2', type: 'FULL_OBJECT' },
+          encryption: { algorithm: 'aws:kms', kmsKeyId: 'key-1', bucketKeyEnabled: undefined },
+        }),
+      );
+    });
+
+    it('should return null tags when tagging is not supported', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 10 });
+      s3Mock.on(GetObjectTaggingCommand).rejects(
+        new S3ServiceException({
+          name: 'NotImplemented',
+          $fault: 'server',
+          message: 'A header you provided implies functionality that is not implemented',
+          $metadata: { httpStatusCode: 501 },
+        }),
+      );
+
+      const details = await getObjectDetails(s3Client, 'bucket', 'file.txt');
+
+      expect(details.tags).toBeNull();
+      expect(details.checksum).toBeUndefined();
+      expect(details.encryption).toBeUndefined();
+    });
+  });
+
+  describe('updateObjectMetadata', () => {
+    it('should copy the object over itself with the new metadata and its other headers', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 100,
+        ETag: '"etag"',
+        ContentType: 'text/plain',
+        CacheControl: 'no-cache',
+        StorageClass: 'STANDARD_IA',
+        Metadata: { old: 'value' },
+      });
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      await updateObjectMetadata(s3Client, 'bucket', 'notes.txt', { metadata: { new: 'value' } });
+
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toEqual(
+        expect.objectContaining({
+          Bucket: 'bucket',
+          Key: 'notes.txt',
+          CopySource: 'bucket/notes.txt',
+          CopySourceIfMatch: '"etag"',
+          MetadataDirective: 'REPLACE',
+          Metadata: { new: 'value' },
+          ContentType: 'text/plain',
+          CacheControl: 'no-cache',
+          StorageClass: 'STANDARD_IA',
+        }),
+      );
+    });
+
+    it('should keep the headers and tags of large objects copied part by part', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({
+        ContentLength: 600 * MiB,
+        ETag: '"etag"',
+        ContentType: 'application/octet-stream',
+        Metadata: { source: 'huggingface' },
+      });
+      s3Mock.on(GetObjectTaggingCommand).resolves({ TagSet: [{ Key: 'team', Value: 'ml ops' }] });
+      s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+      s3Mock
+        .on(UploadPartCopyCommand)
+        .callsFake((input) => ({ CopyPartResult: { ETag: `"etag-${input.PartNumber}"` } }));
+      s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+
+      await updateObjectMetadata(s3Client, 'bucket', 'model.bin', { contentType: 'model/x-bin' });
+
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)[0].args[0].input).toEqual(
+        expect.objectContaining({
+          Bucket: 'bucket',
+          Key: 'model.bin',
+          ContentType: 'model/x-bin',
+          Metadata: { source: 'huggingface' },
+          Tagging: 'team=ml%20ops',
+        }),
+      );
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('putObjectTags', () => {
+    it('should replace the tag set', async () => {
+      s3Mock.on(PutObjectTaggingCommand).resolves({});
+
+      await putObjectTags(s3Client, 'bucket', 'file.txt', { team: 'ml', stage: 'prod' });
+
+      expect(s3Mock.commandCalls(PutObjectTaggingCommand)[0].args[0].input.Tagging).toEqual({
+        TagSet: [
+          { Key: 'team', Value: 'ml' },
+          { Key: 'stage', Value: 'prod' },
+        ],
+      });
+    });
+  });
+});
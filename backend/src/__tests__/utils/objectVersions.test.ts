@@ -0,0 +1,172 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AbortMultipartUploadCommand,
+  CopyObjectCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  ListObjectVersionsCommand,
+  S3Client,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import { listObjectVersions, restoreObjectVersion } from '../../utils/objectVersions';
+
+const MiB = 1024 * 1024;
+
+describe('Object Versions', () => {
+  const s3Mock = mockClient(S3Client);
+  let s3Client: S3Client;
+
+  beforeEach(() => {
+    s3Mock.reset();
+    s3Client = new S3Client({ region: 'us-east-1' });
+  });
+
+  describe('listObjectVersions', () => {
+    it('should merge versions and delete markers from the latest to the oldest', async () => {
+      s3Mock.on(ListObjectVersionsCommand).resolves({
+        Versions: [
+          {
+            Key: 'model.bin',
+            VersionId: 'v2',
+            IsLatest: false,
+            LastModified: new Date('2026-01-02'),
+            Size: 200,
+            ETag: '"e2"',
+          },
+          {
+            Key: 'model.bin',
+            VersionId: 'v1',
+            IsLatest: false,
+            LastModified: new Date('2026-01-01'),
+            Size: 100,
+            ETag: '"e1"',
+          },
+        ],
+        DeleteMarkers: [
+          {
+            Key: 'model.bin',
+            VersionId: 'd1',
+            IsLatest: true,
+            LastModified: new Date('2026-01-03'),
+          },
+        ],
+      });
+
+      const page = await listObjectVersions(s3Client, 'bucket', { prefix: 'model.bin' });
+
+      expect(page.versions.map((version) => version.versionId)).toEqual(['d1', 'v2', 'v1']);
+      expect(page.versions[0]).toEqual(
+        expect.objectContaining({ isLatest: true, isDeleteMarker: true }),
+      );
+      expect(page.versions[0].size).toBeUndefined();
+      expect(page.versions[1]).toEqual(
+        expect.objectContaining({ isLatest: false, isDeleteMarker: false, size: 200 }),
+      );
+      expect(page.isTruncated).toBe(false);
+      expect(page.nextKeyMarker).toBeNull();
+    });
+
+    it('should only keep the versions of the exact key', async () => {
+      s3Mock.on(ListObjectVersionsCommand).resolves({
+        Versions: [
+          { Key: 'model.bin', VersionId: 'v1', LastModified: new Date('2026-01-01') },
+          { Key: 'model.bin.sha256', VersionId: 'v2', LastModified: new Date('2026-01-02') },
+        ],
+        IsTruncated: true,
+        NextKeyMarker: 'model.bin.sha256',
+        NextVersionIdMarker: 'v2',
+      });
+
+      const page = await listObjectVersions(s3Client, 'bucket', {
+        prefix: 'model.bin',
+        exactKey: true,
+      });
+
+      expect(page.versions.map((version) => version.key)).toEqual(['model.bin']);
+      // Another key was listed: there are no more versions of this one
+      expect(page.isTruncated).toBe(false);
+      expect(page.nextKeyMarker).toBeNull();
+    });
+
+    it('should return the markers of truncated listings', async () => {
+      s3Mock.on(ListObjectVersionsCommand).resolves({
+        Versions: [{ Key: 'model.bin', VersionId: 'v3', LastModified: new Date('2026-01-03') }],
+        IsTruncated: true,
+        NextKeyMarker: 'model.bin',
+        NextVersionIdMarker: 'v3',
+      });
+
+      const page = await listObjectVersions(s3Client, 'bucket', {
+        prefix: 'model.bin',
+        exactKey: true,
+        keyMarker: 'model.bin',
+        versionIdMarker: 'v4',
+        maxKeys: 1,
+      });
+
+      expect(s3Mock.commandCalls(ListObjectVersionsCommand)[0].args[0].input).toEqual({
+        Bucket: 'bucket',
+        Prefix: 'model.bin',
+        KeyMarker: 'model.bin',
+        VersionIdMarker: 'v4',
+        MaxKeys: 1,
+      });
+      expect(page.isTruncated).toBe(true);
+      expect(page.nextKeyMarker).toBe('model.bin');
+      expect(page.nextVersionIdMarker).toBe('v3');
+    });
+  });
+
+  describe('restoreObjectVersion', () => {
+    it('should copy the version over the object', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 100, ETag: '"e1"' });
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      await restoreObjectVersion(s3Client, 'bucket', 'models/model.bin', 'v1/+');
+
+      expect(s3Mock.commandCalls(HeadObjectCommand)[0].args[0].input.VersionId).toBe('v1/+');
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0].args[0].input).toEqual({
+        Bucket: 'bucket',
+        Key: 'models/model.bin',
+        CopySource: 'bucket/models/model.bin?versionId=v1%2F%2B',
+      });
+    });
+
+    it('should keep the tags of large versions copied part by part', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 600 * MiB, ETag: '"e1"' });
+      s3Mock.on(GetObjectTaggingCommand).resolves({ TagSet: [{ Key: 'stage', Value: 'prod' }] });
+      s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+      s3Mock.on(UploadPartCopyCommand).resolves({ CopyPartResult: { ETag: '"p"' } });
+      s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+
+      await restoreObjectVersion(s3Client, 'bucket', 'model.bin', 'v1');
+
+      expect(s3Mock.commandCalls(GetObjectTaggingCommand)[0].args[0].input.VersionId).toBe('v1');
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)[0].args[0].input.Tagging).toBe(
+        'stage=prod',
+      );
+    });
+
+    it('should abort the multipart copy of large versions when it fails', async () => {
+      s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 600 * MiB, ETag: '"e1"' });
+      s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+      s3Mock.on(GetObjectTaggingCommand).resolves({ TagSet: [] });
+      s3Mock.on(UploadPartCopyCommand).rejects(new Error('Access Denied'));
+      s3Mock.on(AbortMultipartUploadCommand).resolves({});
+
+      await expect(restoreObjectVersion(s3Client, 'bucket', 'model.bin', 'v1')).rejects.toThrow(
+        'Access Denied',
+      );
+
+      expect(s3Mock.commandCalls(CopyObjectCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(UploadPartCopyCommand)[0].args[0].input.CopySource).toBe(
+        'bucket/model.bin?versionId=v1',
+      );
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)[0].args[0].input.UploadId).toBe(
+        'upload-1',
+      );
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getPartialDownloadPath,
+  getPartialDownloadSize,
+  removePartialDownload,
+} from '../../utils/partialDownload';
+
+describe('Partial Download Utilities', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'partial-download-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should place the sidecar next to the destination', () => {
+    expect(getPartialDownloadPath('/data/models/model.safetensors')).toBe(
+      '/data/models/model.safetensors.part',
+    );
+  });
+
+  it('should return the size of an existing partial download', async () => {
+    const partPath = getPartialDownloadPath(path.join(tmpDir, 'model.bin'));
+    fs.writeFileSync(partPath, Buffer.alloc(1234));
+
+    expect(await getPartialDownloadSize(partPath)).toBe(1234);
+  });
+
+  it('should return 0 when there is no partial download', async () => {
+    expect(await getPartialDownloadSize(path.join(tmpDir, 'missing.part'))).toBe(0);
+  });
+
+  it('should remove a partial download and ignore a missing one', async () => {
+    const partPath = getPartialDownloadPath(path.join(tmpDir, 'model.bin'));
+    fs.writeFileSync(partPath, 'partial');
+
+    await removePartialDownload(partPath);
+    expect(fs.existsSync(partPath)).toBe(false);
+
+    await expect(removePartialDownload(partPath)).resolves.toBeUndefined();
+  });
+});
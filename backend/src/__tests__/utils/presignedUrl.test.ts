@@ -0,0 +1,47 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import { createPresignedUrl, DEFAULT_PRESIGN_EXPIRY } from '../../utils/presignedUrl';
+
+describe('Presigned URLs', () => {
+  const s3Client = new S3Client({
+    region: 'us-east-1',
+    endpoint: 'https://s3.example.com',
+    forcePathStyle: true,
+    credentials: { accessKeyId: 'access-key', secretAccessKey: 'secret-key' },
+  });
+
+  it('should sign a download URL with the expiry', async () => {
+    const presigned = await createPresignedUrl(
+      s3Client,
+      'bucket',
+      'models/config file.json',
+      'GET',
+      900,
+    );
+    const url = new URL(presigned.url);
+
+    expect(url.origin).toBe('https://s3.example.com');
+    expect(url.pathname).toBe('/bucket/models/config%20file.json');
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('900');
+    expect(url.searchParams.get('X-Amz-Signature')).toBeTruthy();
+    expect(url.searchParams.get('x-id')).toBe('GetObject');
+    expect(presigned.method).toBe('GET');
+    expect(presigned.expiresIn).toBe(900);
+    expect(new Date(presigned.expiresAt).getTime()).toBeGreaterThan(Date.now() + 800 * 1000);
+  });
+
+  it('should sign an upload URL without checksum, expiring after an hour by default', async () => {
+    const presigned = await createPresignedUrl(s3Client, 'bucket', 'upload.bin', 'PUT');
+    const url = new URL(presigned.url);
+
+    expect(url.searchParams.get('x-id')).toBe('PutObject');
+    // A checksum signed with the URL would be the one of an empty body
+    const checksumParams = [...url.searchParams.keys()].filter(
+      (name) =>
+        name.toLowerCase().startsWith('x-amz-checksum-') ||
+        name.toLowerCase() === 'x-amz-sdk-checksum-algorithm',
+    );
+    expect(checksumParams).toEqual([]);
+    expect(url.searchParams.get('X-Amz-Expires')).toBe(String(DEFAULT_PRESIGN_EXPIRY));
+    expect(presigned.expiresIn).toBe(DEFAULT_PRESIGN_EXPIRY);
+  });
+});
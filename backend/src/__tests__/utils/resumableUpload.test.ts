@@ -0,0 +1,282 @@
+import { Readable } from 'stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  ListPartsCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { createHash } from 'crypto';
+import {
+  getPartSize,
+  getUploadedPartDigests,
+  shouldUseResumableUpload,
+  uploadResumable,
+} from '../../utils/resumableUpload';
+import { TransferFileJob } from '../../utils/transferQueue';
+
+const MiB = 1024 * 1024;
+
+const md5 = (data: Buffer) => createHash('md5').update(data).digest('hex');
+
+describe('Resumable Upload', () => {
+  const s3Mock = mockClient(S3Client);
+  let s3Client: S3Client;
+  let fileJob: TransferFileJob;
+
+  // 17 MiB source: two full 8 MiB parts and a 1 MiB last part
+  const size = 17 * MiB;
+  const source = Buffer.alloc(size, 1);
+  const openStream = jest.fn(async (offset: number) => {
+    const chunks: Buffer[] = [];
+    for (let start = offset; start < size; start += MiB) {
+      chunks.push(source.subarray(start, Math.min(start + MiB, size)));
+    }
+    return Readable.from(chunks);
+  });
+
+  const upload = (options: Partial<Parameters<typeof uploadResumable>[0]> = {}) =>
+    uploadResumable({
+      s3Client,
+      bucket: 'bucket',
+      key: 'model.safetensors',
+      size,
+      fileJob,
+      openStream,
+      onProgress: jest.fn(),
+      ...options,
+    });
+
+  beforeEach(() => {
+    s3Mock.reset();
+    openStream.mockClear();
+    s3Client = new S3Client({ region: 'us-east-1' });
+    fileJob = {
+      sourcePath: 'local:local-0/model.safetensors',
+      destinationPath: 's3:bucket/model.safetensors',
+      size,
+      loaded: 0,
+      status: 'transferring',
+    };
+
+    s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+    s3Mock.on(UploadPartCommand).callsFake((input) => ({ ETag: `"etag-${input.PartNumber}"` }));
+    s3Mock.on(CompleteMultipartUploadCommand).resolves({});
+    s3Mock.on(AbortMultipartUploadCommand).resolves({});
+  });
+
+  describe('getPartSize', () => {
+    it('should use 8 MiB parts for typical files', () => {
+      expect(getPartSize(100 * MiB)).toBe(8 * MiB);
+    });
+
+    it('should grow the part size to stay within 10000 parts', () => {
+      const partSize = getPartSize(200 * 1024 * MiB);
+      expect(partSize % MiB).toBe(0);
+      expect(Math.ceil((200 * 1024 * MiB) / partSize)).toBeLessThanOrEqual(10000);
+    });
+  });
+
+  describe('shouldUseResumableUpload', () => {
+    it('should only use multipart uploads for files larger than one part', () => {
+      expect(shouldUseResumableUpload(MiB)).toBe(false);
+      expect(shouldUseResumableUpload(size)).toBe(true);
+    });
+  });
+
+  describe('uploadResumable', () => {
+    it('should upload all parts and complete the upload', async () => {
+      await upload();
+
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)).toHaveLength(1);
+      const partCalls = s3Mock.commandCalls(UploadPartCommand);
+      expect(partCalls.map((call) => call.args[0].input.ContentLength)).toEqual([
+        8 * MiB,
+        8 * MiB,
+        MiB,
+      ]);
+
+      const completeCalls = s3Mock.commandCalls(CompleteMultipartUploadCommand);
+      expect(completeCalls).toHaveLength(1);
+      expect(completeCalls[0].args[0].input.MultipartUpload?.Parts).toEqual([
+        { PartNumber: 1, ETag: '"etag-1"' },
+        { PartNumber: 2, ETag: '"etag-2"' },
+        { PartNumber: 3, ETag: '"etag-3"' },
+      ]);
+      expect(fileJob.multipartUpload).toBeUndefined();
+    });
+
+    it('should create the upload with the given headers and metadata', async () => {
+      await upload({
+        destinationAttributes: { ContentType: 'application/json', Metadata: { owner: 'ml' } },
+      });
+
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)[0].args[0].input).toEqual({
+        Bucket: 'bucket',
+        Key: 'model.safetensors',
+        ContentType: 'application/json',
+        Metadata: { owner: 'ml' },
+      });
+    });
+
+    it('should record the MD5 of each uploaded part', async () => {
+      s3Mock
+        .on(UploadPartCommand, { PartNumber: 3 })
+        .rejects(Object.assign(new Error('socket hang up'), { name: 'NetworkError' }));
+
+      await expect(upload()).rejects.toThrow('socket hang up');
+
+      expect(getUploadedPartDigests(fileJob.multipartUpload)).toEqual([
+        md5(source.subarray(0, 8 * MiB)),
+        md5(source.subarray(8 * MiB, 16 * MiB)),
+      ]);
+    });
+
+    it('should keep the upload state when a part fails', async () => {
+      s3Mock
+        .on(UploadPartCommand, { PartNumber: 2 })
+        .rejects(Object.assign(new Error('socket hang up'), { name: 'NetworkError' }));
+
+      await expect(upload()).rejects.toThrow('socket hang up');
+
+      expect(fileJob.multipartUpload?.uploadId).toBe('upload-1');
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)).toHaveLength(0);
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(0);
+    });
+
+    it('should continue from the last completed part reported by ListParts', async () => {
+      fileJob.multipartUpload = {
+        uploadId: 'upload-1',
+        bucket: 'bucket',
+        key: 'model.safetensors',
+        size,
+        partSize: 8 * MiB,
+        parts: [],
+      };
+      s3Mock.on(ListPartsCommand).resolves({
+        Parts: [{ PartNumber: 1, ETag: '"etag-1"', Size: 8 * MiB }],
+      });
+
+      await upload();
+
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)).toHaveLength(0);
+      expect(openStream).toHaveBeenCalledWith(8 * MiB);
+      expect(
+        s3Mock.commandCalls(UploadPartCommand).map((call) => call.args[0].input.PartNumber),
+      ).toEqual([2, 3]);
+      expect(
+        s3Mock.commandCalls(CompleteMultipartUploadCommand)[0].args[0].input.MultipartUpload?.Parts,
+      ).toHaveLength(3);
+    });
+
+    it('should keep the recorded MD5s of the parts reported by ListParts', async () => {
+      const firstPart = md5(source.subarray(0, 8 * MiB));
+      fileJob.multipartUpload = {
+        uploadId: 'upload-1',
+        bucket: 'bucket',
+        key: 'model.safetensors',
+        size,
+        partSize: 8 * MiB,
+        parts: [
+          { PartNumber: 1, ETag: '"etag-1"', MD5: firstPart },
+          { PartNumber: 2, ETag: '"replaced"', MD5: 'stale' },
+        ],
+      };
+      s3Mock.on(ListPartsCommand).resolves({
+        Parts: [{ PartNumber: 1, ETag: '"etag-1"', Size: 8 * MiB }],
+      });
+
+      const completed = await upload();
+
+      expect(getUploadedPartDigests(completed)).toEqual([
+        firstPart,
+        md5(source.subarray(8 * MiB, 16 * MiB)),
+        md5(source.subarray(16 * MiB)),
+      ]);
+      expect(
+        s3Mock.commandCalls(CompleteMultipartUploadCommand)[0].args[0].input.MultipartUpload?.Parts,
+      ).toEqual([
+        { PartNumber: 1, ETag: '"etag-1"' },
+        { PartNumber: 2, ETag: '"etag-2"' },
+        { PartNumber: 3, ETag: '"etag-3"' },
+      ]);
+    });
+
+    it('should not report part MD5s when a part was uploaded without one', async () => {
+      fileJob.multipartUpload = {
+        uploadId: 'upload-1',
+        bucket: 'bucket',
+        key: 'model.safetensors',
+        size,
+        partSize: 8 * MiB,
+        parts: [{ PartNumber: 1, ETag: '"etag-1"' }],
+      };
+      s3Mock.on(ListPartsCommand).resolves({
+        Parts: [{ PartNumber: 1, ETag: '"etag-1"', Size: 8 * MiB }],
+      });
+
+      expect(getUploadedPartDigests(await upload())).toBeUndefined();
+    });
+
+    it('should ignore parts after a gap or with an unexpected size', async () => {
+      fileJob.multipartUpload = {
+        uploadId: 'upload-1',
+        bucket: 'bucket',
+        key: 'model.safetensors',
+        size,
+        partSize: 8 * MiB,
+        parts: [],
+      };
+      s3Mock.on(ListPartsCommand).resolves({
+        Parts: [
+          { PartNumber: 1, ETag: '"etag-1"', Size: 4 * MiB },
+          { PartNumber: 3, ETag: '"etag-3"', Size: MiB },
+        ],
+      });
+
+      await upload();
+
+      expect(openStream).toHaveBeenCalledWith(0);
+      expect(s3Mock.commandCalls(UploadPartCommand)).toHaveLength(3);
+    });
+
+    it('should start a new upload when the recorded one no longer exists', async () => {
+      fileJob.multipartUpload = {
+        uploadId: 'expired',
+        bucket: 'bucket',
+        key: 'model.safetensors',
+        size,
+        partSize: 8 * MiB,
+        parts: [{ PartNumber: 1, ETag: '"etag-1"' }],
+      };
+      s3Mock
+        .on(ListPartsCommand)
+        .rejects(Object.assign(new Error('upload not found'), { name: 'NoSuchUpload' }));
+
+      await upload();
+
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)).toHaveLength(1);
+      expect(openStream).toHaveBeenCalledWith(0);
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)[0].args[0].input.UploadId).toBe(
+        'upload-1',
+      );
+    });
+
+    it('should abort the multipart upload when the transfer is cancelled', async () => {
+      const controller = new AbortController();
+      s3Mock.on(UploadPartCommand).callsFake(() => {
+        controller.abort();
+        throw Object.assign(new Error('Request aborted'), { name: 'AbortError' });
+      });
+
+      await expect(upload({ abortSignal: controller.signal })).rejects.toThrow();
+
+      const abortCalls = s3Mock.commandCalls(AbortMultipartUploadCommand);
+      expect(abortCalls).toHaveLength(1);
+      expect(abortCalls[0].args[0].input.UploadId).toBe('upload-1');
+      expect(fileJob.multipartUpload).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getSettingsEncryptionKey, SettingsStore } from '../../utils/settingsStore';
+
+describe('Settings Store', () => {
+  let tmpDir: string;
+  let storePath: string;
+
+  const connection = {
+    id: 'archive',
+    name: 'Archive',
+    accessKeyId: 'archiveKeyId',
+    secretAccessKey: 'archiveSecret',
+    region: 'eu-west-1',
+    endpoint: 'https://archive.example.com',
+    defaultBucket: 'models',
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'settings-store-'));
+    storePath = path.join(tmpDir, 'settings.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return empty settings when the store does not exist', () => {
+    expect(new SettingsStore(storePath).load()).toEqual({});
+  });
+
+  it('should encrypt secrets at rest and decrypt them on load', async () => {
+    await new SettingsStore(storePath, 'test-key').save({
+      hfToken: 'hf_secret',
+      s3Connections: [connection],
+      maxFilesPerPage: 500,
+    });
+
+    const content = fs.readFileSync(storePath, 'utf-8');
+    expect(content).not.toContain('hf_secret');
+    expect(content).not.toContain('archiveSecret');
+    expect(content).toContain('archiveKeyId');
+    expect(fs.statSync(storePath).mode & 0o777).toBe(0o600);
+
+    expect(new SettingsStore(storePath, 'test-key').load()).toEqual({
+      hfToken: 'hf_secret',
+      s3Connections: [connection],
+      maxFilesPerPage: 500,
+    });
+  });
+
+  it('should leave out secrets that cannot be decrypted', async () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    await new SettingsStore(storePath, 'test-key').save({
+      hfToken: 'hf_secret',
+      s3Connections: [connection],
+      maxFilesPerPage: 500,
+    });
+
+    expect(new SettingsStore(storePath, 'other-key').load()).toEqual({
+      s3Connections: [],
+      maxFilesPerPage: 500,
+    });
+    expect(new SettingsStore(storePath).load()).toEqual({
+      s3Connections: [],
+      maxFilesPerPage: 500,
+    });
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should keep secrets that cannot be decrypted when saving other changes', async () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const replaced = { ...connection, id: 'replaced', secretAccessKey: 'replacedSecret' };
+    await new SettingsStore(storePath, 'test-key').save({
+      hfToken: 'hf_secret',
+      s3Connections: [connection, replaced],
+    });
+
+    const otherKeyStore = new SettingsStore(storePath, 'other-key');
+    const settings = otherKeyStore.load();
+    await otherKeyStore.save({
+      ...settings,
+      s3Connections: [{ ...replaced, secretAccessKey: 'newSecret' }],
+      maxFilesPerPage: 500,
+    });
+
+    expect(new SettingsStore(storePath, 'other-key').load()).toEqual({
+      s3Connections: [{ ...replaced, secretAccessKey: 'newSecret' }],
+      maxFilesPerPage: 500,
+    });
+    expect(new SettingsStore(storePath, 'test-key').load()).toEqual({
+      hfToken: 'hf_secret',
+      s3Connections: [connection],
+      maxFilesPerPage: 500,
+    });
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should drop secrets that cannot be decrypted once replaced or removed', async () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    await new SettingsStore(storePath, 'test-key').save({
+      hfToken: 'hf_secret',
+      s3Connections: [connection],
+    });
+
+    const otherKeyStore = new SettingsStore(storePath, 'other-key');
+    otherKeyStore.load();
+    await otherKeyStore.save({
+      hfToken: 'hf_new',
+      s3Connections: [],
+      removedS3Connections: [connection.id],
+    });
+
+    const content = fs.readFileSync(storePath, 'utf-8');
+    expect(content).not.toContain('archiveKeyId');
+    expect(new SettingsStore(storePath, 'other-key').load()).toEqual({
+      hfToken: 'hf_new',
+      s3Connections: [],
+      removedS3Connections: [connection.id],
+    });
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  it('should store secrets in clear text without an encryption key', async () => {
+    const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+    await new SettingsStore(storePath).save({ hfToken: 'hf_secret' });
+
+    expect(fs.readFileSync(storePath, 'utf-8')).toContain('hf_secret');
+    expect(new SettingsStore(storePath, 'test-key').load()).toEqual({ hfToken: 'hf_secret' });
+    expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('unencrypted'));
+
+    consoleWarnSpy.mockRestore();
+  });
+
+  describe('getSettingsEncryptionKey', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.SETTINGS_ENCRYPTION_KEY;
+      delete process.env.SETTINGS_ENCRYPTION_KEY_FILE;
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should read the key from the environment or a mounted secret', () => {
+      expect(getSettingsEncryptionKey()).toBeUndefined();
+
+      const keyFile = path.join(tmpDir, 'key');
+      fs.writeFileSync(keyFile, 'file-key\n');
+      process.env.SETTINGS_ENCRYPTION_KEY_FILE = keyFile;
+      expect(getSettingsEncryptionKey()).toBe('file-key');
+
+      process.env.SETTINGS_ENCRYPTION_KEY = 'env-key';
+      expect(getSettingsEncryptionKey()).toBe('env-key');
+    });
+  });
+});
@@ -1,4 +1,15 @@
-import { TransferQueue, TransferFileJob } from '../../utils/transferQueue';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  TransferQueue,
+  TransferFileJob,
+  TransferPausedError,
+  isTransferCancelled,
+} from '../../utils/transferQueue';
+import { TransferJobStore } from '../../utils/transferJobStore';
+import * as config from '../../utils/config';
+import * as resumableUpload from '../../utils/resumableUpload';
 
 describe('TransferQueue', () => {
   let queue: TransferQueue;
@@ -135,6 +146,80 @@ describe('TransferQueue', () => {
     });
   });
 
+  describe('Priorities and Per-Job Concurrency', () => {
+    const createFiles = (prefix: string, count: number) =>
+      Array.from({ length: count }, (_, i) => ({
+        sourcePath: `${prefix}${i + 1}`,
+        destinationPath: `dest/${prefix}${i + 1}`,
+        size: 1024,
+      }));
+
+    it('should interleave files of jobs with the same priority', async () => {
+      queue = new TransferQueue(1);
+      const started: string[] = [];
+      const executor = jest.fn(async (file: TransferFileJob) => {
+        started.push(file.sourcePath);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      });
+
+      queue.queueJob('cross-storage', createFiles('a', 4), executor);
+      queue.queueJob('cross-storage', createFiles('b', 2), executor);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(started).toEqual(['a1', 'b1', 'a2', 'b2', 'a3', 'a4']);
+    });
+
+    it('should start files of higher priority jobs first', async () => {
+      queue = new TransferQueue(1);
+      const started: string[] = [];
+      const executor = jest.fn(async (file: TransferFileJob) => {
+        started.push(file.sourcePath);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      });
+
+      queue.queueJob('cross-storage', createFiles('bulk', 3), executor, { priority: 'low' });
+      const urgentId = queue.queueJob('huggingface', createFiles('urgent', 2), executor, {
+        priority: 'high',
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(started).toEqual(['bulk1', 'urgent1', 'urgent2', 'bulk2', 'bulk3']);
+      expect(queue.getJob(urgentId)?.priority).toBe('high');
+    });
+
+    it('should cap the files of a job transferred at once', async () => {
+      queue = new TransferQueue(3);
+      const active = new Map<string, number>();
+      const maxActive = new Map<string, number>();
+      const executor = jest.fn(async (file: TransferFileJob) => {
+        const prefix = file.sourcePath.replace(/\d+$/, '');
+        active.set(prefix, (active.get(prefix) || 0) + 1);
+        maxActive.set(prefix, Math.max(maxActive.get(prefix) || 0, active.get(prefix)!));
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        active.set(prefix, active.get(prefix)! - 1);
+      });
+
+      const cappedId = queue.queueJob('cross-storage', createFiles('capped', 4), executor, {
+        maxConcurrency: 1,
+      });
+      queue.queueJob('cross-storage', createFiles('other', 4), executor);
+
+      await new Promise((resolve) => setTimeout(resolve, 250));
+
+      expect(maxActive.get('capped')).toBe(1);
+      expect(maxActive.get('other')).toBe(2);
+      expect(queue.getJob(cappedId)?.status).toBe('completed');
+    });
+
+    it('should default to normal priority', () => {
+      const jobId = queue.queueJob('s3-upload', createFiles('file', 1), jest.fn());
+
+      expect(queue.getJob(jobId)?.priority).toBe('normal');
+    });
+  });
+
   describe('Progress Tracking', () => {
     it('should calculate progress correctly with bytes and percentage', async () => {
       const files = [
@@ -589,6 +674,42 @@ describe('TransferQueue', () => {
     });
   });
 
+  describe('Get Jobs', () => {
+    const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
+    const executor = jest.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    });
+
+    it('should return the most recently created jobs first', () => {
+      const first = queue.queueJob('s3-upload', files, executor);
+      const second = queue.queueJob('s3-download', files, executor);
+      queue.getJob(first)!.createdAt = new Date('2026-01-01T10:00:00Z');
+      queue.getJob(second)!.createdAt = new Date('2026-01-01T11:00:00Z');
+
+      expect(queue.getJobs().map((job) => job.id)).toEqual([second, first]);
+    });
+
+    it('should filter by status, type and creation time', () => {
+      const upload = queue.queueJob('s3-upload', files, executor);
+      const download = queue.queueJob('s3-download', files, executor);
+      const older = queue.queueJob('s3-download', files, executor);
+      queue.cancelJob(download);
+      queue.getJob(older)!.createdAt = new Date('2020-01-01T00:00:00Z');
+
+      expect(queue.getJobs({ type: ['s3-download'] }).map((job) => job.id)).toEqual([
+        download,
+        older,
+      ]);
+      expect(queue.getJobs({ status: ['cancelled'] }).map((job) => job.id)).toEqual([download]);
+      expect(
+        queue.getJobs({ createdAfter: new Date('2021-01-01T00:00:00Z') }).map((job) => job.id),
+      ).toEqual(expect.arrayContaining([upload, download]));
+      expect(
+        queue.getJobs({ createdBefore: new Date('2021-01-01T00:00:00Z') }).map((job) => job.id),
+      ).toEqual([older]);
+    });
+  });
+
   describe('Job Status Transitions', () => {
     it('should transition from queued to active to completed', async () => {
       const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
@@ -633,4 +754,392 @@ describe('TransferQueue', () => {
       expect(completedJob?.completedAt).toBeDefined();
     });
   });
+
+  describe('Retry', () => {
+    it('should only re-run the files that failed', async () => {
+      const files = [
+        { sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 },
+        { sourcePath: 'file2.txt', destinationPath: 'dest2.txt', size: 1024 },
+      ];
+      let attempt = 0;
+      const executor = jest.fn(async (file: TransferFileJob) => {
+        if (file.sourcePath === 'file2.txt' && attempt++ === 0) {
+          throw new Error('Network error');
+        }
+      });
+
+      const jobId = queue.queueJob('cross-storage', files, executor);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(queue.getJob(jobId)?.status).toBe('failed');
+
+      expect(queue.retryJob(jobId)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const job = queue.getJob(jobId);
+      expect(job?.status).toBe('completed');
+      expect(job?.files.every((f) => f.status === 'completed' && !f.error)).toBe(true);
+      // file1 once, file2 twice
+      expect(executor).toHaveBeenCalledTimes(3);
+      expect(executor.mock.calls[2][0].sourcePath).toBe('file2.txt');
+    });
+
+    it('should not retry jobs that did not fail', async () => {
+      const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
+      const jobId = queue.queueJob('s3-upload', files, jest.fn().mockResolvedValue(undefined));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(queue.getJob(jobId)?.status).toBe('completed');
+      expect(queue.retryJob(jobId)).toBe(false);
+      expect(queue.retryJob('unknown')).toBe(false);
+    });
+  });
+
+  describe('Completion Handlers', () => {
+    it('should run the handler of the job type once the job completes', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      queue.registerCompletionHandler('huggingface', handler);
+
+      const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
+      const jobId = queue.queueJob('huggingface', files, jest.fn().mockResolvedValue(undefined));
+      queue.queueJob('s3-upload', files, jest.fn().mockResolvedValue(undefined));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].id).toBe(jobId);
+      expect(handler.mock.calls[0][0].status).toBe('completed');
+    });
+
+    it('should not run the handler of failed jobs and keep jobs completed if it fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const handler = jest.fn().mockRejectedValue(new Error('Write failed'));
+      queue.registerCompletionHandler('huggingface', handler);
+
+      const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
+      const failedJobId = queue.queueJob(
+        'huggingface',
+        files,
+        jest.fn().mockRejectedValue(new Error('Network error')),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(queue.getJob(failedJobId)?.status).toBe('failed');
+      expect(handler).not.toHaveBeenCalled();
+
+      const jobId = queue.queueJob('huggingface', files, jest.fn().mockResolvedValue(undefined));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(queue.getJob(jobId)?.status).toBe('completed');
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('Pause and Resume', () => {
+    // Executor that takes 50ms per file and stops when aborted
+    const abortableExecutor = () =>
+      jest.fn(
+        (file: TransferFileJob, onProgress: (loaded: number) => void, abortSignal: AbortSignal) =>
+          new Promise<void>((resolve, reject) => {
+            const timeout = setTimeout(resolve, 50);
+            abortSignal.addEventListener('abort', () => {
+              clearTimeout(timeout);
+              reject(abortSignal.reason);
+            });
+          }),
+      );
+
+    it('should stop scheduling files while paused and finish them on resume', async () => {
+      queue = new TransferQueue(1);
+      const files = [
+        { sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 },
+        { sourcePath: 'file2.txt', destinationPath: 'dest2.txt', size: 1024 },
+        { sourcePath: 'file3.txt', destinationPath: 'dest3.txt', size: 1024 },
+      ];
+      const executor = abortableExecutor();
+      const jobId = queue.queueJob('huggingface', files, executor);
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(queue.pauseJob(jobId)).toBe(true);
+
+      // The file in progress was interrupted with a pause (not a cancellation)
+      const abortSignal = executor.mock.calls[0][2];
+      expect(abortSignal.reason).toBeInstanceOf(TransferPausedError);
+      expect(isTransferCancelled(abortSignal)).toBe(false);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      const paused = queue.getJob(jobId);
+      expect(paused?.status).toBe('paused');
+      expect(paused?.files.every((f) => f.status === 'queued')).toBe(true);
+      expect(executor).toHaveBeenCalledTimes(1);
+      expect(queue.getActiveJobIds()).not.toContain(jobId);
+
+      expect(queue.resumeJob(jobId)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(queue.getJob(jobId)?.status).toBe('completed');
+      // file1 started twice, file2 and file3 once
+      expect(executor).toHaveBeenCalledTimes(4);
+    });
+
+    it('should cancel a paused job', async () => {
+      const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
+      const jobId = queue.queueJob('s3-upload', files, abortableExecutor());
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      queue.pauseJob(jobId);
+      expect(queue.cancelJob(jobId)).toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(queue.getJob(jobId)?.status).toBe('cancelled');
+      expect(queue.resumeJob(jobId)).toBe(false);
+    });
+
+    it('should release the multipart uploads and .part files of a paused job when cancelled', async () => {
+      const localRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'queue-cancel-'));
+      const s3Client = {};
+      jest.spyOn(config, 'getLocalStoragePaths').mockReturnValue([localRoot]);
+      jest
+        .spyOn(config, 'getS3Location')
+        .mockReturnValue({ s3Client, bucket: 'bucket', connectionId: 'default' } as any);
+      const abortMultipartUpload = jest
+        .spyOn(resumableUpload, 'abortMultipartUpload')
+        .mockResolvedValue(undefined);
+
+      try {
+        const multipartUpload = {
+          uploadId: 'upload-1',
+          bucket: 'bucket',
+          key: 'model.bin',
+          size: 2048,
+          partSize: 1024,
+          parts: [{ PartNumber: 1, ETag: '"etag-1"' }],
+        };
+        const files = [
+          {
+            sourcePath: 'local:local-0/model.bin',
+            destinationPath: 's3:bucket/model.bin',
+            size: 2048,
+          },
+          {
+            sourcePath: 's3:bucket/data.bin',
+            destinationPath: 'local:local-0/data.bin',
+            size: 2048,
+          },
+        ];
+        const executor = abortableExecutor();
+        executor.mockImplementation((file, onProgress, abortSignal) => {
+          // Partial progress an executor keeps when paused
+          if (file.destinationPath.startsWith('s3:')) {
+            file.multipartUpload = multipartUpload;
+          } else {
+            fs.writeFileSync(path.join(localRoot, 'data.bin.part'), 'partial');
+          }
+          return new Promise<void>((resolve, reject) => {
+            abortSignal.addEventListener('abort', () => reject(abortSignal.reason));
+          });
+        });
+        const jobId = queue.queueJob('cross-storage', files, executor);
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        queue.pauseJob(jobId);
+        expect(queue.cancelJob(jobId)).toBe(true);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        expect(abortMultipartUpload).toHaveBeenCalledWith(s3Client, multipartUpload);
+        expect(queue.getJob(jobId)?.files[0].multipartUpload).toBeUndefined();
+        expect(fs.existsSync(path.join(localRoot, 'data.bin.part'))).toBe(false);
+      } finally {
+        jest.restoreAllMocks();
+        fs.rmSync(localRoot, { recursive: true, force: true });
+      }
+    });
+
+    it('should leave the release to the executors of a running job', async () => {
+      const abortMultipartUpload = jest
+        .spyOn(resumableUpload, 'abortMultipartUpload')
+        .mockResolvedValue(undefined);
+
+      try {
+        const files = [{ sourcePath: 'a', destinationPath: 's3:bucket/model.bin', size: 2048 }];
+        const executor = abortableExecutor();
+        executor.mockImplementation((file, onProgress, abortSignal) => {
+          file.multipartUpload = {
+            uploadId: 'upload-1',
+            bucket: 'bucket',
+            key: 'model.bin',
+            size: 2048,
+            partSize: 1024,
+            parts: [],
+          };
+          return new Promise<void>((resolve, reject) => {
+            abortSignal.addEventListener('abort', () => reject(abortSignal.reason));
+          });
+        });
+        const jobId = queue.queueJob('cross-storage', files, executor);
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(queue.cancelJob(jobId)).toBe(true);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        expect(abortMultipartUpload).not.toHaveBeenCalled();
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('should only pause queued or active jobs and resume paused jobs', async () => {
+      const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
+      const jobId = queue.queueJob('s3-upload', files, jest.fn().mockResolvedValue(undefined));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(queue.getJob(jobId)?.status).toBe('completed');
+      expect(queue.pauseJob(jobId)).toBe(false);
+      expect(queue.resumeJob(jobId)).toBe(false);
+      expect(queue.pauseJob('unknown')).toBe(false);
+    });
+  });
+
+  describe('Persistence', () => {
+    let tmpDir: string;
+    let storePath: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'transfer-queue-'));
+      storePath = path.join(tmpDir, 'transfer-jobs.json');
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should restore completed jobs as history', async () => {
+      queue.enablePersistence(new TransferJobStore(storePath));
+      const files = [{ sourcePath: 'file1.txt', destinationPath: 'dest1.txt', size: 1024 }];
+      const jobId = queue.queueJob('s3-upload', files, jest.fn().mockResolvedValue(undefined));
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await queue.flushPersistence();
+
+      const restored = new TransferQueue(2);
+      restored.enablePersistence(new TransferJobStore(storePath));
+
+      const job = restored.getJob(jobId);
+      expect(job?.status).toBe('completed');
+      expect(job?.createdAt).toBeInstanceOf(Date);
+      expect(job?.files[0].status).toBe('completed');
+      expect(restored.getActiveJobIds()).not.toContain(jobId);
+    });
+
+    it('should resume unfinished jobs with a registered executor factory', async () => {
+      // Store left behind by a server that went down while file2 was transferring
+      await new TransferJobStore(storePath).save([
+        {
+          id: 'transfer-1-1',
+          type: 'cross-storage',
+          status: 'active',
+          params: { destination: 'bucket' },
+          createdAt: new Date().toISOString(),
+          startedAt: new Date().toISOString(),
+          files: [
+            {
+              sourcePath: 'file1.txt',
+              destinationPath: 'dest1.txt',
+              size: 1024,
+              loaded: 1024,
+              status: 'completed',
+            },
+            {
+              sourcePath: 'file2.txt',
+              destinationPath: 'dest2.txt',
+              size: 1024,
+              loaded: 512,
+              status: 'transferring',
+            },
+          ],
+        },
+      ]);
+
+      const resumedExecutor = jest.fn().mockResolvedValue(undefined);
+      const factory = jest.fn().mockReturnValue(resumedExecutor);
+      queue.registerExecutorFactory('cross-storage', factory);
+      queue.enablePersistence(new TransferJobStore(storePath));
+
+      expect(queue.getActiveJobIds()).toContain('transfer-1-1');
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await queue.flushPersistence();
+
+      expect(factory).toHaveBeenCalledWith({ destination: 'bucket' });
+      // Only the interrupted file is transferred again
+      expect(resumedExecutor).toHaveBeenCalledTimes(1);
+      expect(resumedExecutor.mock.calls[0][0].sourcePath).toBe('file2.txt');
+      expect(queue.getJob('transfer-1-1')?.status).toBe('completed');
+    });
+
+    it('should fail unfinished jobs that cannot be resumed', async () => {
+      await new TransferJobStore(storePath).save([
+        {
+          id: 'transfer-1-1',
+          type: 's3-upload',
+          status: 'active',
+          createdAt: new Date().toISOString(),
+          files: [
+            {
+              sourcePath: 'file1.txt',
+              destinationPath: 'dest1.txt',
+              size: 1024,
+              loaded: 0,
+              status: 'transferring',
+            },
+          ],
+        },
+      ]);
+
+      queue.enablePersistence(new TransferJobStore(storePath));
+      await queue.flushPersistence();
+
+      const job = queue.getJob('transfer-1-1');
+      expect(job?.status).toBe('failed');
+      expect(job?.error).toBe('Interrupted by server restart');
+      expect(job?.files[0].status).toBe('error');
+      expect(queue.getActiveJobIds()).not.toContain('transfer-1-1');
+    });
+
+    it('should fail unfinished jobs whose executor factory refuses to resume them', async () => {
+      await new TransferJobStore(storePath).save([
+        {
+          id: 'transfer-1-1',
+          type: 'url-import',
+          status: 'paused',
+          createdAt: new Date().toISOString(),
+          params: { destinationType: 's3', hasHeaders: true },
+          files: [
+            {
+              sourcePath: 'https://example.com/model.bin',
+              destinationPath: 's3:bucket/model.bin',
+              size: 1024,
+              loaded: 512,
+              status: 'queued',
+            },
+          ],
+        },
+      ]);
+
+      queue.registerExecutorFactory('url-import', () => {
+        throw new Error('Re-submit the import with its credentials');
+      });
+      queue.enablePersistence(new TransferJobStore(storePath));
+      await queue.flushPersistence();
+
+      const job = queue.getJob('transfer-1-1');
+      expect(job?.status).toBe('failed');
+      expect(job?.error).toBe('Re-submit the import with its credentials');
+      expect(job?.files[0].error).toBe('Re-submit the import with its credentials');
+      expect(queue.retryJob('transfer-1-1')).toBe(false);
+    });
+
+    it('should start empty when the store does not exist', () => {
+      queue.enablePersistence(new TransferJobStore(path.join(tmpDir, 'missing', 'jobs.json')));
+      expect(queue.getAllJobs()).toEqual([]);
+    });
+  });
 });
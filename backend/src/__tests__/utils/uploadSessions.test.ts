@@ -0,0 +1,119 @@
+import {
+  abortUploadSession,
+  clearAllUploadSessions,
+  createUploadSession,
+  FINISHED_UPLOAD_SESSION_TTL,
+  finishUploadSession,
+  getUploadSession,
+  getUploadSessionCount,
+  PENDING_UPLOAD_SESSION_TTL,
+  startUploadSession,
+  updateUploadSessionProgress,
+  UPLOADING_UPLOAD_SESSION_TTL,
+} from '../../utils/uploadSessions';
+
+describe('Upload Sessions', () => {
+  let now: number;
+
+  beforeEach(() => {
+    clearAllUploadSessions();
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    clearAllUploadSessions();
+    jest.restoreAllMocks();
+  });
+
+  it('should give each upload its own id and AbortController', () => {
+    const first = createUploadSession('alice');
+    const second = createUploadSession('alice');
+
+    expect(first.id).not.toBe(second.id);
+    expect(first.status).toBe('pending');
+
+    abortUploadSession(first);
+
+    expect(first.abortController.signal.aborted).toBe(true);
+    expect(second.abortController.signal.aborted).toBe(false);
+    expect(second.status).toBe('pending');
+  });
+
+  it('should only return a session to the user who created it', () => {
+    const session = createUploadSession('alice');
+
+    expect(getUploadSession(session.id, 'alice')).toBe(session);
+    expect(getUploadSession(session.id, 'bob')).toBeUndefined();
+    expect(getUploadSession('unknown', 'alice')).toBeUndefined();
+  });
+
+  it('should track the progress of an upload until it finishes', () => {
+    const session = createUploadSession('alice');
+
+    expect(startUploadSession(session)).toBe(true);
+    updateUploadSessionProgress(session, 1024);
+    expect(session.loaded).toBe(1024);
+
+    finishUploadSession(session, 'completed');
+    updateUploadSessionProgress(session, 2048);
+
+    expect(session.status).toBe('completed');
+    expect(session.loaded).toBe(1024);
+    expect(abortUploadSession(session)).toBe(false);
+    expect(session.abortController.signal.aborted).toBe(false);
+  });
+
+  it('should not start a session twice, or after it was aborted', () => {
+    const used = createUploadSession('alice');
+    const aborted = createUploadSession('alice');
+
+    expect(startUploadSession(used)).toBe(true);
+    expect(startUploadSession(used)).toBe(false);
+
+    expect(abortUploadSession(aborted)).toBe(true);
+    expect(aborted.status).toBe('aborted');
+    expect(startUploadSession(aborted)).toBe(false);
+  });
+
+  it('should remove pending sessions that are never used', () => {
+    const session = createUploadSession('alice');
+
+    now += PENDING_UPLOAD_SESSION_TTL + 1;
+
+    expect(getUploadSession(session.id, 'alice')).toBeUndefined();
+    expect(getUploadSessionCount()).toBe(0);
+  });
+
+  it('should keep uploading sessions, and remove them shortly after they finish', () => {
+    const session = createUploadSession('alice');
+    startUploadSession(session);
+
+    now += PENDING_UPLOAD_SESSION_TTL + 1;
+    expect(getUploadSession(session.id, 'alice')).toBe(session);
+
+    // Progress keeps the session alive
+    now += UPLOADING_UPLOAD_SESSION_TTL - PENDING_UPLOAD_SESSION_TTL;
+    updateUploadSessionProgress(session, 1024);
+    now += UPLOADING_UPLOAD_SESSION_TTL - 1;
+    expect(getUploadSession(session.id, 'alice')).toBe(session);
+
+    finishUploadSession(session, 'failed');
+    now += FINISHED_UPLOAD_SESSION_TTL - 1;
+    expect(getUploadSession(session.id, 'alice')?.status).toBe('failed');
+
+    now += 2;
+    expect(getUploadSession(session.id, 'alice')).toBeUndefined();
+  });
+
+  it('should remove uploading sessions without progress', () => {
+    const session = createUploadSession('alice');
+    startUploadSession(session);
+    updateUploadSessionProgress(session, 1024);
+
+    now += UPLOADING_UPLOAD_SESSION_TTL + 1;
+
+    expect(getUploadSession(session.id, 'alice')).toBeUndefined();
+    expect(getUploadSessionCount()).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  getFileNameFromUrl,
+  MAX_URL_IMPORT_ITEMS,
+  parseUrlImportItems,
+  validateUrlImportHeaders,
+} from '../../utils/urlImport';
+
+describe('URL Import', () => {
+  describe('getFileNameFromUrl', () => {
+    it('should use the last segment of the URL path', () => {
+      expect(getFileNameFromUrl('https://example.com/models/model.gguf?download=true')).toBe(
+        'model.gguf',
+      );
+      expect(getFileNameFromUrl('https://example.com/data/train%20set.csv')).toBe('train set.csv');
+    });
+
+    it('should return undefined when the path has no file name', () => {
+      expect(getFileNameFromUrl('https://example.com/')).toBeUndefined();
+      expect(getFileNameFromUrl('https://example.com/files/%2E%2E')).toBeUndefined();
+      expect(getFileNameFromUrl('https://example.com/files/a%2Fb')).toBeUndefined();
+      expect(getFileNameFromUrl('not a url')).toBeUndefined();
+    });
+  });
+
+  describe('parseUrlImportItems', () => {
+    it('should accept URLs with or without explicit file names', () => {
+      expect(
+        parseUrlImportItems([
+          'https://example.com/model.gguf',
+          { url: 'http://mirror.example.com/download?id=42', fileName: 'tokenizer.json' },
+        ]),
+      ).toEqual({
+        items: [
+          { url: 'https://example.com/model.gguf', fileName: 'model.gguf' },
+          { url: 'http://mirror.example.com/download?id=42', fileName: 'tokenizer.json' },
+        ],
+      });
+    });
+
+    it('should reject missing, invalid and unsupported URLs', () => {
+      expect(parseUrlImportItems(undefined).error).toBe('urls must be a non-empty array');
+      expect(parseUrlImportItems([]).error).toBe('urls must be a non-empty array');
+      expect(parseUrlImportItems([42]).error).toContain('must be a string');
+      expect(parseUrlImportItems(['example.com/model.gguf']).error).toContain('Invalid URL');
+      expect(parseUrlImportItems(['file:///etc/passwd']).error).toContain('Unsupported URL');
+      expect(parseUrlImportItems(['ftp://example.com/model.gguf']).error).toContain(
+        'Unsupported URL',
+      );
+      expect(
+        parseUrlImportItems(
+          Array.from({ length: MAX_URL_IMPORT_ITEMS + 1 }, (_, i) => `https://e.com/${i}`),
+        ).error,
+      ).toContain('At most');
+    });
+
+    it('should reject file names that are missing, unsafe or used twice', () => {
+      expect(parseUrlImportItems(['https://example.com/']).error).toContain(
+        'set fileName explicitly',
+      );
+      expect(
+        parseUrlImportItems([{ url: 'https://example.com/a', fileName: '../etc/passwd' }]).error,
+      ).toContain('path separators');
+      expect(parseUrlImportItems([{ url: 'https://example.com/a', fileName: '..' }]).error).toBe(
+        'File name is required.',
+      );
+      expect(
+        parseUrlImportItems(['https://example.com/a/model.gguf', 'https://mirror.com/model.gguf'])
+          .error,
+      ).toContain("Several URLs would be saved as 'model.gguf'");
+    });
+  });
+
+  describe('validateUrlImportHeaders', () => {
+    it('should accept missing headers and string values', () => {
+      expect(validateUrlImportHeaders(undefined)).toBeNull();
+      expect(
+        validateUrlImportHeaders({ Authorization: 'Bearer token', 'X-Api-Key': 'key' }),
+      ).toBeNull();
+    });
+
+    it('should reject invalid, reserved and injected headers', () => {
+      expect(validateUrlImportHeaders(['Authorization'])).toContain('must be an object');
+      expect(validateUrlImportHeaders({ 'Bad Header': 'value' })).toContain('Invalid header name');
+      expect(validateUrlImportHeaders({ Range: 'bytes=0-' })).toContain('cannot be set');
+      expect(validateUrlImportHeaders({ 'X-Api-Key': 42 })).toContain('Invalid value');
+      expect(validateUrlImportHeaders({ 'X-Api-Key': 'key\r\nHost: evil' })).toContain(
+        'Invalid value',
+      );
+    });
+  });
+});
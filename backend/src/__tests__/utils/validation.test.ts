@@ -7,6 +7,17 @@ import {
   validateContinuationToken,
   validateQuery,
   validateAndDecodePrefix,
+  validateVersionId,
+  validateVersioningStatus,
+  validateObjectMetadata,
+  validateObjectTags,
+  validateContentType,
+  validatePresignMethod,
+  validatePresignExpiry,
+  validateUploadSize,
+  validateUploadId,
+  validatePartNumbers,
+  validateUploadedParts,
 } from '../../utils/validation';
 
 describe('validateBucketName', () => {
@@ -323,3 +334,207 @@ describe('validateAndDecodePrefix', () => {
     });
   });
 });
+
+describe('validateVersionId', () => {
+  it('should accept undefined (optional parameter)', () => {
+    expect(validateVersionId(undefined)).toBeNull();
+  });
+
+  it('should accept AWS, MinIO and null version IDs', () => {
+    const validVersionIds = [
+      '3/L4kqtJlcpXroDTDmJ+rmSpXd3dIbrHY+MTRCxf3vjVBH40Nr8X8gdRQBpUMLUo',
+      'f1b8a3c2-5d4e-4f6a-9b7c-8d9e0f1a2b3c',
+      'null',
+      'a'.repeat(1024), // maximum length
+    ];
+
+    validVersionIds.forEach((versionId) => {
+      expect(validateVersionId(versionId)).toBeNull();
+    });
+  });
+
+  it('should reject non-string, empty and too long version IDs', () => {
+    expect(validateVersionId(123 as any)).toBe('Version ID must be a string.');
+    expect(validateVersionId('')).toBe('Version ID length is invalid.');
+    expect(validateVersionId('a'.repeat(1025))).toBe('Version ID length is invalid.');
+  });
+
+  it('should reject version IDs with special characters', () => {
+    expect(validateVersionId('version id')).toBe('Version ID format is invalid.');
+    expect(validateVersionId('version&acl')).toBe('Version ID format is invalid.');
+    expect(validateVersionId('version?x=1')).toBe('Version ID format is invalid.');
+  });
+});
+
+describe('validateVersioningStatus', () => {
+  it('should accept the states a bucket can be put in', () => {
+    expect(validateVersioningStatus('Enabled')).toBeNull();
+    expect(validateVersioningStatus('Suspended')).toBeNull();
+  });
+
+  it('should reject other states', () => {
+    ['Disabled', 'enabled', '', undefined].forEach((status) => {
+      expect(validateVersioningStatus(status)).toBe(
+        "Versioning status must be 'Enabled' or 'Suspended'.",
+      );
+    });
+  });
+});
+
+describe('validateObjectMetadata', () => {
+  it('should accept string metadata', () => {
+    expect(validateObjectMetadata({})).toBeNull();
+    expect(
+      validateObjectMetadata({ 'model-id': 'ibm-granite/granite-3.1', 'x.y_z': '' }),
+    ).toBeNull();
+  });
+
+  it('should reject invalid keys, values and sizes', () => {
+    expect(validateObjectMetadata(['a'])).toBe('Metadata must be an object of string values.');
+    expect(validateObjectMetadata({ count: 1 })).toBe(
+      'Metadata must be an object of string values.',
+    );
+    expect(validateObjectMetadata({ 'bad key': 'x' })).toBe(
+      'Metadata keys may only contain letters, numbers, hyphens, underscores and dots.',
+    );
+    expect(validateObjectMetadata({ key: 'line\nbreak' })).toBe(
+      'Metadata values may only contain printable ASCII characters.',
+    );
+    expect(validateObjectMetadata({ key: 'a'.repeat(2048) })).toBe(
+      'Metadata exceeds the 2 KB limit.',
+    );
+  });
+});
+
+describe('validateObjectTags', () => {
+  it('should accept S3 tags', () => {
+    expect(validateObjectTags({ team: 'ml ops', 'app:version': '1.2+beta', empty: '' })).toBeNull();
+  });
+
+  it('should reject too many tags and invalid characters', () => {
+    const tooMany = Object.fromEntries([...Array(11)].map((_, i) => [`tag${i}`, 'x']));
+    expect(validateObjectTags(tooMany)).toBe('An object can have at most 10 tags.');
+    expect(validateObjectTags({ '': 'x' })).toBe(
+      'Tag keys must be 1-128 characters and values at most 256 characters.',
+    );
+    expect(validateObjectTags({ team: 'a&b' })).toBe(
+      'Tags may only contain letters, numbers, spaces and + - = . _ : / @',
+    );
+    expect(validateObjectTags('team=ml')).toBe('Tags must be an object of string values.');
+  });
+});
+
+describe('validateContentType', () => {
+  it('should accept MIME types with parameters', () => {
+    expect(validateContentType('application/json')).toBeNull();
+    expect(validateContentType('text/plain; charset=utf-8')).toBeNull();
+    expect(validateContentType('application/vnd.openxmlformats+xml;q="0.9"')).toBeNull();
+  });
+
+  it('should reject invalid content types', () => {
+    expect(validateContentType(undefined)).toBe('Content type must be a string.');
+    expect(validateContentType('')).toBe('Content type length is invalid.');
+    expect(validateContentType('json')).toBe('Content type format is invalid.');
+    expect(validateContentType('text/plain\r\nX-Injected: 1')).toBe(
+      'Content type format is invalid.',
+    );
+  });
+});
+
+describe('validatePresignMethod', () => {
+  it('should accept GET and PUT', () => {
+    expect(validatePresignMethod('GET')).toBeNull();
+    expect(validatePresignMethod('PUT')).toBeNull();
+  });
+
+  it('should reject other methods', () => {
+    expect(validatePresignMethod(undefined)).toBe("Method must be 'GET' or 'PUT'.");
+    expect(validatePresignMethod('DELETE')).toBe("Method must be 'GET' or 'PUT'.");
+    expect(validatePresignMethod('get')).toBe("Method must be 'GET' or 'PUT'.");
+  });
+});
+
+describe('validatePresignExpiry', () => {
+  it('should accept expiries up to 7 days', () => {
+    expect(validatePresignExpiry(undefined)).toBeNull();
+    expect(validatePresignExpiry(1)).toBeNull();
+    expect(validatePresignExpiry(604800)).toBeNull();
+  });
+
+  it('should reject invalid expiries', () => {
+    expect(validatePresignExpiry('3600')).toBe('Expiry must be a whole number of seconds.');
+    expect(validatePresignExpiry(1.5)).toBe('Expiry must be a whole number of seconds.');
+    expect(validatePresignExpiry(0)).toBe('Expiry must be between 1 second and 7 days.');
+    expect(validatePresignExpiry(604801)).toBe('Expiry must be between 1 second and 7 days.');
+  });
+});
+
+describe('validateUploadSize', () => {
+  it('should accept sizes up to 5 TiB', () => {
+    expect(validateUploadSize(0)).toBeNull();
+    expect(validateUploadSize(5 * 1024 ** 4)).toBeNull();
+  });
+
+  it('should reject invalid sizes', () => {
+    expect(validateUploadSize(undefined)).toBe('Size must be a whole number of bytes.');
+    expect(validateUploadSize(-1)).toBe('Size must be a whole number of bytes.');
+    expect(validateUploadSize(5 * 1024 ** 4 + 1)).toBe(
+      'Size exceeds the 5 TiB limit of S3 objects.',
+    );
+  });
+});
+
+describe('validateUploadId', () => {
+  it('should accept upload IDs of S3 implementations', () => {
+    expect(
+      validateUploadId('VXBsb2FkIElEIGZvciA2aWWpbmcncyBteS1tb3ZpZS5tMnRzIHVwbG9hZA'),
+    ).toBeNull();
+    expect(validateUploadId('2~Qx8bPz0r5dUtxQ2Sle0NE9FbVzh1DQz')).toBeNull();
+  });
+
+  it('should reject missing and invalid upload IDs', () => {
+    expect(validateUploadId(undefined)).toBe('Upload ID is required.');
+    expect(validateUploadId(42)).toBe('Upload ID is invalid.');
+    expect(validateUploadId('upload id')).toBe('Upload ID format is invalid.');
+  });
+});
+
+describe('validatePartNumbers', () => {
+  it('should accept a batch of part numbers', () => {
+    expect(validatePartNumbers([1, 2, 10000])).toBeNull();
+  });
+
+  it('should reject invalid batches', () => {
+    expect(validatePartNumbers([])).toBe('Part numbers are required.');
+    expect(validatePartNumbers([...Array(101)].map((_, i) => i + 1))).toBe(
+      'At most 100 part URLs can be requested at once.',
+    );
+    expect(validatePartNumbers([0])).toBe('Part numbers must be integers between 1 and 10000.');
+    expect(validatePartNumbers([1.5])).toBe('Part numbers must be integers between 1 and 10000.');
+  });
+});
+
+describe('validateUploadedParts', () => {
+  it('should accept parts with ETags', () => {
+    expect(
+      validateUploadedParts([
+        { partNumber: 1, etag: '"etag-1"' },
+        { partNumber: 2, etag: '"etag-2"' },
+      ]),
+    ).toBeNull();
+  });
+
+  it('should reject invalid parts', () => {
+    expect(validateUploadedParts(undefined)).toBe('Parts are required.');
+    expect(validateUploadedParts([{ partNumber: 1 }])).toBe('The ETag of part 1 is invalid.');
+    expect(
+      validateUploadedParts([
+        { partNumber: 1, etag: 'a' },
+        { partNumber: 1, etag: 'b' },
+      ]),
+    ).toBe('Part 1 is listed more than once.');
+    expect(validateUploadedParts([{ partNumber: 10001, etag: 'a' }])).toBe(
+      'Part numbers must be integers between 1 and 10000.',
+    );
+  });
+});
@@ -2,46 +2,146 @@ import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import {
   CreateBucketCommand,
   DeleteBucketCommand,
+  GetBucketVersioningCommand,
   ListBucketsCommand,
   HeadBucketCommand,
+  PutBucketVersioningCommand,
   S3ServiceException,
 } from '@aws-sdk/client-s3';
 
-import { getS3Config } from '../../../utils/config';
+import {
+  DEFAULT_S3_CONNECTION_ID,
+  formatS3LocationId,
+  getS3Config,
+  getS3Connections,
+  getS3Location,
+  S3ConnectionProfile,
+} from '../../../utils/config';
 import { logAccess } from '../../../utils/logAccess';
 import { sanitizeErrorForLogging } from '../../../utils/errorLogging';
+import { validateVersioningStatus } from '../../../utils/validation';
+
+/**
+ * Time allowed to list the buckets of one S3 connection, in milliseconds
+ * An unreachable endpoint only delays the listing of the other connections by this much.
+ */
+const LIST_CONNECTION_BUCKETS_TIMEOUT = 15000;
+
+/**
+ * Whether a connection has anything to connect with
+ * The default connection exists even when no AWS_* variables are set; it is not listed then.
+ */
+const isConfiguredConnection = (connection: S3ConnectionProfile): boolean =>
+  connection.id !== DEFAULT_S3_CONNECTION_ID ||
+  !!(connection.endpoint || connection.accessKeyId || connection.secretAccessKey);
+
+/**
+ * List the buckets of a connection that can be accessed
+ */
+const listConnectionBuckets = async (connection: S3ConnectionProfile, abortSignal: AbortSignal) => {
+  const { s3Client } = getS3Config(connection.id);
+  const { Owner, Buckets } = await s3Client.send(new ListBucketsCommand({}), { abortSignal });
+
+  // Filter buckets to only include those we can access
+  const buckets = [];
+  for (const bucket of Buckets || []) {
+    if (abortSignal.aborted) {
+      break;
+    }
+    try {
+      // Try to access bucket metadata - will throw if no access
+      await s3Client.send(new HeadBucketCommand({ Bucket: bucket.Name }), { abortSignal });
+      buckets.push({
+        ...bucket,
+        connectionId: connection.id,
+        connectionName: connection.name,
+        locationId: formatS3LocationId(connection.id, bucket.Name as string),
+      });
+    } catch (bucketError) {
+      // Skip buckets we don't have access to
+      console.log(`No access to bucket: ${bucket.Name} (connection ${connection.id})`);
+    }
+  }
+  return { owner: Owner, buckets };
+};
+
+/**
+ * List the buckets of a connection, giving up after LIST_CONNECTION_BUCKETS_TIMEOUT
+ * @throws The error of ListBuckets, or a TimeoutError
+ */
+const listConnectionBucketsWithTimeout = async (connection: S3ConnectionProfile) => {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      const error = new Error(
+        `Listing the buckets of S3 connection ${connection.id} timed out after ${
+          LIST_CONNECTION_BUCKETS_TIMEOUT / 1000
+        } seconds`,
+      );
+      error.name = 'TimeoutError';
+      reject(error);
+    }, LIST_CONNECTION_BUCKETS_TIMEOUT);
+  });
+
+  try {
+    return await Promise.race([listConnectionBuckets(connection, controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
 
 export default async (fastify: FastifyInstance): Promise<void> => {
-  // Retrieve all accessible buckets
+  // Retrieve all accessible buckets of all S3 connections
+  // Each bucket carries its connection and its location id ("<connectionId>:<bucket>", or the
+  // bucket name for the default connection). Connections are listed in parallel; a connection
+  // that can't be listed (or doesn't answer in time) is reported in connectionErrors, the
+  // request only fails when no connection could be listed.
   fastify.get('/', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
-    const { s3Client, defaultBucket } = getS3Config();
-    const command = new ListBucketsCommand({});
+    const connections = getS3Connections().filter(isConfiguredConnection);
+    const { defaultBucket } = getS3Config();
 
-    try {
-      const { Owner, Buckets } = await s3Client.send(command);
-
-      // Filter buckets to only include those we can access
-      const accessibleBuckets = [];
-      if (Buckets) {
-        for (const bucket of Buckets) {
-          try {
-            // Try to access bucket metadata - will throw if no access
-            await s3Client.send(new HeadBucketCommand({ Bucket: bucket.Name }));
-            accessibleBuckets.push(bucket);
-          } catch (bucketError) {
-            // Skip buckets we don't have access to
-            console.log(`No access to bucket: ${bucket.Name}`);
-          }
+    const results = await Promise.allSettled(connections.map(listConnectionBucketsWithTimeout));
+
+    let owner;
+    let firstError: any;
+    const accessibleBuckets = [];
+    const connectionErrors = [];
+    for (const [index, result] of results.entries()) {
+      const connection = connections[index];
+      if (result.status === 'fulfilled') {
+        if (connection.id === DEFAULT_S3_CONNECTION_ID) {
+          owner = result.value.owner;
         }
+        accessibleBuckets.push(...result.value.buckets);
+      } else {
+        const error = result.reason;
+        firstError = firstError || error;
+        connectionErrors.push({
+          connectionId: connection.id,
+          error: error.name || 'Unknown error',
+          message: error.message || 'An unexpected error occurred.',
+        });
       }
+    }
 
+    if (connectionErrors.length < connections.length || connections.length === 0) {
+      if (connectionErrors.length > 0) {
+        console.error(
+          'Error listing buckets of S3 connections:',
+          connectionErrors.map((e) => `${e.connectionId}: ${e.error}`).join(', '),
+        );
+      }
       reply.send({
-        owner: Owner,
+        owner,
         defaultBucket: defaultBucket,
         buckets: accessibleBuckets,
+        connectionErrors,
       });
-    } catch (error) {
+    } else {
+      const error = firstError;
       if (error instanceof S3ServiceException) {
         console.error(`S3 error listing buckets: ${error.name} - ${error.message}`);
         const statusCode = error.$metadata?.httpStatusCode || 500;
@@ -59,11 +159,11 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     }
   });
 
-  // Create a new bucket
+  // Create a new bucket, on the default connection unless connectionId is given
   fastify.post('/', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
-    const { s3Client } = getS3Config();
-    const { bucketName } = req.body as any;
+    const { bucketName, connectionId } = req.body as any;
+    const { s3Client } = getS3Config(connectionId || DEFAULT_S3_CONNECTION_ID);
     const createBucketCommand = new CreateBucketCommand({
       Bucket: bucketName,
     });
@@ -90,13 +190,14 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   });
 
   // Delete a bucket
+  // bucketName is the location id of the bucket ("<connectionId>:<bucket>" or the bucket name)
   fastify.delete('/:bucketName', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
-    const { s3Client } = getS3Config();
     const { bucketName } = req.params as any;
+    const { s3Client, bucket } = getS3Location(bucketName);
 
     const deleteBucketCommand = new DeleteBucketCommand({
-      Bucket: bucketName,
+      Bucket: bucket,
     });
 
     try {
@@ -119,4 +220,71 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       }
     }
   });
+
+  // Get the versioning state of a bucket
+  // status is 'Enabled', 'Suspended', or null when versioning was never enabled
+  fastify.get('/:bucketName/versioning', async (req: FastifyRequest, reply: FastifyReply) => {
+    logAccess(req);
+    const { bucketName } = req.params as any;
+    const { s3Client, bucket } = getS3Location(bucketName);
+
+    try {
+      const { Status } = await s3Client.send(new GetBucketVersioningCommand({ Bucket: bucket }));
+      reply.send({ status: Status || null });
+    } catch (error) {
+      if (error instanceof S3ServiceException) {
+        console.error(`S3 error getting bucket versioning: ${error.name} - ${error.message}`);
+        const statusCode = error.$metadata?.httpStatusCode || 500;
+        reply.code(statusCode).send({
+          error: error.name || 'S3ServiceException',
+          message: error.message || 'An S3 service exception occurred.',
+        });
+      } else {
+        console.error('Error getting bucket versioning:', sanitizeErrorForLogging(error));
+        reply.code(500).send({
+          error: error.name || 'Unknown error',
+          message: error.message || 'An unexpected error occurred.',
+        });
+      }
+    }
+  });
+
+  // Enable or suspend versioning of a bucket. Body: { status: 'Enabled' | 'Suspended' }
+  // Suspending keeps the existing versions, new writes replace the "null" version.
+  fastify.put('/:bucketName/versioning', async (req: FastifyRequest, reply: FastifyReply) => {
+    logAccess(req);
+    const { bucketName } = req.params as any;
+    const { status } = (req.body as any) || {};
+    const statusError = validateVersioningStatus(status);
+    if (statusError) {
+      reply.code(400).send({ error: 'ValidationError', message: statusError });
+      return;
+    }
+    const { s3Client, bucket } = getS3Location(bucketName);
+
+    try {
+      await s3Client.send(
+        new PutBucketVersioningCommand({
+          Bucket: bucket,
+          VersioningConfiguration: { Status: status },
+        }),
+      );
+      reply.send({ message: 'Bucket versioning updated successfully', status });
+    } catch (error) {
+      if (error instanceof S3ServiceException) {
+        console.error(`S3 error updating bucket versioning: ${error.name} - ${error.message}`);
+        const statusCode = error.$metadata?.httpStatusCode || 500;
+        reply.code(statusCode).send({
+          error: error.name || 'S3ServiceException',
+          message: error.message || 'An S3 service exception occurred.',
+        });
+      } else {
+        console.error('Error updating bucket versioning:', sanitizeErrorForLogging(error));
+        reply.code(500).send({
+          error: error.name || 'Unknown error',
+          message: error.message || 'An unexpected error occurred.',
+        });
+      }
+    }
+  });
 };
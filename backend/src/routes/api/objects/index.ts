@@ -3,6 +3,7 @@ import {
   DeleteObjectsCommand,
   GetObjectCommand,
   ListObjectsV2Command,
+  PutObjectCommand,
   S3Client,
   S3ServiceException,
 } from '@aws-sdk/client-s3';
@@ -13,55 +14,123 @@ import { request as httpsRequest } from 'https';
 import { request as httpRequest } from 'http';
 import { HttpProxyAgent } from 'http-proxy-agent';
 import { HttpsProxyAgent } from 'https-proxy-agent';
-import { Readable, pipeline, PassThrough } from 'stream';
+import { Readable, pipeline, PassThrough, Transform } from 'stream';
 import { URL } from 'url';
 import { promisify } from 'util';
 import { promises as fs, createWriteStream } from 'fs';
 import path from 'path';
 import { base64Decode } from '../../../utils/encoding';
-import { getHFConfig, getProxyConfig, getS3Config } from '../../../utils/config';
+import {
+  getHFCaCertificates,
+  getHFConfig,
+  getHFEndpoint,
+  getMaxFileSizeBytes,
+  getProxyConfig,
+  getS3Location,
+} from '../../../utils/config';
 import { logAccess } from '../../../utils/logAccess';
-import { validatePath, SecurityError } from '../../../utils/localStorage';
+import { validatePath, SecurityError, getAvailableSpace } from '../../../utils/localStorage';
 import { logMemory } from '../../../utils/memoryProfiler';
-import { transferQueue, TransferFileJob } from '../../../utils/transferQueue';
+import {
+  isTransferCancelled,
+  isTransferPriority,
+  transferQueue,
+  TransferFileJob,
+  TransferPriority,
+} from '../../../utils/transferQueue';
 import { uploadWithCleanup, createProgressTransform } from '../../../utils/streamHelpers';
+import { BandwidthLimiter, throttleStream } from '../../../utils/bandwidthThrottle';
+import {
+  abortMultipartUpload,
+  shouldUseResumableUpload,
+  uploadResumable,
+} from '../../../utils/resumableUpload';
+import {
+  getPartialDownloadPath,
+  getPartialDownloadSize,
+  removePartialDownload,
+} from '../../../utils/partialDownload';
 import { sanitizeErrorForLogging } from '../../../utils/errorLogging';
 import {
   validateBucketName,
   validateContinuationToken,
   validateQuery,
   validateAndDecodePrefix,
+  validateContentType,
+  validateObjectMetadata,
+  validateObjectTags,
+  validatePartNumbers,
+  validatePresignExpiry,
+  validatePresignMethod,
+  validateUploadedParts,
+  validateUploadId,
+  validateUploadSize,
+  validateVersionId,
 } from '../../../utils/validation';
+import {
+  parseUrlImportItems,
+  UrlImportInput,
+  validateUrlImportHeaders,
+} from '../../../utils/urlImport';
+import {
+  DEFAULT_REVISION,
+  filterHuggingFaceFiles,
+  getHuggingFaceAxiosOptions,
+  getHuggingFaceFileUrl,
+  getHuggingFaceRepoInfoUrl,
+  getHuggingFaceWhoAmIUrl,
+  HuggingFaceRepoType,
+  isHuggingFaceRepoType,
+  normalizeHuggingFacePatterns,
+  PARQUET_CONVERSION_REVISION,
+  validateHuggingFaceRevision,
+} from '../../../utils/huggingFace';
+import { checkImportCapacity, ImportCapacity } from '../../../utils/importCapacity';
+import {
+  buildModelManifest,
+  getHuggingFaceFileChecksum,
+  MAX_MODEL_CONFIG_SIZE,
+  MODEL_MANIFEST_FILE_NAME,
+  ModelManifestSource,
+} from '../../../utils/modelManifest';
+import { listObjectVersions, restoreObjectVersion } from '../../../utils/objectVersions';
+import {
+  getObjectDetails,
+  ObjectMetadataChanges,
+  putObjectTags,
+  updateObjectMetadata,
+} from '../../../utils/objectDetails';
+import { createPresignedUrl, PresignMethod } from '../../../utils/presignedUrl';
+import {
+  abortUploadSession,
+  createUploadSession,
+  finishUploadSession,
+  getUploadSession,
+  startUploadSession,
+  updateUploadSessionProgress,
+} from '../../../utils/uploadSessions';
+import {
+  abortDirectUpload,
+  completeDirectUpload,
+  DirectUploadPart,
+  getDirectUploadPartUrls,
+  initiateDirectUpload,
+} from '../../../utils/directUpload';
 import { authenticateUser } from '../../../plugins/auth';
 import { auditLog } from '../../../utils/auditLog';
 import { checkRateLimit, getRateLimitResetTime } from '../../../utils/rateLimit';
 
 const pipelineAsync = promisify(pipeline);
 
-interface UploadProgress {
-  loaded: number;
-  status: 'idle' | 'queued' | 'uploading' | 'completed';
-  total?: number;
-}
-
-interface UploadProgresses {
-  [key: string]: UploadProgress;
-}
-
 type Sibling = {
   rfilename: string;
+  size?: number; // Only returned with ?blobs=true
+  blobId?: string; // Only returned with ?blobs=true
+  lfs?: { sha256?: string; size?: number }; // Files stored with git LFS, with ?blobs=true
 };
 
 type Siblings = Sibling[];
 
-const createRef = (initialValue: any) => {
-  return {
-    current: initialValue,
-  };
-};
-
-const abortUploadController = createRef(null);
-
 export default async (fastify: FastifyInstance): Promise<void> => {
   /**
    * Authentication hook - authenticates all requests to /api/objects/*
@@ -275,11 +344,11 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   const handleListRequest = async (
     req: FastifyRequest,
     reply: FastifyReply,
-    bucketName: string,
+    locationId: string,
     encodedPrefix: string | undefined,
   ) => {
     logAccess(req);
-    const { s3Client } = getS3Config();
+    const { s3Client, bucket: bucketName } = getS3Location(locationId);
     const { continuationToken, q, mode, maxKeys, autoBroaden } = (req.query || {}) as any;
 
     // Input validation using secure validation functions
@@ -493,8 +562,10 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   };
 
   // List objects routes
-  // Note: bucketName does NOT need decodeURIComponent - it's validated to URL-safe [a-z0-9-]
-  // (see validateBucketName in utils/validation.ts). Fastify auto-decodes URL params anyway.
+  // Note: bucketName is the location id of the bucket ("<connectionId>:<bucket>", or the bucket
+  // name for the default connection). It does NOT need decodeURIComponent - the bucket part is
+  // validated to URL-safe [a-z0-9-] (see validateBucketName in utils/validation.ts) and
+  // connection ids use the same characters. Fastify auto-decodes URL params anyway.
   // Prefix IS base64-encoded and is decoded within handleListRequest via validateAndDecodePrefix.
   fastify.get('/:bucketName', async (req: FastifyRequest, reply: FastifyReply) => {
     const { bucketName } = req.params as any;
@@ -509,13 +580,19 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   // Get an object to view it in the client
   fastify.get('/view/:bucketName/:encodedKey', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
-    const { s3Client } = getS3Config();
     const { bucketName, encodedKey } = req.params as any;
+    const { versionId } = req.query as { versionId?: string };
+    const versionIdError = validateVersionId(versionId);
+    if (versionIdError) {
+      return reply.code(400).send({ error: 'ValidationError', message: versionIdError });
+    }
+    const { s3Client, bucket } = getS3Location(bucketName);
     const key = base64Decode(encodedKey);
 
     const command = new GetObjectCommand({
-      Bucket: bucketName,
+      Bucket: bucket,
       Key: key,
+      VersionId: versionId,
     });
 
     try {
@@ -543,14 +620,20 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     '/download/:bucketName/:encodedKey',
     async (req: FastifyRequest, reply: FastifyReply) => {
       logAccess(req);
-      const { s3Client } = getS3Config();
       const { bucketName, encodedKey } = req.params as any;
+      const { versionId } = req.query as { versionId?: string };
+      const versionIdError = validateVersionId(versionId);
+      if (versionIdError) {
+        return reply.code(400).send({ error: 'ValidationError', message: versionIdError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
       const key = base64Decode(encodedKey);
       const fileName = key.split('/').pop();
 
       const command = new GetObjectCommand({
-        Bucket: bucketName,
+        Bucket: bucket,
         Key: key,
+        VersionId: versionId,
       });
 
       try {
@@ -589,11 +672,362 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     },
   );
 
+  // List the versions of an object (versioned buckets), from the latest to the oldest
+  // Delete markers are listed too: they hide the object when they are the latest version.
+  // Query: keyMarker and versionIdMarker continue a truncated listing (nextKeyMarker and
+  // nextVersionIdMarker of the previous page), maxKeys limits the page size.
+  fastify.get(
+    '/versions/:bucketName/:encodedKey',
+    async (req: FastifyRequest, reply: FastifyReply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { keyMarker, versionIdMarker, maxKeys } = req.query as {
+        keyMarker?: string;
+        versionIdMarker?: string;
+        maxKeys?: string;
+      };
+      const versionIdError = validateVersionId(versionIdMarker);
+      if (versionIdError) {
+        return reply.code(400).send({ error: 'ValidationError', message: versionIdError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        const page = await listObjectVersions(s3Client, bucket, {
+          prefix: key,
+          exactKey: true,
+          keyMarker: keyMarker || undefined,
+          versionIdMarker: versionIdMarker || undefined,
+          maxKeys: normalizeMaxKeys(maxKeys),
+        });
+        return reply.send(page);
+      } catch (err: any) {
+        req.log.error(sanitizeErrorForLogging(err));
+        if (err instanceof S3ServiceException) {
+          return reply.code(err.$metadata.httpStatusCode || 500).send({
+            error: err.name || 'S3ServiceException',
+            message: err.message || 'An S3 service exception occurred.',
+          });
+        }
+        return reply.code(500).send({
+          error: err.name || 'Unknown error',
+          message: err.message || 'An unexpected error occurred.',
+        });
+      }
+    },
+  );
+
+  // Restore a previous version of an object: it is copied over the object and becomes the
+  // latest version. Body: { versionId }
+  fastify.post<{ Body: { versionId?: string } }>(
+    '/versions/:bucketName/:encodedKey/restore',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { versionId } = req.body || {};
+      const versionIdError = versionId ? validateVersionId(versionId) : 'Version ID is required.';
+      if (versionIdError) {
+        return reply.code(400).send({ error: 'ValidationError', message: versionIdError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        await restoreObjectVersion(s3Client, bucket, key, versionId as string);
+        return reply.send({ message: 'Version restored successfully', key, versionId });
+      } catch (err: any) {
+        req.log.error(sanitizeErrorForLogging(err));
+        if (err instanceof S3ServiceException) {
+          // S3 answers 405 (MethodNotAllowed) for delete markers, they have no content
+          if (err.$metadata.httpStatusCode === 405) {
+            return reply.code(400).send({
+              error: 'ValidationError',
+              message: 'A delete marker cannot be restored.',
+            });
+          }
+          return reply.code(err.$metadata.httpStatusCode || 500).send({
+            error: err.name || 'S3ServiceException',
+            message: err.message || 'An S3 service exception occurred.',
+          });
+        }
+        return reply.code(500).send({
+          error: err.name || 'Unknown error',
+          message: err.message || 'An unexpected error occurred.',
+        });
+      }
+    },
+  );
+
+  // Replies with the error of a request to S3
+  const sendS3Error = (req: FastifyRequest, reply: FastifyReply, err: any) => {
+    req.log.error(sanitizeErrorForLogging(err));
+    if (err instanceof S3ServiceException) {
+      return reply.code(err.$metadata.httpStatusCode || 500).send({
+        error: err.name || 'S3ServiceException',
+        message: err.message || 'An S3 service exception occurred.',
+      });
+    }
+    return reply.code(500).send({
+      error: err.name || 'Unknown error',
+      message: err.message || 'An unexpected error occurred.',
+    });
+  };
+
+  // Get the details of an object: headers, user metadata, tags, checksum and encryption
+  // Query: versionId for a previous version of the object
+  fastify.get(
+    '/details/:bucketName/:encodedKey',
+    async (req: FastifyRequest, reply: FastifyReply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { versionId } = req.query as { versionId?: string };
+      const versionIdError = validateVersionId(versionId);
+      if (versionIdError) {
+        return reply.code(400).send({ error: 'ValidationError', message: versionIdError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        return reply.send(await getObjectDetails(s3Client, bucket, key, versionId));
+      } catch (err: any) {
+        return sendS3Error(req, reply, err);
+      }
+    },
+  );
+
+  // Change the user metadata and/or content type of an object
+  // Body: { metadata?: Record<string, string>, contentType?: string }, metadata replaces all the
+  // user metadata. The object is copied over itself (see updateObjectMetadata).
+  fastify.put<{ Body: ObjectMetadataChanges }>(
+    '/metadata/:bucketName/:encodedKey',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { metadata, contentType } = req.body || {};
+      let validationError: string | null = null;
+      if (metadata === undefined && contentType === undefined) {
+        validationError = 'Metadata or content type is required.';
+      } else if (metadata !== undefined) {
+        validationError = validateObjectMetadata(metadata);
+      }
+      if (!validationError && contentType !== undefined) {
+        validationError = validateContentType(contentType);
+      }
+      if (validationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: validationError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        await updateObjectMetadata(s3Client, bucket, key, { metadata, contentType });
+        return reply.send(await getObjectDetails(s3Client, bucket, key));
+      } catch (err: any) {
+        return sendS3Error(req, reply, err);
+      }
+    },
+  );
+
+  // Replace the tags of an object. Body: { tags: Record<string, string> }
+  fastify.put<{ Body: { tags?: Record<string, string> } }>(
+    '/tags/:bucketName/:encodedKey',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { tags } = req.body || {};
+      const tagsError = validateObjectTags(tags);
+      if (tagsError) {
+        return reply.code(400).send({ error: 'ValidationError', message: tagsError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        await putObjectTags(s3Client, bucket, key, tags as Record<string, string>);
+        return reply.send(await getObjectDetails(s3Client, bucket, key));
+      } catch (err: any) {
+        return sendS3Error(req, reply, err);
+      }
+    },
+  );
+
+  // Create a presigned URL to share an object: GET downloads it, PUT uploads it, without
+  // credentials until the URL expires. Body: { method: 'GET' | 'PUT', expiresIn?: seconds }
+  // Presigned URLs can't be revoked, every issued URL is recorded in the audit log.
+  fastify.post<{ Body: { method?: PresignMethod; expiresIn?: number } }>(
+    '/presign/:bucketName/:encodedKey',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { method, expiresIn } = req.body || {};
+      const validationError = validatePresignMethod(method) || validatePresignExpiry(expiresIn);
+      if (validationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: validationError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        const presigned = await createPresignedUrl(
+          s3Client,
+          bucket,
+          key,
+          method as PresignMethod,
+          expiresIn,
+        );
+        if (req.user) {
+          auditLog(
+            req.user,
+            'presign',
+            `s3:${bucketName}/${key}`,
+            'success',
+            `${presigned.method} URL expiring at ${presigned.expiresAt}`,
+          );
+        }
+        return reply.send(presigned);
+      } catch (err: any) {
+        req.log.error(sanitizeErrorForLogging(err));
+        return reply.code(500).send({
+          error: err.name || 'Unknown error',
+          message: err.message || 'An unexpected error occurred.',
+        });
+      }
+    },
+  );
+
+  // Direct uploads: the browser uploads the parts of a multipart upload straight to S3 with
+  // presigned URLs, the backend only starts, completes or aborts the upload. The object's data
+  // doesn't go through the backend, so its size isn't limited by the resources of the pod.
+  // The bucket's CORS configuration must allow PUT requests from the application and expose
+  // the ETag header.
+
+  // Start a direct upload. Body: { size, contentType? }
+  // Returns { uploadId, key, partSize, partCount }: part N covers bytes (N-1)*partSize to
+  // N*partSize of the file.
+  fastify.post<{ Body: { size?: number; contentType?: string } }>(
+    '/direct-upload/:bucketName/:encodedKey',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { size, contentType } = req.body || {};
+      const validationError =
+        validateUploadSize(size) ||
+        (contentType !== undefined ? validateContentType(contentType) : null);
+      if (validationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: validationError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        return reply.send(
+          await initiateDirectUpload(s3Client, bucket, key, size as number, contentType),
+        );
+      } catch (err: any) {
+        return sendS3Error(req, reply, err);
+      }
+    },
+  );
+
+  // Presigned URLs to upload parts of a direct upload, requested in batches
+  // Body: { uploadId, partNumbers: number[] } (at most 100)
+  // Returns { parts: [{ partNumber, url }] }
+  fastify.post<{ Body: { uploadId?: string; partNumbers?: number[] } }>(
+    '/direct-upload/:bucketName/:encodedKey/parts',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { uploadId, partNumbers } = req.body || {};
+      const validationError = validateUploadId(uploadId) || validatePartNumbers(partNumbers);
+      if (validationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: validationError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        const parts = await getDirectUploadPartUrls(
+          s3Client,
+          bucket,
+          key,
+          uploadId as string,
+          partNumbers as number[],
+        );
+        if (req.user) {
+          auditLog(
+            req.user,
+            'presign',
+            `s3:${bucketName}/${key}`,
+            'success',
+            `PUT URLs for ${parts.length} part(s) of multipart upload ${uploadId}`,
+          );
+        }
+        return reply.send({ parts });
+      } catch (err: any) {
+        return sendS3Error(req, reply, err);
+      }
+    },
+  );
+
+  // Complete a direct upload. Body: { uploadId, parts: [{ partNumber, etag }] }
+  fastify.post<{ Body: { uploadId?: string; parts?: DirectUploadPart[] } }>(
+    '/direct-upload/:bucketName/:encodedKey/complete',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { uploadId, parts } = req.body || {};
+      const validationError = validateUploadId(uploadId) || validateUploadedParts(parts);
+      if (validationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: validationError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        await completeDirectUpload(
+          s3Client,
+          bucket,
+          key,
+          uploadId as string,
+          parts as DirectUploadPart[],
+        );
+        return reply.send({ message: 'Object uploaded successfully', key });
+      } catch (err: any) {
+        return sendS3Error(req, reply, err);
+      }
+    },
+  );
+
+  // Abort a direct upload, S3 deletes the parts uploaded so far. Body: { uploadId }
+  fastify.post<{ Body: { uploadId?: string } }>(
+    '/direct-upload/:bucketName/:encodedKey/abort',
+    async (req, reply) => {
+      logAccess(req);
+      const { bucketName, encodedKey } = req.params as any;
+      const { uploadId } = req.body || {};
+      const validationError = validateUploadId(uploadId);
+      if (validationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: validationError });
+      }
+      const { s3Client, bucket } = getS3Location(bucketName);
+      const key = base64Decode(encodedKey);
+
+      try {
+        await abortDirectUpload(s3Client, bucket, key, uploadId as string);
+        return reply.send({ message: 'Upload aborted' });
+      } catch (err: any) {
+        return sendS3Error(req, reply, err);
+      }
+    },
+  );
+
   // Delete an object or objects with given prefix (folder) from the bucket
   fastify.delete('/:bucketName/:encodedKey', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
-    const { s3Client } = getS3Config();
     const { bucketName, encodedKey } = req.params as any;
+    const { s3Client, bucket } = getS3Location(bucketName);
     const objectName = base64Decode(encodedKey); // This can also be the prefix
 
     try {
@@ -604,7 +1038,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       // Paginate through all objects with the given prefix
       do {
         const listCommand = new ListObjectsV2Command({
-          Bucket: bucketName,
+          Bucket: bucket,
           Prefix: objectName,
           ContinuationToken: continuationToken,
           MaxKeys: 1000, // S3 maximum per request
@@ -622,7 +1056,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       // If no objects found, try deleting as a single object
       if (objectsToDelete.length === 0) {
         const deleteCommand = new DeleteObjectCommand({
-          Bucket: bucketName,
+          Bucket: bucket,
           Key: objectName,
         });
         await s3Client.send(deleteCommand);
@@ -638,7 +1072,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         const batch = objectsToDelete.slice(i, i + batchSize);
 
         const deleteCommand = new DeleteObjectsCommand({
-          Bucket: bucketName,
+          Bucket: bucket,
           Delete: {
             Objects: batch,
             Quiet: true, // Don't return deleted object details (reduces response size)
@@ -673,11 +1107,26 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     }
   });
 
-  // Progress tracking for uploads
-  const uploadProgresses: UploadProgresses = {};
+  // Uploads through the backend have a session (see utils/uploadSessions.ts): the client creates
+  // it, then uploads with ?uploadId= and follows the progress or aborts the upload with its id.
+  const uploadNotFound = (reply: FastifyReply) =>
+    reply.code(404).send({ error: 'NotFound', message: 'Upload not found or expired.' });
+
+  // Create the session of an upload
+  fastify.post('/upload-sessions', async (req: FastifyRequest, reply: FastifyReply) => {
+    logAccess(req);
+    const session = createUploadSession(req.user?.username);
+    reply.send({ uploadId: session.id });
+  });
+
+  // Progress of an upload, as server-sent events until it finishes
+  fastify.get('/upload-progress/:uploadId', (req: FastifyRequest, reply: FastifyReply) => {
+    const { uploadId } = req.params as any;
+    if (!getUploadSession(uploadId, req.user?.username)) {
+      uploadNotFound(reply);
+      return;
+    }
 
-  fastify.get('/upload-progress/:encodedKey', (req: FastifyRequest, reply: FastifyReply) => {
-    const { encodedKey } = req.params as any;
     reply.raw.setHeader('Access-Control-Allow-Origin', '*');
     reply.raw.setHeader(
       'Access-Control-Allow-Headers',
@@ -692,33 +1141,38 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     };
 
     const interval = setInterval(() => {
-      if (uploadProgresses[encodedKey]) {
-        sendEvent({
-          loaded: uploadProgresses[encodedKey].loaded,
-          status: uploadProgresses[encodedKey].status,
-        });
-        if (uploadProgresses[encodedKey].status === 'completed') {
-          console.log('Upload completed for ', encodedKey);
-          clearInterval(interval);
-          delete uploadProgresses[encodedKey];
-          reply.raw.end();
-        }
+      // Sessions whose upload never started expire
+      const current = getUploadSession(uploadId, req.user?.username);
+      if (!current) {
+        clearInterval(interval);
+        reply.raw.end();
+        return;
+      }
+      if (current.status === 'pending') {
+        return;
+      }
+      sendEvent({ loaded: current.loaded, status: current.status });
+      if (current.status !== 'uploading') {
+        clearInterval(interval);
+        reply.raw.end();
       }
     }, 1000);
 
     // Handle client disconnect
     req.raw.on('close', () => {
-      delete uploadProgresses[encodedKey];
       clearInterval(interval);
     });
   });
 
-  // Abort an ongoing upload
-  fastify.get('/abort-upload/:encodedKey', (req: FastifyRequest, reply: FastifyReply) => {
-    const { encodedKey } = req.params as any;
-    if (abortUploadController.current) {
-      (abortUploadController.current as AbortController).abort();
-      delete uploadProgresses[encodedKey];
+  // Abort an upload, or prevent it from starting
+  fastify.get('/abort-upload/:uploadId', (req: FastifyRequest, reply: FastifyReply) => {
+    const { uploadId } = req.params as any;
+    const session = getUploadSession(uploadId, req.user?.username);
+    if (!session) {
+      uploadNotFound(reply);
+      return;
+    }
+    if (abortUploadSession(session)) {
       reply.send({ message: 'Upload aborted' });
     } else {
       reply.send({ message: 'No upload to abort' });
@@ -731,9 +1185,27 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     async (req: FastifyRequest, reply: FastifyReply) => {
       logAccess(req);
       const { bucketName, encodedKey } = req.params as any;
-      const { s3Client } = getS3Config();
+      const { uploadId } = req.query as { uploadId?: string };
+      const { s3Client, bucket } = getS3Location(bucketName);
       const key = base64Decode(encodedKey);
 
+      // Clients that don't follow the upload get a session of their own
+      const session =
+        uploadId !== undefined
+          ? getUploadSession(uploadId, req.user?.username)
+          : createUploadSession(req.user?.username);
+      if (!session) {
+        uploadNotFound(reply);
+        return;
+      }
+      if (!startUploadSession(session)) {
+        reply.code(409).send({
+          error: 'Conflict',
+          message: 'This upload was already started or aborted.',
+        });
+        return;
+      }
+
       const data = await req.file({
         limits: {
           fileSize: 10 * 1024 * 1024 * 1024, // 10Gb limit
@@ -741,6 +1213,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       });
 
       if (!data) {
+        finishUploadSession(session, 'failed');
         reply.status(400).send({ error: 'File not found', message: 'File not found in request' });
         console.log('File not found in request');
         return;
@@ -748,12 +1221,8 @@ export default async (fastify: FastifyInstance): Promise<void> => {
 
       const fileStream = data.file;
 
-      abortUploadController.current = new AbortController();
-
-      uploadProgresses[encodedKey] = { loaded: 0, status: 'uploading' };
-
       const target = {
-        Bucket: bucketName,
+        Bucket: bucket,
         Key: key,
         Body: fileStream,
       };
@@ -764,7 +1233,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
           queueSize: 4, // optional concurrency configuration
           leavePartsOnError: false, // optional manually handle dropped parts
           params: target,
-          abortController: abortUploadController.current as AbortController,
+          abortController: session.abortController,
         });
 
         // Throttled progress tracking to prevent memory leaks
@@ -774,20 +1243,18 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         const throttledProgress = (loaded: number) => {
           // Only update progress every 1MB
           if (loaded - lastReported >= PROGRESS_THRESHOLD) {
-            uploadProgresses[encodedKey] = { loaded, status: 'uploading' };
+            updateUploadSessionProgress(session, loaded);
             lastReported = loaded;
           }
         };
 
         // Use uploadWithCleanup to ensure event listeners are removed
         await uploadWithCleanup(upload, throttledProgress);
-        uploadProgresses[encodedKey] = { loaded: 0, status: 'completed' };
-        abortUploadController.current = null;
+        finishUploadSession(session, 'completed');
         reply.send({ message: 'Object uploaded successfully' });
       } catch (e: any) {
         console.error('Upload failed:', sanitizeErrorForLogging(e));
-        abortUploadController.current = null;
-        delete uploadProgresses[encodedKey];
+        finishUploadSession(session, e.name === 'AbortError' ? 'aborted' : 'failed');
         if (e instanceof S3ServiceException) {
           reply.code(e.$metadata.httpStatusCode || 500).send({
             error: e.name || 'S3ServiceException',
@@ -811,33 +1278,112 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   // NOTE: Old HuggingFace import implementation removed to fix memory leaks
   // Use POST /huggingface-import with transferQueue instead
 
+  // Interface for the HuggingFace repository (and files) of an import or preview request
+  interface HuggingFaceRepoRequest {
+    modelId: string; // Repository ID, of a dataset when repoType === 'dataset'
+    repoType?: HuggingFaceRepoType; // Defaults to 'model'
+    parquetConversion?: boolean; // Import the Parquet conversion of a dataset instead of its files
+    revision?: string; // Branch, tag or commit, defaults to 'main'
+    allowPatterns?: string | string[]; // Only files matching one of these globs are imported
+    ignorePatterns?: string | string[]; // Files matching one of these globs are not imported
+    hfToken?: string;
+  }
+
   // Interface for HuggingFace import request
-  interface HuggingFaceImportRequest {
+  interface HuggingFaceImportRequest extends HuggingFaceRepoRequest {
     destinationType?: 's3' | 'local'; // Optional for backward compatibility, defaults to 's3'
     localLocationId?: string; // Required if destinationType === 'local'
     localPath?: string; // Required if destinationType === 'local'
     bucketName?: string; // Required if destinationType === 's3'
-    modelId: string;
+    prefix?: string;
+    priority?: TransferPriority; // Defaults to 'normal'
+  }
+
+  // HuggingFace repository resolved for an import or preview
+  interface HuggingFaceRepo {
+    repoType: HuggingFaceRepoType;
+    repoId: string;
+    revision: string; // Requested revision
+    sha?: string; // Commit the revision points to, files are downloaded from it
+    files: Siblings; // Files matching the allow and ignore patterns
     hfToken?: string;
+  }
+
+  // Error of a HuggingFace repository request, sent as is to the client
+  interface HuggingFaceRepoError {
+    statusCode: number;
+    error: string;
+    message: string;
+  }
+
+  interface UrlImportRequest {
+    destinationType?: 's3' | 'local'; // Defaults to 's3'
+    localLocationId?: string; // Required if destinationType === 'local'
+    localPath?: string; // Required if destinationType === 'local'
+    bucketName?: string; // Required if destinationType === 's3'
     prefix?: string;
+    urls: UrlImportInput[];
+    headers?: Record<string, string>; // Sent with every request, e.g. Authorization
+    priority?: TransferPriority; // Defaults to 'normal'
   }
 
-  // Helper function to download a HuggingFace file to S3 or local storage
-  async function downloadHuggingFaceFile(
-    fileJob: TransferFileJob,
-    destinationType: 's3' | 'local',
-    hfToken: string | undefined,
-    onProgress: (loaded: number) => void,
-    abortSignal: AbortSignal,
-  ): Promise<void> {
-    const { sourcePath, destinationPath } = fileJob;
+  // Validate the destination of an import
+  // Returns null if valid, error message string if invalid
+  async function validateImportDestination(
+    body: Pick<
+      HuggingFaceImportRequest,
+      'destinationType' | 'localLocationId' | 'localPath' | 'bucketName' | 'priority'
+    >,
+  ): Promise<string | null> {
+    const { destinationType = 's3', localLocationId, localPath, bucketName, priority } = body;
+
+    if (destinationType !== 's3' && destinationType !== 'local') {
+      return `Invalid destinationType '${destinationType}', expected one of: s3, local`;
+    }
 
-    // Memory profiling: Start of HF download
-    const fileName = path.basename(sourcePath);
-    logMemory(`[HF] Start download: ${fileName}`);
+    if (destinationType === 's3' && !bucketName) {
+      return 'bucketName is required for S3 destination';
+    }
 
-    // Parse destination path
-    // Format: "s3:bucketName/path" or "local:locationId/path"
+    if (priority !== undefined && !isTransferPriority(priority)) {
+      return `Invalid priority '${priority}', expected one of: low, normal, high`;
+    }
+
+    if (destinationType === 'local') {
+      if (!localLocationId || localPath === undefined) {
+        return 'localLocationId and localPath are required for local destination';
+      }
+
+      // Validate local path
+      try {
+        await validatePath(localLocationId, localPath);
+      } catch (error: any) {
+        return `Invalid local storage path: ${error.message}`;
+      }
+    }
+
+    return null;
+  }
+
+  // Headers and log label of an HTTP file download
+  interface HttpDownloadSource {
+    headers: Record<string, string>; // Sent with every request (e.g. Authorization)
+    label: string; // Prefix of memory profiling logs
+    sameOriginHeaders?: boolean; // Drop the headers when a redirect leaves the origin of the URL
+    ca?: string[]; // Certificates trusted for https URLs, the default ones if undefined
+  }
+
+  // Response of a (possibly ranged) HTTP file request
+  interface HttpDownloadResponse {
+    stream: Readable;
+    contentLength: number; // Length of the returned content, not of the whole file
+    etag?: string;
+    partial: boolean; // True if the content starts at the requested range offset
+  }
+
+  // Split a transfer destination ("s3:bucketName/path" or "local:locationId/path") into
+  // the bucket or location and the path in it
+  function parseDestinationPath(destinationPath: string): { destLoc: string; destPath: string } {
     const colonIndex = destinationPath.indexOf(':');
     if (colonIndex === -1) {
       throw new Error(`Invalid destination path format: ${destinationPath}`);
@@ -849,23 +1395,79 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       throw new Error(`Invalid destination path format: ${destinationPath}`);
     }
 
-    const destLoc = destRemainder.substring(0, firstSlash);
-    const destPath = destRemainder.substring(firstSlash + 1);
+    return {
+      destLoc: destRemainder.substring(0, firstSlash),
+      destPath: destRemainder.substring(firstSlash + 1),
+    };
+  }
+
+  // Helper function to create the parent directories of a local destination
+  // and return its validated absolute path
+  async function prepareLocalDestination(destLoc: string, destPath: string): Promise<string> {
+    // First, ensure parent directory structure exists
+    const parentRelativePath = path.dirname(destPath);
+
+    // Get validated base path
+    const basePath = await validatePath(destLoc, '.');
+
+    // Construct parent absolute path
+    const normalizedParent = path.normalize(parentRelativePath || '.');
+    const parentAbsolutePath = path.join(basePath, normalizedParent);
+
+    // Security check: ensure parent doesn't escape base
+    if (!parentAbsolutePath.startsWith(basePath + path.sep) && parentAbsolutePath !== basePath) {
+      throw new SecurityError(`Path escapes allowed directory: ${parentRelativePath}`);
+    }
+
+    // Create directory structure recursively
+    await fs.mkdir(parentAbsolutePath, { recursive: true });
+
+    // Now validate the full file path (will succeed because parent exists)
+    return validatePath(destLoc, destPath);
+  }
+
+  // Helper function to download a file over HTTP(S) to S3 or local storage
+  // (HuggingFace model files and URL imports)
+  // Local downloads resume from an existing .part sidecar with an HTTP Range request
+  async function downloadHttpFile(
+    fileJob: TransferFileJob,
+    destinationType: 's3' | 'local',
+    source: HttpDownloadSource,
+    onProgress: (loaded: number) => void,
+    abortSignal: AbortSignal,
+    bandwidth?: BandwidthLimiter,
+  ): Promise<void> {
+    const { sourcePath, destinationPath } = fileJob;
+    const { label } = source;
+    const sourceOrigin = new URL(sourcePath).origin;
+
+    // Memory profiling: Start of download
+    const fileName = path.basename(sourcePath);
+    logMemory(`[${label}] Start download: ${fileName}`);
+
+    // Parse destination path
+    // Format: "s3:bucketName/path" or "local:locationId/path"
+    const { destLoc, destPath } = parseDestinationPath(destinationPath);
 
-    // Fetch from HuggingFace with native https module (zero buffering)
+    // Fetch with native https module (zero buffering)
     const { httpProxy, httpsProxy } = getProxyConfig();
 
     // Recursive function to follow redirects
+    // rangeStart > 0 requests the content starting at that byte offset. With ifRange (an ETag),
+    // the server sends the whole content instead if it changed since that ETag was seen.
     const makeRequest = (
       currentUrl: string,
       redirectCount = 0,
-    ): Promise<{ stream: Readable; contentLength: number }> => {
+      rangeStart = 0,
+      ifRange?: string,
+    ): Promise<HttpDownloadResponse> => {
       // Prevent infinite redirect loops
       if (redirectCount > 10) {
         return Promise.reject(new Error('Too many redirects (max 10)'));
       }
 
       const url = new URL(currentUrl);
+      const sendHeaders = !source.sameOriginHeaders || url.origin === sourceOrigin;
 
       // Prepare request options
       const requestOptions: any = {
@@ -873,18 +1475,26 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         port: url.port || (url.protocol === 'https:' ? 443 : 80),
         path: url.pathname + url.search,
         method: 'GET',
-        headers: hfToken ? { Authorization: `Bearer ${hfToken}` } : {},
+        headers: {
+          ...(sendHeaders ? source.headers : {}),
+          ...(rangeStart > 0 ? { Range: `bytes=${rangeStart}-` } : {}),
+          ...(rangeStart > 0 && ifRange ? { 'If-Range': ifRange } : {}),
+        },
         signal: abortSignal, // Add abort signal to cancel HTTP request
       };
 
+      if (source.ca && url.protocol === 'https:') {
+        requestOptions.ca = source.ca;
+      }
+
       // Add proxy agent if configured
       if (url.protocol === 'https:' && httpsProxy) {
-        requestOptions.agent = new HttpsProxyAgent(httpsProxy);
+        requestOptions.agent = new HttpsProxyAgent(httpsProxy, source.ca ? { ca: source.ca } : {});
       } else if (url.protocol === 'http:' && httpProxy) {
         requestOptions.agent = new HttpProxyAgent(httpProxy);
       }
 
-      return new Promise<{ stream: Readable; contentLength: number }>((resolve, reject) => {
+      return new Promise<HttpDownloadResponse>((resolve, reject) => {
         const req = (url.protocol === 'https:' ? httpsRequest : httpRequest)(
           requestOptions,
           (res) => {
@@ -905,16 +1515,56 @@ export default async (fastify: FastifyInstance): Promise<void> => {
               const redirectUrl = new URL(location, currentUrl);
 
               // Follow redirect recursively
-              makeRequest(redirectUrl.href, redirectCount + 1)
+              makeRequest(redirectUrl.href, redirectCount + 1, rangeStart, ifRange)
                 .then(resolve)
                 .catch(reject);
               return;
             }
 
+            const contentLength = parseInt(res.headers['content-length'] || '0', 10);
+            const etag = res.headers.etag;
+
+            // Nothing left past the requested offset: download the whole file again
+            if (statusCode === 416 && rangeStart > 0) {
+              res.resume();
+              makeRequest(currentUrl, redirectCount + 1)
+                .then(resolve)
+                .catch(reject);
+              return;
+            }
+
+            // Handle partial content (206) for ranged requests
+            if (statusCode === 206 && rangeStart > 0) {
+              resolve({ stream: res, contentLength, etag, partial: true });
+              return;
+            }
+
             // Handle success (200)
             if (statusCode === 200) {
-              const contentLength = parseInt(res.headers['content-length'] || '0', 10);
-              resolve({ stream: res, contentLength });
+              if (rangeStart > 0 && !ifRange) {
+                // Server ignored the Range header: drop the bytes we already have
+                let toSkip = rangeStart;
+                const skipTransform = new Transform({
+                  transform(chunk: Buffer, encoding, callback) {
+                    if (toSkip >= chunk.length) {
+                      toSkip -= chunk.length;
+                      callback();
+                      return;
+                    }
+                    const rest = chunk.subarray(toSkip);
+                    toSkip = 0;
+                    callback(null, rest);
+                  },
+                });
+                resolve({
+                  stream: pipeline(res, skipTransform, () => undefined),
+                  contentLength: Math.max(contentLength - rangeStart, 0),
+                  etag,
+                  partial: true,
+                });
+                return;
+              }
+              resolve({ stream: res, contentLength, etag, partial: false });
               return;
             }
 
@@ -932,17 +1582,42 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       });
     };
 
+    // Local downloads are written to a .part sidecar. If a previous attempt of this file job
+    // left one behind, only request the missing bytes (If-Range restarts if the file changed).
+    let absolutePath = '';
+    let partPath = '';
+    let resumeOffset = 0;
+    if (destinationType === 'local') {
+      absolutePath = await prepareLocalDestination(destLoc, destPath);
+      partPath = getPartialDownloadPath(absolutePath);
+      resumeOffset = fileJob.sourceETag ? await getPartialDownloadSize(partPath) : 0;
+    }
+
     // Make initial request (will follow redirects automatically)
-    const { stream, contentLength } = await makeRequest(sourcePath);
+    const { stream, contentLength, etag, partial } = await makeRequest(
+      sourcePath,
+      0,
+      resumeOffset,
+      resumeOffset > 0 ? fileJob.sourceETag : undefined,
+    );
+    const startOffset = partial ? resumeOffset : 0;
 
-    fileJob.size = contentLength;
+    // Parts uploaded by a previous attempt are only reused when they come from the same version
+    // of the file
+    const previousETag = fileJob.sourceETag;
+    fileJob.size = startOffset + contentLength;
+    fileJob.sourceETag = etag;
 
     // Memory profiling: HTTP response received
-    const sizeInMB = (contentLength / (1024 * 1024)).toFixed(2);
-    logMemory(`[HF] Response received: ${fileName} (${sizeInMB} MB)`);
+    const sizeInMB = (fileJob.size / (1024 * 1024)).toFixed(2);
+    logMemory(`[${label}] Response received: ${fileName} (${sizeInMB} MB)`);
+    if (startOffset > 0) {
+      logMemory(`[${label}] Resuming at byte ${startOffset}: ${fileName}`);
+      onProgress(startOffset);
+    }
 
     // Track progress with throttling to prevent memory leaks
-    const progressTransform = createProgressTransform(onProgress);
+    const progressTransform = createProgressTransform((loaded) => onProgress(startOffset + loaded));
 
     // Add abort handling to progress transform
     if (abortSignal) {
@@ -956,13 +1631,69 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     }
 
     // Memory profiling: Before pipeline setup
-    logMemory(`[HF] Before pipeline: ${fileName}`);
+    logMemory(`[${label}] Before pipeline: ${fileName}`);
 
     try {
       // Write to destination
       if (destinationType === 's3') {
         // Upload to S3
-        const { s3Client } = getS3Config();
+        const { s3Client, bucket } = getS3Location(destLoc);
+
+        if (shouldUseResumableUpload(contentLength)) {
+          if (fileJob.multipartUpload && (!etag || etag !== previousETag)) {
+            // The file changed (or can't be identified) since its parts were uploaded
+            await abortMultipartUpload(s3Client, fileJob.multipartUpload);
+            fileJob.multipartUpload = undefined;
+          }
+
+          // Large files use a resumable multipart upload, so a retried or restarted
+          // import continues from the last completed part instead of from zero
+          let changedResponse: HttpDownloadResponse | undefined;
+          const uploadFrom = (body: Readable, size: number) =>
+            uploadResumable({
+              s3Client,
+              bucket,
+              key: destPath,
+              size,
+              fileJob,
+              openStream: async (offset) => {
+                if (offset === 0) {
+                  return throttleStream(body, bandwidth);
+                }
+                // Only download what was not uploaded yet, if the file is still the same
+                body.destroy();
+                const response = await makeRequest(sourcePath, 0, offset, fileJob.sourceETag);
+                if (!response.partial) {
+                  changedResponse = response;
+                  throw new Error('Source file changed since its upload started');
+                }
+                return throttleStream(response.stream, bandwidth);
+              },
+              onProgress,
+              abortSignal,
+            });
+
+          try {
+            await uploadFrom(stream, contentLength);
+          } catch (error) {
+            if (!changedResponse) {
+              throw error;
+            }
+            // The server sent the whole new version of the file: start over with it
+            logMemory(`[${label}] Source changed, restarting upload: ${fileName}`);
+            if (fileJob.multipartUpload) {
+              await abortMultipartUpload(s3Client, fileJob.multipartUpload);
+              fileJob.multipartUpload = undefined;
+            }
+            fileJob.size = changedResponse.contentLength;
+            fileJob.sourceETag = changedResponse.etag;
+            await uploadFrom(changedResponse.stream, changedResponse.contentLength);
+          }
+
+          // Memory profiling: S3 upload complete
+          logMemory(`[${label}] S3 upload complete: ${fileName}`);
+          return;
+        }
 
         // Use PassThrough stream to combine axios stream with progress tracking
         // while maintaining backpressure control
@@ -970,14 +1701,18 @@ export default async (fastify: FastifyInstance): Promise<void> => {
           highWaterMark: 64 * 1024, // 64KB chunks - prevents excessive buffering
         });
 
-        // Pipeline with native backpressure: http → progress → passthrough
-        const pipelinePromise = pipelineAsync(stream, progressTransform, passThrough);
+        // Pipeline with native backpressure: http → throttle → progress → passthrough
+        const pipelinePromise = pipelineAsync(
+          throttleStream(stream, bandwidth),
+          progressTransform,
+          passThrough,
+        );
 
         // Upload reads from passthrough with proper backpressure
         const upload = new Upload({
           client: s3Client,
           params: {
-            Bucket: destLoc,
+            Bucket: bucket,
             Key: destPath,
             Body: passThrough,
           },
@@ -987,50 +1722,308 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         await Promise.all([upload.done(), pipelinePromise]);
 
         // Memory profiling: S3 upload complete
-        logMemory(`[HF] S3 upload complete: ${fileName}`);
+        logMemory(`[${label}] S3 upload complete: ${fileName}`);
       } else {
-        // Write to local storage
-        // First, ensure parent directory structure exists
-        const parentRelativePath = path.dirname(destPath);
-
-        // Get validated base path
-        const basePath = await validatePath(destLoc, '.');
-
-        // Construct parent absolute path
-        const normalizedParent = path.normalize(parentRelativePath || '.');
-        const parentAbsolutePath = path.join(basePath, normalizedParent);
-
-        // Security check: ensure parent doesn't escape base
-        if (
-          !parentAbsolutePath.startsWith(basePath + path.sep) &&
-          parentAbsolutePath !== basePath
-        ) {
-          throw new SecurityError(`Path escapes allowed directory: ${parentRelativePath}`);
-        }
-
-        // Create directory structure recursively
-        await fs.mkdir(parentAbsolutePath, { recursive: true });
-
-        // Now validate the full file path (will succeed because parent exists)
-        const absolutePath = await validatePath(destLoc, destPath);
-
+        // Write to local storage, appending when resuming a partial download
         // Stream to file with native backpressure
-        await pipelineAsync(stream, progressTransform, createWriteStream(absolutePath));
+        await pipelineAsync(
+          throttleStream(stream, bandwidth),
+          progressTransform,
+          createWriteStream(partPath, { flags: startOffset > 0 ? 'a' : 'w' }),
+        );
+        await fs.rename(partPath, absolutePath);
 
         // Memory profiling: Local file write complete
-        logMemory(`[HF] Local write complete: ${fileName}`);
+        logMemory(`[${label}] Local write complete: ${fileName}`);
       }
     } catch (error) {
       // Memory profiling: Error occurred
-      logMemory(`[HF] Error during transfer: ${fileName}`);
+      logMemory(`[${label}] Error during transfer: ${fileName}`);
 
       // Critical: Destroy streams on error to prevent memory leaks
       stream.destroy();
       progressTransform.destroy();
+
+      if (partPath && isTransferCancelled(abortSignal)) {
+        // Cancelled downloads are never resumed (paused ones keep their partial download)
+        await removePartialDownload(partPath);
+      }
       throw error;
     }
   }
 
+  // Axios options of a HuggingFace API request with the configured proxy and CA bundle
+  const getHFAxiosOptions = (url: string, hfToken?: string): AxiosRequestConfig =>
+    getHuggingFaceAxiosOptions(url, { hfToken, ...getProxyConfig(), ca: getHFCaCertificates() });
+
+  // Fetch a HuggingFace repository and its files matching the request patterns
+  // Checks that the token gives access to gated repositories.
+  async function fetchHuggingFaceRepo(
+    body: HuggingFaceRepoRequest,
+  ): Promise<{ repo?: HuggingFaceRepo; error?: HuggingFaceRepoError }> {
+    const {
+      modelId,
+      repoType = 'model',
+      parquetConversion = false,
+      revision: requestRevision,
+      hfToken: requestHfToken,
+    } = body;
+
+    // Use HF token from request or fall back to configured token
+    const hfToken = requestHfToken || getHFConfig();
+
+    const validationError = (message: string) => ({
+      error: { statusCode: 400, error: 'ValidationError', message },
+    });
+
+    if (!modelId || typeof modelId !== 'string') {
+      return validationError('modelId is required');
+    }
+
+    if (!isHuggingFaceRepoType(repoType)) {
+      return validationError(`Invalid repoType '${repoType}', expected one of: model, dataset`);
+    }
+
+    if (parquetConversion && repoType !== 'dataset') {
+      return validationError('parquetConversion is only available for datasets');
+    }
+
+    const revisionError = validateHuggingFaceRevision(requestRevision);
+    if (revisionError) {
+      return validationError(revisionError);
+    }
+
+    if (parquetConversion && requestRevision !== undefined) {
+      return validationError('parquetConversion cannot be combined with a revision');
+    }
+
+    const allowPatterns = normalizeHuggingFacePatterns(body.allowPatterns);
+    const ignorePatterns = normalizeHuggingFacePatterns(body.ignorePatterns);
+    if (allowPatterns === null || ignorePatterns === null) {
+      return validationError('allowPatterns and ignorePatterns must be glob patterns');
+    }
+
+    // The Parquet conversion of a dataset lives on its own branch
+    const revision = parquetConversion
+      ? PARQUET_CONVERSION_REVISION
+      : requestRevision || DEFAULT_REVISION;
+
+    // Fetch repository info (with file sizes) from HuggingFace
+    let modelInfo: any;
+    try {
+      const modelInfoUrl = getHuggingFaceRepoInfoUrl(
+        getHFEndpoint(),
+        repoType,
+        modelId,
+        revision === DEFAULT_REVISION ? undefined : revision,
+        true,
+      );
+      modelInfo = await axios.get(modelInfoUrl, getHFAxiosOptions(modelInfoUrl, hfToken));
+    } catch (error: any) {
+      return {
+        error: {
+          statusCode: error.response?.status || 500,
+          error: error.response?.data?.error || 'HuggingFace API error',
+          message:
+            error.response?.data?.error || `Error fetching ${repoType} info from HuggingFace`,
+        },
+      };
+    }
+
+    // Check if repository is gated and user is authorized
+    const modelGated = modelInfo.data.gated;
+    if (modelGated !== false && hfToken) {
+      try {
+        const whoAmIUrl = getHuggingFaceWhoAmIUrl(getHFEndpoint());
+        await axios.get(whoAmIUrl, getHFAxiosOptions(whoAmIUrl, hfToken));
+      } catch (error) {
+        return {
+          error: {
+            statusCode: 401,
+            error: 'Unauthorized',
+            message: `This ${repoType} requires a valid HuggingFace token to be downloaded, or you are not authorized.`,
+          },
+        };
+      }
+    } else if (modelGated !== false && !hfToken) {
+      return {
+        error: {
+          statusCode: 401,
+          error: 'Unauthorized',
+          message: `This ${repoType} is gated and requires a HuggingFace token.`,
+        },
+      };
+    }
+
+    // Get repository files matching the patterns
+    const siblings: Siblings = modelInfo.data.siblings || [];
+    const files = filterHuggingFaceFiles(
+      siblings,
+      (file) => file.rfilename,
+      allowPatterns,
+      ignorePatterns,
+    );
+
+    return {
+      repo: {
+        repoType,
+        repoId: modelId,
+        revision,
+        sha: modelInfo.data.sha,
+        files,
+        hfToken,
+      },
+    };
+  }
+
+  // Check that the files of a HuggingFace import fit in its destination
+  // Free space is only known for local storage, the destination must have been validated.
+  async function getHuggingFaceImportCapacity(
+    body: Pick<HuggingFaceImportRequest, 'destinationType' | 'localLocationId' | 'localPath'>,
+    files: Siblings,
+  ): Promise<ImportCapacity> {
+    const { destinationType = 's3', localLocationId, localPath } = body;
+    let availableSpace: number | null = null;
+    if (destinationType === 'local' && localLocationId) {
+      availableSpace = await getAvailableSpace(await validatePath(localLocationId, localPath));
+    }
+    return checkImportCapacity(
+      files.map((file) => ({ path: file.rfilename, size: file.size })),
+      availableSpace,
+      getMaxFileSizeBytes(),
+    );
+  }
+
+  // Download source of HuggingFace files, authenticated with the token if any
+  // Trusts the CA bundle of the HuggingFace endpoint (e.g. a mirror)
+  const huggingFaceSource = (hfToken: string | undefined): HttpDownloadSource => ({
+    headers: hfToken ? { Authorization: `Bearer ${hfToken}` } : {},
+    label: 'HF',
+    ca: getHFCaCertificates(),
+  });
+
+  // Download source of URL imports
+  // Custom headers (often credentials) are not forwarded to other origins on redirects
+  const urlImportSource = (headers: Record<string, string> = {}): HttpDownloadSource => ({
+    headers,
+    label: 'URL',
+    sameOriginHeaders: true,
+  });
+
+  // Allow HuggingFace imports persisted by a previous run to be resumed.
+  // The token is never persisted, so resumed jobs use the configured HF token.
+  transferQueue.registerExecutorFactory('huggingface', (params) => {
+    const destinationType: 's3' | 'local' = params.destinationType;
+    return async (fileJob, onProgress, abortSignal, bandwidth) => {
+      await downloadHttpFile(
+        fileJob,
+        destinationType,
+        huggingFaceSource(getHFConfig()),
+        onProgress,
+        abortSignal,
+        bandwidth,
+      );
+    };
+  });
+
+  // Read a small imported file (e.g. config.json) from S3 or local storage
+  async function readDestinationFile(
+    destinationType: 's3' | 'local',
+    destinationPath: string,
+  ): Promise<string> {
+    const { destLoc, destPath } = parseDestinationPath(destinationPath);
+    if (destinationType === 's3') {
+      const { s3Client, bucket } = getS3Location(destLoc);
+      const response = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: destPath }));
+      if (!response.Body) {
+        throw new Error('S3 response body is empty');
+      }
+      return response.Body.transformToString('utf-8');
+    }
+    return fs.readFile(await validatePath(destLoc, destPath), 'utf-8');
+  }
+
+  // Write a file created by an import (e.g. its manifest) to S3 or local storage
+  async function writeDestinationFile(
+    destinationType: 's3' | 'local',
+    destinationPath: string,
+    content: string,
+  ): Promise<void> {
+    const { destLoc, destPath } = parseDestinationPath(destinationPath);
+    if (destinationType === 's3') {
+      const { s3Client, bucket } = getS3Location(destLoc);
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: destPath,
+          Body: content,
+          ContentType: 'application/json',
+        }),
+      );
+      return;
+    }
+    await fs.writeFile(await prepareLocalDestination(destLoc, destPath), content, 'utf-8');
+  }
+
+  // Write the manifest of a completed HuggingFace import next to its files
+  // Also runs for imports resumed after a restart, their manifest source is in the job params.
+  transferQueue.registerCompletionHandler('huggingface', async (job) => {
+    const { destinationType, manifestDirectory, manifest } = job.params || {};
+    if (!manifestDirectory || !manifest) {
+      return; // Imports queued before manifests were written
+    }
+    const source = manifest as ModelManifestSource;
+    const files = job.files.map((file) => ({
+      path: file.destinationPath.substring(manifestDirectory.length + 1),
+      size: file.size,
+    }));
+
+    let config: unknown;
+    const configFile = files.find((file) => file.path === 'config.json');
+    if (source.repoType === 'model' && configFile && configFile.size <= MAX_MODEL_CONFIG_SIZE) {
+      try {
+        config = JSON.parse(
+          await readDestinationFile(destinationType, `${manifestDirectory}/config.json`),
+        );
+      } catch (error) {
+        console.warn(
+          `Cannot read config.json of ${source.repoId}:`,
+          sanitizeErrorForLogging(error),
+        );
+      }
+    }
+
+    const manifestPath = `${manifestDirectory}/${MODEL_MANIFEST_FILE_NAME}`;
+    await writeDestinationFile(
+      destinationType,
+      manifestPath,
+      JSON.stringify(buildModelManifest(source, files, config), null, 2),
+    );
+    logMemory(`[HF] Manifest written: ${manifestPath}`);
+  });
+
+  // Allow URL imports persisted by a previous run to be resumed.
+  // Custom headers are never persisted: imports that had some are not resumed, as they would
+  // be sent without their credentials.
+  transferQueue.registerExecutorFactory('url-import', (params) => {
+    if (params.hasHeaders) {
+      throw new Error(
+        'Interrupted by server restart: custom headers are not kept, re-submit the import with its credentials',
+      );
+    }
+    const destinationType: 's3' | 'local' = params.destinationType;
+    return async (fileJob, onProgress, abortSignal, bandwidth) => {
+      await downloadHttpFile(
+        fileJob,
+        destinationType,
+        urlImportSource(),
+        onProgress,
+        abortSignal,
+        bandwidth,
+      );
+    };
+  });
+
   // New POST route for HuggingFace import with local storage support
   fastify.post<{ Body: HuggingFaceImportRequest }>(
     '/huggingface-import',
@@ -1042,140 +2035,229 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         localLocationId,
         localPath,
         bucketName,
-        modelId,
-        hfToken: requestHfToken,
         prefix,
+        priority,
       } = body;
 
-      // Use HF token from request or fall back to configured token
-      const hfToken = requestHfToken || getHFConfig();
-
       // Validate destination parameters
-      if (destinationType === 's3' && !bucketName) {
+      const destinationError = await validateImportDestination(body);
+      if (destinationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: destinationError });
+      }
+
+      const { repo, error: repoError } = await fetchHuggingFaceRepo(body);
+      if (!repo) {
+        const { statusCode, ...errorBody } = repoError as HuggingFaceRepoError;
+        return reply.code(statusCode).send(errorBody);
+      }
+      const { repoType, repoId: modelId, hfToken } = repo;
+      // Download from the commit the revision points to, so all files come from one snapshot
+      const revision = repo.sha || repo.revision;
+
+      if (repo.files.length === 0) {
         return reply.code(400).send({
           error: 'ValidationError',
-          message: 'bucketName is required for S3 destination',
+          message: `No file of ${repoType} ${modelId} matches the allow and ignore patterns`,
         });
       }
 
-      if (destinationType === 'local') {
-        if (!localLocationId || localPath === undefined) {
-          return reply.code(400).send({
-            error: 'ValidationError',
-            message: 'localLocationId and localPath are required for local destination',
-          });
-        }
+      // Pre-flight check: refuse imports that cannot fit in their destination
+      let capacity: ImportCapacity;
+      try {
+        capacity = await getHuggingFaceImportCapacity(body, repo.files);
+      } catch (error: any) {
+        return reply.code(500).send({ error: 'StorageError', message: error.message });
+      }
+      if (capacity.errors.length > 0) {
+        return reply.code(capacity.insufficientSpace ? 507 : 413).send({
+          error: capacity.insufficientSpace ? 'InsufficientStorage' : 'FileTooLarge',
+          message: capacity.errors.join(' '),
+          capacity,
+        });
+      }
 
-        // Validate local path
-        try {
-          await validatePath(localLocationId, localPath);
-        } catch (error: any) {
-          return reply.code(400).send({
-            error: 'ValidationError',
-            message: `Invalid local storage path: ${error.message}`,
-          });
+      // Normalize paths to remove trailing slashes to avoid double-slash issues
+      const normalizedPrefix = prefix ? prefix.replace(/\/$/, '') : '';
+      const normalizedLocalPath = localPath ? localPath.replace(/\/$/, '') : '';
+
+      // Files are imported in a directory named after the repository, with the manifest
+      const importDirectory =
+        destinationType === 's3'
+          ? `s3:${bucketName}/${normalizedPrefix ? `${normalizedPrefix}/` : ''}${modelId}`
+          : `local:${localLocationId}/${
+              normalizedLocalPath ? `${normalizedLocalPath}/` : ''
+            }${modelId}`;
+
+      // Create transfer jobs
+      const files = repo.files.map((file) => ({
+        sourcePath: getHuggingFaceFileUrl(
+          getHFEndpoint(),
+          repoType,
+          modelId,
+          revision,
+          file.rfilename,
+        ),
+        destinationPath: `${importDirectory}/${file.rfilename}`,
+        size: file.size || 0, // Updated from the response during transfer
+      }));
+
+      // Written next to the files once they are all imported
+      const manifest: ModelManifestSource = {
+        endpoint: getHFEndpoint(),
+        repoType,
+        repoId: modelId,
+        revision: repo.revision,
+        sha: repo.sha,
+        checksums: {},
+      };
+      for (const file of repo.files) {
+        const checksum = getHuggingFaceFileChecksum(file);
+        if (checksum) {
+          manifest.checksums[file.rfilename] = checksum;
         }
       }
 
-      // Fetch model info from HuggingFace
-      let modelInfo: any;
-      try {
-        const { httpProxy, httpsProxy } = getProxyConfig();
-        const modelInfoUrl = 'https://huggingface.co/api/models/' + modelId;
-        const axiosOptions: AxiosRequestConfig = {
-          headers: hfToken ? { Authorization: `Bearer ${hfToken}` } : {},
-        };
+      // Queue transfer job
+      const jobId = transferQueue.queueJob(
+        'huggingface',
+        files,
+        async (fileJob, onProgress, abortSignal, bandwidth) => {
+          await downloadHttpFile(
+            fileJob,
+            destinationType,
+            huggingFaceSource(hfToken),
+            onProgress,
+            abortSignal,
+            bandwidth,
+          );
+        },
+        { params: { destinationType, manifestDirectory: importDirectory, manifest }, priority },
+      );
 
-        if (modelInfoUrl.startsWith('https://') && httpsProxy) {
-          axiosOptions.httpsAgent = new HttpsProxyAgent(httpsProxy);
-          axiosOptions.proxy = false;
-        } else if (modelInfoUrl.startsWith('http://') && httpProxy) {
-          axiosOptions.httpAgent = new HttpProxyAgent(httpProxy);
-          axiosOptions.proxy = false;
-        }
+      // Return job ID and SSE URL
+      // SSE endpoint is at /api/transfer/progress/:jobId
+      // Return relative path (frontend prepends backend_api_url which includes /api)
+      return reply.send({
+        message: `${repoType === 'dataset' ? 'Dataset' : 'Model'} import started`,
+        jobId,
+        sseUrl: `/transfer/progress/${jobId}`,
+        totalSize: capacity.totalSize,
+        warnings: capacity.warnings,
+      });
+    },
+  );
 
-        modelInfo = await axios.get(modelInfoUrl, axiosOptions);
+  // Preview the files of a HuggingFace import (matching its revision and patterns) with
+  // their sizes, before the import is started
+  // The destination is optional, when given the preview tells whether the files fit in it.
+  fastify.post<{ Body: HuggingFaceImportRequest }>(
+    '/huggingface-preview',
+    async (req: FastifyRequest, reply: FastifyReply) => {
+      logAccess(req);
+      const body = (req.body || {}) as HuggingFaceImportRequest;
+      const { repo, error } = await fetchHuggingFaceRepo(body);
+      if (!repo) {
+        const { statusCode, ...errorBody } = error as HuggingFaceRepoError;
+        return reply.code(statusCode).send(errorBody);
+      }
+
+      let capacity: ImportCapacity;
+      try {
+        capacity = await getHuggingFaceImportCapacity(body, repo.files);
       } catch (error: any) {
-        return reply.code(error.response?.status || 500).send({
-          error: error.response?.data?.error || 'HuggingFace API error',
-          message: error.response?.data?.error || 'Error fetching model info from HuggingFace',
+        return reply.code(400).send({
+          error: 'ValidationError',
+          message: `Cannot check the destination: ${error.message}`,
         });
       }
 
-      // Check if model is gated and user is authorized
-      const modelGated = modelInfo.data.gated;
-      if (modelGated !== false && hfToken) {
-        try {
-          const { httpProxy, httpsProxy } = getProxyConfig();
-          const whoAmIUrl = 'https://huggingface.co/api/whoami-v2';
-          const axiosOptions: AxiosRequestConfig = {
-            headers: { Authorization: `Bearer ${hfToken}` },
-          };
-
-          if (whoAmIUrl.startsWith('https://') && httpsProxy) {
-            axiosOptions.httpsAgent = new HttpsProxyAgent(httpsProxy);
-            axiosOptions.proxy = false;
-          } else if (whoAmIUrl.startsWith('http://') && httpProxy) {
-            axiosOptions.httpAgent = new HttpProxyAgent(httpProxy);
-            axiosOptions.proxy = false;
-          }
+      const files = repo.files.map((file) => ({ path: file.rfilename, size: file.size ?? null }));
+      return reply.send({
+        repoType: repo.repoType,
+        repoId: repo.repoId,
+        revision: repo.revision,
+        sha: repo.sha ?? null,
+        files,
+        totalSize: capacity.totalSize,
+        capacity,
+      });
+    },
+  );
 
-          await axios.get(whoAmIUrl, axiosOptions);
-        } catch (error) {
-          return reply.code(401).send({
-            error: 'Unauthorized',
-            message:
-              'This model requires a valid HuggingFace token to be downloaded, or you are not authorized.',
-          });
-        }
-      } else if (modelGated !== false && !hfToken) {
-        return reply.code(401).send({
-          error: 'Unauthorized',
-          message: 'This model is gated and requires a HuggingFace token.',
-        });
+  // Import files from arbitrary HTTP(S) URLs to S3 or local storage
+  fastify.post<{ Body: UrlImportRequest }>(
+    '/url-import',
+    async (req: FastifyRequest, reply: FastifyReply) => {
+      logAccess(req);
+      const body = req.body as UrlImportRequest;
+      const {
+        destinationType = 's3',
+        localLocationId,
+        localPath,
+        bucketName,
+        prefix,
+        urls,
+        headers,
+        priority,
+      } = body || ({} as UrlImportRequest);
+
+      const destinationError = await validateImportDestination(body || {});
+      if (destinationError) {
+        return reply.code(400).send({ error: 'ValidationError', message: destinationError });
       }
 
-      // Get model files
-      const modelFiles: Siblings = modelInfo.data.siblings;
+      const headersError = validateUrlImportHeaders(headers);
+      if (headersError) {
+        return reply.code(400).send({ error: 'ValidationError', message: headersError });
+      }
 
-      // Create transfer jobs
-      const files = modelFiles.map((file) => {
-        const fileUrl = `https://huggingface.co/${modelId}/resolve/main/${file.rfilename}`;
+      const { items, error: urlsError } = parseUrlImportItems(urls);
+      if (!items) {
+        return reply.code(400).send({ error: 'ValidationError', message: urlsError });
+      }
 
-        // Normalize paths to remove trailing slashes to avoid double-slash issues
-        const normalizedPrefix = prefix ? prefix.replace(/\/$/, '') : '';
-        const normalizedLocalPath = localPath ? localPath.replace(/\/$/, '') : '';
+      // Normalize paths to remove trailing slashes to avoid double-slash issues
+      const normalizedPrefix = prefix ? prefix.replace(/\/$/, '') : '';
+      const normalizedLocalPath = localPath ? localPath.replace(/\/$/, '') : '';
 
-        const destinationPath =
+      const files = items.map((item) => ({
+        sourcePath: item.url,
+        destinationPath:
           destinationType === 's3'
-            ? `s3:${bucketName}/${normalizedPrefix ? `${normalizedPrefix}/` : ''}${modelId}/${
-                file.rfilename
-              }`
-            : `local:${localLocationId}/${
-                normalizedLocalPath ? `${normalizedLocalPath}/` : ''
-              }${modelId}/${file.rfilename}`;
-
-        return {
-          sourcePath: fileUrl,
-          destinationPath,
-          size: 0, // Will be tracked during transfer
-        };
-      });
-
-      // Queue transfer job
+            ? `s3:${bucketName}/${normalizedPrefix ? `${normalizedPrefix}/` : ''}${item.fileName}`
+            : `local:${localLocationId}/${normalizedLocalPath ? `${normalizedLocalPath}/` : ''}${
+                item.fileName
+              }`,
+        size: 0, // Will be tracked during transfer
+      }));
+
+      // Headers may hold credentials: they stay in memory and are not part of the job params
+      const source = urlImportSource(headers);
       const jobId = transferQueue.queueJob(
-        'huggingface',
+        'url-import',
         files,
-        async (fileJob, onProgress, abortSignal) => {
-          await downloadHuggingFaceFile(fileJob, destinationType, hfToken, onProgress, abortSignal);
+        async (fileJob, onProgress, abortSignal, bandwidth) => {
+          await downloadHttpFile(
+            fileJob,
+            destinationType,
+            source,
+            onProgress,
+            abortSignal,
+            bandwidth,
+          );
+        },
+        {
+          params: {
+            destinationType,
+            // Tells restored jobs that they can't be resumed without the headers
+            ...(headers && Object.keys(headers).length > 0 && { hasHeaders: true }),
+          },
+          priority,
         },
       );
 
-      // Return job ID and SSE URL
-      // SSE endpoint is at /api/transfer/progress/:jobId
-      // Return relative path (frontend prepends backend_api_url which includes /api)
       return reply.send({
-        message: 'Model import started',
+        message: 'URL import started',
         jobId,
         sseUrl: `/transfer/progress/${jobId}`,
       });
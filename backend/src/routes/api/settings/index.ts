@@ -5,17 +5,27 @@ import { NodeJsClient } from '@smithy/types';
 import axios, { AxiosRequestConfig } from 'axios';
 
 import {
+  DEFAULT_S3_CONNECTION_ID,
   updateS3Config,
   getS3Config,
+  getS3Connections,
+  isValidS3ConnectionId,
+  removeS3Connection,
+  saveS3Connection,
   getHFConfig,
   updateHFConfig,
+  getHFEndpoint,
+  updateHFEndpoint,
+  normalizeHFEndpoint,
+  getHFCaCertificates,
   getMaxConcurrentTransfers,
   updateMaxConcurrentTransfers,
+  getBandwidthConfig,
+  updateBandwidthConfig,
   getMaxFilesPerPage,
   updateMaxFilesPerPage,
   getProxyConfig,
   updateProxyConfig,
-  initializeS3Client,
 } from '../../../utils/config';
 import { updateTransferQueueConcurrency } from '../../../utils/transferQueue';
 import { sanitizeErrorForLogging } from '../../../utils/errorLogging';
@@ -23,6 +33,7 @@ import { HttpProxyAgent } from 'http-proxy-agent';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import { NodeHttpHandler } from '@aws-sdk/node-http-handler';
 import { logAccess } from '../../../utils/logAccess';
+import { getHuggingFaceAxiosOptions, getHuggingFaceWhoAmIUrl } from '../../../utils/huggingFace';
 
 export default async (fastify: FastifyInstance): Promise<void> => {
   // Retrieve S3 settings
@@ -68,12 +79,86 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     }
   });
 
+  // Retrieve all S3 connections, the default connection first
+  fastify.get('/s3-connections', async (req: FastifyRequest, reply: FastifyReply) => {
+    logAccess(req);
+    reply.send({ connections: getS3Connections() });
+  });
+
+  // Add an S3 connection or update an existing one
+  fastify.put('/s3-connections/:connectionId', async (req: FastifyRequest, reply: FastifyReply) => {
+    logAccess(req);
+    const { connectionId } = req.params as any;
+    const {
+      name,
+      accessKeyId,
+      secretAccessKey,
+      region,
+      endpoint,
+      defaultBucket,
+      httpProxy,
+      httpsProxy,
+    } = req.body as any;
+    if (!isValidS3ConnectionId(connectionId)) {
+      return reply.code(400).send({
+        error: 'ValidationError',
+        message:
+          'Connection id must be 1-32 lowercase letters, digits or hyphens, starting and ending with a letter or digit',
+      });
+    }
+    try {
+      saveS3Connection({
+        id: connectionId,
+        name: name || connectionId,
+        accessKeyId: accessKeyId || '',
+        secretAccessKey: secretAccessKey || '',
+        region: region || 'us-east-1',
+        endpoint: endpoint || '',
+        defaultBucket: defaultBucket || '',
+        httpProxy: httpProxy || undefined,
+        httpsProxy: httpsProxy || undefined,
+      });
+      reply.send({ message: 'Settings updated successfully' });
+    } catch (error: any) {
+      console.error('Error updating settings:', sanitizeErrorForLogging(error));
+      reply.code(500).send({ error: error.name, message: error.message });
+    }
+  });
+
+  // Remove an S3 connection (the default connection can't be removed)
+  fastify.delete(
+    '/s3-connections/:connectionId',
+    async (req: FastifyRequest, reply: FastifyReply) => {
+      logAccess(req);
+      const { connectionId } = req.params as any;
+      if (connectionId === DEFAULT_S3_CONNECTION_ID) {
+        return reply.code(400).send({
+          error: 'ValidationError',
+          message: 'The default S3 connection cannot be removed',
+        });
+      }
+      try {
+        removeS3Connection(connectionId);
+        reply.send({ message: 'Connection removed successfully' });
+      } catch (error: any) {
+        if (error.statusCode === 404) {
+          return reply.code(404).send({ error: error.name, message: error.message });
+        }
+        console.error('Error updating settings:', sanitizeErrorForLogging(error));
+        reply.code(500).send({ error: error.name, message: error.message });
+      }
+    },
+  );
+
   // Test S3 connection
+  // Uses the connection's own proxies when given, the global proxy settings otherwise
   fastify.post('/test-s3', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
     const { accessKeyId, secretAccessKey, region, endpoint } = req.body as any;
     try {
-      const { httpProxy, httpsProxy } = getProxyConfig();
+      const proxyConfig = getProxyConfig();
+      const httpProxy = (req.body as any).httpProxy || proxyConfig.httpProxy;
+      const httpsProxy = (req.body as any).httpsProxy || proxyConfig.httpsProxy;
       const s3ClientOptions: any = {
         region: region,
         endpoint: endpoint,
@@ -140,6 +225,8 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     const hfToken = getHFConfig();
     const settings = {
       hfToken: hfToken,
+      hfEndpoint: getHFEndpoint(),
+      hfCaBundle: !!process.env.HF_CA_BUNDLE, // Whether a custom CA bundle is configured
     };
     reply.send({ settings });
   });
@@ -147,9 +234,18 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   // Update Hugging Face settings
   fastify.put('/huggingface', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
-    const { hfToken } = req.body as any;
+    const { hfToken, hfEndpoint } = req.body as any;
+    if (hfEndpoint && !normalizeHFEndpoint(hfEndpoint)) {
+      return reply.code(400).send({
+        error: 'ValidationError',
+        message: 'hfEndpoint must be an http(s) URL',
+      });
+    }
     try {
       updateHFConfig(hfToken);
+      if (hfEndpoint !== undefined) {
+        updateHFEndpoint(hfEndpoint);
+      }
       reply.send({ message: 'Settings updated successfully' });
     } catch (error: any) {
       console.error('Error updating settings:', sanitizeErrorForLogging(error));
@@ -160,21 +256,25 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   // Test Hugging Face connection
   fastify.post('/test-huggingface', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
-    const { hfToken } = req.body as any;
+    const { hfToken, hfEndpoint } = req.body as any;
+    // Test the endpoint being edited, or the configured one
+    const endpoint = hfEndpoint ? normalizeHFEndpoint(hfEndpoint) : getHFEndpoint();
+    if (!endpoint) {
+      return reply.code(400).send({
+        error: 'ValidationError',
+        message: 'hfEndpoint must be an http(s) URL',
+      });
+    }
     try {
-      const { httpsProxy } = getProxyConfig();
-      const axiosOptions: AxiosRequestConfig = {
-        headers: {
-          Authorization: `Bearer ${hfToken}`,
-        },
-        proxy: false, // Disable axios default proxy handling
-      };
-
-      if (httpsProxy) {
-        axiosOptions.httpsAgent = new HttpsProxyAgent(httpsProxy);
-      }
-
-      const response = await axios.get('https://huggingface.co/api/whoami-v2?', axiosOptions);
+      const whoAmIUrl = getHuggingFaceWhoAmIUrl(endpoint);
+      const response = await axios.get(
+        whoAmIUrl,
+        getHuggingFaceAxiosOptions(whoAmIUrl, {
+          hfToken,
+          ...getProxyConfig(),
+          ca: getHFCaCertificates(),
+        }),
+      );
       if (response.status === 200) {
         reply.send({
           message: 'Connection successful',
@@ -212,6 +312,35 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     }
   });
 
+  // Retrieve bandwidth limits (bytes per second, 0 = unlimited)
+  fastify.get('/bandwidth-limits', async (req: FastifyRequest, reply: FastifyReply) => {
+    logAccess(req);
+    const { maxTransferBytesPerSecond, maxJobBytesPerSecond } = getBandwidthConfig();
+    reply.send({ maxTransferBytesPerSecond, maxJobBytesPerSecond });
+  });
+
+  // Update bandwidth limits, running transfers pick them up immediately
+  fastify.put('/bandwidth-limits', async (req: FastifyRequest, reply: FastifyReply) => {
+    logAccess(req);
+    const { maxTransferBytesPerSecond, maxJobBytesPerSecond } = req.body as any;
+    const isValidLimit = (value: unknown) =>
+      typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    if (!isValidLimit(maxTransferBytesPerSecond) || !isValidLimit(maxJobBytesPerSecond)) {
+      return reply.code(400).send({
+        error: 'ValidationError',
+        message:
+          'maxTransferBytesPerSecond and maxJobBytesPerSecond must be non-negative numbers (0 = unlimited)',
+      });
+    }
+    try {
+      updateBandwidthConfig(maxTransferBytesPerSecond, maxJobBytesPerSecond);
+      reply.send({ message: 'Settings updated successfully' });
+    } catch (error: any) {
+      console.error('Error updating settings:', sanitizeErrorForLogging(error));
+      reply.code(500).send({ error: error.name, message: error.message });
+    }
+  });
+
   // Retrieve max files per page
   fastify.get('/max-files-per-page', async (req: FastifyRequest, reply: FastifyReply) => {
     logAccess(req);
@@ -248,9 +377,8 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     logAccess(req);
     const { httpProxy, httpsProxy } = req.body as any;
     try {
+      // Also reinitializes the S3 clients to apply the new proxy settings
       updateProxyConfig(httpProxy, httpsProxy);
-      // Reinitialize the S3 client to apply new proxy settings
-      initializeS3Client();
       reply.send({ message: 'Settings updated successfully' });
     } catch (error) {
       console.error('Error updating proxy settings', error);
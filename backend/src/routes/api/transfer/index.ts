@@ -2,6 +2,7 @@ import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import { pipeline } from 'stream/promises';
 import { Transform, Readable } from 'stream';
 import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
 import path from 'path';
 import {
   GetObjectCommand,
@@ -10,13 +11,58 @@ import {
   DeleteObjectCommand,
   PutObjectCommand,
   ListObjectsV2Command,
+  S3Client,
   S3ServiceException,
 } from '@aws-sdk/client-s3';
 import { Upload } from '@aws-sdk/lib-storage';
-import { getS3Config } from '../../../utils/config';
+import { canCopyBetweenS3Connections, getS3Location } from '../../../utils/config';
 import { validatePath } from '../../../utils/localStorage';
-import { transferQueue, TransferFileJob, TransferJob } from '../../../utils/transferQueue';
+import {
+  isTransferCancelled,
+  isTransferPriority,
+  transferQueue,
+  TransferExecutor,
+  TransferFileJob,
+  TransferJob,
+  TransferJobFilter,
+  TransferPriority,
+  TransferStatus,
+  TransferType,
+} from '../../../utils/transferQueue';
 import { uploadWithCleanup } from '../../../utils/streamHelpers';
+import { BandwidthLimiter, throttleStream } from '../../../utils/bandwidthThrottle';
+import {
+  getPartialDownloadPath,
+  getPartialDownloadSize,
+  removePartialDownload,
+} from '../../../utils/partialDownload';
+import {
+  createHashTransform,
+  digestFile,
+  digestStream,
+  getComparableETag,
+  hashStream,
+  isMd5ETag,
+  MultipartETagHash,
+  verifyChecksum,
+  verifyS3Object,
+} from '../../../utils/checksum';
+import {
+  abortMultipartUpload,
+  getPartSize,
+  getUploadedPartDigests,
+  shouldUseResumableUpload,
+  uploadResumable,
+} from '../../../utils/resumableUpload';
+import {
+  copyObjectMultipart,
+  CopyDestinationAttributes,
+  getCopyDestinationAttributes,
+  getCopySource,
+  getPortableObjectAttributes,
+  shouldUseMultipartCopy,
+} from '../../../utils/multipartCopy';
+import { getObjectTagging } from '../../../utils/objectDetails';
 import { authenticateUser, authorizeLocation } from '../../../plugins/auth';
 import { auditLog } from '../../../utils/auditLog';
 import { checkRateLimit, getRateLimitResetTime } from '../../../utils/rateLimit';
@@ -65,6 +111,16 @@ interface TransferRequest {
   };
   items: TransferItem[];
   conflictResolution: 'overwrite' | 'skip' | 'rename';
+  priority?: TransferPriority; // Defaults to 'normal'
+}
+
+/**
+ * Parameters persisted with cross-storage jobs so they can be resumed after a restart
+ */
+interface CrossStorageJobParams {
+  source: TransferRequest['source'];
+  destination: TransferRequest['destination'];
+  conflictResolution: TransferRequest['conflictResolution'];
 }
 
 /**
@@ -103,6 +159,79 @@ interface ConflictCheckResponse {
   };
 }
 
+/**
+ * Query string for listing jobs
+ * status and type accept comma-separated lists, since/until are ISO 8601 timestamps
+ * compared with the job creation time.
+ */
+interface JobListQuery {
+  status?: string;
+  type?: string;
+  since?: string;
+  until?: string;
+}
+
+const JOB_STATUSES: TransferStatus[] = [
+  'queued',
+  'active',
+  'paused',
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+const JOB_TYPES: TransferType[] = [
+  's3-upload',
+  's3-download',
+  'local-upload',
+  'cross-storage',
+  'huggingface',
+  'url-import',
+];
+
+/**
+ * Build a job filter from the list query string
+ * @returns The filter, or an error message for an invalid query
+ */
+function parseJobListQuery(query: JobListQuery): { filter?: TransferJobFilter; error?: string } {
+  const filter: TransferJobFilter = {};
+
+  if (query.status) {
+    const statuses = query.status.split(',').map((value) => value.trim());
+    const invalid = statuses.find((value) => !JOB_STATUSES.includes(value as TransferStatus));
+    if (invalid) {
+      return { error: `Unknown status '${invalid}', expected one of: ${JOB_STATUSES.join(', ')}` };
+    }
+    filter.status = statuses as TransferStatus[];
+  }
+
+  if (query.type) {
+    const types = query.type.split(',').map((value) => value.trim());
+    const invalid = types.find((value) => !JOB_TYPES.includes(value as TransferType));
+    if (invalid) {
+      return { error: `Unknown type '${invalid}', expected one of: ${JOB_TYPES.join(', ')}` };
+    }
+    filter.type = types as TransferType[];
+  }
+
+  for (const key of ['since', 'until'] as const) {
+    const value = query[key];
+    if (!value) continue;
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      return { error: `Invalid ${key} timestamp '${value}'` };
+    }
+    if (key === 'since') {
+      filter.createdAfter = date;
+    } else {
+      filter.createdBefore = date;
+    }
+  }
+
+  return { filter };
+}
+
 /**
  * Thresholds for large folder warnings
  * Warns users when folders exceed EITHER threshold (file count OR total size)
@@ -166,9 +295,9 @@ async function checkExists(type: string, locationId: string, filePath: string):
       await fs.access(absolutePath);
       return true;
     } else if (type === 's3') {
-      const { s3Client } = getS3Config();
+      const { s3Client, bucket } = getS3Location(locationId);
       const command = new HeadObjectCommand({
-        Bucket: locationId,
+        Bucket: bucket,
         Key: filePath,
       });
 
@@ -284,15 +413,23 @@ async function retryNetworkOperation<T>(
  *
  * Note: .s3keep marker files are skipped during S3→Local transfers.
  * Empty directories are created naturally on the local filesystem via mkdir -p.
+ *
+ * The object is downloaded to a .part sidecar that is renamed once complete. When a previous
+ * attempt of the same file job left a partial download, the transfer resumes with a ranged
+ * GetObject (guarded by the object's ETag) and appends to the sidecar.
+ *
+ * The downloaded bytes are hashed on the fly and compared with the object's ETag when it is
+ * its MD5, otherwise with a re-read of the sidecar.
  */
 async function transferS3ToLocal(
-  bucket: string,
+  bucketLocationId: string,
   key: string,
   locationId: string,
   destPath: string,
   fileJob: TransferFileJob,
   onProgress: (loaded: number) => void,
   abortSignal: AbortSignal,
+  bandwidth?: BandwidthLimiter,
 ): Promise<void> {
   // Skip .s3keep marker files - local filesystem supports empty directories natively
   if (path.basename(key) === '.s3keep') {
@@ -306,7 +443,7 @@ async function transferS3ToLocal(
   const fileName = path.basename(key);
   logMemory(`[S3→Local] Start: ${fileName}`);
 
-  const { s3Client } = getS3Config();
+  const { s3Client, bucket } = getS3Location(bucketLocationId);
 
   // Get base path and construct full destination path
   const basePath = await validatePath(locationId, '');
@@ -319,18 +456,43 @@ async function transferS3ToLocal(
   // NOW validate the full path (parent exists, so validation succeeds)
   const absolutePath = await validatePath(locationId, destPath);
 
-  let response;
-  try {
+  // Only resume partial downloads we can validate against the object's ETag
+  const partPath = getPartialDownloadPath(absolutePath);
+  let startOffset = fileJob.sourceETag ? await getPartialDownloadSize(partPath) : 0;
+
+  const getObject = (offset: number) =>
     // Wrap GetObject in retry logic for network errors
-    response = await retryNetworkOperation(
+    retryNetworkOperation(
       async () => {
-        const command = new GetObjectCommand({ Bucket: bucket, Key: key });
+        const command = new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ...(offset > 0 ? { Range: `bytes=${offset}-`, IfMatch: fileJob.sourceETag } : {}),
+        });
         return await s3Client.send(command, { abortSignal });
       },
       `GetObject: ${key}`,
       3, // Retry up to 3 times
       abortSignal, // Pass abort signal to retry logic
     );
+
+  let response;
+  try {
+    try {
+      response = await getObject(startOffset);
+    } catch (error: any) {
+      if (
+        startOffset > 0 &&
+        (error.name === 'PreconditionFailed' || error.name === 'InvalidRange')
+      ) {
+        // Object changed since the partial download started: download it again
+        logMemory(`[S3→Local] Partial download outdated, restarting: ${fileName}`);
+        startOffset = 0;
+        response = await getObject(0);
+      } else {
+        throw error;
+      }
+    }
   } catch (error: any) {
     // Throw a sanitized error without AWS SDK internals (socket/agent references with certificates)
     throw sanitizeError(error);
@@ -340,17 +502,30 @@ async function transferS3ToLocal(
     throw new Error('S3 response body is empty');
   }
 
-  // Get file size from response
-  fileJob.size = response.ContentLength || 0;
+  // Get file size from response (ContentLength only covers the requested range)
+  fileJob.size = startOffset + (response.ContentLength || 0);
+  fileJob.sourceETag = response.ETag;
+  if (startOffset > 0) {
+    logMemory(`[S3→Local] Resuming at byte ${startOffset}: ${fileName}`);
+    onProgress(startOffset);
+  }
 
   // Memory profiling: Metadata received
   const sizeInMB = (fileJob.size / (1024 * 1024)).toFixed(2);
   logMemory(`[S3→Local] Metadata received: ${fileName} (${sizeInMB} MB)`);
 
+  const etag = getComparableETag(response);
+  const expectedMd5 = isMd5ETag(etag) ? etag : undefined;
+  const hash = createHash(expectedMd5 ? 'md5' : 'sha256');
+  if (startOffset > 0) {
+    // Bytes downloaded by a previous attempt are part of the checksum
+    await digestFile(partPath, hash, startOffset);
+  }
+
   // Progress throttling: only report every 1MB to reduce event frequency
   const PROGRESS_THRESHOLD = 1024 * 1024; // 1MB
-  let loaded = 0;
-  let lastReported = 0;
+  let loaded = startOffset;
+  let lastReported = startOffset;
   const progressTransform = new Transform({
     transform(chunk, encoding, callback) {
       loaded += chunk.length;
@@ -390,7 +565,36 @@ async function transferS3ToLocal(
   logMemory(`[S3→Local] Before pipeline: ${fileName}`);
 
   const { createWriteStream } = await import('fs');
-  await pipeline(response.Body as Readable, progressTransform, createWriteStream(absolutePath));
+  try {
+    await pipeline(
+      throttleStream(response.Body as Readable, bandwidth),
+      progressTransform,
+      createHashTransform(hash),
+      createWriteStream(partPath, { flags: startOffset > 0 ? 'a' : 'w' }),
+    );
+  } catch (error) {
+    if (isTransferCancelled(abortSignal)) {
+      // Cancelled transfers are never resumed (paused ones keep their partial download)
+      await removePartialDownload(partPath);
+    }
+    throw error;
+  }
+
+  try {
+    const actual = hash.digest('hex');
+    if (expectedMd5) {
+      verifyChecksum(fileJob, 'md5', actual, expectedMd5, 'etag');
+    } else {
+      const written = createHash('sha256');
+      await digestFile(partPath, written);
+      verifyChecksum(fileJob, 'sha256', actual, written.digest('hex'), 'destination');
+    }
+  } catch (error) {
+    // Never resume from corrupted data
+    await removePartialDownload(partPath);
+    throw error;
+  }
+  await fs.rename(partPath, absolutePath);
 
   // Memory profiling: Transfer complete
   logMemory(`[S3→Local] Complete: ${fileName}`);
@@ -398,16 +602,24 @@ async function transferS3ToLocal(
 
 /**
  * Transfer Local → S3
+ *
+ * Files larger than a single part use a resumable multipart upload, so a retried or
+ * restarted transfer continues from the last completed part.
+ *
+ * The MD5 (or multipart ETag) of the uploaded bytes is computed on the fly and compared with
+ * the ETag of the created object.
  */
 async function transferLocalToS3(
   locationId: string,
   sourcePath: string,
-  bucket: string,
+  bucketLocationId: string,
   key: string,
   fileJob: TransferFileJob,
   onProgress: (loaded: number) => void,
+  abortSignal: AbortSignal,
+  bandwidth?: BandwidthLimiter,
 ): Promise<void> {
-  const { s3Client } = getS3Config();
+  const { s3Client, bucket } = getS3Location(bucketLocationId);
 
   // NOTE: S3 doesn't need directory creation - object keys preserve structure
   // The key itself can contain '/' characters which act as virtual directories
@@ -444,7 +656,63 @@ async function transferLocalToS3(
   logMemory(`[Local→S3] File size: ${fileName} (${sizeInMB} MB)`);
 
   const { createReadStream } = await import('fs');
-  const fileStream = createReadStream(absolutePath);
+
+  if (shouldUseResumableUpload(fileJob.size)) {
+    // Memory profiling: Before upload
+    logMemory(`[Local→S3] Before resumable upload: ${fileName}`);
+
+    const partSize = getPartSize(fileJob.size);
+    let etagHash: MultipartETagHash | undefined;
+
+    const upload = await uploadResumable({
+      s3Client,
+      bucket,
+      key,
+      size: fileJob.size,
+      fileJob,
+      openStream: async (offset) => {
+        // Parts uploaded by a previous attempt are part of the checksum
+        etagHash = new MultipartETagHash(partSize);
+        const digests = getUploadedPartDigests(fileJob.multipartUpload);
+        if (digests) {
+          etagHash.addPartDigests(digests);
+        } else {
+          await digestFile(absolutePath, etagHash, offset);
+        }
+        const source = createReadStream(absolutePath, { start: offset });
+        return throttleStream(hashStream(source, etagHash), bandwidth);
+      },
+      onProgress,
+      abortSignal,
+    });
+
+    if (!etagHash) {
+      // All parts were uploaded by a previous attempt
+      etagHash = new MultipartETagHash(partSize);
+      const digests = getUploadedPartDigests(upload);
+      if (digests) {
+        etagHash.addPartDigests(digests);
+      } else {
+        await digestFile(absolutePath, etagHash);
+      }
+    }
+    await verifyS3Object(
+      s3Client,
+      bucket,
+      key,
+      fileJob,
+      etagHash.digest(),
+      () => new MultipartETagHash(partSize),
+      abortSignal,
+    );
+
+    // Memory profiling: Upload complete
+    logMemory(`[Local→S3] Complete: ${fileName}`);
+    return;
+  }
+
+  const md5 = createHash('md5');
+  const fileStream = throttleStream(hashStream(createReadStream(absolutePath), md5), bandwidth);
 
   const upload = new Upload({
     client: s3Client,
@@ -469,6 +737,16 @@ async function transferLocalToS3(
   // Use uploadWithCleanup to ensure event listeners are removed
   await uploadWithCleanup(upload, throttledProgress);
 
+  await verifyS3Object(
+    s3Client,
+    bucket,
+    key,
+    fileJob,
+    md5.digest('hex'),
+    () => createHash('md5'),
+    abortSignal,
+  );
+
   // Ensure 100% progress is reported at completion
   if (fileJob.size > lastReported) {
     onProgress(fileJob.size);
@@ -480,6 +758,8 @@ async function transferLocalToS3(
 
 /**
  * Transfer Local → Local
+ *
+ * The copied bytes are hashed on the fly and compared with a re-read of the destination.
  */
 async function transferLocalToLocal(
   sourceLoc: string,
@@ -489,6 +769,7 @@ async function transferLocalToLocal(
   fileJob: TransferFileJob,
   onProgress: (loaded: number) => void,
   abortSignal: AbortSignal,
+  bandwidth?: BandwidthLimiter,
 ): Promise<void> {
   // Memory profiling: Start of Local→Local transfer
   const fileName = path.basename(sourcePath);
@@ -560,34 +841,228 @@ async function transferLocalToLocal(
     });
   }
 
-  await pipeline(readStream, progressTransform, writeStream);
+  const hash = createHash('sha256');
+  await pipeline(
+    throttleStream(readStream, bandwidth),
+    progressTransform,
+    createHashTransform(hash),
+    writeStream,
+  );
+
+  const written = createHash('sha256');
+  await digestFile(destAbsolute, written);
+  verifyChecksum(fileJob, 'sha256', hash.digest('hex'), written.digest('hex'), 'destination');
 
   // Memory profiling: Transfer complete
   logMemory(`[Local→Local] Complete: ${fileName}`);
 }
 
+/**
+ * Stream an object from one S3 connection to another
+ *
+ * Used when the connections can't copy server-side (different S3 services or credentials).
+ * The bytes flow through this service, so bandwidth limits apply. Reads of the source are
+ * retried on network errors and only accept the version whose size was obtained (If-Match).
+ *
+ * As with Local → S3, objects larger than a single part use a resumable multipart upload,
+ * and the uploaded bytes are verified against the ETag of the created object.
+ */
+async function streamS3ToS3(
+  source: { s3Client: S3Client; bucket: string; key: string },
+  dest: { s3Client: S3Client; bucket: string; key: string; attributes?: CopyDestinationAttributes },
+  sourceETag: string | undefined,
+  fileJob: TransferFileJob,
+  onProgress: (loaded: number) => void,
+  abortSignal: AbortSignal,
+  bandwidth?: BandwidthLimiter,
+): Promise<void> {
+  const fileName = path.basename(source.key);
+
+  if (fileJob.multipartUpload && fileJob.sourceETag !== sourceETag) {
+    // Source changed since the upload started, its parts are unusable
+    await abortMultipartUpload(dest.s3Client, fileJob.multipartUpload);
+    fileJob.multipartUpload = undefined;
+  }
+  fileJob.sourceETag = sourceETag;
+
+  const getSourceObject = async (range?: string): Promise<Readable> => {
+    let response;
+    try {
+      // Wrap GetObject in retry logic for network errors
+      response = await retryNetworkOperation(
+        async () => {
+          const command = new GetObjectCommand({
+            Bucket: source.bucket,
+            Key: source.key,
+            Range: range,
+            IfMatch: sourceETag,
+          });
+          return await source.s3Client.send(command, { abortSignal });
+        },
+        `GetObject: ${source.key}`,
+        3, // Retry up to 3 times
+        abortSignal, // Pass abort signal to retry logic
+      );
+    } catch (error: any) {
+      // Throw a sanitized error without AWS SDK internals (socket/agent references with certificates)
+      throw sanitizeError(error);
+    }
+    if (!response.Body) {
+      throw new Error('S3 response body is empty');
+    }
+    return throttleStream(response.Body as Readable, bandwidth);
+  };
+
+  if (shouldUseResumableUpload(fileJob.size)) {
+    // Memory profiling: Before upload
+    logMemory(`[S3→S3] Before resumable streaming upload: ${fileName}`);
+
+    const partSize = getPartSize(fileJob.size);
+    let etagHash: MultipartETagHash | undefined;
+
+    const upload = await uploadResumable({
+      s3Client: dest.s3Client,
+      bucket: dest.bucket,
+      key: dest.key,
+      size: fileJob.size,
+      fileJob,
+      openStream: async (offset) => {
+        // Parts uploaded by a previous attempt are part of the checksum. Their recorded MD5s
+        // avoid downloading them again.
+        etagHash = new MultipartETagHash(partSize);
+        if (offset > 0) {
+          const digests = getUploadedPartDigests(fileJob.multipartUpload);
+          if (digests) {
+            etagHash.addPartDigests(digests);
+          } else {
+            await digestStream(await getSourceObject(`bytes=0-${offset - 1}`), etagHash);
+          }
+          return hashStream(await getSourceObject(`bytes=${offset}-`), etagHash);
+        }
+        return hashStream(await getSourceObject(), etagHash);
+      },
+      onProgress,
+      abortSignal,
+      destinationAttributes: dest.attributes,
+    });
+
+    if (!etagHash) {
+      // All parts were uploaded by a previous attempt
+      etagHash = new MultipartETagHash(partSize);
+      const digests = getUploadedPartDigests(upload);
+      if (digests) {
+        etagHash.addPartDigests(digests);
+      } else {
+        await digestStream(await getSourceObject(), etagHash);
+      }
+    }
+    await verifyS3Object(
+      dest.s3Client,
+      dest.bucket,
+      dest.key,
+      fileJob,
+      etagHash.digest(),
+      () => new MultipartETagHash(partSize),
+      abortSignal,
+    );
+
+    // Memory profiling: Upload complete
+    logMemory(`[S3→S3] Streaming complete: ${fileName}`);
+    return;
+  }
+
+  const md5 = createHash('md5');
+  const body = hashStream(await getSourceObject(), md5);
+
+  const upload = new Upload({
+    client: dest.s3Client,
+    params: { ...dest.attributes, Bucket: dest.bucket, Key: dest.key, Body: body },
+  });
+
+  // Throttled progress tracking to prevent memory leaks
+  const PROGRESS_THRESHOLD = 1024 * 1024; // 1MB
+  let lastReported = 0;
+
+  const throttledProgress = (loaded: number) => {
+    // Only update progress every 1MB
+    if (loaded - lastReported >= PROGRESS_THRESHOLD) {
+      onProgress(loaded);
+      lastReported = loaded;
+    }
+  };
+
+  // Stop reading the source as soon as the transfer is cancelled
+  const abortHandler = () => body.destroy(new Error('Transfer cancelled'));
+  abortSignal.addEventListener('abort', abortHandler);
+
+  // Memory profiling: Before upload
+  logMemory(`[S3→S3] Before streaming upload: ${fileName}`);
+
+  try {
+    // Use uploadWithCleanup to ensure event listeners are removed
+    await uploadWithCleanup(upload, throttledProgress);
+  } finally {
+    abortSignal.removeEventListener('abort', abortHandler);
+  }
+
+  await verifyS3Object(
+    dest.s3Client,
+    dest.bucket,
+    dest.key,
+    fileJob,
+    md5.digest('hex'),
+    () => createHash('md5'),
+    abortSignal,
+  );
+
+  // Ensure 100% progress is reported at completion
+  if (fileJob.size > lastReported) {
+    onProgress(fileJob.size);
+  }
+
+  // Memory profiling: Upload complete
+  logMemory(`[S3→S3] Streaming complete: ${fileName}`);
+}
+
 /**
  * Transfer S3 → S3
  *
  * Note: .s3keep marker files are transferred normally to preserve empty directories.
  * S3 doesn't have real directories, so .s3keep files maintain the structure.
+ * Within a connection (or between connections sharing the same service and credentials) the
+ * copy happens server-side, no data flows through this service, so bandwidth
+ * limits don't apply. Large objects are copied part by part with UploadPartCopy (CopyObject
+ * is limited to 5 GiB), which also reports progress and resumes after an interruption.
+ *
+ * A single CopyObject is verified by comparing the ETags of the source and the copy when
+ * both are the MD5 of the object (a copy of a multipart object gets a new ETag).
+ *
+ * Objects are streamed through this service between connections to different S3 services or
+ * with different credentials (see streamS3ToS3).
  */
 async function transferS3ToS3(
-  sourceBucket: string,
+  sourceLocationId: string,
   sourceKey: string,
-  destBucket: string,
+  destLocationId: string,
   destKey: string,
   fileJob: TransferFileJob,
   onProgress: (loaded: number) => void,
+  abortSignal: AbortSignal,
+  bandwidth?: BandwidthLimiter,
 ): Promise<void> {
   // Memory profiling: Start of S3→S3 transfer
   const fileName = path.basename(sourceKey);
   logMemory(`[S3→S3] Start: ${fileName}`);
 
-  const { s3Client } = getS3Config();
+  const { s3Client, bucket: sourceBucket, connectionId } = getS3Location(sourceLocationId);
+  const {
+    s3Client: destClient,
+    bucket: destBucket,
+    connectionId: destConnectionId,
+  } = getS3Location(destLocationId);
 
   // NOTE: S3 doesn't need directory creation - object keys preserve structure
-  // CopyObjectCommand handles the key path automatically
+  // CopyObjectCommand and UploadPartCopyCommand handle the key path automatically
   // .s3keep files are copied as regular objects to preserve empty directories
 
   // Get source object size (limit concurrent HEAD requests)
@@ -602,14 +1077,66 @@ async function transferS3ToS3(
   const sizeInMB = (fileJob.size / (1024 * 1024)).toFixed(2);
   logMemory(`[S3→S3] File size: ${fileName} (${sizeInMB} MB)`);
 
+  if (!canCopyBetweenS3Connections(connectionId, destConnectionId)) {
+    await streamS3ToS3(
+      { s3Client, bucket: sourceBucket, key: sourceKey },
+      {
+        s3Client: destClient,
+        bucket: destBucket,
+        key: destKey,
+        attributes: getPortableObjectAttributes(headResponse),
+      },
+      headResponse.ETag,
+      fileJob,
+      onProgress,
+      abortSignal,
+      bandwidth,
+    );
+    return;
+  }
+
+  if (shouldUseMultipartCopy(fileJob.size)) {
+    // Unlike CopyObject, a multipart copy doesn't keep the headers, metadata and tags of the source
+    const tagging = await transferQueue.getMetadataLimiter()(() =>
+      getObjectTagging(s3Client, sourceBucket, sourceKey),
+    );
+    await copyObjectMultipart({
+      s3Client,
+      sourceBucket,
+      sourceKey,
+      sourceETag: headResponse.ETag,
+      bucket: destBucket,
+      key: destKey,
+      size: fileJob.size,
+      destinationAttributes: { ...getCopyDestinationAttributes(headResponse), Tagging: tagging },
+      fileJob,
+      onProgress,
+      abortSignal,
+    });
+
+    // Memory profiling: Copy complete
+    logMemory(`[S3→S3] Multipart copy complete: ${fileName}`);
+    return;
+  }
+
   // Copy object
   const copyCommand = new CopyObjectCommand({
     Bucket: destBucket,
     Key: destKey,
-    CopySource: `${sourceBucket}/${sourceKey}`,
+    CopySource: getCopySource(sourceBucket, sourceKey),
   });
 
-  await s3Client.send(copyCommand);
+  const copyResponse = await s3Client.send(copyCommand, { abortSignal });
+
+  const sourceETag = getComparableETag(headResponse);
+  const copyETag = getComparableETag({
+    ETag: copyResponse.CopyObjectResult?.ETag,
+    ServerSideEncryption: copyResponse.ServerSideEncryption,
+    SSECustomerAlgorithm: copyResponse.SSECustomerAlgorithm,
+  });
+  if (isMd5ETag(sourceETag) && isMd5ETag(copyETag)) {
+    verifyChecksum(fileJob, 'md5', copyETag, sourceETag, 'etag');
+  }
 
   // Memory profiling: Copy complete
   logMemory(`[S3→S3] Complete: ${fileName}`);
@@ -628,6 +1155,7 @@ async function executeTransfer(
   conflictResolution: string,
   onProgress: (loaded: number) => void,
   abortSignal: AbortSignal,
+  bandwidth?: BandwidthLimiter,
 ): Promise<void> {
   // Parse source and destination paths
   const [sourceType, sourceLoc, sourcePath] = parseTransferPath(fileJob.sourcePath);
@@ -635,7 +1163,11 @@ async function executeTransfer(
 
   // Handle conflict resolution
   let finalDestPath = destPath;
-  if (conflictResolution === 'skip') {
+  if (fileJob.resolvedDestinationPath) {
+    // Resuming a file that was interrupted: the destination content was written by us,
+    // so keep writing to the same place instead of resolving the conflict again
+    finalDestPath = parseTransferPath(fileJob.resolvedDestinationPath)[2];
+  } else if (conflictResolution === 'skip') {
     const exists = await checkExists(destType, destLoc, destPath);
     if (exists) {
       // Skip this file - mark as completed
@@ -645,6 +1177,7 @@ async function executeTransfer(
   } else if (conflictResolution === 'rename') {
     finalDestPath = await findNonConflictingName(destType, destLoc, destPath);
   }
+  fileJob.resolvedDestinationPath = `${destType}:${destLoc}/${finalDestPath}`;
 
   // Execute transfer based on source/destination types
   if (sourceType === 's3' && destType === 'local') {
@@ -656,9 +1189,19 @@ async function executeTransfer(
       fileJob,
       onProgress,
       abortSignal,
+      bandwidth,
     );
   } else if (sourceType === 'local' && destType === 's3') {
-    await transferLocalToS3(sourceLoc, sourcePath, destLoc, finalDestPath, fileJob, onProgress);
+    await transferLocalToS3(
+      sourceLoc,
+      sourcePath,
+      destLoc,
+      finalDestPath,
+      fileJob,
+      onProgress,
+      abortSignal,
+      bandwidth,
+    );
   } else if (sourceType === 'local' && destType === 'local') {
     await transferLocalToLocal(
       sourceLoc,
@@ -668,14 +1211,43 @@ async function executeTransfer(
       fileJob,
       onProgress,
       abortSignal,
+      bandwidth,
     );
   } else if (sourceType === 's3' && destType === 's3') {
-    await transferS3ToS3(sourceLoc, sourcePath, destLoc, finalDestPath, fileJob, onProgress);
+    await transferS3ToS3(
+      sourceLoc,
+      sourcePath,
+      destLoc,
+      finalDestPath,
+      fileJob,
+      onProgress,
+      abortSignal,
+      bandwidth,
+    );
   } else {
     throw new Error(`Unsupported transfer combination: ${sourceType} → ${destType}`);
   }
 }
 
+/**
+ * Build the executor for a cross-storage job
+ * Also used to rebuild the executor of a job restored after a restart.
+ */
+function createCrossStorageExecutor(params: CrossStorageJobParams): TransferExecutor {
+  const { source, destination, conflictResolution } = params;
+  return async (fileJob, onProgress, abortSignal, bandwidth) => {
+    await executeTransfer(
+      fileJob,
+      source,
+      destination,
+      conflictResolution,
+      onProgress,
+      abortSignal,
+      bandwidth,
+    );
+  };
+}
+
 /**
  * Expands transfer items (files and directories) into a flat list of files with sizes
  * Calculates file sizes upfront for accurate progress tracking
@@ -702,7 +1274,7 @@ async function expandItemsToFiles(
       let size = 0;
 
       if (source.type === 's3') {
-        const { s3Client } = getS3Config();
+        const { s3Client, bucket } = getS3Location(source.locationId);
 
         // S3 always uses forward slashes (POSIX paths) regardless of OS
         const key = source.path ? path.posix.join(source.path, item.path) : item.path;
@@ -712,7 +1284,7 @@ async function expandItemsToFiles(
           const response = await transferQueue.getMetadataLimiter()(async () => {
             return await s3Client.send(
               new HeadObjectCommand({
-                Bucket: source.locationId,
+                Bucket: bucket,
                 Key: key,
               }),
             );
@@ -768,14 +1340,14 @@ async function expandItemsToFiles(
       let dirListing: DirectoryListing;
 
       if (source.type === 's3') {
-        const { s3Client } = getS3Config();
+        const { s3Client, bucket } = getS3Location(source.locationId);
         // S3 always uses forward slashes (POSIX paths) regardless of OS
         const prefix = source.path ? path.posix.join(source.path, item.path) : item.path;
 
         try {
           dirListing = await listS3DirectoryRecursive(
             s3Client,
-            source.locationId,
+            bucket,
             prefix,
             transferQueue.getMetadataLimiter(),
           );
@@ -900,11 +1472,11 @@ async function expandItemsToFiles(
 async function listDestinationFiles(
   destination: ConflictCheckRequest['destination'],
 ): Promise<string[]> {
-  const { s3Client } = getS3Config();
-
   let files: string[] = [];
 
   if (destination.type === 's3') {
+    const { s3Client, bucket } = getS3Location(destination.locationId);
+
     // List all objects at destination path
     let continuationToken: string | undefined;
     // Normalize prefix - ensure it ends with '/' if non-empty, but avoid double slashes
@@ -918,7 +1490,7 @@ async function listDestinationFiles(
       const response = await transferQueue.getMetadataLimiter()(async () => {
         return await s3Client.send(
           new ListObjectsV2Command({
-            Bucket: destination.locationId,
+            Bucket: bucket,
             Prefix: prefix,
             ContinuationToken: continuationToken,
           }),
@@ -991,15 +1563,17 @@ function formatBytes(bytes: number): string {
  */
 async function deleteFile(type: string, locationId: string, filePath: string): Promise<void> {
   if (type === 's3') {
-    const { s3Client } = getS3Config();
+    const { s3Client, bucket } = getS3Location(locationId);
     const command = new DeleteObjectCommand({
-      Bucket: locationId,
+      Bucket: bucket,
       Key: filePath,
     });
     await s3Client.send(command);
   } else if (type === 'local') {
     try {
       const absolutePath = await validatePath(locationId, filePath);
+      // Also remove what an interrupted download may have left behind
+      await removePartialDownload(getPartialDownloadPath(absolutePath));
       await fs.unlink(absolutePath);
     } catch (error: any) {
       // Ignore if file doesn't exist or already deleted
@@ -1018,6 +1592,11 @@ export default async (fastify: FastifyInstance): Promise<void> => {
   const RATE_LIMIT_TRANSFER = 10; // requests per minute
   const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
 
+  // Allow cross-storage jobs persisted by a previous run to be resumed
+  transferQueue.registerExecutorFactory('cross-storage', (params) =>
+    createCrossStorageExecutor(params as CrossStorageJobParams),
+  );
+
   /**
    * Authentication hook - authenticates all requests to /api/transfer/*
    */
@@ -1123,7 +1702,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       });
     }
 
-    const { source, destination, items, conflictResolution } = request.body;
+    const { source, destination, items, conflictResolution, priority } = request.body;
 
     try {
       // Validate request
@@ -1131,6 +1710,13 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         return reply.code(400).send({ error: 'Missing required fields' });
       }
 
+      if (priority !== undefined && !isTransferPriority(priority)) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: `Invalid priority '${priority}', expected one of: low, normal, high`,
+        });
+      }
+
       if (items.length === 0) {
         return reply.code(400).send({
           error: 'Bad Request',
@@ -1173,19 +1759,12 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       }));
 
       // Queue job
+      const jobParams: CrossStorageJobParams = { source, destination, conflictResolution };
       const jobId = transferQueue.queueJob(
         'cross-storage',
         transferJobs,
-        async (fileJob, onProgress, abortSignal) => {
-          await executeTransfer(
-            fileJob,
-            source,
-            destination,
-            conflictResolution,
-            onProgress,
-            abortSignal,
-          );
-        },
+        createCrossStorageExecutor(jobParams),
+        { params: jobParams, priority },
       );
 
       return reply.code(200).send({
@@ -1200,6 +1779,46 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     }
   });
 
+  /**
+   * GET /
+   * List transfer jobs, most recent first
+   * Returns summaries only: per-file state is available from GET /:jobId.
+   */
+  fastify.get<{ Querystring: JobListQuery }>('/', async (request, reply) => {
+    const { filter, error: queryError } = parseJobListQuery(request.query);
+    if (queryError) {
+      return reply.code(400).send({
+        error: 'InvalidQuery',
+        message: queryError,
+      });
+    }
+
+    try {
+      const jobs = transferQueue.getJobs(filter);
+
+      return reply.code(200).send({
+        jobs: jobs.map((job) => ({
+          jobId: job.id,
+          type: job.type,
+          status: job.status,
+          priority: job.priority,
+          progress: job.progress,
+          // First file of the job, to tell jobs apart in a list
+          sourcePath: job.files[0]?.sourcePath,
+          destinationPath: job.files[0]?.destinationPath,
+          createdAt: job.createdAt,
+          startedAt: job.startedAt,
+          completedAt: job.completedAt,
+          error: job.error,
+          sseUrl: `/transfer/progress/${job.id}`,
+        })),
+      });
+    } catch (error: any) {
+      fastify.log.error(sanitizeErrorForLogging(error));
+      return reply.code(500).send({ error: error.message || 'Failed to list jobs' });
+    }
+  });
+
   /**
    * GET /progress/:jobId
    * SSE endpoint for real-time progress updates
@@ -1242,6 +1861,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         total: f.size,
         status: f.status,
         error: f.error,
+        checksum: f.checksum,
       })),
     });
 
@@ -1273,6 +1893,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
             total: f.size,
             status: f.status,
             error: f.error,
+            checksum: f.checksum,
           })),
         });
 
@@ -1315,6 +1936,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
         jobId: job.id,
         type: job.type,
         status: job.status,
+        priority: job.priority,
         progress: job.progress,
         files: job.files.map((f) => ({
           sourcePath: f.sourcePath,
@@ -1323,6 +1945,7 @@ export default async (fastify: FastifyInstance): Promise<void> => {
           loaded: f.loaded,
           status: f.status,
           error: f.error,
+          checksum: f.checksum,
         })),
         createdAt: job.createdAt,
         startedAt: job.startedAt,
@@ -1351,6 +1974,110 @@ export default async (fastify: FastifyInstance): Promise<void> => {
     }
   });
 
+  /**
+   * POST /:jobId/pause
+   * Pause a queued or active job
+   */
+  fastify.post<{ Params: { jobId: string } }>('/:jobId/pause', async (request, reply) => {
+    const { jobId } = request.params;
+
+    try {
+      const job = transferQueue.getJob(jobId);
+      if (!job) {
+        return reply.code(404).send({ error: 'Job not found' });
+      }
+
+      if (!transferQueue.pauseJob(jobId)) {
+        return reply.code(400).send({
+          error: 'InvalidStatus',
+          message: 'Only queued or active jobs can be paused',
+        });
+      }
+
+      return reply.code(200).send({ jobId, status: 'paused' });
+    } catch (error: any) {
+      fastify.log.error(sanitizeErrorForLogging(error));
+      return reply.code(500).send({ error: error.message || 'Pause failed' });
+    }
+  });
+
+  /**
+   * POST /:jobId/resume
+   * Resume a paused job
+   */
+  fastify.post<{ Params: { jobId: string } }>('/:jobId/resume', async (request, reply) => {
+    const { jobId } = request.params;
+
+    try {
+      const job = transferQueue.getJob(jobId);
+      if (!job) {
+        return reply.code(404).send({ error: 'Job not found' });
+      }
+
+      if (job.status !== 'paused') {
+        return reply.code(400).send({
+          error: 'InvalidStatus',
+          message: 'Only paused jobs can be resumed',
+        });
+      }
+
+      if (!transferQueue.resumeJob(jobId)) {
+        return reply.code(409).send({
+          error: 'NotResumable',
+          message: 'This job can no longer be resumed, start a new transfer instead',
+        });
+      }
+
+      return reply.code(200).send({
+        jobId,
+        status: 'queued',
+        sseUrl: `/transfer/progress/${jobId}`,
+      });
+    } catch (error: any) {
+      fastify.log.error(sanitizeErrorForLogging(error));
+      return reply.code(500).send({ error: error.message || 'Resume failed' });
+    }
+  });
+
+  /**
+   * POST /:jobId/retry
+   * Re-queue the files of a failed job that ended in error
+   */
+  fastify.post<{ Params: { jobId: string } }>('/:jobId/retry', async (request, reply) => {
+    const { jobId } = request.params;
+
+    try {
+      const job = transferQueue.getJob(jobId);
+      if (!job) {
+        return reply.code(404).send({ error: 'Job not found' });
+      }
+
+      if (job.status !== 'failed') {
+        return reply.code(400).send({
+          error: 'InvalidStatus',
+          message: 'Only failed jobs can be retried',
+        });
+      }
+
+      const filesToRetry = job.files.filter((f) => f.status === 'error').length;
+      if (!transferQueue.retryJob(jobId)) {
+        return reply.code(409).send({
+          error: 'NotRetryable',
+          message: 'This job can no longer be retried, start a new transfer instead',
+        });
+      }
+
+      return reply.code(200).send({
+        jobId,
+        retriedFiles: filesToRetry,
+        sseUrl: `/transfer/progress/${jobId}`,
+      });
+    } catch (error: any) {
+      fastify.log.error(sanitizeErrorForLogging(error));
+      return reply.code(500).send({ error: error.message || 'Retry failed' });
+    }
+  });
+
   /**
    * POST /:jobId/cleanup
    * Delete all files from a cancelled job
@@ -1376,6 +2103,13 @@ export default async (fastify: FastifyInstance): Promise<void> => {
       for (const file of job.files) {
         try {
           const [type, locationId, filePath] = parseTransferPath(file.destinationPath);
+
+          // Release parts of multipart uploads that were never completed
+          if (file.multipartUpload) {
+            await abortMultipartUpload(getS3Location(locationId).s3Client, file.multipartUpload);
+            file.multipartUpload = undefined;
+          }
+
           await deleteFile(type, locationId, filePath);
         } catch (error: any) {
           fastify.log.error(
@@ -1,15 +1,23 @@
 import { fastify } from 'fastify';
 import fastifyMultipart from '@fastify/multipart';
-import { APP_ENV, PORT, IP, LOG_LEVEL, LOG_HEALTH_CHECKS } from './utils/constants';
+import { APP_ENV, PORT, IP, LOG_LEVEL, LOG_HEALTH_CHECKS, CONFIG_DIR } from './utils/constants';
 import { initializeApp } from './app';
 import { AddressInfo } from 'net';
 import https from 'https';
 import fs from 'fs';
+import path from 'path';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import { getCorsConfig } from './config/cors';
-import { getLocalStoragePaths } from './utils/config';
+import {
+  enableSettingsPersistence,
+  getLocalStoragePaths,
+  getMaxConcurrentTransfers,
+} from './utils/config';
 import { getStorageLocations } from './utils/localStorage';
+import { transferQueue, updateTransferQueueConcurrency } from './utils/transferQueue';
+import { TransferJobStore } from './utils/transferJobStore';
+import { getSettingsEncryptionKey, SettingsStore } from './utils/settingsStore';
 
 const app = fastify({
   logger: {
@@ -107,6 +115,12 @@ app.register(fastifyMultipart);
 
 app.register(initializeApp);
 
+// Apply settings saved from the Settings page by a previous run
+enableSettingsPersistence(
+  new SettingsStore(path.join(CONFIG_DIR, 'settings.json'), getSettingsEncryptionKey()),
+);
+updateTransferQueueConcurrency(getMaxConcurrentTransfers());
+
 app.listen({ port: PORT, host: IP }, (err) => {
   if (err) {
     app.log.error(err);
@@ -187,11 +201,33 @@ app.listen({ port: PORT, host: IP }, (err) => {
 
   https.globalAgent.options.ca = caPaths as Buffer[];
 
+  // Restore transfer jobs from a previous run (routes have registered their executor factories by now)
+  transferQueue.enablePersistence(
+    new TransferJobStore(path.join(CONFIG_DIR, 'transfer-jobs.json')),
+  );
+  const restoredJobs = transferQueue.getAllJobs();
+  if (restoredJobs.length > 0) {
+    app.log.info(
+      {
+        total: restoredJobs.length,
+        resumed: restoredJobs.filter((job) => job.status === 'queued').length,
+      },
+      'Restored transfer jobs from previous run',
+    );
+  }
+
   const address: AddressInfo = app.server.address() as AddressInfo;
   console.log('Fastify Connected...');
   console.log(`Server listening on >>>  ${address.address}:${address.port}`);
 });
 
+// Make sure the latest transfer job state is on disk before the pod goes away
+process.once('SIGTERM', () => {
+  transferQueue.flushPersistence().finally(() => {
+    process.exit(0); // eslint-disable-line
+  });
+});
+
 const getCABundle = (path: string) => {
   try {
     return fs.readFileSync(path);
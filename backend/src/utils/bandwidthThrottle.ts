@@ -0,0 +1,112 @@
+import { pipeline, Readable, Transform } from 'stream';
+import { getBandwidthConfig } from './config';
+
+/**
+ * Bytes-per-second budget shared by the streams that use it
+ *
+ * Each chunk reserves transmission time on a virtual clock: it is passed on once the
+ * chunks reserved before it would have been sent at the configured rate, so concurrent
+ * streams split the budget between them. The limit is read for every chunk, so a change
+ * applies to running transfers immediately. A limit of 0 means unlimited.
+ *
+ * A limiter with a parent also consumes the parent's budget (e.g. a job limiter under
+ * the global limiter), and the longer of the two waits applies.
+ */
+export class BandwidthLimiter {
+  private readonly getLimit: () => number;
+  private readonly parent?: BandwidthLimiter;
+  private nextFreeAt = 0; // Time (ms) at which the budget reserved so far is used up
+  private lastLimit = 0;
+
+  constructor(getLimit: () => number, parent?: BandwidthLimiter) {
+    this.getLimit = getLimit;
+    this.parent = parent;
+  }
+
+  /**
+   * Reserve the budget for a chunk
+   * @returns Milliseconds to wait before passing the chunk on
+   */
+  reserve(bytes: number): number {
+    const parentDelay = this.parent ? this.parent.reserve(bytes) : 0;
+    const limit = this.getLimit();
+    const now = Date.now();
+
+    if (limit !== this.lastLimit) {
+      // Don't make streams wait for budget reserved at the previous rate
+      this.lastLimit = limit;
+      this.nextFreeAt = now;
+    }
+    if (!(limit > 0)) {
+      return parentDelay;
+    }
+
+    const start = Math.max(now, this.nextFreeAt);
+    this.nextFreeAt = start + (bytes / limit) * 1000;
+    return Math.max(parentDelay, start - now);
+  }
+}
+
+/**
+ * Limiter shared by all transfers (MAX_TRANSFER_BYTES_PER_SECOND)
+ */
+export const globalBandwidthLimiter = new BandwidthLimiter(
+  () => getBandwidthConfig().maxTransferBytesPerSecond,
+);
+
+/**
+ * Create the limiter for one job (MAX_JOB_BYTES_PER_SECOND), nested under the global one
+ */
+export function createJobBandwidthLimiter(): BandwidthLimiter {
+  return new BandwidthLimiter(
+    () => getBandwidthConfig().maxJobBytesPerSecond,
+    globalBandwidthLimiter,
+  );
+}
+
+/**
+ * Creates a transform stream that delays chunks to stay within a limiter's budget
+ * Backpressure propagates upstream while a chunk is held back.
+ *
+ * @param limiter - Budget to consume
+ * @returns Transform stream passing chunks on unchanged
+ */
+export function createThrottleTransform(limiter: BandwidthLimiter): Transform {
+  let timer: NodeJS.Timeout | null = null;
+
+  return new Transform({
+    transform(chunk, encoding, callback) {
+      const delay = limiter.reserve(chunk.length);
+      if (delay <= 0) {
+        callback(null, chunk);
+        return;
+      }
+      timer = setTimeout(() => {
+        timer = null;
+        callback(null, chunk);
+      }, delay);
+    },
+    destroy(error, callback) {
+      // Don't keep a cancelled transfer's chunk (and the process) waiting
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      callback(error);
+    },
+  });
+}
+
+/**
+ * Throttle a source stream for consumers that take a readable (e.g. S3 uploads)
+ * Destroying the returned stream also destroys the source.
+ *
+ * @param source - Stream to throttle
+ * @param limiter - Budget to consume, the source is returned as is without one
+ */
+export function throttleStream(source: Readable, limiter?: BandwidthLimiter): Readable {
+  if (!limiter) {
+    return source;
+  }
+  return pipeline(source, createThrottleTransform(limiter), () => undefined);
+}
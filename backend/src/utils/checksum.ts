@@ -0,0 +1,216 @@
+import { createHash, Hash } from 'crypto';
+import { createReadStream } from 'fs';
+import { pipeline, Readable, Transform } from 'stream';
+import { GetObjectCommand, HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { ChecksumAlgorithm, TransferFileJob } from './transferQueue';
+
+/**
+ * Thrown when the transferred bytes don't match the source
+ */
+export class ChecksumMismatchError extends Error {
+  constructor(filePath: string, expected: string, actual: string) {
+    super(`Checksum mismatch for ${filePath}: expected ${expected}, got ${actual}`);
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+/**
+ * Anything that digests data incrementally (crypto Hash, MultipartETagHash)
+ */
+export interface StreamingHash {
+  update(data: Buffer): unknown;
+  digest(encoding: 'hex'): string;
+}
+
+/**
+ * Computes the ETag S3 gives to an object uploaded in parts of a fixed size:
+ * the MD5 of the concatenated MD5s of the parts, followed by the number of parts.
+ */
+export class MultipartETagHash implements StreamingHash {
+  private readonly partSize: number;
+  private readonly partDigests: Buffer[] = [];
+  private part: Hash = createHash('md5');
+  private partLength = 0;
+
+  constructor(partSize: number) {
+    this.partSize = partSize;
+  }
+
+  update(data: Buffer): this {
+    let offset = 0;
+    while (offset < data.length) {
+      const length = Math.min(this.partSize - this.partLength, data.length - offset);
+      this.part.update(data.subarray(offset, offset + length));
+      this.partLength += length;
+      offset += length;
+      if (this.partLength === this.partSize) {
+        this.partDigests.push(this.part.digest());
+        this.part = createHash('md5');
+        this.partLength = 0;
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Add parts hashed before (hex MD5s, e.g. recorded by a previous attempt of an upload)
+   * instead of reading their bytes again. Only valid before any byte was hashed.
+   */
+  addPartDigests(md5s: string[]): this {
+    if (this.partLength > 0) {
+      throw new Error('Part digests can only be added at a part boundary');
+    }
+    this.partDigests.push(...md5s.map((md5) => Buffer.from(md5, 'hex')));
+    return this;
+  }
+
+  digest(): string {
+    const digests = [...this.partDigests];
+    if (this.partLength > 0) {
+      digests.push(this.part.digest());
+    }
+    const md5 = createHash('md5').update(Buffer.concat(digests)).digest('hex');
+    return `${md5}-${digests.length}`;
+  }
+}
+
+/**
+ * S3 response fields that tell whether an ETag is the MD5 of the object
+ */
+interface ETagSource {
+  ETag?: string;
+  ServerSideEncryption?: string;
+  SSECustomerAlgorithm?: string;
+}
+
+/**
+ * The ETag of an S3 object without its quotes, if it can be compared with a digest
+ * Objects encrypted with SSE-KMS or SSE-C have ETags that are not a digest of their content.
+ *
+ * @returns A lowercase MD5 ("<md5>") or multipart ETag ("<md5>-<parts>"), or undefined
+ */
+export function getComparableETag(source: ETagSource): string | undefined {
+  if (
+    source.SSECustomerAlgorithm ||
+    (source.ServerSideEncryption && source.ServerSideEncryption.startsWith('aws:kms'))
+  ) {
+    return undefined;
+  }
+  const etag = source.ETag?.replace(/"/g, '').toLowerCase();
+  return etag && /^[0-9a-f]{32}(-\d+)?$/.test(etag) ? etag : undefined;
+}
+
+/**
+ * Whether an ETag is the plain MD5 of the object (single part upload)
+ */
+export function isMd5ETag(etag: string | undefined): etag is string {
+  return !!etag && !etag.includes('-');
+}
+
+/**
+ * Creates a transform stream that feeds the chunks passing through it to a hash
+ *
+ * @param hash - Hash to update
+ * @returns Transform stream passing chunks on unchanged
+ */
+export function createHashTransform(hash: StreamingHash): Transform {
+  return new Transform({
+    transform(chunk, encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Hash a source stream for consumers that take a readable (e.g. S3 uploads)
+ * Destroying the returned stream also destroys the source.
+ */
+export function hashStream(source: Readable, hash: StreamingHash): Readable {
+  return pipeline(source, createHashTransform(hash), () => undefined);
+}
+
+/**
+ * Read a whole stream into a hash
+ */
+export async function digestStream(source: Readable, hash: StreamingHash): Promise<void> {
+  for await (const chunk of source) {
+    hash.update(chunk);
+  }
+}
+
+/**
+ * Read a local file (or its first `length` bytes) into a hash
+ * Used to re-read a written destination, or the part of a file transferred by a previous attempt.
+ */
+export async function digestFile(
+  filePath: string,
+  hash: StreamingHash,
+  length?: number,
+): Promise<void> {
+  if (length === 0) {
+    return;
+  }
+  const end = length !== undefined ? length - 1 : undefined;
+  await digestStream(createReadStream(filePath, { start: 0, end }), hash);
+}
+
+/**
+ * Compare the digest of the transferred bytes with the expected one and record it on the file job
+ *
+ * @param fileJob - File job to record the verified checksum on
+ * @param algorithm - Algorithm of both digests
+ * @param actual - Digest of the bytes that were transferred
+ * @param expected - Digest of the source (ETag) or of the re-read destination
+ * @param verifiedAgainst - Where the expected digest comes from
+ * @throws ChecksumMismatchError when the digests differ
+ */
+export function verifyChecksum(
+  fileJob: TransferFileJob,
+  algorithm: ChecksumAlgorithm,
+  actual: string,
+  expected: string,
+  verifiedAgainst: 'etag' | 'destination',
+): void {
+  if (actual !== expected) {
+    throw new ChecksumMismatchError(fileJob.destinationPath, expected, actual);
+  }
+  fileJob.checksum = { algorithm, value: actual, verifiedAgainst };
+}
+
+/**
+ * Verify an object written to S3 against the digest of the bytes that were sent
+ * Compares with the object's ETag when it is a digest of the same form, otherwise re-reads
+ * the object (e.g. encrypted with SSE-KMS, or uploaded in parts of an unknown size).
+ *
+ * @param actual - MD5 (or multipart ETag) of the bytes that were sent
+ * @param createDigest - Creates a hash of the same kind as the one that produced `actual`
+ */
+export async function verifyS3Object(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  fileJob: TransferFileJob,
+  actual: string,
+  createDigest: () => StreamingHash,
+  abortSignal?: AbortSignal,
+): Promise<void> {
+  const head = await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }), {
+    abortSignal,
+  });
+  const etag = getComparableETag(head);
+  if (etag && isMd5ETag(etag) === isMd5ETag(actual)) {
+    verifyChecksum(fileJob, 'md5', actual, etag, 'etag');
+    return;
+  }
+
+  const response = await s3Client.send(new GetObjectCommand({ Bucket: bucket, Key: key }), {
+    abortSignal,
+  });
+  if (!response.Body) {
+    throw new Error('S3 response body is empty');
+  }
+  const hash = createDigest();
+  await digestStream(response.Body as Readable, hash);
+  verifyChecksum(fileJob, 'md5', actual, hash.digest('hex'), 'destination');
+}
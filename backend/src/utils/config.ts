@@ -4,20 +4,58 @@ import { NodeHttpHandler } from '@aws-sdk/node-http-handler';
 import { HttpProxyAgent } from 'http-proxy-agent';
 import { HttpsProxyAgent } from 'https-proxy-agent';
 import { getApplyMd5BodyChecksumPlugin } from '@aws-sdk/middleware-apply-body-checksum';
+import fs from 'fs';
 import http from 'http';
 import https from 'https';
+import path from 'path';
+import tls from 'tls';
+import { PersistedSettings, SettingsStore } from './settingsStore';
+
+/**
+ * Id of the S3 connection configured with the AWS_* environment variables
+ * Its buckets keep their plain name as location id, other connections use "<connectionId>:<bucket>".
+ */
+export const DEFAULT_S3_CONNECTION_ID = 'default';
+
+/**
+ * Where an S3 connection was configured
+ * 'environment': AWS_* variables or S3_CONNECTIONS, 'data-connection': a Data Connection of the
+ * workbench, 'settings': saved from the Settings page.
+ */
+export type S3ConnectionSource = 'environment' | 'data-connection' | 'settings';
+
+/**
+ * HuggingFace Hub endpoint used unless HF_ENDPOINT points to a mirror
+ */
+export const DEFAULT_HF_ENDPOINT = 'https://huggingface.co';
+
+/**
+ * A named S3 connection: an endpoint with its own credentials, region and proxy
+ */
+export interface S3ConnectionProfile {
+  id: string;
+  name: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  endpoint: string;
+  defaultBucket: string;
+  httpProxy?: string; // Global proxy settings apply when not set
+  httpsProxy?: string;
+  source?: S3ConnectionSource;
+  sourceDetail?: string; // Environment variables or secret path the connection was read from
+}
 
 // Initial configuration
-let accessKeyId = process.env.AWS_ACCESS_KEY_ID || '';
-let secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY || '';
-let region = process.env.AWS_DEFAULT_REGION || 'us-east-1';
-let endpoint = process.env.AWS_S3_ENDPOINT || '';
-let defaultBucket = process.env.AWS_S3_BUCKET || '';
 let hfToken = process.env.HF_TOKEN || '';
+let hfEndpoint = normalizeHFEndpoint(process.env.HF_ENDPOINT || '') || DEFAULT_HF_ENDPOINT;
 let maxConcurrentTransfers = parseInt(process.env.MAX_CONCURRENT_TRANSFERS || '2', 10);
 let maxFilesPerPage = parseInt(process.env.MAX_FILES_PER_PAGE || '100', 10);
-let httpProxy = process.env.HTTP_PROXY || '';
-let httpsProxy = process.env.HTTPS_PROXY || '';
+// Bandwidth limits in bytes per second, 0 means unlimited
+let maxTransferBytesPerSecond = parseInt(process.env.MAX_TRANSFER_BYTES_PER_SECOND || '0', 10) || 0;
+let maxJobBytesPerSecond = parseInt(process.env.MAX_JOB_BYTES_PER_SECOND || '0', 10) || 0;
+let globalHttpProxy = process.env.HTTP_PROXY || '';
+let globalHttpsProxy = process.env.HTTPS_PROXY || '';
 
 // Parse LOCAL_STORAGE_PATHS from environment
 // Default: single directory at /opt/app-root/src/data
@@ -37,14 +75,182 @@ if (isNaN(maxFileSizeGB) || maxFileSizeGB <= 0) {
   maxFileSizeGB = 20;
 }
 
-export const initializeS3Client = (): S3Client => {
+/**
+ * Connection ids are used in location ids and transfer paths ("s3:<connectionId>:<bucket>/key")
+ */
+export const isValidS3ConnectionId = (id: string): boolean => {
+  return /^[a-z0-9]([a-z0-9-]{0,30}[a-z0-9])?$/.test(id);
+};
+
+const defaultConnection: S3ConnectionProfile = {
+  id: DEFAULT_S3_CONNECTION_ID,
+  name: 'Default',
+  accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+  secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+  region: process.env.AWS_DEFAULT_REGION || 'us-east-1',
+  endpoint: process.env.AWS_S3_ENDPOINT || '',
+  defaultBucket: process.env.AWS_S3_BUCKET || '',
+  source: 'environment',
+  sourceDetail: 'AWS_* environment variables',
+};
+
+/**
+ * Parse additional connections from S3_CONNECTIONS (a JSON array of connection profiles)
+ * Entries that are not objects are skipped with a warning, as are entries with an invalid or
+ * duplicate id when registered.
+ */
+const parseS3ConnectionsEnv = (value: string | undefined): S3ConnectionProfile[] => {
+  if (!value) {
+    return [];
+  }
+  let entries: any[];
+  try {
+    entries = JSON.parse(value);
+  } catch (e) {
+    console.warn('Invalid S3_CONNECTIONS, expected a JSON array of connections');
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    console.warn('Invalid S3_CONNECTIONS, expected a JSON array of connections');
+    return [];
+  }
+
+  const connectionEntries = entries.filter((entry, index) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      console.warn(`Skipping S3_CONNECTIONS entry ${index}, expected a connection object`);
+      return false;
+    }
+    return true;
+  });
+
+  return connectionEntries.map((entry) => {
+    const id = String(entry.id || '');
+    return {
+      id,
+      name: entry.name || id,
+      accessKeyId: entry.accessKeyId || '',
+      secretAccessKey: entry.secretAccessKey || '',
+      region: entry.region || 'us-east-1',
+      endpoint: entry.endpoint || '',
+      defaultBucket: entry.defaultBucket || '',
+      httpProxy: entry.httpProxy || undefined,
+      httpsProxy: entry.httpsProxy || undefined,
+      source: 'environment',
+      sourceDetail: 'S3_CONNECTIONS',
+    };
+  });
+};
+
+/**
+ * Turn the name of a Data Connection into a connection id ("aws-connection-My_Models" → "my-models")
+ */
+const toS3ConnectionId = (name: string): string => {
+  return name
+    .replace(/^aws-connection-/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Parse Data Connections injected as suffixed groups of AWS_* variables
+ * (AWS_ACCESS_KEY_ID_<SUFFIX>, AWS_SECRET_ACCESS_KEY_<SUFFIX>, AWS_S3_ENDPOINT_<SUFFIX>, ...)
+ */
+const parseDataConnectionsEnv = (env: NodeJS.ProcessEnv): S3ConnectionProfile[] => {
+  const suffixes = new Set<string>();
+  for (const name of Object.keys(env)) {
+    const match = /^AWS_(?:ACCESS_KEY_ID|S3_ENDPOINT)_(\w+)$/.exec(name);
+    if (match) {
+      suffixes.add(match[1]);
+    }
+  }
+
+  return Array.from(suffixes)
+    .sort()
+    .map((suffix) => {
+      const id = toS3ConnectionId(suffix);
+      return {
+        id,
+        name: id,
+        accessKeyId: env[`AWS_ACCESS_KEY_ID_${suffix}`] || '',
+        secretAccessKey: env[`AWS_SECRET_ACCESS_KEY_${suffix}`] || '',
+        region: env[`AWS_DEFAULT_REGION_${suffix}`] || 'us-east-1',
+        endpoint: env[`AWS_S3_ENDPOINT_${suffix}`] || '',
+        defaultBucket: env[`AWS_S3_BUCKET_${suffix}`] || '',
+        source: 'data-connection',
+        sourceDetail: `AWS_*_${suffix} environment variables`,
+      };
+    });
+};
+
+/**
+ * Read Data Connection secrets mounted as directories of S3_DATA_CONNECTIONS_DIR
+ * Each directory holds one file per key (AWS_ACCESS_KEY_ID, AWS_S3_ENDPOINT, ...), as
+ * Kubernetes mounts a secret. Directories without an access key or endpoint are ignored, and
+ * entries that can't be read are skipped with a warning.
+ */
+const readDataConnectionSecrets = (dir: string | undefined): S3ConnectionProfile[] => {
+  if (!dir) {
+    return [];
+  }
+  let names: string[];
+  try {
+    names = fs.readdirSync(dir).filter((name) => !name.startsWith('.'));
+  } catch (error: any) {
+    console.warn(`Cannot read S3_DATA_CONNECTIONS_DIR ${dir}:`, error.message);
+    return [];
+  }
+
+  const connections: S3ConnectionProfile[] = [];
+  for (const name of names.sort()) {
+    const secretDir = path.join(dir, name);
+    const read = (key: string): string => {
+      try {
+        return fs.readFileSync(path.join(secretDir, key), 'utf-8').trim();
+      } catch (e) {
+        return '';
+      }
+    };
+    let isDirectory: boolean;
+    try {
+      isDirectory = fs.statSync(secretDir).isDirectory();
+    } catch (error: any) {
+      console.warn(`Skipping Data Connection ${secretDir}:`, error.message);
+      continue;
+    }
+    if (!isDirectory || !(read('AWS_ACCESS_KEY_ID') || read('AWS_S3_ENDPOINT'))) {
+      continue;
+    }
+    const id = toS3ConnectionId(name);
+    connections.push({
+      id,
+      name: id,
+      accessKeyId: read('AWS_ACCESS_KEY_ID'),
+      secretAccessKey: read('AWS_SECRET_ACCESS_KEY'),
+      region: read('AWS_DEFAULT_REGION') || 'us-east-1',
+      endpoint: read('AWS_S3_ENDPOINT'),
+      defaultBucket: read('AWS_S3_BUCKET'),
+      source: 'data-connection',
+      sourceDetail: secretDir,
+    });
+  }
+  return connections;
+};
+
+/**
+ * Create the client of an S3 connection
+ * The connection's own proxies take precedence over the global proxy settings.
+ */
+export const initializeS3Client = (connection: S3ConnectionProfile): S3Client => {
+  const httpProxy = connection.httpProxy || globalHttpProxy;
+  const httpsProxy = connection.httpsProxy || globalHttpsProxy;
   const s3ClientOptions: any = {
-    region: region,
-    endpoint: endpoint,
+    region: connection.region,
+    endpoint: connection.endpoint,
     forcePathStyle: true,
     credentials: {
-      accessKeyId: accessKeyId,
-      secretAccessKey: secretAccessKey,
+      accessKeyId: connection.accessKeyId,
+      secretAccessKey: connection.secretAccessKey,
     },
     // AWS SDK retry configuration
     maxAttempts: 5, // Retry up to 5 times
@@ -105,7 +311,65 @@ export const initializeS3Client = (): S3Client => {
   return client;
 };
 
-let s3Client = initializeS3Client();
+// Registry of S3 connections with their clients, in the order they were added
+const s3Connections = new Map<string, { profile: S3ConnectionProfile; s3Client: S3Client }>();
+const envS3Connections: S3ConnectionProfile[] = [];
+for (const connection of [
+  ...parseS3ConnectionsEnv(process.env.S3_CONNECTIONS),
+  ...parseDataConnectionsEnv(process.env),
+  ...readDataConnectionSecrets(process.env.S3_DATA_CONNECTIONS_DIR),
+]) {
+  if (
+    !isValidS3ConnectionId(connection.id) ||
+    connection.id === DEFAULT_S3_CONNECTION_ID ||
+    envS3Connections.some((c) => c.id === connection.id)
+  ) {
+    console.warn(`Skipping S3 connection with invalid or duplicate id: ${connection.id}`);
+    continue;
+  }
+  envS3Connections.push(connection);
+}
+for (const connection of [defaultConnection, ...envS3Connections]) {
+  s3Connections.set(connection.id, {
+    profile: connection,
+    s3Client: initializeS3Client(connection),
+  });
+}
+
+// Settings changed from the Settings page, and the store they are saved to
+let settingsStore: SettingsStore | null = null;
+let persistedSettings: PersistedSettings = {};
+
+/**
+ * Record changed settings and save them when persistence is enabled
+ */
+const persistSettings = (changes: PersistedSettings): void => {
+  persistedSettings = { ...persistedSettings, ...changes };
+  settingsStore?.save(persistedSettings);
+};
+
+const setS3Connection = (profile: S3ConnectionProfile): void => {
+  s3Connections.set(profile.id, { profile, s3Client: initializeS3Client(profile) });
+};
+
+const reinitializeS3Clients = (): void => {
+  for (const connection of s3Connections.values()) {
+    connection.s3Client = initializeS3Client(connection.profile);
+  }
+};
+
+/**
+ * Thrown when a location or request refers to an S3 connection that doesn't exist
+ * Carries a 404 status code for Fastify's error handler.
+ */
+export class S3ConnectionNotFoundError extends Error {
+  statusCode = 404;
+
+  constructor(connectionId: string) {
+    super(`S3 connection not found: ${connectionId}`);
+    this.name = 'S3ConnectionNotFoundError';
+  }
+}
 
 export const updateS3Config = (
   newAccessKeyId: string,
@@ -114,47 +378,224 @@ export const updateS3Config = (
   newEndpoint: string,
   newDefaultBucket: string,
 ): void => {
-  accessKeyId = newAccessKeyId;
-  secretAccessKey = newSecretAccessKey;
-  region = newRegion;
-  endpoint = newEndpoint;
-  defaultBucket = newDefaultBucket;
+  const { profile } = s3Connections.get(DEFAULT_S3_CONNECTION_ID)!;
+  saveS3Connection({
+    ...profile,
+    accessKeyId: newAccessKeyId,
+    secretAccessKey: newSecretAccessKey,
+    region: newRegion,
+    endpoint: newEndpoint,
+    defaultBucket: newDefaultBucket,
+  });
+};
+
+/**
+ * Get the settings and client of an S3 connection (the default connection when no id is given)
+ * @throws S3ConnectionNotFoundError when the connection doesn't exist
+ */
+export const getS3Config = (connectionId: string = DEFAULT_S3_CONNECTION_ID): any => {
+  const connection = s3Connections.get(connectionId);
+  if (!connection) {
+    throw new S3ConnectionNotFoundError(connectionId);
+  }
+  return { ...connection.profile, s3Client: connection.s3Client };
+};
 
-  // Reinitialize the S3 client
-  s3Client = initializeS3Client();
+/**
+ * Get all S3 connection profiles, the default connection first
+ */
+export const getS3Connections = (): S3ConnectionProfile[] => {
+  return Array.from(s3Connections.values()).map(({ profile }) => ({ ...profile }));
 };
 
-export const getS3Config = (): any => {
+/**
+ * Add an S3 connection or replace the settings of an existing one
+ * @throws Error when the connection id is invalid
+ */
+export const saveS3Connection = (connection: S3ConnectionProfile): void => {
+  if (!isValidS3ConnectionId(connection.id)) {
+    throw new Error(`Invalid S3 connection id: ${connection.id}`);
+  }
+  const profile: S3ConnectionProfile = {
+    ...connection,
+    source: 'settings',
+    sourceDetail: undefined,
+  };
+  setS3Connection(profile);
+  persistSettings({
+    s3Connections: [
+      ...(persistedSettings.s3Connections || []).filter((c) => c.id !== profile.id),
+      profile,
+    ],
+    removedS3Connections: (persistedSettings.removedS3Connections || []).filter(
+      (id) => id !== profile.id,
+    ),
+  });
+};
+
+/**
+ * Remove an S3 connection
+ * @throws Error when removing the default connection
+ * @throws S3ConnectionNotFoundError when the connection doesn't exist
+ */
+export const removeS3Connection = (connectionId: string): void => {
+  if (connectionId === DEFAULT_S3_CONNECTION_ID) {
+    throw new Error('The default S3 connection cannot be removed');
+  }
+  if (!s3Connections.delete(connectionId)) {
+    throw new S3ConnectionNotFoundError(connectionId);
+  }
+  persistSettings({
+    s3Connections: (persistedSettings.s3Connections || []).filter((c) => c.id !== connectionId),
+    // Keeps connections from the environment removed after a restart
+    removedS3Connections: [
+      ...(persistedSettings.removedS3Connections || []).filter((id) => id !== connectionId),
+      connectionId,
+    ],
+  });
+};
+
+/**
+ * Location id of a bucket: its name for the default connection, "<connectionId>:<bucket>" otherwise
+ */
+export const formatS3LocationId = (connectionId: string, bucket: string): string => {
+  return connectionId === DEFAULT_S3_CONNECTION_ID ? bucket : `${connectionId}:${bucket}`;
+};
+
+/**
+ * Split a location id into its connection id and bucket name
+ */
+export const parseS3LocationId = (locationId: string): { connectionId: string; bucket: string } => {
+  const separator = locationId.indexOf(':');
+  if (separator === -1) {
+    return { connectionId: DEFAULT_S3_CONNECTION_ID, bucket: locationId };
+  }
   return {
-    accessKeyId,
-    secretAccessKey,
-    region,
-    endpoint,
-    defaultBucket,
-    s3Client,
+    connectionId: locationId.slice(0, separator),
+    bucket: locationId.slice(separator + 1),
   };
 };
 
+/**
+ * Resolve an S3 location id to the client of its connection and the bucket name
+ * @throws S3ConnectionNotFoundError when the connection doesn't exist
+ */
+export const getS3Location = (
+  locationId: string,
+): { s3Client: S3Client; bucket: string; connectionId: string } => {
+  const { connectionId, bucket } = parseS3LocationId(locationId);
+  const { s3Client } = getS3Config(connectionId);
+  return { s3Client, bucket, connectionId };
+};
+
+/**
+ * Whether objects can be copied server-side from one S3 connection to another
+ * A copy is a single request to one service, so both connections must use the same endpoint,
+ * region and credentials.
+ * @throws S3ConnectionNotFoundError when a connection doesn't exist
+ */
+export const canCopyBetweenS3Connections = (
+  sourceConnectionId: string,
+  destConnectionId: string,
+): boolean => {
+  if (sourceConnectionId === destConnectionId) {
+    return true;
+  }
+  const source: S3ConnectionProfile = getS3Config(sourceConnectionId);
+  const dest: S3ConnectionProfile = getS3Config(destConnectionId);
+  return (
+    source.endpoint === dest.endpoint &&
+    source.region === dest.region &&
+    source.accessKeyId === dest.accessKeyId &&
+    source.secretAccessKey === dest.secretAccessKey
+  );
+};
+
 export const getHFConfig = (): string => {
   return hfToken;
 };
 
 export const updateHFConfig = (newHfToken: string): void => {
   hfToken = newHfToken;
+  persistSettings({ hfToken });
+};
+
+/**
+ * Normalize a HuggingFace endpoint: an http(s) URL, possibly with a path (e.g. an Artifactory
+ * remote repository), without trailing slash
+ * @returns The endpoint, or null if it is not a valid http(s) URL
+ */
+export function normalizeHFEndpoint(endpoint: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(endpoint.trim());
+  } catch (e) {
+    return null;
+  }
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.search || url.hash) {
+    return null;
+  }
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Get the HuggingFace Hub endpoint all API and file URLs go through
+ */
+export const getHFEndpoint = (): string => {
+  return hfEndpoint;
+};
+
+/**
+ * Update the HuggingFace Hub endpoint, an empty endpoint restores the default one
+ * @throws Error if the endpoint is not a valid http(s) URL
+ */
+export const updateHFEndpoint = (newHfEndpoint: string): void => {
+  const endpoint = newHfEndpoint ? normalizeHFEndpoint(newHfEndpoint) : DEFAULT_HF_ENDPOINT;
+  if (!endpoint) {
+    throw new Error(`Invalid HuggingFace endpoint: ${newHfEndpoint}`);
+  }
+  hfEndpoint = endpoint;
+  persistSettings({ hfEndpoint });
+};
+
+// Certificates of HF_CA_BUNDLE, read on first use
+let hfCaBundle: { path: string; certificates?: string[] } | undefined;
+
+/**
+ * Get the certificates trusted for the HuggingFace endpoint when HF_CA_BUNDLE names a PEM file
+ * (e.g. the CA of a mirror), in addition to the default root certificates
+ * @returns The certificates, or undefined to use the default ones
+ */
+export const getHFCaCertificates = (): string[] | undefined => {
+  const caBundlePath = process.env.HF_CA_BUNDLE;
+  if (!caBundlePath) {
+    return undefined;
+  }
+  if (hfCaBundle?.path !== caBundlePath) {
+    let certificates: string[] | undefined;
+    try {
+      certificates = [...tls.rootCertificates, fs.readFileSync(caBundlePath, 'utf-8')];
+    } catch (error: any) {
+      console.warn(`Cannot read HF_CA_BUNDLE ${caBundlePath}:`, error.message);
+    }
+    hfCaBundle = { path: caBundlePath, certificates };
+  }
+  return hfCaBundle.certificates;
 };
 
 export const getProxyConfig = (): { httpProxy: string; httpsProxy: string } => {
   return {
-    httpProxy,
-    httpsProxy,
+    httpProxy: globalHttpProxy,
+    httpsProxy: globalHttpsProxy,
   };
 };
 
 export const updateProxyConfig = (newHttpProxy: string, newHttpsProxy: string): void => {
-  httpProxy = newHttpProxy;
-  httpsProxy = newHttpsProxy;
+  globalHttpProxy = newHttpProxy;
+  globalHttpsProxy = newHttpsProxy;
   // Reinitialize clients that depend on proxy settings
-  s3Client = initializeS3Client();
+  reinitializeS3Clients();
+  persistSettings({ proxy: { httpProxy: newHttpProxy, httpsProxy: newHttpsProxy } });
 };
 
 export const getMaxConcurrentTransfers = (): number => {
@@ -163,6 +604,27 @@ export const getMaxConcurrentTransfers = (): number => {
 
 export const updateMaxConcurrentTransfers = (newMaxConcurrentTransfers: number): void => {
   maxConcurrentTransfers = newMaxConcurrentTransfers;
+  persistSettings({ maxConcurrentTransfers });
+};
+
+/**
+ * Get transfer bandwidth limits in bytes per second (0 means unlimited)
+ * maxTransferBytesPerSecond is shared by all transfers, maxJobBytesPerSecond applies to each job.
+ */
+export const getBandwidthConfig = (): {
+  maxTransferBytesPerSecond: number;
+  maxJobBytesPerSecond: number;
+} => {
+  return { maxTransferBytesPerSecond, maxJobBytesPerSecond };
+};
+
+export const updateBandwidthConfig = (
+  newMaxTransferBytesPerSecond: number,
+  newMaxJobBytesPerSecond: number,
+): void => {
+  maxTransferBytesPerSecond = newMaxTransferBytesPerSecond;
+  maxJobBytesPerSecond = newMaxJobBytesPerSecond;
+  persistSettings({ bandwidth: { maxTransferBytesPerSecond, maxJobBytesPerSecond } });
 };
 
 export const getMaxFilesPerPage = (): number => {
@@ -171,6 +633,7 @@ export const getMaxFilesPerPage = (): number => {
 
 export const updateMaxFilesPerPage = (newMaxFilesPerPage: number): void => {
   maxFilesPerPage = newMaxFilesPerPage;
+  persistSettings({ maxFilesPerPage });
 };
 
 /**
@@ -212,6 +675,7 @@ export const updateLocalStoragePaths = (newPaths: string[]): void => {
 export const updateMaxFileSizeGB = (newLimitGB: number): void => {
   if (newLimitGB > 0 && !isNaN(newLimitGB)) {
     maxFileSizeGB = newLimitGB;
+    persistSettings({ maxFileSizeGB });
   } else {
     throw new Error(`Invalid file size limit: ${newLimitGB}`);
   }
@@ -243,3 +707,72 @@ export const formatFileSize = (sizeBytes: number): string => {
   const kb = sizeBytes / 1024;
   return `${kb.toFixed(2)} KB`;
 };
+
+/**
+ * Load the settings saved by a previous run and save further changes to the given store
+ *
+ * Saved settings override environment variables, unless SETTINGS_PRECEDENCE=environment: then
+ * a saved setting only applies when its environment variables are not set (any AWS_* variable
+ * for the default connection). Saved versions of connections from S3_CONNECTIONS or Data
+ * Connections are then ignored.
+ */
+export const enableSettingsPersistence = (store: SettingsStore): void => {
+  settingsStore = store;
+  persistedSettings = store.load();
+  const saved = persistedSettings;
+  const environmentFirst = process.env.SETTINGS_PRECEDENCE === 'environment';
+  const applies = (...envVars: string[]): boolean =>
+    !environmentFirst || !envVars.some((name) => process.env[name]);
+
+  if (saved.hfToken !== undefined && applies('HF_TOKEN')) {
+    hfToken = saved.hfToken;
+  }
+  if (saved.hfEndpoint && applies('HF_ENDPOINT')) {
+    hfEndpoint = normalizeHFEndpoint(saved.hfEndpoint) || hfEndpoint;
+  }
+  if (saved.maxConcurrentTransfers && applies('MAX_CONCURRENT_TRANSFERS')) {
+    maxConcurrentTransfers = saved.maxConcurrentTransfers;
+  }
+  if (saved.maxFilesPerPage && applies('MAX_FILES_PER_PAGE')) {
+    maxFilesPerPage = saved.maxFilesPerPage;
+  }
+  if (saved.maxFileSizeGB && applies('MAX_FILE_SIZE_GB')) {
+    maxFileSizeGB = saved.maxFileSizeGB;
+  }
+  if (saved.bandwidth && applies('MAX_TRANSFER_BYTES_PER_SECOND', 'MAX_JOB_BYTES_PER_SECOND')) {
+    maxTransferBytesPerSecond = saved.bandwidth.maxTransferBytesPerSecond;
+    maxJobBytesPerSecond = saved.bandwidth.maxJobBytesPerSecond;
+  }
+  if (saved.proxy && applies('HTTP_PROXY', 'HTTPS_PROXY')) {
+    globalHttpProxy = saved.proxy.httpProxy;
+    globalHttpsProxy = saved.proxy.httpsProxy;
+    reinitializeS3Clients();
+  }
+
+  const defaultConnectionEnvVars = [
+    'AWS_ACCESS_KEY_ID',
+    'AWS_SECRET_ACCESS_KEY',
+    'AWS_DEFAULT_REGION',
+    'AWS_S3_ENDPOINT',
+    'AWS_S3_BUCKET',
+  ];
+  const connectionApplies = (connectionId: string): boolean => {
+    if (connectionId === DEFAULT_S3_CONNECTION_ID) {
+      return applies(...defaultConnectionEnvVars);
+    }
+    return !environmentFirst || !envS3Connections.some((c) => c.id === connectionId);
+  };
+
+  for (const connectionId of saved.removedS3Connections || []) {
+    if (connectionId !== DEFAULT_S3_CONNECTION_ID && connectionApplies(connectionId)) {
+      s3Connections.delete(connectionId);
+    }
+  }
+  for (const connection of saved.s3Connections || []) {
+    if (!isValidS3ConnectionId(connection.id)) {
+      console.warn(`Skipping saved S3 connection with invalid id: ${connection.id}`);
+    } else if (connectionApplies(connection.id)) {
+      setS3Connection({ ...connection });
+    }
+  }
+};
@@ -47,3 +47,10 @@ export const ENABLE_MEMORY_PROFILER = process.env.ENABLE_MEMORY_PROFILER === 'tr
  * Defaults to empty string for root deployment.
  */
 export const NB_PREFIX = normalizePathPrefix(process.env.NB_PREFIX);
+
+/**
+ * Directory holding the application's persistent state (disclaimer status, transfer jobs, ...).
+ * Lives under the workbench home directory so it survives pod restarts when the home is a PVC.
+ */
+export const CONFIG_DIR =
+  process.env.ODH_TEC_CONFIG_DIR || '/opt/app-root/src/.local/share/odh-tec';
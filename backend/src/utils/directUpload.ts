@@ -0,0 +1,142 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { signCommandUrl } from './presignedUrl';
+import { getPartSize } from './resumableUpload';
+
+/**
+ * Expiry of the presigned URLs of the parts, in seconds
+ * URLs are requested in batches while the upload goes on, a batch only has to last for the
+ * upload of its parts.
+ */
+export const DIRECT_UPLOAD_PART_URL_EXPIRY = 3600; // 1 hour
+
+/**
+ * Multipart upload started for the browser, which uploads the parts itself
+ */
+export interface DirectUpload {
+  uploadId: string;
+  key: string;
+  partSize: number; // Size of every part but the last one
+  partCount: number;
+}
+
+export interface DirectUploadPartUrl {
+  partNumber: number;
+  url: string;
+}
+
+/**
+ * Part uploaded by the browser, with the ETag returned by S3
+ */
+export interface DirectUploadPart {
+  partNumber: number;
+  etag: string;
+}
+
+/**
+ * Start a multipart upload of an object whose parts are uploaded by the browser
+ *
+ * The browser gets presigned URLs for the parts (getDirectUploadPartUrls) and sends them to S3
+ * directly: the object's data never goes through the backend.
+ */
+export async function initiateDirectUpload(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  size: number,
+  contentType?: string,
+): Promise<DirectUpload> {
+  const response = await s3Client.send(
+    new CreateMultipartUploadCommand({ Bucket: bucket, Key: key, ContentType: contentType }),
+  );
+  if (!response.UploadId) {
+    throw new Error('S3 did not return an UploadId');
+  }
+  const partSize = getPartSize(size);
+
+  return {
+    uploadId: response.UploadId,
+    key,
+    partSize,
+    partCount: Math.max(1, Math.ceil(size / partSize)),
+  };
+}
+
+/**
+ * Presigned URLs to upload parts of a direct upload with PUT requests
+ * S3 returns the ETag of each part in the ETag header of its response.
+ */
+export async function getDirectUploadPartUrls(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  uploadId: string,
+  partNumbers: number[],
+  expiresIn: number = DIRECT_UPLOAD_PART_URL_EXPIRY,
+): Promise<DirectUploadPartUrl[]> {
+  return Promise.all(
+    partNumbers.map(async (partNumber) => ({
+      partNumber,
+      url: await signCommandUrl(
+        s3Client,
+        new UploadPartCommand({
+          Bucket: bucket,
+          Key: key,
+          UploadId: uploadId,
+          PartNumber: partNumber,
+        }),
+        expiresIn,
+      ),
+    })),
+  );
+}
+
+/**
+ * Complete a direct upload once the browser uploaded all its parts
+ */
+export async function completeDirectUpload(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  uploadId: string,
+  parts: DirectUploadPart[],
+): Promise<void> {
+  // CompleteMultipartUpload requires ascending part numbers
+  const sortedParts = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+  await s3Client.send(
+    new CompleteMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: sortedParts.map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }),
+  );
+}
+
+/**
+ * Abort a direct upload so S3 releases the storage used by its parts
+ * An upload that no longer exists (already completed or aborted) is not an error.
+ */
+export async function abortDirectUpload(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  uploadId: string,
+): Promise<void> {
+  try {
+    await s3Client.send(
+      new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId: uploadId }),
+    );
+  } catch (error: any) {
+    if (error.name !== 'NoSuchUpload') {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import { AxiosRequestConfig } from 'axios';
+import { Agent as HttpsAgent } from 'https';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+
+/**
+ * HuggingFace Hub URL helpers
+ *
+ * Models and datasets are served by the same Hub API, under different paths of the endpoint
+ * (https://huggingface.co or a mirror):
+ * - models:   /api/models/<id>,   /<id>/resolve/<revision>/<file>
+ * - datasets: /api/datasets/<id>, /datasets/<id>/resolve/<revision>/<file>
+ */
+
+/**
+ * Type of a HuggingFace Hub repository
+ */
+export type HuggingFaceRepoType = 'model' | 'dataset';
+
+/**
+ * Branch holding the Parquet conversion of a dataset, created by the Hub dataset viewer
+ */
+export const PARQUET_CONVERSION_REVISION = 'refs/convert/parquet';
+
+/**
+ * Branch used when no revision is requested
+ */
+export const DEFAULT_REVISION = 'main';
+
+export function isHuggingFaceRepoType(value: unknown): value is HuggingFaceRepoType {
+  return value === 'model' || value === 'dataset';
+}
+
+/**
+ * URL of the Hub API describing a repository (including its files, as `siblings`)
+ *
+ * @param revision - Branch, tag or commit, the default branch if undefined
+ * @param blobs - Also return the size of each file
+ */
+export function getHuggingFaceRepoInfoUrl(
+  endpoint: string,
+  repoType: HuggingFaceRepoType,
+  repoId: string,
+  revision?: string,
+  blobs = false,
+): string {
+  let url = `${endpoint}/api/${repoType}s/${repoId}`;
+  if (revision) {
+    url += `/revision/${encodeURIComponent(revision)}`;
+  }
+  return blobs ? `${url}?blobs=true` : url;
+}
+
+/**
+ * Validates a revision (branch, tag or commit) of a repository.
+ *
+ * @returns null if valid, error message string if invalid
+ */
+export function validateHuggingFaceRevision(revision: unknown): string | null {
+  if (revision === undefined) {
+    return null; // Optional parameter
+  }
+  if (typeof revision !== 'string' || revision.trim() === '' || revision.length > 256) {
+    return 'revision must be a branch, tag or commit.';
+  }
+  if (/[\s\0]/.test(revision) || revision.includes('..')) {
+    return `Invalid revision '${revision}'.`;
+  }
+  return null;
+}
+
+/**
+ * Normalize glob patterns given as a single pattern or a list of patterns
+ * As in huggingface_hub, a pattern ending with "/" matches everything in that folder.
+ *
+ * @returns The patterns, undefined if none were given, or null if they are not strings
+ */
+export function normalizeHuggingFacePatterns(patterns: unknown): string[] | undefined | null {
+  if (patterns === undefined || patterns === null) {
+    return undefined;
+  }
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  if (list.some((pattern) => typeof pattern !== 'string' || pattern === '')) {
+    return null;
+  }
+  return (list as string[]).map((pattern) => (pattern.endsWith('/') ? `${pattern}*` : pattern));
+}
+
+/**
+ * Convert a glob pattern to a regular expression, with the semantics of Python's fnmatch
+ * (used by huggingface_hub): "*" matches any characters including "/", "?" matches a single
+ * character, "[seq]" and "[!seq]" match a character in or not in seq.
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i++];
+    if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else if (char === '[') {
+      let j = i;
+      if (pattern[j] === '!') j++;
+      if (pattern[j] === ']') j++;
+      while (j < pattern.length && pattern[j] !== ']') j++;
+      if (j >= pattern.length) {
+        // No closing bracket: "[" is a literal character
+        source += '\\[';
+      } else {
+        let set = pattern.slice(i, j).replace(/\\/g, '\\\\');
+        if (set.startsWith('!')) {
+          set = `^${set.slice(1)}`;
+        } else if (set.startsWith('^')) {
+          set = `\\${set}`;
+        }
+        source += `[${set}]`;
+        i = j + 1;
+      }
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 's');
+}
+
+/**
+ * Filter the files of a repository with allow and ignore patterns
+ * Same semantics as huggingface_hub.snapshot_download: a file is kept if it matches any allow
+ * pattern (all files if there are none) and no ignore pattern.
+ */
+export function filterHuggingFaceFiles<T>(
+  files: T[],
+  getPath: (file: T) => string,
+  allowPatterns?: string[],
+  ignorePatterns?: string[],
+): T[] {
+  const allow = allowPatterns?.map(globToRegExp);
+  const ignore = ignorePatterns?.map(globToRegExp) || [];
+  return files.filter((file) => {
+    const filePath = getPath(file);
+    if (allow && !allow.some((regexp) => regexp.test(filePath))) {
+      return false;
+    }
+    return !ignore.some((regexp) => regexp.test(filePath));
+  });
+}
+
+/**
+ * URL downloading a file of a repository at the given revision
+ * Revisions such as "refs/convert/parquet" are encoded as a single path segment.
+ */
+export function getHuggingFaceFileUrl(
+  endpoint: string,
+  repoType: HuggingFaceRepoType,
+  repoId: string,
+  revision: string,
+  fileName: string,
+): string {
+  const repoPath = repoType === 'dataset' ? `datasets/${repoId}` : repoId;
+  const filePath = fileName.split('/').map(encodeURIComponent).join('/');
+  return `${endpoint}/${repoPath}/resolve/${encodeURIComponent(revision)}/${filePath}`;
+}
+
+/**
+ * URL of the Hub API describing the owner of a token
+ */
+export function getHuggingFaceWhoAmIUrl(endpoint: string): string {
+  return `${endpoint}/api/whoami-v2`;
+}
+
+export interface HuggingFaceConnectionOptions {
+  hfToken?: string;
+  httpProxy: string;
+  httpsProxy: string;
+  ca?: string[]; // Certificates trusted for https URLs, the default ones if undefined
+}
+
+/**
+ * Axios options of a Hub API request: authentication, proxy and custom CA
+ */
+export function getHuggingFaceAxiosOptions(
+  url: string,
+  options: HuggingFaceConnectionOptions,
+): AxiosRequestConfig {
+  const { hfToken, httpProxy, httpsProxy, ca } = options;
+  const axiosOptions: AxiosRequestConfig = {
+    headers: hfToken ? { Authorization: `Bearer ${hfToken}` } : {},
+    proxy: false, // Proxies are handled by the agents
+  };
+
+  if (url.startsWith('https://')) {
+    if (httpsProxy) {
+      axiosOptions.httpsAgent = new HttpsProxyAgent(httpsProxy, ca ? { ca } : {});
+    } else if (ca) {
+      axiosOptions.httpsAgent = new HttpsAgent({ ca });
+    }
+  } else if (url.startsWith('http://') && httpProxy) {
+    axiosOptions.httpAgent = new HttpProxyAgent(httpProxy);
+  }
+  return axiosOptions;
+}
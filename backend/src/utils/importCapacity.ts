@@ -0,0 +1,77 @@
+/**
+ * Pre-flight capacity check of imports whose file sizes are known before they start
+ */
+
+export interface ImportFileSize {
+  path: string;
+  size?: number | null; // Unknown if undefined or null
+}
+
+export interface ImportCapacity {
+  totalSize: number; // Sum of the known file sizes
+  unknownSizeFiles: number; // Files whose size is unknown, not counted in totalSize
+  availableSpace: number | null; // Free space of the destination, null if not limited (S3)
+  maxFileSize: number; // MAX_FILE_SIZE_GB in bytes
+  oversizedFiles: string[]; // Files larger than maxFileSize
+  insufficientSpace: boolean; // totalSize does not fit in availableSpace
+  errors: string[]; // Problems preventing the import
+  warnings: string[]; // Problems that don't prevent the import
+}
+
+/**
+ * Check that the files of an import fit in their destination
+ *
+ * For local storage, the files must fit in the free space of the location and none may exceed
+ * the MAX_FILE_SIZE_GB limit of local files. For S3, large files are only reported as warnings.
+ *
+ * @param files - Files to import with their size
+ * @param availableSpace - Free space of the destination, or null for S3
+ * @param maxFileSize - MAX_FILE_SIZE_GB in bytes
+ */
+export function checkImportCapacity(
+  files: ImportFileSize[],
+  availableSpace: number | null,
+  maxFileSize: number,
+): ImportCapacity {
+  const known = files.filter((file) => typeof file.size === 'number');
+  const totalSize = known.reduce((total, file) => total + (file.size as number), 0);
+  const unknownSizeFiles = files.length - known.length;
+  const oversizedFiles = known
+    .filter((file) => (file.size as number) > maxFileSize)
+    .map((file) => file.path);
+  const insufficientSpace = availableSpace !== null && totalSize > availableSpace;
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const isLocal = availableSpace !== null;
+
+  if (insufficientSpace) {
+    errors.push(
+      `The import needs ${formatGB(totalSize)} but only ${formatGB(availableSpace)} are available.`,
+    );
+  }
+  if (oversizedFiles.length > 0) {
+    const message =
+      `${oversizedFiles.length} file(s) exceed the ${formatGB(maxFileSize)} file size limit: ` +
+      `${oversizedFiles.join(', ')}.`;
+    (isLocal ? errors : warnings).push(message);
+  }
+  if (unknownSizeFiles > 0) {
+    warnings.push(`The size of ${unknownSizeFiles} file(s) is unknown and not counted.`);
+  }
+
+  return {
+    totalSize,
+    unknownSizeFiles,
+    availableSpace,
+    maxFileSize,
+    oversizedFiles,
+    insufficientSpace,
+    errors,
+    warnings,
+  };
+}
+
+function formatGB(bytes: number): string {
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)}GB`;
+}
@@ -463,3 +463,27 @@ export async function checkFileSize(absolutePath: string): Promise<void> {
     throw new StorageError(`Failed to check file size: ${error.message}`);
   }
 }
+
+/**
+ * Get the space available to this process on the filesystem holding a path
+ *
+ * @param absolutePath - Validated absolute path, the nearest existing parent is used if the path
+ *   does not exist yet
+ * @returns Available space in bytes
+ * @throws StorageError if the filesystem cannot be queried
+ */
+export async function getAvailableSpace(absolutePath: string): Promise<number> {
+  let current = absolutePath;
+  for (;;) {
+    try {
+      const stats = await fs.statfs(current);
+      return stats.bavail * stats.bsize;
+    } catch (error: any) {
+      const parent = path.dirname(current);
+      if (error.code !== 'ENOENT' || parent === current) {
+        throw new StorageError(`Failed to get available space: ${error.message}`);
+      }
+      current = parent;
+    }
+  }
+}
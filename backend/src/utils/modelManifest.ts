@@ -0,0 +1,174 @@
+import { HuggingFaceRepoType } from './huggingFace';
+
+/**
+ * Manifest of a HuggingFace import
+ *
+ * Written next to the imported files when the import completes. It records the repository,
+ * the commit the files come from, their sizes and checksums, and the fields of config.json a
+ * model server needs (architecture, dtype, context length...), so a deployment can be set up
+ * without going back to the Hub.
+ */
+
+export const MODEL_MANIFEST_FILE_NAME = 'hf-manifest.json';
+
+export const MODEL_MANIFEST_VERSION = 1;
+
+/**
+ * config.json files larger than this are not parsed
+ */
+export const MAX_MODEL_CONFIG_SIZE = 1024 * 1024;
+
+/**
+ * Checksum published by the Hub for a file: the SHA-256 of LFS files (weights, datasets),
+ * the git blob id (SHA-1 of the git object) of the other files
+ */
+export interface ModelManifestChecksum {
+  algorithm: 'sha256' | 'git-sha1';
+  value: string;
+}
+
+export interface ModelManifestFile {
+  path: string; // Path in the repository, relative to the manifest
+  size: number;
+  checksum?: ModelManifestChecksum;
+}
+
+/**
+ * Fields of a model's config.json used to deploy it
+ */
+export interface ModelConfigSummary {
+  modelType?: string;
+  architectures?: string[];
+  dtype?: string;
+  maxPositionEmbeddings?: number;
+  hiddenSize?: number;
+  numHiddenLayers?: number;
+  numAttentionHeads?: number;
+  numKeyValueHeads?: number;
+  vocabSize?: number;
+  quantization?: string;
+  transformersVersion?: string;
+}
+
+/**
+ * What an import knows about its repository, kept in the job params until the import completes
+ */
+export interface ModelManifestSource {
+  endpoint: string;
+  repoType: HuggingFaceRepoType;
+  repoId: string;
+  revision: string; // Requested revision
+  sha?: string; // Commit the files were downloaded from
+  checksums: Record<string, ModelManifestChecksum>; // By file path
+}
+
+export interface ModelManifest {
+  manifestVersion: number;
+  source: 'huggingface';
+  endpoint: string;
+  repoType: HuggingFaceRepoType;
+  repoId: string;
+  revision: string;
+  sha?: string;
+  importedAt: string;
+  totalSize: number;
+  files: ModelManifestFile[];
+  config?: ModelConfigSummary;
+}
+
+/**
+ * File of a repository as listed by the Hub API with ?blobs=true
+ */
+interface HuggingFaceBlob {
+  blobId?: string;
+  lfs?: { sha256?: string };
+}
+
+/**
+ * Checksum published by the Hub for a file of a repository
+ *
+ * @returns The checksum, or undefined if the Hub did not list one (e.g. older mirrors)
+ */
+export function getHuggingFaceFileChecksum(
+  file: HuggingFaceBlob,
+): ModelManifestChecksum | undefined {
+  if (file.lfs?.sha256) {
+    return { algorithm: 'sha256', value: file.lfs.sha256 };
+  }
+  if (file.blobId) {
+    return { algorithm: 'git-sha1', value: file.blobId };
+  }
+  return undefined;
+}
+
+/**
+ * Extract the fields used to deploy a model from its config.json
+ * Multimodal models (e.g. Llava) describe their language model in `text_config`, its fields
+ * are used when the top level does not have them.
+ *
+ * @returns The fields found, or undefined if the config is not an object
+ */
+export function parseModelConfig(config: unknown): ModelConfigSummary | undefined {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return undefined;
+  }
+  const root = config as Record<string, any>;
+  const textConfig: Record<string, any> =
+    root.text_config && typeof root.text_config === 'object' ? root.text_config : {};
+  const get = (key: string): unknown => (root[key] !== undefined ? root[key] : textConfig[key]);
+  const getString = (key: string) =>
+    typeof get(key) === 'string' ? (get(key) as string) : undefined;
+  const getNumber = (key: string) =>
+    typeof get(key) === 'number' ? (get(key) as number) : undefined;
+
+  const architectures = get('architectures');
+  const quantization = root.quantization_config?.quant_method;
+  return {
+    modelType: getString('model_type'),
+    architectures: Array.isArray(architectures)
+      ? architectures.filter((architecture) => typeof architecture === 'string')
+      : undefined,
+    // Renamed from torch_dtype in recent transformers versions
+    dtype: getString('torch_dtype') || getString('dtype'),
+    maxPositionEmbeddings: getNumber('max_position_embeddings'),
+    hiddenSize: getNumber('hidden_size'),
+    numHiddenLayers: getNumber('num_hidden_layers'),
+    numAttentionHeads: getNumber('num_attention_heads'),
+    numKeyValueHeads: getNumber('num_key_value_heads'),
+    vocabSize: getNumber('vocab_size'),
+    quantization: typeof quantization === 'string' ? quantization : undefined,
+    transformersVersion: getString('transformers_version'),
+  };
+}
+
+/**
+ * Build the manifest of a completed import
+ *
+ * @param source - Repository the files were imported from
+ * @param files - Imported files, with their path in the repository and transferred size
+ * @param config - Parsed config.json of the model, if it was imported
+ */
+export function buildModelManifest(
+  source: ModelManifestSource,
+  files: { path: string; size: number }[],
+  config?: unknown,
+  importedAt: Date = new Date(),
+): ModelManifest {
+  const { endpoint, repoType, repoId, revision, sha, checksums } = source;
+  const manifestFiles = files
+    .map((file) => ({ ...file, checksum: checksums[file.path] }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    manifestVersion: MODEL_MANIFEST_VERSION,
+    source: 'huggingface',
+    endpoint,
+    repoType,
+    repoId,
+    revision,
+    sha,
+    importedAt: importedAt.toISOString(),
+    totalSize: manifestFiles.reduce((total, file) => total + file.size, 0),
+    files: manifestFiles,
+    config: parseModelConfig(config),
+  };
+}
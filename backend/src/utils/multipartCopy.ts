@@ -0,0 +1,329 @@
+import {
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  CreateMultipartUploadCommandInput,
+  HeadObjectCommandOutput,
+  Part,
+  S3Client,
+  UploadPartCopyCommand,
+} from '@aws-sdk/client-s3';
+import { isTransferCancelled, MultipartUploadState, TransferFileJob } from './transferQueue';
+import { abortMultipartUpload, listUploadedParts } from './resumableUpload';
+
+/**
+ * Objects larger than this are copied part by part (CopyObject is limited to 5 GiB)
+ */
+const MULTIPART_COPY_THRESHOLD = 512 * 1024 * 1024; // 512 MiB
+
+/**
+ * Smallest part size used for multipart copies
+ * Parts are copied by S3 itself, large parts keep the number of requests low.
+ */
+const MIN_COPY_PART_SIZE = 128 * 1024 * 1024; // 128 MiB
+
+/**
+ * Maximum number of parts allowed by S3 in a single multipart upload
+ */
+const MAX_PARTS = 10000;
+
+/**
+ * Number of parts copied concurrently for a single object
+ */
+const PARALLEL_PARTS = 4;
+
+/**
+ * Headers, metadata and tags of the destination object
+ * A multipart copy doesn't copy them from the source: objects are created without them unless
+ * they are given.
+ */
+export type CopyDestinationAttributes = Omit<
+  CreateMultipartUploadCommandInput,
+  'Bucket' | 'Key' | 'ChecksumAlgorithm' | 'ChecksumType'
+>;
+
+/**
+ * Attributes of an object, as returned by HeadObject, that apply on any S3 service
+ * Used for copies to another connection: the storage class and the encryption settings are
+ * specific to the service of the source.
+ */
+export function getPortableObjectAttributes(
+  head: HeadObjectCommandOutput,
+): CopyDestinationAttributes {
+  return {
+    ContentType: head.ContentType,
+    ContentEncoding: head.ContentEncoding,
+    ContentDisposition: head.ContentDisposition,
+    ContentLanguage: head.ContentLanguage,
+    CacheControl: head.CacheControl,
+    Expires: head.Expires,
+    Metadata: head.Metadata,
+  };
+}
+
+/**
+ * Attributes of an object, as returned by HeadObject, to give to its copy
+ */
+export function getCopyDestinationAttributes(
+  head: HeadObjectCommandOutput,
+): CopyDestinationAttributes {
+  return {
+    ...getPortableObjectAttributes(head),
+    StorageClass: head.StorageClass,
+    ServerSideEncryption: head.ServerSideEncryption,
+    SSEKMSKeyId: head.SSEKMSKeyId,
+    BucketKeyEnabled: head.BucketKeyEnabled,
+  };
+}
+
+export interface MultipartCopyOptions {
+  s3Client: S3Client;
+  sourceBucket: string;
+  sourceKey: string;
+  sourceETag?: string; // Parts are only copied from this version of the source
+  sourceVersionId?: string; // Copy a previous version of the source (versioned buckets)
+  bucket: string;
+  key: string;
+  size: number; // Size of the source object
+  destinationAttributes?: CopyDestinationAttributes;
+  fileJob: TransferFileJob; // Holds the multipart upload state between attempts
+  onProgress: (loaded: number) => void;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Whether an object of the given size is copied with a multipart copy
+ */
+export function shouldUseMultipartCopy(size: number): boolean {
+  return size > MULTIPART_COPY_THRESHOLD;
+}
+
+/**
+ * Part size for copying an object of the given size
+ * Grows above MIN_COPY_PART_SIZE (rounded to whole MiB) when needed to stay within MAX_PARTS.
+ */
+export function getCopyPartSize(size: number): number {
+  const mib = 1024 * 1024;
+  const minForSize = Math.ceil(Math.ceil(size / MAX_PARTS) / mib) * mib;
+  return Math.max(MIN_COPY_PART_SIZE, minForSize);
+}
+
+/**
+ * CopySource of a copy request, of a given version of the source if any
+ * S3 URL-decodes CopySource: each segment of the key is encoded so that keys containing '?',
+ * '%', '+' or non-ASCII characters name the right object. The '/' separators are kept.
+ */
+export function getCopySource(bucket: string, key: string, versionId?: string): string {
+  const source = `${bucket}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  return versionId ? `${source}?versionId=${encodeURIComponent(versionId)}` : source;
+}
+
+/**
+ * Parts of the recorded upload that S3 holds with their expected size
+ * Unlike uploads, copied parts don't depend on each other: any complete part is kept.
+ *
+ * @returns The completed parts, or null if the upload no longer exists on S3
+ */
+async function getCopiedParts(
+  s3Client: S3Client,
+  state: MultipartUploadState,
+  abortSignal?: AbortSignal,
+): Promise<MultipartUploadState['parts'] | null> {
+  let uploaded: Part[];
+  try {
+    uploaded = await listUploadedParts(s3Client, state, abortSignal);
+  } catch (error: any) {
+    if (error.name === 'NoSuchUpload') {
+      // Upload was aborted or expired (e.g. by a bucket lifecycle rule)
+      return null;
+    }
+    throw error;
+  }
+
+  return uploaded
+    .filter((part) => {
+      const partNumber = part.PartNumber || 0;
+      const expectedSize = Math.min(state.partSize, state.size - (partNumber - 1) * state.partSize);
+      return partNumber > 0 && part.ETag && part.Size === expectedSize;
+    })
+    .map((part) => ({ PartNumber: part.PartNumber as number, ETag: part.ETag as string }))
+    .sort((a, b) => a.PartNumber - b.PartNumber);
+}
+
+/**
+ * Copy an object between buckets with a multipart upload made of UploadPartCopy requests
+ *
+ * The data is copied by S3 itself, no bytes go through this service. Parts are copied in
+ * parallel and progress is reported as they complete. As with resumable uploads, the
+ * UploadId and the completed parts are recorded on the file job, so a retried, resumed or
+ * restarted copy only copies the missing parts.
+ *
+ * Cancelling the transfer aborts the multipart upload. Any other failure (including a pause)
+ * keeps the copied parts, unless the source changed since the copy started.
+ */
+export async function copyObjectMultipart(options: MultipartCopyOptions): Promise<void> {
+  const {
+    s3Client,
+    sourceBucket,
+    sourceKey,
+    sourceETag,
+    sourceVersionId,
+    bucket,
+    key,
+    size,
+    destinationAttributes,
+    fileJob,
+    onProgress,
+    abortSignal,
+  } = options;
+  const partSize = getCopyPartSize(size);
+
+  let state = fileJob.multipartUpload;
+  if (
+    state &&
+    (state.bucket !== bucket ||
+      state.key !== key ||
+      state.size !== size ||
+      state.partSize !== partSize ||
+      fileJob.sourceETag !== sourceETag)
+  ) {
+    // Destination or source changed since the copy started, its parts are unusable
+    await abortMultipartUpload(s3Client, state);
+    state = undefined;
+  }
+
+  if (state) {
+    const parts = await getCopiedParts(s3Client, state, abortSignal);
+    if (parts) {
+      state.parts = parts;
+    } else {
+      state = undefined;
+    }
+  }
+
+  if (!state) {
+    const response = await s3Client.send(
+      new CreateMultipartUploadCommand({ ...destinationAttributes, Bucket: bucket, Key: key }),
+      { abortSignal },
+    );
+    if (!response.UploadId) {
+      throw new Error('S3 did not return an UploadId');
+    }
+    state = { uploadId: response.UploadId, bucket, key, size, partSize, parts: [] };
+  }
+
+  const upload = state;
+  fileJob.multipartUpload = upload;
+  fileJob.sourceETag = sourceETag;
+
+  const partCount = Math.ceil(size / partSize);
+  const copied = new Set(upload.parts.map((part) => part.PartNumber));
+  const pending: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!copied.has(partNumber)) {
+      pending.push(partNumber);
+    }
+  }
+
+  const partLength = (partNumber: number) => Math.min(partSize, size - (partNumber - 1) * partSize);
+  let copiedBytes = upload.parts.reduce((total, part) => total + partLength(part.PartNumber), 0);
+  let failure: unknown;
+
+  const copyPart = async (partNumber: number): Promise<void> => {
+    const start = (partNumber - 1) * partSize;
+    const response = await s3Client.send(
+      new UploadPartCopyCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: upload.uploadId,
+        PartNumber: partNumber,
+        CopySource: getCopySource(sourceBucket, sourceKey, sourceVersionId),
+        CopySourceRange: `bytes=${start}-${start + partLength(partNumber) - 1}`,
+        CopySourceIfMatch: sourceETag,
+      }),
+      { abortSignal },
+    );
+    const etag = response.CopyPartResult?.ETag;
+    if (!etag) {
+      throw new Error(`S3 did not return an ETag for part ${partNumber}`);
+    }
+
+    // Keep parts sorted: CompleteMultipartUpload requires ascending part numbers
+    const completed = { PartNumber: partNumber, ETag: etag };
+    const index = upload.parts.findIndex((part) => part.PartNumber > partNumber);
+    if (index === -1) {
+      upload.parts.push(completed);
+    } else {
+      upload.parts.splice(index, 0, completed);
+    }
+
+    copiedBytes += partLength(partNumber);
+    onProgress(copiedBytes);
+  };
+
+  // Each worker copies the next pending part until none is left or one failed
+  const worker = async (): Promise<void> => {
+    while (!failure && pending.length > 0) {
+      const partNumber = pending.shift() as number;
+      try {
+        await copyPart(partNumber);
+      } catch (error) {
+        failure = failure || error;
+      }
+    }
+  };
+
+  try {
+    onProgress(copiedBytes);
+    await Promise.all(
+      Array.from({ length: Math.min(PARALLEL_PARTS, pending.length) }, () => worker()),
+    );
+    if (failure) {
+      throw failure;
+    }
+
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: upload.uploadId,
+        MultipartUpload: { Parts: upload.parts },
+      }),
+      { abortSignal },
+    );
+    fileJob.multipartUpload = undefined;
+  } catch (error: any) {
+    if (isTransferCancelled(abortSignal) || error.name === 'PreconditionFailed') {
+      // Cancelled transfers are never resumed, and parts of a changed source are unusable
+      // (a paused transfer keeps them to continue on resume)
+      await abortMultipartUpload(s3Client, upload);
+      fileJob.multipartUpload = undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Copy an object part by part outside of a transfer job (restores, metadata changes)
+ * There is no job to resume the copy from: a failed copy is aborted.
+ */
+export async function copyObjectMultipartOnce(
+  options: Omit<MultipartCopyOptions, 'fileJob' | 'onProgress'>,
+): Promise<void> {
+  const { s3Client, sourceBucket, sourceKey, bucket, key, size } = options;
+  // Holds the multipart upload state while the copy is in progress
+  const fileJob: TransferFileJob = {
+    sourcePath: `s3:${sourceBucket}/${sourceKey}`,
+    destinationPath: `s3:${bucket}/${key}`,
+    size,
+    loaded: 0,
+    status: 'transferring',
+  };
+  try {
+    await copyObjectMultipart({ ...options, fileJob, onProgress: () => undefined });
+  } catch (error) {
+    if (fileJob.multipartUpload) {
+      await abortMultipartUpload(s3Client, fileJob.multipartUpload);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,241 @@
+import {
+  CopyObjectCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  PutObjectTaggingCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  copyObjectMultipartOnce,
+  getCopyDestinationAttributes,
+  getCopySource,
+  shouldUseMultipartCopy,
+} from './multipartCopy';
+
+/**
+ * Checksum stored by S3 with an object, when it was uploaded with one
+ * COMPOSITE checksums of multipart uploads are checksums of the part checksums.
+ */
+export interface ObjectChecksum {
+  algorithm: 'CRC32' | 'CRC32C' | 'CRC64NVME' | 'SHA1' | 'SHA256';
+  value: string; // Base64
+  type?: string; // FULL_OBJECT or COMPOSITE
+}
+
+export interface ObjectEncryption {
+  algorithm: string; // AES256, aws:kms, aws:kms:dsse
+  kmsKeyId?: string;
+  bucketKeyEnabled?: boolean;
+}
+
+/**
+ * Details of an object, from its headers and tags
+ */
+export interface ObjectDetails {
+  key: string;
+  versionId?: string;
+  size: number;
+  lastModified?: Date;
+  etag?: string;
+  storageClass: string;
+  contentType?: string;
+  contentEncoding?: string;
+  contentDisposition?: string;
+  contentLanguage?: string;
+  cacheControl?: string;
+  metadata: Record<string, string>; // User metadata (x-amz-meta-*), keys in lowercase
+  tags: Record<string, string> | null; // null when the S3 implementation doesn't support tagging
+  checksum?: ObjectChecksum;
+  encryption?: ObjectEncryption;
+}
+
+/**
+ * Changes to the headers of an object, applied by copying the object over itself
+ */
+export interface ObjectMetadataChanges {
+  metadata?: Record<string, string>; // Replaces all the user metadata
+  contentType?: string;
+}
+
+/**
+ * Whether an S3 error means the implementation doesn't support object tagging
+ */
+function isTaggingUnsupported(error: any): boolean {
+  return error?.name === 'NotImplemented' || error?.$metadata?.httpStatusCode === 501;
+}
+
+function getChecksum(head: HeadObjectCommandOutput): ObjectChecksum | undefined {
+  const checksums: [ObjectChecksum['algorithm'], string | undefined][] = [
+    ['CRC64NVME', head.ChecksumCRC64NVME],
+    ['CRC32C', head.ChecksumCRC32C],
+    ['CRC32', head.ChecksumCRC32],
+    ['SHA256', head.ChecksumSHA256],
+    ['SHA1', head.ChecksumSHA1],
+  ];
+  const found = checksums.find(([, value]) => value);
+  return found
+    ? { algorithm: found[0], value: found[1] as string, type: head.ChecksumType }
+    : undefined;
+}
+
+/**
+ * Tags of an object
+ *
+ * @returns The tags, or null if the S3 implementation doesn't support tagging
+ */
+export async function getObjectTags(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  versionId?: string,
+): Promise<Record<string, string> | null> {
+  try {
+    const { TagSet } = await s3Client.send(
+      new GetObjectTaggingCommand({ Bucket: bucket, Key: key, VersionId: versionId }),
+    );
+    return Object.fromEntries((TagSet || []).map((tag) => [tag.Key as string, tag.Value || '']));
+  } catch (error) {
+    if (isTaggingUnsupported(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tags of an object in the URL-encoded form of the Tagging header of a new object
+ * Multipart copies don't copy the tags of the source, they are given when creating the copy.
+ *
+ * @returns The tags, or undefined if there are none or tagging isn't supported
+ */
+export async function getObjectTagging(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  versionId?: string,
+): Promise<string | undefined> {
+  const tags = await getObjectTags(s3Client, bucket, key, versionId);
+  const tagging = tags
+    ? Object.entries(tags)
+        .map(([tagKey, value]) => `${encodeURIComponent(tagKey)}=${encodeURIComponent(value)}`)
+        .join('&')
+    : '';
+  return tagging || undefined;
+}
+
+/**
+ * Get the details of an object (or of one of its versions): headers, user metadata, tags,
+ * checksum and encryption
+ */
+export async function getObjectDetails(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  versionId?: string,
+): Promise<ObjectDetails> {
+  const head = await s3Client.send(
+    new HeadObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      VersionId: versionId,
+      ChecksumMode: 'ENABLED',
+    }),
+  );
+  const tags = await getObjectTags(s3Client, bucket, key, versionId);
+
+  return {
+    key,
+    versionId: head.VersionId,
+    size: head.ContentLength || 0,
+    lastModified: head.LastModified,
+    etag: head.ETag,
+    // S3 only returns the storage class of objects not in STANDARD
+    storageClass: head.StorageClass || 'STANDARD',
+    contentType: head.ContentType,
+    contentEncoding: head.ContentEncoding,
+    contentDisposition: head.ContentDisposition,
+    contentLanguage: head.ContentLanguage,
+    cacheControl: head.CacheControl,
+    metadata: head.Metadata || {},
+    tags,
+    checksum: getChecksum(head),
+    encryption: head.ServerSideEncryption
+      ? {
+          algorithm: head.ServerSideEncryption,
+          kmsKeyId: head.SSEKMSKeyId,
+          bucketKeyEnabled: head.BucketKeyEnabled,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Change the user metadata and/or content type of an object
+ *
+ * S3 can't change the headers of an object in place: the object is copied over itself with the
+ * new headers (a new version in versioned buckets). The other headers, the storage class, the
+ * encryption and the tags are kept. The copy only happens if the object didn't change since it
+ * was read (CopySourceIfMatch).
+ */
+export async function updateObjectMetadata(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  changes: ObjectMetadataChanges,
+): Promise<void> {
+  const head = await s3Client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+  const size = head.ContentLength || 0;
+  const attributes = {
+    ...getCopyDestinationAttributes(head),
+    ...(changes.metadata !== undefined && { Metadata: changes.metadata }),
+    ...(changes.contentType !== undefined && { ContentType: changes.contentType }),
+  };
+
+  if (!shouldUseMultipartCopy(size)) {
+    await s3Client.send(
+      new CopyObjectCommand({
+        ...attributes,
+        Bucket: bucket,
+        Key: key,
+        CopySource: getCopySource(bucket, key),
+        CopySourceIfMatch: head.ETag,
+        MetadataDirective: 'REPLACE',
+      }),
+    );
+    return;
+  }
+
+  // Multipart copies don't copy the tags either
+  await copyObjectMultipartOnce({
+    s3Client,
+    sourceBucket: bucket,
+    sourceKey: key,
+    sourceETag: head.ETag,
+    bucket,
+    key,
+    size,
+    destinationAttributes: {
+      ...attributes,
+      Tagging: await getObjectTagging(s3Client, bucket, key),
+    },
+  });
+}
+
+/**
+ * Replace the tags of an object
+ */
+export async function putObjectTags(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  tags: Record<string, string>,
+): Promise<void> {
+  await s3Client.send(
+    new PutObjectTaggingCommand({
+      Bucket: bucket,
+      Key: key,
+      Tagging: { TagSet: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })) },
+    }),
+  );
+}
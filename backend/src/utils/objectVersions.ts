@@ -0,0 +1,154 @@
+import {
+  CopyObjectCommand,
+  HeadObjectCommand,
+  ListObjectVersionsCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  copyObjectMultipartOnce,
+  getCopyDestinationAttributes,
+  getCopySource,
+  shouldUseMultipartCopy,
+} from './multipartCopy';
+import { getObjectTagging } from './objectDetails';
+
+/**
+ * A version of an object, or a delete marker hiding the previous versions
+ */
+export interface ObjectVersion {
+  key: string;
+  versionId: string; // "null" for objects stored while versioning was not enabled
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  lastModified?: Date;
+  size?: number; // Not set for delete markers
+  etag?: string;
+  storageClass?: string;
+}
+
+export interface ObjectVersionsPage {
+  versions: ObjectVersion[]; // By key, then from the latest to the oldest version
+  isTruncated: boolean;
+  nextKeyMarker: string | null;
+  nextVersionIdMarker: string | null;
+}
+
+export interface ListObjectVersionsOptions {
+  prefix: string;
+  exactKey?: boolean; // Only list the versions of the object named `prefix`
+  keyMarker?: string; // Continue a truncated listing
+  versionIdMarker?: string;
+  maxKeys?: number;
+}
+
+/**
+ * List a page of the versions and delete markers of the objects under a prefix, or of a single
+ * object
+ *
+ * S3 lists versions and delete markers separately, they are merged here in the order S3 uses:
+ * by key, then from the latest to the oldest.
+ */
+export async function listObjectVersions(
+  s3Client: S3Client,
+  bucket: string,
+  options: ListObjectVersionsOptions,
+): Promise<ObjectVersionsPage> {
+  const { prefix, exactKey = false, keyMarker, versionIdMarker, maxKeys } = options;
+  const response = await s3Client.send(
+    new ListObjectVersionsCommand({
+      Bucket: bucket,
+      Prefix: prefix || undefined,
+      KeyMarker: keyMarker,
+      VersionIdMarker: versionIdMarker,
+      MaxKeys: maxKeys,
+    }),
+  );
+
+  const all: ObjectVersion[] = [
+    ...(response.Versions || []).map((version) => ({
+      key: version.Key as string,
+      versionId: version.VersionId || 'null',
+      isLatest: !!version.IsLatest,
+      isDeleteMarker: false,
+      lastModified: version.LastModified,
+      size: version.Size,
+      etag: version.ETag,
+      storageClass: version.StorageClass,
+    })),
+    ...(response.DeleteMarkers || []).map((marker) => ({
+      key: marker.Key as string,
+      versionId: marker.VersionId || 'null',
+      isLatest: !!marker.IsLatest,
+      isDeleteMarker: true,
+      lastModified: marker.LastModified,
+    })),
+  ];
+  all.sort((a, b) => {
+    if (a.key !== b.key) {
+      return a.key < b.key ? -1 : 1;
+    }
+    return (b.lastModified?.getTime() || 0) - (a.lastModified?.getTime() || 0);
+  });
+
+  let isTruncated = !!response.IsTruncated;
+  let versions = all;
+  if (exactKey) {
+    versions = all.filter((version) => version.key === prefix);
+    // Keys are listed in order: once another key shows up, all versions of this one were listed
+    if (versions.length < all.length) {
+      isTruncated = false;
+    }
+  }
+
+  return {
+    versions,
+    isTruncated,
+    nextKeyMarker: isTruncated ? response.NextKeyMarker || null : null,
+    nextVersionIdMarker: isTruncated ? response.NextVersionIdMarker || null : null,
+  };
+}
+
+/**
+ * Restore a previous version of an object by copying it over the latest version
+ *
+ * The copy becomes the latest version, the history is kept. Large versions are copied part by
+ * part, with the content type, metadata and tags of the version.
+ * Delete markers have no content: S3 answers 405 (MethodNotAllowed) when asked to restore one.
+ */
+export async function restoreObjectVersion(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  versionId: string,
+): Promise<void> {
+  const head = await s3Client.send(
+    new HeadObjectCommand({ Bucket: bucket, Key: key, VersionId: versionId }),
+  );
+  const size = head.ContentLength || 0;
+
+  if (!shouldUseMultipartCopy(size)) {
+    await s3Client.send(
+      new CopyObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        CopySource: getCopySource(bucket, key, versionId),
+      }),
+    );
+    return;
+  }
+
+  await copyObjectMultipartOnce({
+    s3Client,
+    sourceBucket: bucket,
+    sourceKey: key,
+    sourceETag: head.ETag,
+    sourceVersionId: versionId,
+    bucket,
+    key,
+    size,
+    destinationAttributes: {
+      ...getCopyDestinationAttributes(head),
+      Tagging: await getObjectTagging(s3Client, bucket, key, versionId),
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Suffix of the sidecar file a download is written to until it completes
+ */
+export const PARTIAL_DOWNLOAD_SUFFIX = '.part';
+
+/**
+ * Path of the sidecar file used while downloading to the given destination
+ * The sidecar is renamed to the destination once the download is complete, so a
+ * file at the destination path is always complete.
+ */
+export function getPartialDownloadPath(absolutePath: string): string {
+  return `${absolutePath}${PARTIAL_DOWNLOAD_SUFFIX}`;
+}
+
+/**
+ * Number of bytes already downloaded to a sidecar file
+ * Returns 0 if there is no partial download to resume.
+ */
+export async function getPartialDownloadSize(partPath: string): Promise<number> {
+  try {
+    const stats = await fs.stat(partPath);
+    return stats.isFile() ? stats.size : 0;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a sidecar file, ignoring a missing file
+ */
+export async function removePartialDownload(partPath: string): Promise<void> {
+  try {
+    await fs.unlink(partPath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { BuildMiddleware, MiddlewareStack } from '@smithy/types';
+
+export type PresignMethod = 'GET' | 'PUT';
+
+export const DEFAULT_PRESIGN_EXPIRY = 3600; // 1 hour, in seconds
+
+/**
+ * Presigned URL of an object, usable without credentials until it expires
+ */
+export interface PresignedUrl {
+  url: string;
+  method: PresignMethod;
+  expiresIn: number; // Seconds
+  expiresAt: string; // ISO date
+}
+
+/**
+ * Sign the URL of a request, to be sent by a client without credentials
+ *
+ * The SDK adds a checksum of the body to upload requests. When signing a URL there is no body
+ * yet, so the checksum would be the one of an empty body and S3 would reject the upload: the
+ * checksum headers are removed before signing.
+ */
+export async function signCommandUrl(
+  s3Client: S3Client,
+  command: GetObjectCommand | PutObjectCommand | UploadPartCommand,
+  expiresIn: number,
+): Promise<string> {
+  const removeChecksumHeaders: BuildMiddleware<object, object> = (next) => async (args) => {
+    const headers = (args.request as { headers?: Record<string, string> }).headers || {};
+    for (const name of Object.keys(headers)) {
+      const lowerName = name.toLowerCase();
+      if (lowerName.startsWith('x-amz-checksum-') || lowerName === 'x-amz-sdk-checksum-algorithm') {
+        delete headers[name];
+      }
+    }
+    return next(args);
+  };
+  (command.middlewareStack as MiddlewareStack<object, object>).add(removeChecksumHeaders, {
+    step: 'build',
+    priority: 'low',
+    name: 'removeChecksumHeadersMiddleware',
+  });
+  return getSignedUrl(s3Client, command as Parameters<typeof getSignedUrl>[1], { expiresIn });
+}
+
+/**
+ * Create a presigned URL to download (GET) or upload (PUT) an object
+ *
+ * The URL is signed locally with the credentials of the S3 client and points to its endpoint:
+ * it only works for the users who can reach that endpoint. It can't be revoked before it expires,
+ * other than by rotating the credentials.
+ */
+export async function createPresignedUrl(
+  s3Client: S3Client,
+  bucket: string,
+  key: string,
+  method: PresignMethod,
+  expiresIn: number = DEFAULT_PRESIGN_EXPIRY,
+): Promise<PresignedUrl> {
+  const command =
+    method === 'GET'
+      ? new GetObjectCommand({ Bucket: bucket, Key: key })
+      : new PutObjectCommand({ Bucket: bucket, Key: key });
+  const url = await signCommandUrl(s3Client, command, expiresIn);
+
+  return {
+    url,
+    method,
+    expiresIn,
+    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,379 @@
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  ListPartsCommand,
+  Part,
+  S3Client,
+  UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { isTransferCancelled, MultipartUploadState, TransferFileJob } from './transferQueue';
+import { sanitizeErrorForLogging } from './errorLogging';
+import { CopyDestinationAttributes } from './multipartCopy';
+
+/**
+ * Smallest part size used for resumable uploads (S3 requires at least 5 MiB)
+ */
+const MIN_PART_SIZE = 8 * 1024 * 1024; // 8 MiB
+
+/**
+ * Maximum number of parts allowed by S3 in a single multipart upload
+ */
+const MAX_PARTS = 10000;
+
+/**
+ * Number of parts uploaded concurrently for a single file
+ * Bounds memory usage to roughly (PART_QUEUE_SIZE + 1) * partSize per file.
+ */
+const PART_QUEUE_SIZE = 4;
+
+export interface ResumableUploadOptions {
+  s3Client: S3Client;
+  bucket: string;
+  key: string;
+  size: number; // Total size of the source, must be known upfront
+  fileJob: TransferFileJob; // Holds the multipart upload state between attempts
+  openStream: (offset: number) => Promise<Readable>; // Opens the source starting at a byte offset
+  onProgress: (loaded: number) => void;
+  abortSignal?: AbortSignal;
+  destinationAttributes?: CopyDestinationAttributes; // Headers and metadata of the created object
+}
+
+/**
+ * Part size for an object of the given size
+ * Grows above MIN_PART_SIZE (rounded to whole MiB) when needed to stay within MAX_PARTS.
+ */
+export function getPartSize(size: number): number {
+  const mib = 1024 * 1024;
+  const minForSize = Math.ceil(Math.ceil(size / MAX_PARTS) / mib) * mib;
+  return Math.max(MIN_PART_SIZE, minForSize);
+}
+
+/**
+ * Whether a source of the given size is uploaded with a resumable multipart upload
+ * Smaller sources fit in a single part and are cheaper to simply upload again.
+ */
+export function shouldUseResumableUpload(size: number): boolean {
+  return size > MIN_PART_SIZE;
+}
+
+/**
+ * MD5s (hex) of the uploaded parts, in order
+ * @returns undefined when a part has no recorded MD5 (uploaded before they were recorded)
+ */
+export function getUploadedPartDigests(
+  state: MultipartUploadState | undefined,
+): string[] | undefined {
+  const digests = state?.parts.map((part) => part.MD5);
+  return digests?.every((md5): md5 is string => !!md5) ? digests : undefined;
+}
+
+/**
+ * List all parts uploaded so far for a multipart upload
+ */
+export async function listUploadedParts(
+  s3Client: S3Client,
+  state: MultipartUploadState,
+  abortSignal?: AbortSignal,
+): Promise<Part[]> {
+  const parts: Part[] = [];
+  let partNumberMarker: string | undefined;
+
+  do {
+    const response = await s3Client.send(
+      new ListPartsCommand({
+        Bucket: state.bucket,
+        Key: state.key,
+        UploadId: state.uploadId,
+        PartNumberMarker: partNumberMarker,
+      }),
+      { abortSignal },
+    );
+    parts.push(...(response.Parts || []));
+    partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (partNumberMarker);
+
+  return parts;
+}
+
+/**
+ * Reconcile the recorded state with the parts actually stored by S3
+ *
+ * Only the leading run of complete parts (1, 2, 3, ...) is kept so the upload can
+ * continue from a single byte offset; later parts are uploaded again.
+ *
+ * @returns The completed parts, or null if the upload no longer exists on S3
+ */
+async function reconcileParts(
+  s3Client: S3Client,
+  state: MultipartUploadState,
+  abortSignal?: AbortSignal,
+): Promise<MultipartUploadState['parts'] | null> {
+  let uploaded: Part[];
+  try {
+    uploaded = await listUploadedParts(s3Client, state, abortSignal);
+  } catch (error: any) {
+    if (error.name === 'NoSuchUpload') {
+      // Upload was aborted or expired (e.g. by a bucket lifecycle rule)
+      return null;
+    }
+    throw error;
+  }
+
+  const byNumber = new Map(uploaded.map((part) => [part.PartNumber, part]));
+  const partCount = Math.ceil(state.size / state.partSize);
+  const parts: MultipartUploadState['parts'] = [];
+
+  // MD5s recorded when the parts were uploaded, still valid for the parts S3 kept
+  const recorded = new Map(state.parts.map((part) => [part.PartNumber, part]));
+
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    const part = byNumber.get(partNumber);
+    const expectedSize = Math.min(state.partSize, state.size - (partNumber - 1) * state.partSize);
+    if (!part || !part.ETag || part.Size !== expectedSize) {
+      break;
+    }
+    const md5 =
+      recorded.get(partNumber)?.ETag === part.ETag ? recorded.get(partNumber)?.MD5 : undefined;
+    parts.push({ PartNumber: partNumber, ETag: part.ETag, ...(md5 && { MD5: md5 }) });
+  }
+
+  return parts;
+}
+
+/**
+ * Abort a multipart upload so S3 releases the storage used by its parts
+ * Failures are only logged: the upload is abandoned either way.
+ */
+export async function abortMultipartUpload(
+  s3Client: S3Client,
+  state: MultipartUploadState,
+): Promise<void> {
+  try {
+    await s3Client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: state.bucket,
+        Key: state.key,
+        UploadId: state.uploadId,
+      }),
+    );
+  } catch (error: any) {
+    if (error.name !== 'NoSuchUpload') {
+      console.warn(
+        `[ResumableUpload] Failed to abort multipart upload for ${state.key}:`,
+        sanitizeErrorForLogging(error),
+      );
+    }
+  }
+}
+
+/**
+ * Upload the parts of the source starting after the last completed part
+ */
+async function uploadRemainingParts(
+  s3Client: S3Client,
+  state: MultipartUploadState,
+  stream: Readable,
+  onProgress: (loaded: number) => void,
+  abortSignal?: AbortSignal,
+): Promise<void> {
+  const offset = state.parts.length * state.partSize;
+  let nextPartNumber = state.parts.length + 1;
+  let uploadedBytes = offset;
+  let streamedBytes = offset;
+  let buffered: Buffer[] = [];
+  let bufferedLength = 0;
+  let failure: unknown;
+  const inFlight = new Set<Promise<void>>();
+
+  const sendPart = async (partNumber: number, body: Buffer): Promise<void> => {
+    const response = await s3Client.send(
+      new UploadPartCommand({
+        Bucket: state.bucket,
+        Key: state.key,
+        UploadId: state.uploadId,
+        PartNumber: partNumber,
+        Body: body,
+        ContentLength: body.length,
+      }),
+      { abortSignal },
+    );
+    if (!response.ETag) {
+      throw new Error(`S3 did not return an ETag for part ${partNumber}`);
+    }
+
+    // Keep parts sorted: CompleteMultipartUpload requires ascending part numbers.
+    // The MD5 of each part lets a resumed upload compute the checksum of the whole object.
+    const completed = {
+      PartNumber: partNumber,
+      ETag: response.ETag,
+      MD5: createHash('md5').update(body).digest('hex'),
+    };
+    const index = state.parts.findIndex((part) => part.PartNumber > partNumber);
+    if (index === -1) {
+      state.parts.push(completed);
+    } else {
+      state.parts.splice(index, 0, completed);
+    }
+
+    uploadedBytes += body.length;
+    onProgress(uploadedBytes);
+  };
+
+  const uploadPart = (body: Buffer): void => {
+    const promise: Promise<void> = sendPart(nextPartNumber++, body)
+      .catch((error) => {
+        failure = failure || error;
+      })
+      .finally(() => {
+        inFlight.delete(promise);
+      });
+    inFlight.add(promise);
+  };
+
+  // Stop reading the source as soon as the transfer is cancelled
+  const abortHandler = () => stream.destroy(new Error('Transfer cancelled'));
+  abortSignal?.addEventListener('abort', abortHandler);
+
+  try {
+    for await (const chunk of stream) {
+      buffered.push(chunk);
+      bufferedLength += chunk.length;
+      streamedBytes += chunk.length;
+
+      while (bufferedLength >= state.partSize) {
+        const data = Buffer.concat(buffered, bufferedLength);
+        const rest = data.subarray(state.partSize);
+        buffered = rest.length > 0 ? [Buffer.from(rest)] : [];
+        bufferedLength = rest.length;
+        uploadPart(data.subarray(0, state.partSize));
+
+        // Backpressure: wait for a slot before reading more of the source
+        while (inFlight.size >= PART_QUEUE_SIZE) {
+          await Promise.race(inFlight);
+        }
+      }
+
+      if (failure) {
+        break;
+      }
+    }
+
+    if (!failure && streamedBytes !== state.size) {
+      failure = new Error(`Source size changed: read ${streamedBytes} of ${state.size} bytes`);
+    }
+
+    if (!failure && bufferedLength > 0) {
+      uploadPart(Buffer.concat(buffered, bufferedLength));
+    }
+
+    await Promise.all(inFlight);
+  } finally {
+    abortSignal?.removeEventListener('abort', abortHandler);
+    stream.destroy();
+  }
+
+  if (failure) {
+    throw failure;
+  }
+}
+
+/**
+ * Upload to S3 with a multipart upload that survives interruptions
+ *
+ * The UploadId and the ETags (and MD5s) of completed parts are recorded on the file job. When
+ * the same file job is executed again (retry, or resume after a server restart), the recorded
+ * upload is reconciled with ListParts and the source is re-opened after the last completed
+ * part instead of starting from zero.
+ *
+ * Cancelling the transfer aborts the multipart upload. Any other failure (including a pause)
+ * keeps the uploaded parts so the next attempt can reuse them.
+ *
+ * @returns The completed upload, with all its parts
+ */
+export async function uploadResumable(
+  options: ResumableUploadOptions,
+): Promise<MultipartUploadState> {
+  const {
+    s3Client,
+    bucket,
+    key,
+    size,
+    fileJob,
+    openStream,
+    onProgress,
+    abortSignal,
+    destinationAttributes,
+  } = options;
+  const partSize = getPartSize(size);
+
+  let state = fileJob.multipartUpload;
+  if (
+    state &&
+    (state.bucket !== bucket ||
+      state.key !== key ||
+      state.size !== size ||
+      state.partSize !== partSize)
+  ) {
+    // Destination or source changed since the upload started, its parts are unusable
+    await abortMultipartUpload(s3Client, state);
+    state = undefined;
+  }
+
+  if (state) {
+    const parts = await reconcileParts(s3Client, state, abortSignal);
+    if (parts) {
+      state.parts = parts;
+    } else {
+      state = undefined;
+    }
+  }
+
+  if (!state) {
+    const response = await s3Client.send(
+      new CreateMultipartUploadCommand({ ...destinationAttributes, Bucket: bucket, Key: key }),
+      { abortSignal },
+    );
+    if (!response.UploadId) {
+      throw new Error('S3 did not return an UploadId');
+    }
+    state = { uploadId: response.UploadId, bucket, key, size, partSize, parts: [] };
+  }
+
+  const upload = state;
+  fileJob.multipartUpload = upload;
+
+  try {
+    const offset = upload.parts.length * partSize;
+    onProgress(offset);
+
+    if (offset < size) {
+      const stream = await openStream(offset);
+      await uploadRemainingParts(s3Client, upload, stream, onProgress, abortSignal);
+    }
+
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: upload.uploadId,
+        MultipartUpload: {
+          Parts: upload.parts.map((part) => ({ PartNumber: part.PartNumber, ETag: part.ETag })),
+        },
+      }),
+      { abortSignal },
+    );
+    fileJob.multipartUpload = undefined;
+    return upload;
+  } catch (error) {
+    if (isTransferCancelled(abortSignal)) {
+      // Cancelled transfers are never resumed, release the uploaded parts
+      // (a paused transfer keeps them to continue on resume)
+      await abortMultipartUpload(s3Client, upload);
+      fileJob.multipartUpload = undefined;
+    }
+    throw error;
+  }
+}
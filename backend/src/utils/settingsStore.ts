@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { S3ConnectionProfile } from './config';
+
+/**
+ * Prefix of secrets encrypted with AES-256-GCM: "enc:v1:<iv>:<auth tag>:<ciphertext>" (base64)
+ */
+const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/**
+ * Settings changed from the Settings page
+ *
+ * Only settings that were changed are present, the others keep coming from the environment.
+ * Secrets (secret access keys, HuggingFace token) are held in clear text here and encrypted
+ * by the store when an encryption key is configured.
+ */
+export interface PersistedSettings {
+  s3Connections?: S3ConnectionProfile[];
+  removedS3Connections?: string[]; // Connections from the environment removed from the Settings page
+  hfToken?: string;
+  hfEndpoint?: string;
+  proxy?: { httpProxy: string; httpsProxy: string };
+  maxConcurrentTransfers?: number;
+  maxFilesPerPage?: number;
+  maxFileSizeGB?: number;
+  bandwidth?: { maxTransferBytesPerSecond: number; maxJobBytesPerSecond: number };
+}
+
+interface SettingsStoreFile {
+  version: 1;
+  settings: PersistedSettings;
+}
+
+/**
+ * Get the key used to encrypt secrets at rest
+ * Read from SETTINGS_ENCRYPTION_KEY, or from the file named by SETTINGS_ENCRYPTION_KEY_FILE
+ * (e.g. a mounted Kubernetes secret).
+ *
+ * @returns The key, or undefined when none is configured
+ */
+export function getSettingsEncryptionKey(): string | undefined {
+  if (process.env.SETTINGS_ENCRYPTION_KEY) {
+    return process.env.SETTINGS_ENCRYPTION_KEY;
+  }
+  const keyFile = process.env.SETTINGS_ENCRYPTION_KEY_FILE;
+  if (!keyFile) {
+    return undefined;
+  }
+  try {
+    return fs.readFileSync(keyFile, 'utf-8').trim() || undefined;
+  } catch (error: any) {
+    console.warn(`[SettingsStore] Cannot read encryption key file ${keyFile}:`, error.message);
+    return undefined;
+  }
+}
+
+/**
+ * Durable JSON store for settings changed at runtime
+ *
+ * Like TransferJobStore, writes go to a temporary file renamed over the store file and are
+ * serialized. The file is only readable by its owner. Without an encryption key, secrets are
+ * stored in clear text.
+ */
+export class SettingsStore {
+  private readonly filePath: string;
+  private readonly key: Buffer | undefined;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private warnedUnencrypted = false;
+  // Saved secrets that could not be decrypted by load(), written back as they were
+  private undecryptable: { hfToken?: string; s3Connections: S3ConnectionProfile[] } = {
+    s3Connections: [],
+  };
+
+  /**
+   * @param filePath - Path of the store file
+   * @param encryptionKey - Any secret string, secrets are stored in clear text without it
+   */
+  constructor(filePath: string, encryptionKey?: string) {
+    this.filePath = filePath;
+    this.key = encryptionKey ? createHash('sha256').update(encryptionKey).digest() : undefined;
+  }
+
+  /**
+   * Load persisted settings
+   * Returns empty settings if the store does not exist yet or cannot be parsed. Secrets that
+   * cannot be decrypted (missing or different key), and the S3 connections they belong to,
+   * are left out. They are kept in the store until they are replaced or removed, so a wrong
+   * key doesn't lose them.
+   */
+  load(): PersistedSettings {
+    let settings: PersistedSettings;
+    try {
+      const content = fs.readFileSync(this.filePath, 'utf-8');
+      const data = JSON.parse(content) as SettingsStoreFile;
+      settings = data.settings && typeof data.settings === 'object' ? data.settings : {};
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(`[SettingsStore] Ignoring unreadable store ${this.filePath}:`, error.message);
+      }
+      return {};
+    }
+
+    this.undecryptable = { s3Connections: [] };
+    if (settings.hfToken !== undefined) {
+      const hfToken = this.decrypt(settings.hfToken, 'HuggingFace token');
+      if (hfToken === undefined) {
+        this.undecryptable.hfToken = settings.hfToken;
+        delete settings.hfToken;
+      } else {
+        settings.hfToken = hfToken;
+      }
+    }
+    if (Array.isArray(settings.s3Connections)) {
+      settings.s3Connections = settings.s3Connections.filter((connection) => {
+        const secretAccessKey = this.decrypt(
+          connection.secretAccessKey,
+          `secret access key of S3 connection ${connection.id}`,
+        );
+        if (secretAccessKey === undefined) {
+          this.undecryptable.s3Connections.push(connection);
+          return false;
+        }
+        connection.secretAccessKey = secretAccessKey;
+        return true;
+      });
+    }
+    return settings;
+  }
+
+  /**
+   * Persist the given settings, replacing the previous content of the store
+   * Secrets that could not be decrypted on load are kept, unless the settings replace them
+   * (or remove their S3 connection).
+   */
+  save(settings: PersistedSettings): Promise<void> {
+    if (settings.hfToken !== undefined) {
+      this.undecryptable.hfToken = undefined;
+    }
+    this.undecryptable.s3Connections = this.undecryptable.s3Connections.filter(
+      (connection) =>
+        !settings.s3Connections?.some((c) => c.id === connection.id) &&
+        !settings.removedS3Connections?.includes(connection.id),
+    );
+
+    const s3Connections = settings.s3Connections?.map((connection) => ({
+      ...connection,
+      secretAccessKey: this.encrypt(connection.secretAccessKey),
+    }));
+    const data: SettingsStoreFile = {
+      version: 1,
+      settings: {
+        ...settings,
+        hfToken:
+          settings.hfToken !== undefined
+            ? this.encrypt(settings.hfToken)
+            : this.undecryptable.hfToken,
+        s3Connections:
+          s3Connections || this.undecryptable.s3Connections.length
+            ? [...(s3Connections || []), ...this.undecryptable.s3Connections]
+            : undefined,
+      },
+    };
+    const content = JSON.stringify(data, null, 2);
+
+    if (!this.key && !this.warnedUnencrypted) {
+      this.warnedUnencrypted = true;
+      console.warn(
+        '[SettingsStore] No SETTINGS_ENCRYPTION_KEY configured, secrets are stored unencrypted',
+      );
+    }
+
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tmpPath, content, { encoding: 'utf-8', mode: 0o600 });
+        await fs.promises.rename(tmpPath, this.filePath);
+      } catch (error: any) {
+        console.warn(
+          `[SettingsStore] Failed to persist settings to ${this.filePath}:`,
+          error.message,
+        );
+      }
+    });
+
+    return this.pendingWrite;
+  }
+
+  private encrypt(value: string): string {
+    if (!this.key || !value) {
+      return value;
+    }
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const encrypted = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+    return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join(':')}`;
+  }
+
+  /**
+   * @returns The secret in clear text, or undefined if it cannot be decrypted
+   */
+  private decrypt(value: string, description: string): string | undefined {
+    if (typeof value !== 'string' || !value.startsWith(ENCRYPTED_PREFIX)) {
+      return value;
+    }
+    if (!this.key) {
+      console.warn(`[SettingsStore] Ignoring encrypted ${description}: no encryption key`);
+      return undefined;
+    }
+    try {
+      const [iv, tag, encrypted] = value
+        .slice(ENCRYPTED_PREFIX.length)
+        .split(':')
+        .map((part) => Buffer.from(part, 'base64'));
+      const decipher = createDecipheriv('aes-256-gcm', this.key, iv);
+      decipher.setAuthTag(tag);
+      return decipher.update(encrypted, undefined, 'utf-8') + decipher.final('utf-8');
+    } catch (e) {
+      console.warn(`[SettingsStore] Ignoring encrypted ${description}: wrong encryption key`);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  TransferFileJob,
+  TransferJobParams,
+  TransferPriority,
+  TransferStatus,
+  TransferType,
+} from './transferQueue';
+
+/**
+ * Serialized form of a TransferJob
+ *
+ * Dates are stored as ISO 8601 strings and the AbortController is omitted
+ * (a fresh one is created when the job is restored).
+ */
+export interface PersistedTransferJob {
+  id: string;
+  type: TransferType;
+  status: TransferStatus;
+  files: TransferFileJob[];
+  priority?: TransferPriority; // Missing in stores written before priorities existed
+  maxConcurrency?: number;
+  params?: TransferJobParams;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+}
+
+interface TransferJobStoreFile {
+  version: 1;
+  jobs: PersistedTransferJob[];
+}
+
+/**
+ * Durable JSON store for transfer jobs
+ *
+ * Writes go to a temporary file that is then renamed over the store file, so a crash
+ * mid-write never leaves a truncated store behind. Writes are serialized: a save
+ * requested while another one is in flight is chained after it.
+ */
+export class TransferJobStore {
+  private readonly filePath: string;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load persisted jobs
+   * Returns an empty list if the store does not exist yet or cannot be parsed.
+   */
+  load(): PersistedTransferJob[] {
+    try {
+      const content = fs.readFileSync(this.filePath, 'utf-8');
+      const data = JSON.parse(content) as TransferJobStoreFile;
+      return Array.isArray(data.jobs) ? data.jobs : [];
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        console.warn(
+          `[TransferJobStore] Ignoring unreadable store ${this.filePath}:`,
+          error.message,
+        );
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Persist the given jobs, replacing the previous content of the store
+   */
+  save(jobs: PersistedTransferJob[]): Promise<void> {
+    const data: TransferJobStoreFile = { version: 1, jobs };
+    const content = JSON.stringify(data);
+
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(tmpPath, content, 'utf-8');
+        await fs.promises.rename(tmpPath, this.filePath);
+      } catch (error: any) {
+        console.warn(
+          `[TransferJobStore] Failed to persist jobs to ${this.filePath}:`,
+          error.message,
+        );
+      }
+    });
+
+    return this.pendingWrite;
+  }
+}
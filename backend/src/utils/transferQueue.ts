@@ -1,12 +1,18 @@
 import pLimit from 'p-limit';
 import { EventEmitter } from 'events';
-import { getMaxConcurrentTransfers } from './config';
+import { getMaxConcurrentTransfers, getS3Location } from './config';
 import { startPeriodicLogging, stopPeriodicLogging, logMemory } from './memoryProfiler';
+import { TransferJobStore, PersistedTransferJob } from './transferJobStore';
+import { BandwidthLimiter, createJobBandwidthLimiter } from './bandwidthThrottle';
+import { sanitizeErrorForLogging } from './errorLogging';
+import { validatePath } from './localStorage';
+import { getPartialDownloadPath, removePartialDownload } from './partialDownload';
+import { abortMultipartUpload } from './resumableUpload';
 
 /**
  * Transfer job status
  */
-export type TransferStatus = 'queued' | 'active' | 'completed' | 'failed' | 'cancelled';
+export type TransferStatus = 'queued' | 'active' | 'paused' | 'completed' | 'failed' | 'cancelled';
 
 /**
  * Transfer file job status
@@ -21,7 +27,51 @@ export type TransferType =
   | 's3-download'
   | 'local-upload'
   | 'cross-storage'
-  | 'huggingface';
+  | 'huggingface'
+  | 'url-import';
+
+/**
+ * Scheduling priority of a job
+ * Files of higher priority jobs are started first; jobs of the same priority share the
+ * transfer slots round-robin.
+ */
+export type TransferPriority = 'low' | 'normal' | 'high';
+
+const PRIORITY_RANK: Record<TransferPriority, number> = { low: 0, normal: 1, high: 2 };
+
+/**
+ * Whether a value (e.g. from a request body) is a valid job priority
+ */
+export function isTransferPriority(value: unknown): value is TransferPriority {
+  return typeof value === 'string' && value in PRIORITY_RANK;
+}
+
+/**
+ * State of an S3 multipart upload that is still in progress
+ * Kept on the file job so an interrupted upload can continue from its last completed part.
+ */
+export interface MultipartUploadState {
+  uploadId: string;
+  bucket: string;
+  key: string;
+  size: number; // Total size of the object being uploaded
+  partSize: number;
+  parts: { PartNumber: number; ETag: string; MD5?: string }[]; // Completed parts, sorted by part number
+}
+
+/**
+ * Hash algorithms used to verify transferred files
+ */
+export type ChecksumAlgorithm = 'md5' | 'sha256';
+
+/**
+ * Checksum of a transferred file, recorded once it was verified
+ */
+export interface FileChecksum {
+  algorithm: ChecksumAlgorithm;
+  value: string; // Hex digest of the transferred bytes ("<md5>-<parts>" for S3 multipart uploads)
+  verifiedAgainst: 'etag' | 'destination'; // S3 ETag of the source/destination, or a re-read of the destination
+}
 
 /**
  * Individual file transfer within a job
@@ -34,6 +84,10 @@ export interface TransferFileJob {
   status: TransferFileStatus;
   error?: string;
   isMarker?: boolean; // Flag for .s3keep marker files
+  resolvedDestinationPath?: string; // Destination after conflict resolution, reused when resuming
+  multipartUpload?: MultipartUploadState; // Set while a resumable S3 upload is in progress
+  sourceETag?: string; // ETag of the source being downloaded, validates resumed ranged downloads
+  checksum?: FileChecksum; // Set when the transferred bytes were verified
 }
 
 /**
@@ -48,6 +102,12 @@ export interface TransferProgress {
   percentage: number;
 }
 
+/**
+ * Serializable parameters needed to rebuild a job's executor after a restart
+ * (e.g. source/destination descriptors). Must not contain secrets.
+ */
+export type TransferJobParams = Record<string, any>;
+
 /**
  * Complete transfer job
  */
@@ -61,40 +121,147 @@ export interface TransferJob {
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
+  priority: TransferPriority;
+  maxConcurrency?: number; // Cap on the files of this job transferred at once (global limit still applies)
+  params?: TransferJobParams; // Used to rebuild the executor when the job is restored
   abortController: AbortController; // For cancelling in-progress transfers
 }
 
 /**
  * Transfer executor function signature
+ * Executors pass the data they stream through the job's bandwidth limiter.
  */
 export type TransferExecutor = (
   file: TransferFileJob,
   onProgress: (loaded: number) => void,
   abortSignal: AbortSignal,
+  bandwidth: BandwidthLimiter,
 ) => Promise<void>;
 
+/**
+ * Rebuilds a transfer executor from persisted job parameters
+ * Throws when the job cannot be resumed from its parameters, the error message tells why.
+ */
+export type TransferExecutorFactory = (params: TransferJobParams) => TransferExecutor;
+
+/**
+ * Runs once when a job completes, e.g. to write a summary next to the transferred files
+ */
+export type TransferCompletionHandler = (job: TransferJob) => Promise<void>;
+
+/**
+ * Optional settings for a queued job
+ */
+export interface QueueJobOptions {
+  params?: TransferJobParams;
+  priority?: TransferPriority; // Defaults to 'normal'
+  maxConcurrency?: number;
+}
+
+/**
+ * Criteria for listing jobs, all optional
+ */
+export interface TransferJobFilter {
+  status?: TransferStatus[];
+  type?: TransferType[];
+  createdAfter?: Date;
+  createdBefore?: Date;
+}
+
+/**
+ * Abort reason used when a job is paused rather than cancelled
+ * Executors must keep partial progress (multipart uploads, .part files) in that case.
+ */
+export class TransferPausedError extends Error {
+  constructor() {
+    super('Transfer paused');
+    this.name = 'TransferPausedError';
+  }
+}
+
+/**
+ * Whether an executor's abort signal means the transfer was cancelled for good
+ * (as opposed to paused, in which case it will be resumed later)
+ */
+export function isTransferCancelled(abortSignal?: AbortSignal): boolean {
+  return !!abortSignal?.aborted && !(abortSignal.reason instanceof TransferPausedError);
+}
+
+/**
+ * Split a transfer path ("s3:bucketName/path" or "local:locationId/path") into its storage
+ * type, location and path in the location
+ */
+function parseTransferPath(
+  transferPath: string,
+): { type: string; locationId: string; path: string } | undefined {
+  const match = transferPath.match(/^(s3|local):([^/]+)\/(.*)$/);
+  return match ? { type: match[1], locationId: match[2], path: match[3] } : undefined;
+}
+
+/**
+ * How long finished jobs are kept in the persisted history
+ */
+const JOB_HISTORY_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Delay used to coalesce progress updates into a single store write
+ */
+const PERSIST_DEBOUNCE_MS = 2000;
+
+/**
+ * Throw for a concurrency limit that would never let a transfer start
+ */
+function assertConcurrencyLimit(limit: number): void {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new TypeError(`Expected concurrency limit to be an integer from 1 and up, got ${limit}`);
+  }
+}
+
 /**
  * Centralized transfer queue for managing all file transfer operations
  * with shared concurrency limits
  */
 export class TransferQueue extends EventEmitter {
-  private limiter: ReturnType<typeof pLimit>;
+  private concurrencyLimit: number;
+  private runningSlots: number; // File transfers currently holding a slot, across all jobs
+  private jobSlots: Map<string, number>; // File transfers currently holding a slot, per job
+  private waitingTasks: Map<string, (() => void)[]>; // Files waiting for a slot, per job (FIFO)
+  private lastDispatch: Map<string, number>; // Dispatch sequence number of each job's last started file
+  private dispatchCount: number;
   private metadataLimiter: ReturnType<typeof pLimit>; // Separate limiter for metadata ops to avoid deadlock
   private jobs: Map<string, TransferJob>;
   private activeTransfers: Set<string>;
   private nextJobId: number;
   private lastEmitTime: Map<string, number>; // Track last emit time per job for throttling
   private memoryMonitoringTimers: Map<string, NodeJS.Timeout | null>; // Track periodic memory logging timers (null if profiler disabled)
+  private executors: Map<string, TransferExecutor>; // Executor of each job, reused on retry
+  private runningTransfers: Map<string, Set<Promise<void>>>; // In-flight executor calls per job
+  private executorFactories: Map<TransferType, TransferExecutorFactory>;
+  private completionHandlers: Map<TransferType, TransferCompletionHandler>;
+  private store: TransferJobStore | null;
+  private persistTimer: NodeJS.Timeout | null;
 
   constructor(concurrencyLimit: number) {
     super();
-    this.limiter = pLimit(concurrencyLimit);
+    assertConcurrencyLimit(concurrencyLimit);
+    this.concurrencyLimit = concurrencyLimit;
+    this.runningSlots = 0;
+    this.jobSlots = new Map();
+    this.waitingTasks = new Map();
+    this.lastDispatch = new Map();
+    this.dispatchCount = 0;
     this.metadataLimiter = pLimit(20); // Higher concurrency for lightweight metadata ops (HeadObject, ListObjects)
     this.jobs = new Map();
     this.activeTransfers = new Set();
     this.nextJobId = 1;
     this.lastEmitTime = new Map();
     this.memoryMonitoringTimers = new Map();
+    this.executors = new Map();
+    this.runningTransfers = new Map();
+    this.executorFactories = new Map();
+    this.completionHandlers = new Map();
+    this.store = null;
+    this.persistTimer = null;
   }
 
   /**
@@ -137,19 +304,24 @@ export class TransferQueue extends EventEmitter {
 
     job.progress = this.calculateProgress(job.files);
 
-    // Don't update status if job is already cancelled
-    if (job.status === 'cancelled') {
+    // Don't update status if job is cancelled or paused
+    if (job.status === 'cancelled' || job.status === 'paused') {
+      this.schedulePersist();
       this.emit('job-updated', job);
       return;
     }
 
     const previousStatus = job.status;
+    this.schedulePersist();
 
     // Update overall job status
     if (job.files.every((f) => f.status === 'completed')) {
       job.status = 'completed';
       job.completedAt = new Date();
       this.activeTransfers.delete(jobId);
+      if (previousStatus !== 'completed') {
+        this.runCompletionHandler(job);
+      }
     } else if (
       job.files.some((f) => f.status === 'error') &&
       job.files.every((f) => f.status === 'completed' || f.status === 'error')
@@ -196,12 +368,14 @@ export class TransferQueue extends EventEmitter {
    * @param type - Transfer operation type
    * @param files - Array of files to transfer
    * @param executor - Function to execute each file transfer
+   * @param options - Optional job settings (e.g. params used to resume the job after a restart)
    * @returns Job ID
    */
   queueJob(
     type: TransferType,
     files: Omit<TransferFileJob, 'loaded' | 'status'>[],
     executor: TransferExecutor,
+    options: QueueJobOptions = {},
   ): string {
     const jobId = this.generateJobId();
 
@@ -216,11 +390,16 @@ export class TransferQueue extends EventEmitter {
       })),
       progress: this.calculateProgress([]),
       createdAt: new Date(),
+      priority: options.priority || 'normal',
+      maxConcurrency: options.maxConcurrency,
+      params: options.params,
       abortController: new AbortController(), // Create abort controller for this job
     };
 
     this.jobs.set(jobId, job);
+    this.executors.set(jobId, executor);
     this.activeTransfers.add(jobId);
+    this.schedulePersist();
     this.emit('job-created', job);
 
     // Start processing files
@@ -230,54 +409,167 @@ export class TransferQueue extends EventEmitter {
   }
 
   /**
-   * Process all files in a job with concurrency control
+   * Run a file transfer of a job once a transfer slot is available
+   */
+  private schedule(jobId: string, task: () => Promise<void>): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const start = () => {
+        this.runningSlots++;
+        this.jobSlots.set(jobId, (this.jobSlots.get(jobId) || 0) + 1);
+
+        // Started asynchronously (like p-limit): a new job is still 'queued' when queueJob returns
+        Promise.resolve()
+          .then(task)
+          .then(resolve, reject)
+          .finally(() => {
+            this.runningSlots--;
+            const slots = (this.jobSlots.get(jobId) || 1) - 1;
+            if (slots > 0) {
+              this.jobSlots.set(jobId, slots);
+            } else {
+              this.jobSlots.delete(jobId);
+            }
+            this.dispatch();
+          });
+      };
+
+      const waiting = this.waitingTasks.get(jobId) || [];
+      waiting.push(start);
+      this.waitingTasks.set(jobId, waiting);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Start waiting file transfers while transfer slots are free
+   */
+  private dispatch(): void {
+    while (this.runningSlots < this.concurrencyLimit) {
+      const jobId = this.nextJobToDispatch();
+      if (!jobId) return;
+
+      const waiting = this.waitingTasks.get(jobId)!;
+      const start = waiting.shift()!;
+      if (waiting.length === 0) {
+        this.waitingTasks.delete(jobId);
+      }
+
+      this.lastDispatch.set(jobId, ++this.dispatchCount);
+      start();
+    }
+  }
+
+  /**
+   * Job whose next file gets the free slot
+   * The highest priority wins; among jobs of equal priority the one served least recently,
+   * so a large job cannot starve a smaller one queued after it. Jobs at their own
+   * concurrency cap are skipped.
+   */
+  private nextJobToDispatch(): string | undefined {
+    let next: { jobId: string; rank: number; lastDispatch: number } | undefined;
+
+    for (const jobId of this.waitingTasks.keys()) {
+      const job = this.jobs.get(jobId);
+      if (job?.maxConcurrency && (this.jobSlots.get(jobId) || 0) >= job.maxConcurrency) {
+        continue;
+      }
+
+      const rank = PRIORITY_RANK[job?.priority || 'normal'];
+      const lastDispatch = this.lastDispatch.get(jobId) || 0;
+      if (!next || rank > next.rank || (rank === next.rank && lastDispatch < next.lastDispatch)) {
+        next = { jobId, rank, lastDispatch };
+      }
+    }
+
+    return next?.jobId;
+  }
+
+  /**
+   * Process all queued files in a job with concurrency control
+   * Files already completed or failed (e.g. in a restored job) are left untouched.
    */
   private async processFiles(jobId: string, executor: TransferExecutor): Promise<void> {
     const job = this.jobs.get(jobId);
     if (!job) return;
 
+    const pendingFiles = job.files.filter((file) => file.status === 'queued');
+    if (pendingFiles.length === 0) {
+      // Nothing left to transfer (e.g. restored job whose last file finished before the restart)
+      this.updateJob(jobId);
+      return;
+    }
+
     // Start periodic memory monitoring for this job
+    // (replacing the timer of a previous run of the same job, e.g. before a pause)
+    const previousTimer = this.memoryMonitoringTimers.get(jobId);
+    if (previousTimer) {
+      stopPeriodicLogging(previousTimer);
+    }
     const memoryTimer = startPeriodicLogging(5000, `Transfer ${jobId}`);
     this.memoryMonitoringTimers.set(jobId, memoryTimer);
-    logMemory(`Transfer ${jobId} - Job started - ${job.files.length} files queued`);
+    logMemory(`Transfer ${jobId} - Job started - ${pendingFiles.length} files queued`);
+
+    // A paused job gets a new AbortController when resumed: files still waiting for a
+    // slot in this run are then left to the run started by the resume
+    const abortController = job.abortController;
+    const bandwidth = createJobBandwidthLimiter(); // Shared by the files of this job
+    const running = this.runningTransfers.get(jobId) || new Set<Promise<void>>();
+    this.runningTransfers.set(jobId, running);
 
     // Process each file with concurrency limit
-    const promises = job.files.map((file) => {
-      return this.limiter(async () => {
+    const promises = pendingFiles.map((file) => {
+      return this.schedule(jobId, async () => {
+        if (job.abortController !== abortController || job.status === 'paused') {
+          // Stays queued until the job is resumed
+          return;
+        }
+
         // Check if job was cancelled or aborted before starting
-        if (job.status === 'cancelled' || job.abortController.signal.aborted) {
+        if (job.status === 'cancelled' || abortController.signal.aborted) {
           file.status = 'error';
           file.error = 'Job cancelled';
           return;
         }
 
-        try {
-          file.status = 'transferring';
-          this.updateJob(jobId);
+        const transfer = (async () => {
+          try {
+            file.status = 'transferring';
+            this.updateJob(jobId);
 
-          // Execute transfer with progress callback and abort signal
-          await executor(
-            file,
-            (loaded: number) => {
-              file.loaded = loaded;
-              this.updateJob(jobId);
-            },
-            job.abortController.signal,
-          );
+            // Execute transfer with progress callback, abort signal and bandwidth limit
+            await executor(
+              file,
+              (loaded: number) => {
+                file.loaded = loaded;
+                this.updateJob(jobId);
+              },
+              abortController.signal,
+              bandwidth,
+            );
 
-          file.status = 'completed';
-          file.loaded = file.size;
-        } catch (error: any) {
-          file.status = 'error';
-          // Check if error was due to abort
-          if (error.name === 'AbortError' || job.abortController.signal.aborted) {
-            file.error = 'Cancelled by user';
-          } else {
-            file.error = error.message || 'Transfer failed';
+            file.status = 'completed';
+            file.loaded = file.size;
+          } catch (error: any) {
+            if (job.status === 'paused' && !isTransferCancelled(abortController.signal)) {
+              // Interrupted by a pause: transferred again (resuming if possible) on resume
+              file.status = 'queued';
+            } else {
+              file.status = 'error';
+              // Check if error was due to abort
+              if (error.name === 'AbortError' || abortController.signal.aborted) {
+                file.error = 'Cancelled by user';
+              } else {
+                file.error = error.message || 'Transfer failed';
+              }
+            }
           }
-        }
 
-        this.updateJob(jobId);
+          this.updateJob(jobId);
+        })();
+
+        running.add(transfer);
+        await transfer;
+        running.delete(transfer);
       });
     });
 
@@ -285,7 +577,7 @@ export class TransferQueue extends EventEmitter {
 
     // Stop periodic memory monitoring
     const timer = this.memoryMonitoringTimers.get(jobId);
-    if (timer) {
+    if (timer && timer === memoryTimer) {
       stopPeriodicLogging(timer);
       this.memoryMonitoringTimers.delete(jobId);
     }
@@ -301,12 +593,17 @@ export class TransferQueue extends EventEmitter {
 
   /**
    * Cancel an active job
-   * Aborts all in-progress transfers and cleans up resources
+   * Aborts all in-progress transfers and cleans up resources. Executors release the partial
+   * progress of the files they were transferring; when none is running (paused job, or job
+   * restored after a restart), the queue releases it itself.
    */
   cancelJob(jobId: string): boolean {
     const job = this.jobs.get(jobId);
     if (!job) return false;
 
+    // A paused job's controller was already aborted: its executors won't see the cancellation
+    const running = this.activeTransfers.has(jobId) && !job.abortController.signal.aborted;
+
     // Abort all in-progress transfers
     // This triggers AbortSignal listeners in transfer functions
     // which will destroy streams and clean up intervals
@@ -332,9 +629,160 @@ export class TransferQueue extends EventEmitter {
     }
 
     this.updateJob(jobId);
+
+    if (!running) {
+      this.releasePartialTransfers(job).catch((error) => {
+        console.error(
+          `[TransferQueue] Failed to release partial transfers of ${jobId}:`,
+          sanitizeErrorForLogging(error),
+        );
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Release what interrupted transfers of a job left behind: the parts of unfinished S3
+   * multipart uploads and the .part files of local downloads
+   */
+  private async releasePartialTransfers(job: TransferJob): Promise<void> {
+    // Transfers interrupted by a pause may still be settling
+    await Promise.allSettled(Array.from(this.runningTransfers.get(job.id) || []));
+
+    for (const file of job.files) {
+      if (file.status === 'completed') continue;
+      const destination = parseTransferPath(file.resolvedDestinationPath || file.destinationPath);
+      if (!destination) continue;
+
+      try {
+        if (file.multipartUpload) {
+          await abortMultipartUpload(
+            getS3Location(destination.locationId).s3Client,
+            file.multipartUpload,
+          );
+          file.multipartUpload = undefined;
+        }
+        if (destination.type === 'local') {
+          const absolutePath = await validatePath(destination.locationId, destination.path);
+          await removePartialDownload(getPartialDownloadPath(absolutePath));
+        }
+        file.sourceETag = undefined;
+      } catch (error) {
+        console.warn(
+          `[TransferQueue] Failed to release partial transfer of ${file.destinationPath}:`,
+          sanitizeErrorForLogging(error),
+        );
+      }
+    }
+
+    this.schedulePersist();
+  }
+
+  /**
+   * Re-queue the files of a failed job that ended in error
+   * Files that completed are not transferred again. The job's original executor is reused,
+   * or rebuilt from the job's params if the job was restored after a restart.
+   *
+   * @returns false if the job does not exist, is not failed, or cannot be re-executed
+   */
+  retryJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'failed') return false;
+
+    const executor = this.getExecutor(job);
+    if (!executor) return false;
+
+    job.files.forEach((file) => {
+      if (file.status === 'error') {
+        file.status = 'queued';
+        file.error = undefined;
+        file.loaded = 0;
+        file.checksum = undefined;
+      }
+    });
+
+    job.status = 'queued';
+    job.completedAt = undefined;
+    job.error = undefined;
+    if (job.abortController.signal.aborted) {
+      job.abortController = new AbortController();
+    }
+
+    this.activeTransfers.add(jobId);
+    this.updateJob(jobId);
+    logMemory(`Transfer ${jobId} - Retrying failed files`);
+
+    this.processFiles(jobId, executor);
+    return true;
+  }
+
+  /**
+   * Pause a queued or active job
+   * No new files of the job are started. Files in progress are interrupted and go back
+   * to the queue; executors keep their partial progress so they can continue on resume.
+   *
+   * @returns false if the job does not exist or is not queued/active
+   */
+  pauseJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'active')) return false;
+
+    job.status = 'paused';
+    job.abortController.abort(new TransferPausedError());
+    this.activeTransfers.delete(jobId);
+    this.updateJob(jobId);
+    logMemory(`Transfer ${jobId} - Paused`);
+
     return true;
   }
 
+  /**
+   * Resume a paused job
+   * Processing restarts once the transfers interrupted by the pause have settled.
+   *
+   * @returns false if the job does not exist, is not paused, or cannot be re-executed
+   */
+  resumeJob(jobId: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'paused') return false;
+
+    const executor = this.getExecutor(job);
+    if (!executor) return false;
+
+    job.status = 'queued';
+    job.abortController = new AbortController();
+    this.activeTransfers.add(jobId);
+    this.updateJob(jobId);
+    logMemory(`Transfer ${jobId} - Resumed`);
+
+    const interrupted = Array.from(this.runningTransfers.get(jobId) || []);
+    Promise.allSettled(interrupted).then(() => {
+      // Paused (or cancelled) again in the meantime
+      if (job.status !== 'queued') return;
+      this.processFiles(jobId, executor);
+    });
+
+    return true;
+  }
+
+  /**
+   * Executor of a job, rebuilt from the job's params if needed (restored jobs)
+   */
+  private getExecutor(job: TransferJob): TransferExecutor | undefined {
+    let executor = this.executors.get(job.id);
+    if (!executor) {
+      const factory = this.executorFactories.get(job.type);
+      if (!factory || !job.params) return undefined;
+      try {
+        executor = factory(job.params);
+      } catch {
+        return undefined;
+      }
+      this.executors.set(job.id, executor);
+    }
+    return executor;
+  }
+
   /**
    * Get all active job IDs
    */
@@ -349,6 +797,21 @@ export class TransferQueue extends EventEmitter {
     return Array.from(this.jobs.values());
   }
 
+  /**
+   * Get the jobs matching a filter, most recently created first
+   */
+  getJobs(filter: TransferJobFilter = {}): TransferJob[] {
+    return this.getAllJobs()
+      .filter(
+        (job) =>
+          (!filter.status || filter.status.includes(job.status)) &&
+          (!filter.type || filter.type.includes(job.type)) &&
+          (!filter.createdAfter || job.createdAt >= filter.createdAfter) &&
+          (!filter.createdBefore || job.createdAt <= filter.createdBefore),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
   /**
    * Clean up old completed jobs (optional, for memory management)
    */
@@ -361,30 +824,204 @@ export class TransferQueue extends EventEmitter {
         now - job.completedAt.getTime() > maxAge
       ) {
         this.jobs.delete(jobId);
+        this.executors.delete(jobId);
+        this.runningTransfers.delete(jobId);
+        this.lastDispatch.delete(jobId);
       }
     }
+    this.schedulePersist();
   }
 
   /**
-   * Update concurrency limit (useful for runtime configuration changes)
+   * Register the factory used to rebuild executors for a job type
+   * Jobs of a type without a factory cannot be resumed after a restart.
    */
-  updateConcurrencyLimit(newLimit: number): void {
-    this.limiter = pLimit(newLimit);
+  registerExecutorFactory(type: TransferType, factory: TransferExecutorFactory): void {
+    this.executorFactories.set(type, factory);
+  }
+
+  /**
+   * Register the handler run when a job of a type completes
+   * Failures of the handler are logged, the job stays completed.
+   */
+  registerCompletionHandler(type: TransferType, handler: TransferCompletionHandler): void {
+    this.completionHandlers.set(type, handler);
+  }
+
+  private runCompletionHandler(job: TransferJob): void {
+    const handler = this.completionHandlers.get(job.type);
+    if (!handler) return;
+    handler(job).catch((error) => {
+      console.error(`Completion handler of job ${job.id} failed:`, sanitizeErrorForLogging(error));
+    });
   }
 
   /**
-   * Get the p-limit limiter for controlling concurrency
-   * Allows other code to use the same concurrency limit for S3 operations
+   * Enable durable job storage and restore jobs persisted by a previous process
+   *
+   * Finished jobs are restored as history. Unfinished jobs are re-queued when their
+   * executor can be rebuilt (registered factory + persisted params); files that were
+   * mid-transfer restart from their queued state. Jobs that cannot be rebuilt are
+   * marked as failed (with the error of the factory, if any) so they remain visible
+   * instead of disappearing.
+   *
+   * Must be called after all executor factories have been registered.
    */
-  getLimiter(): ReturnType<typeof pLimit> {
-    return this.limiter;
+  enablePersistence(store: TransferJobStore): void {
+    this.store = store;
+
+    const now = Date.now();
+    const resumable: { jobId: string; executor: TransferExecutor }[] = [];
+
+    for (const persisted of store.load()) {
+      if (this.jobs.has(persisted.id)) continue;
+
+      const job = this.fromPersisted(persisted);
+      const isTerminal =
+        job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+      if (isTerminal) {
+        if (job.completedAt && now - job.completedAt.getTime() > JOB_HISTORY_RETENTION_MS) {
+          continue;
+        }
+        this.jobs.set(job.id, job);
+        continue;
+      }
+
+      // Files interrupted mid-transfer go back to the queue
+      job.files.forEach((file) => {
+        if (file.status === 'transferring') {
+          file.status = 'queued';
+        }
+      });
+
+      const factory = this.executorFactories.get(job.type);
+      this.jobs.set(job.id, job);
+
+      let executor: TransferExecutor | undefined;
+      let error = 'Interrupted by server restart';
+      if (factory && job.params) {
+        try {
+          executor = factory(job.params);
+        } catch (factoryError: any) {
+          error = factoryError.message;
+        }
+      }
+
+      if (executor) {
+        this.executors.set(job.id, executor);
+        if (job.status !== 'paused') {
+          // Paused jobs stay paused until resumed by the user
+          job.status = 'queued';
+          this.activeTransfers.add(job.id);
+          resumable.push({ jobId: job.id, executor });
+        }
+      } else {
+        job.status = 'failed';
+        job.completedAt = new Date();
+        job.error = error;
+        job.files.forEach((file) => {
+          if (file.status === 'queued') {
+            file.status = 'error';
+            file.error = error;
+          }
+        });
+        job.progress = this.calculateProgress(job.files);
+      }
+    }
+
+    this.schedulePersist();
+
+    for (const { jobId, executor } of resumable) {
+      logMemory(`Transfer ${jobId} - Resuming after restart`);
+      this.processFiles(jobId, executor);
+    }
+  }
+
+  /**
+   * Convert a persisted job back into a live TransferJob
+   */
+  private fromPersisted(persisted: PersistedTransferJob): TransferJob {
+    const files = persisted.files.map((f) => ({ ...f }));
+    return {
+      id: persisted.id,
+      type: persisted.type,
+      status: persisted.status,
+      files,
+      progress: this.calculateProgress(files),
+      createdAt: new Date(persisted.createdAt),
+      startedAt: persisted.startedAt ? new Date(persisted.startedAt) : undefined,
+      completedAt: persisted.completedAt ? new Date(persisted.completedAt) : undefined,
+      error: persisted.error,
+      priority: persisted.priority || 'normal',
+      maxConcurrency: persisted.maxConcurrency,
+      params: persisted.params,
+      abortController: new AbortController(),
+    };
+  }
+
+  /**
+   * Convert a live TransferJob into its serializable form
+   */
+  private toPersisted(job: TransferJob): PersistedTransferJob {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      files: job.files,
+      priority: job.priority,
+      maxConcurrency: job.maxConcurrency,
+      params: job.params,
+      createdAt: job.createdAt.toISOString(),
+      startedAt: job.startedAt?.toISOString(),
+      completedAt: job.completedAt?.toISOString(),
+      error: job.error,
+    };
+  }
+
+  /**
+   * Schedule a write of all jobs to the store
+   * Coalesces the frequent progress updates into at most one write per PERSIST_DEBOUNCE_MS.
+   */
+  private schedulePersist(): void {
+    if (!this.store || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.flushPersistence();
+    }, PERSIST_DEBOUNCE_MS);
+    // Never keep the process alive just to persist progress
+    this.persistTimer.unref();
+  }
+
+  /**
+   * Immediately write all jobs to the store
+   */
+  flushPersistence(): Promise<void> {
+    if (!this.store) return Promise.resolve();
+
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+
+    return this.store.save(Array.from(this.jobs.values()).map((job) => this.toPersisted(job)));
+  }
+
+  /**
+   * Update concurrency limit (useful for runtime configuration changes)
+   */
+  updateConcurrencyLimit(newLimit: number): void {
+    assertConcurrencyLimit(newLimit);
+    this.concurrencyLimit = newLimit;
+    this.dispatch();
   }
 
   /**
    * Get the metadata limiter for lightweight S3 operations (HeadObject, ListObjects)
    * Uses higher concurrency since these don't consume significant memory.
    * IMPORTANT: Use this for metadata ops inside transfer executors to avoid deadlock
-   * with the main transfer limiter.
+   * with the transfer slots.
    */
   getMetadataLimiter(): ReturnType<typeof pLimit> {
     return this.metadataLimiter;
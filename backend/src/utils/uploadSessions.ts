@@ -0,0 +1,156 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Registry of the uploads of objects through the backend
+ *
+ * Each upload gets its own session: a unique id, the AbortController of the upload and its
+ * progress. The client creates the session first, then follows its progress and aborts it with
+ * the id, so concurrent uploads (of different users, or of the same key) don't interfere.
+ *
+ * Sessions are kept in memory and only exist on the instance that created them. Expired
+ * sessions are removed whenever the registry is used.
+ */
+
+export type UploadSessionStatus = 'pending' | 'uploading' | 'completed' | 'failed' | 'aborted';
+
+export interface UploadSession {
+  id: string;
+  owner?: string; // Username of the user who created the session
+  status: UploadSessionStatus;
+  loaded: number; // Bytes uploaded to storage
+  abortController: AbortController;
+  expiresAt: number; // Timestamp (ms)
+}
+
+/**
+ * Time a session can wait for its upload to start, in milliseconds
+ */
+export const PENDING_UPLOAD_SESSION_TTL = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Time an uploading session is kept without progress, in milliseconds
+ * Each progress update extends the session, so only uploads that stopped (e.g. the request
+ * ended without the session being finished) expire.
+ */
+export const UPLOADING_UPLOAD_SESSION_TTL = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Time a finished session is kept so the client can read its final status, in milliseconds
+ */
+export const FINISHED_UPLOAD_SESSION_TTL = 60 * 1000; // 1 minute
+
+const uploadSessions = new Map<string, UploadSession>();
+
+/**
+ * Remove the sessions that expired
+ */
+function cleanupExpiredUploadSessions(now: number): void {
+  for (const [id, session] of uploadSessions) {
+    if (now > session.expiresAt) {
+      uploadSessions.delete(id);
+    }
+  }
+}
+
+function isFinished(session: UploadSession): boolean {
+  return (
+    session.status === 'completed' || session.status === 'failed' || session.status === 'aborted'
+  );
+}
+
+/**
+ * Create the session of an upload, waiting for the upload to start
+ */
+export function createUploadSession(owner?: string): UploadSession {
+  const now = Date.now();
+  cleanupExpiredUploadSessions(now);
+
+  const session: UploadSession = {
+    id: randomUUID(),
+    owner,
+    status: 'pending',
+    loaded: 0,
+    abortController: new AbortController(),
+    expiresAt: now + PENDING_UPLOAD_SESSION_TTL,
+  };
+  uploadSessions.set(session.id, session);
+  return session;
+}
+
+/**
+ * Get a session, only for the user who created it
+ * @returns The session, undefined if it doesn't exist, expired or belongs to another user
+ */
+export function getUploadSession(id: string, owner?: string): UploadSession | undefined {
+  cleanupExpiredUploadSessions(Date.now());
+
+  const session = uploadSessions.get(id);
+  if (!session || session.owner !== owner) {
+    return undefined;
+  }
+  return session;
+}
+
+/**
+ * Mark the upload of a pending session as started
+ * @returns false if the session isn't pending (already used or aborted)
+ */
+export function startUploadSession(session: UploadSession): boolean {
+  if (session.status !== 'pending') {
+    return false;
+  }
+  session.status = 'uploading';
+  session.expiresAt = Date.now() + UPLOADING_UPLOAD_SESSION_TTL;
+  return true;
+}
+
+/**
+ * Record the bytes uploaded to storage, and keep the session alive
+ */
+export function updateUploadSessionProgress(session: UploadSession, loaded: number): void {
+  if (session.status === 'uploading') {
+    session.loaded = loaded;
+    session.expiresAt = Date.now() + UPLOADING_UPLOAD_SESSION_TTL;
+  }
+}
+
+/**
+ * Record the end of an upload, the session expires shortly after
+ */
+export function finishUploadSession(
+  session: UploadSession,
+  status: 'completed' | 'failed' | 'aborted',
+): void {
+  if (isFinished(session)) {
+    return;
+  }
+  session.status = status;
+  session.expiresAt = Date.now() + FINISHED_UPLOAD_SESSION_TTL;
+}
+
+/**
+ * Abort the upload of a session, or prevent it from starting when it is still pending
+ * @returns false if the upload already finished
+ */
+export function abortUploadSession(session: UploadSession): boolean {
+  if (isFinished(session)) {
+    return false;
+  }
+  session.abortController.abort();
+  finishUploadSession(session, 'aborted');
+  return true;
+}
+
+/**
+ * Remove all the sessions (for tests)
+ */
+export function clearAllUploadSessions(): void {
+  uploadSessions.clear();
+}
+
+/**
+ * Number of sessions in the registry (for tests)
+ */
+export function getUploadSessionCount(): number {
+  return uploadSessions.size;
+}
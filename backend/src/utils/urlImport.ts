@@ -0,0 +1,148 @@
+import * as path from 'path';
+import { URL } from 'url';
+
+/**
+ * Maximum number of URLs accepted by a single import
+ */
+export const MAX_URL_IMPORT_ITEMS = 1000;
+
+/**
+ * Headers that are set by the downloader itself and cannot be overridden
+ */
+const RESERVED_HEADERS = ['host', 'range', 'if-range', 'content-length', 'transfer-encoding'];
+
+/**
+ * A URL to import, as sent by the client
+ * Either the URL itself, or the URL with the name of the file to create.
+ */
+export type UrlImportInput = string | { url: string; fileName?: string };
+
+export interface UrlImportItem {
+  url: string;
+  fileName: string;
+}
+
+/**
+ * Name of the file created for a URL: the last segment of its path
+ *
+ * @returns The decoded file name, or undefined if the path has none (e.g. "https://example.com/")
+ */
+export function getFileNameFromUrl(url: string): string | undefined {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch (e) {
+    return undefined;
+  }
+  const segment = pathname.split('/').pop() || '';
+  let fileName: string;
+  try {
+    fileName = decodeURIComponent(segment);
+  } catch (e) {
+    fileName = segment;
+  }
+  return validateFileName(fileName) ? undefined : fileName;
+}
+
+/**
+ * @returns null if the name can be used as a file name, error message string otherwise
+ */
+function validateFileName(fileName: string): string | null {
+  if (!fileName || fileName === '.' || fileName === '..') {
+    return 'File name is required.';
+  }
+  if (fileName.includes('/') || fileName.includes('\\') || fileName.includes('\0')) {
+    return `File name '${fileName}' must not contain path separators.`;
+  }
+  if (fileName !== path.basename(fileName)) {
+    return `File name '${fileName}' is invalid.`;
+  }
+  return null;
+}
+
+/**
+ * Parse the URLs of an import request
+ *
+ * Only http and https URLs are accepted. Each URL is saved under its file name, taken from
+ * the URL path unless given explicitly. Two URLs cannot be saved under the same name.
+ *
+ * @returns The URLs with their file names, or an error message
+ */
+export function parseUrlImportItems(urls: unknown): { items?: UrlImportItem[]; error?: string } {
+  if (!Array.isArray(urls) || urls.length === 0) {
+    return { error: 'urls must be a non-empty array' };
+  }
+  if (urls.length > MAX_URL_IMPORT_ITEMS) {
+    return { error: `At most ${MAX_URL_IMPORT_ITEMS} URLs can be imported at once` };
+  }
+
+  const items: UrlImportItem[] = [];
+  const fileNames = new Set<string>();
+  for (const input of urls as UrlImportInput[]) {
+    const url = typeof input === 'string' ? input : input?.url;
+    if (typeof url !== 'string' || !url) {
+      return { error: 'Each URL must be a string or an object with a url' };
+    }
+
+    let protocol: string;
+    try {
+      protocol = new URL(url).protocol;
+    } catch (e) {
+      return { error: `Invalid URL '${url}'` };
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return { error: `Unsupported URL '${url}', only http and https URLs can be imported` };
+    }
+
+    const explicitName = typeof input === 'string' ? undefined : input.fileName;
+    const fileName = explicitName !== undefined ? explicitName : getFileNameFromUrl(url);
+    if (fileName === undefined) {
+      return { error: `Cannot determine a file name for '${url}', set fileName explicitly` };
+    }
+    const fileNameError = typeof fileName === 'string' ? validateFileName(fileName) : '';
+    if (fileNameError !== null) {
+      return { error: fileNameError || 'fileName must be a string' };
+    }
+    if (fileNames.has(fileName)) {
+      return { error: `Several URLs would be saved as '${fileName}'` };
+    }
+
+    fileNames.add(fileName);
+    items.push({ url, fileName });
+  }
+  return { items };
+}
+
+/**
+ * Validates the custom headers sent with the requests of an import.
+ *
+ * Header validation rules:
+ * - Optional parameter (returns null if not provided)
+ * - Must be an object of string values
+ * - Names must be valid HTTP header names, values cannot contain line breaks
+ * - Headers set by the downloader (Range, Host, ...) cannot be overridden
+ *
+ * @param headers - Headers to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateUrlImportHeaders(headers: unknown): string | null {
+  if (headers === undefined) {
+    return null; // Optional parameter
+  }
+  if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+    return 'headers must be an object of header names and values.';
+  }
+
+  for (const [name, value] of Object.entries(headers)) {
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+      return `Invalid header name '${name}'.`;
+    }
+    if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      return `Header '${name}' cannot be set.`;
+    }
+    if (typeof value !== 'string' || /[\r\n\0]/.test(value)) {
+      return `Invalid value for header '${name}'.`;
+    }
+  }
+  return null;
+}
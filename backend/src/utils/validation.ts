@@ -183,3 +183,320 @@ export function validateAndDecodePrefix(prefix: string | undefined): {
 
   return { decoded, error: null };
 }
+
+/**
+ * Validates an S3 object version ID.
+ *
+ * Version IDs are opaque strings returned by S3 (base64-like on AWS, UUIDs on MinIO,
+ * "null" for objects stored before versioning was enabled).
+ *
+ * Validation rules:
+ * - Optional parameter (returns null if not provided)
+ * - Must be a string
+ * - Length between 1-1024 characters
+ * - Must match base64-like format: [A-Za-z0-9+/=\-_.]+
+ *
+ * @param versionId - Version ID to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateVersionId(versionId: string | undefined): string | null {
+  if (versionId === undefined) {
+    return null; // Optional parameter
+  }
+
+  if (typeof versionId !== 'string') {
+    return 'Version ID must be a string.';
+  }
+
+  if (versionId.length === 0 || versionId.length > 1024) {
+    return 'Version ID length is invalid.';
+  }
+
+  if (!/^[A-Za-z0-9+/=\-_.]+$/.test(versionId)) {
+    return 'Version ID format is invalid.';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the versioning status requested for a bucket.
+ *
+ * Validation rules:
+ * - Required parameter
+ * - Must be 'Enabled' or 'Suspended' (a versioned bucket can't go back to unversioned)
+ *
+ * @param status - Versioning status to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateVersioningStatus(status: unknown): string | null {
+  if (status !== 'Enabled' && status !== 'Suspended') {
+    return "Versioning status must be 'Enabled' or 'Suspended'.";
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the user metadata of an S3 object (x-amz-meta-* headers).
+ *
+ * Validation rules:
+ * - Must be an object of string values
+ * - Keys must be 1-128 characters: letters, numbers, hyphens, underscores and dots
+ *   (S3 stores them in lowercase)
+ * - Values must be printable ASCII characters
+ * - Keys and values must not exceed 2 KB in total (S3 limit)
+ *
+ * @param metadata - Metadata to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateObjectMetadata(metadata: unknown): string | null {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return 'Metadata must be an object of string values.';
+  }
+
+  let size = 0;
+  for (const [key, value] of Object.entries(metadata)) {
+    if (typeof value !== 'string') {
+      return 'Metadata must be an object of string values.';
+    }
+    if (!/^[A-Za-z0-9\-_.]{1,128}$/.test(key)) {
+      return 'Metadata keys may only contain letters, numbers, hyphens, underscores and dots.';
+    }
+    if (!/^[\x20-\x7E]*$/.test(value)) {
+      return 'Metadata values may only contain printable ASCII characters.';
+    }
+    size += key.length + value.length;
+  }
+
+  if (size > 2048) {
+    return 'Metadata exceeds the 2 KB limit.';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the tags of an S3 object.
+ *
+ * Validation rules:
+ * - Must be an object of string values
+ * - At most 10 tags (S3 limit)
+ * - Keys must be 1-128 characters, values 0-256 characters
+ * - Keys and values may only contain letters, numbers, spaces and + - = . _ : / @
+ *
+ * @param tags - Tags to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateObjectTags(tags: unknown): string | null {
+  if (!tags || typeof tags !== 'object' || Array.isArray(tags)) {
+    return 'Tags must be an object of string values.';
+  }
+
+  const entries = Object.entries(tags);
+  if (entries.length > 10) {
+    return 'An object can have at most 10 tags.';
+  }
+
+  const allowed = /^[\p{L}\p{Z}\p{N}+\-=._:/@]*$/u;
+  for (const [key, value] of entries) {
+    if (typeof value !== 'string') {
+      return 'Tags must be an object of string values.';
+    }
+    if (key.length === 0 || key.length > 128 || value.length > 256) {
+      return 'Tag keys must be 1-128 characters and values at most 256 characters.';
+    }
+    if (!allowed.test(key) || !allowed.test(value)) {
+      return 'Tags may only contain letters, numbers, spaces and + - = . _ : / @';
+    }
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates a content type (MIME type) to set on an S3 object.
+ *
+ * Validation rules:
+ * - Must be a string of 1-255 characters
+ * - Must have a type and a subtype, optionally followed by parameters
+ *   (e.g. "text/plain; charset=utf-8")
+ *
+ * @param contentType - Content type to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateContentType(contentType: unknown): string | null {
+  if (typeof contentType !== 'string') {
+    return 'Content type must be a string.';
+  }
+
+  if (contentType.length === 0 || contentType.length > 255) {
+    return 'Content type length is invalid.';
+  }
+
+  // type/subtype, then "; name=value" parameters with token or quoted string values
+  const pattern =
+    /^[\w!#$&^.+-]+\/[\w!#$&^.+-]+(\s*;\s*[\w!#$&^.+-]+=([\w!#$&^.+-]+|"[\x20\x21\x23-\x7E]*"))*$/;
+  if (!pattern.test(contentType)) {
+    return 'Content type format is invalid.';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the HTTP method of a presigned URL.
+ *
+ * Validation rules:
+ * - Required parameter
+ * - Must be 'GET' (download the object) or 'PUT' (upload the object)
+ *
+ * @param method - HTTP method to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validatePresignMethod(method: unknown): string | null {
+  if (method !== 'GET' && method !== 'PUT') {
+    return "Method must be 'GET' or 'PUT'.";
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the expiry of a presigned URL, in seconds.
+ *
+ * Validation rules:
+ * - Optional parameter
+ * - Must be an integer between 1 second and 7 days (604800 seconds, the SigV4 limit)
+ *
+ * @param expiresIn - Expiry to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validatePresignExpiry(expiresIn: unknown): string | null {
+  if (expiresIn === undefined) {
+    return null; // Optional parameter
+  }
+
+  if (typeof expiresIn !== 'number' || !Number.isInteger(expiresIn)) {
+    return 'Expiry must be a whole number of seconds.';
+  }
+
+  if (expiresIn < 1 || expiresIn > 604800) {
+    return 'Expiry must be between 1 second and 7 days.';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the size of an object uploaded directly to S3 by the browser.
+ *
+ * Validation rules:
+ * - Required parameter
+ * - Must be an integer between 0 and 5 TiB (largest object S3 accepts)
+ *
+ * @param size - Size in bytes to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateUploadSize(size: unknown): string | null {
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 0) {
+    return 'Size must be a whole number of bytes.';
+  }
+
+  if (size > 5 * 1024 * 1024 * 1024 * 1024) {
+    return 'Size exceeds the 5 TiB limit of S3 objects.';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the ID of a multipart upload.
+ *
+ * Validation rules:
+ * - Required parameter
+ * - Length between 1-1024 characters
+ * - Printable ASCII characters without spaces (formats differ between S3 implementations)
+ *
+ * @param uploadId - Upload ID to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateUploadId(uploadId: unknown): string | null {
+  if (uploadId === undefined || uploadId === '') {
+    return 'Upload ID is required.';
+  }
+
+  if (typeof uploadId !== 'string' || uploadId.length > 1024) {
+    return 'Upload ID is invalid.';
+  }
+
+  if (!/^[\x21-\x7E]+$/.test(uploadId)) {
+    return 'Upload ID format is invalid.';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the part numbers for which presigned upload URLs are requested.
+ *
+ * Validation rules:
+ * - Must be a non-empty array of at most 100 part numbers (one batch of URLs)
+ * - Part numbers must be integers between 1 and 10000 (S3 limit)
+ *
+ * @param partNumbers - Part numbers to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validatePartNumbers(partNumbers: unknown): string | null {
+  if (!Array.isArray(partNumbers) || partNumbers.length === 0) {
+    return 'Part numbers are required.';
+  }
+
+  if (partNumbers.length > 100) {
+    return 'At most 100 part URLs can be requested at once.';
+  }
+
+  if (!partNumbers.every((n) => Number.isInteger(n) && n >= 1 && n <= 10000)) {
+    return 'Part numbers must be integers between 1 and 10000.';
+  }
+
+  return null; // Valid
+}
+
+/**
+ * Validates the parts of a multipart upload to complete.
+ *
+ * Validation rules:
+ * - Must be a non-empty array of at most 10000 parts
+ * - Each part must have an integer partNumber between 1 and 10000, used only once
+ * - Each part must have a non-empty etag of at most 1024 characters
+ *
+ * @param parts - Parts to validate
+ * @returns null if valid, error message string if invalid
+ */
+export function validateUploadedParts(parts: unknown): string | null {
+  if (!Array.isArray(parts) || parts.length === 0) {
+    return 'Parts are required.';
+  }
+
+  if (parts.length > 10000) {
+    return 'A multipart upload has at most 10000 parts.';
+  }
+
+  const partNumbers = new Set<number>();
+  for (const part of parts) {
+    const { partNumber, etag } = part || {};
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+      return 'Part numbers must be integers between 1 and 10000.';
+    }
+    if (typeof etag !== 'string' || etag.length === 0 || etag.length > 1024) {
+      return `The ETag of part ${partNumber} is invalid.`;
+    }
+    if (partNumbers.has(partNumber)) {
+      return `Part ${partNumber} is listed more than once.`;
+    }
+    partNumbers.add(partNumber);
+  }
+
+  return null; // Valid
+}
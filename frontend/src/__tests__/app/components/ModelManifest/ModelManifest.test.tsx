@@ -0,0 +1,55 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import {
+  ModelManifest,
+  ModelManifestData,
+  isModelManifestFile,
+  parseModelManifest,
+} from '@app/components/ModelManifest/ModelManifest';
+
+describe('ModelManifest', () => {
+  const manifest: ModelManifestData = {
+    manifestVersion: 1,
+    source: 'huggingface',
+    endpoint: 'https://huggingface.co',
+    repoType: 'model',
+    repoId: 'ibm-granite/granite-3.1-2b-instruct',
+    revision: 'main',
+    sha: 'abc123',
+    importedAt: '2026-01-02T03:04:05.000Z',
+    totalSize: 5700,
+    files: [
+      { path: 'config.json', size: 700, checksum: { algorithm: 'git-sha1', value: '1f2e3d' } },
+      { path: 'model.safetensors', size: 5000, checksum: { algorithm: 'sha256', value: 'a1b2c3' } },
+    ],
+    config: {
+      architectures: ['GraniteForCausalLM'],
+      dtype: 'bfloat16',
+      maxPositionEmbeddings: 131072,
+      numAttentionHeads: 32,
+      numKeyValueHeads: 8,
+    },
+  };
+
+  it('should recognise manifest files by name and content', () => {
+    expect(isModelManifestFile('hf-manifest.json')).toBe(true);
+    expect(isModelManifestFile('config.json')).toBe(false);
+
+    expect(parseModelManifest(JSON.stringify(manifest))).toEqual(manifest);
+    expect(parseModelManifest('{"name": "not a manifest"}')).toBeUndefined();
+    expect(parseModelManifest('not json')).toBeUndefined();
+  });
+
+  it('should display the model, its config and its files', () => {
+    render(<ModelManifest manifest={manifest} />);
+
+    expect(screen.getByText('ibm-granite/granite-3.1-2b-instruct')).toBeInTheDocument();
+    expect(screen.getByText('https://huggingface.co/ibm-granite/granite-3.1-2b-instruct')).toBeInTheDocument();
+    expect(screen.getByText('abc123')).toBeInTheDocument();
+    expect(screen.getByText('GraniteForCausalLM')).toBeInTheDocument();
+    expect(screen.getByText('bfloat16')).toBeInTheDocument();
+    expect(screen.getByText('32 (8 KV)')).toBeInTheDocument();
+    expect(screen.getByText('model.safetensors')).toBeInTheDocument();
+    expect(screen.getByText('sha256:a1b2c3')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import axios from 'axios';
+import { ObjectDetails, ObjectDetailsDrawer } from '@app/components/ObjectDetails/ObjectDetailsDrawer';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// Mock the emitter
+jest.mock('@app/utils/emitter', () => ({
+  __esModule: true,
+  default: {
+    emit: jest.fn(),
+  },
+}));
+
+describe('ObjectDetailsDrawer', () => {
+  const mockOnClose = jest.fn();
+  const mockOnUpdated = jest.fn();
+
+  const details: ObjectDetails = {
+    key: 'models/config.json',
+    size: 700,
+    lastModified: '2026-01-02T00:00:00.000Z',
+    etag: '"etag"',
+    storageClass: 'STANDARD',
+    contentType: 'application/json',
+    metadata: { source: 'huggingface' },
+    tags: { team: 'ml' },
+    checksum: { algorithm: 'SHA256', value: 'c2hhMjU2', type: 'FULL_OBJECT' },
+  };
+
+  const renderDrawer = (objectKey: string | null = 'models/config.json') =>
+    render(
+      <ObjectDetailsDrawer locationId="bucket1" objectKey={objectKey} onClose={mockOnClose} onUpdated={mockOnUpdated}>
+        <div>Files</div>
+      </ObjectDetailsDrawer>,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.get.mockResolvedValue({ data: details });
+  });
+
+  it('should show the details of the object', async () => {
+    renderDrawer();
+
+    expect(await screen.findByText('SHA256 (FULL_OBJECT): c2hhMjU2')).toBeInTheDocument();
+    expect(screen.getByText('config.json')).toBeInTheDocument();
+    expect(screen.getByLabelText('Content type')).toHaveValue('application/json');
+    expect(screen.getByLabelText('metadata value 1')).toHaveValue('huggingface');
+    expect(screen.getByLabelText('tag key 1')).toHaveValue('team');
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      expect.stringContaining('/objects/details/bucket1/bW9kZWxzL2NvbmZpZy5qc29u'),
+    );
+  });
+
+  it('should save the metadata and content type', async () => {
+    mockedAxios.put.mockResolvedValue({ data: { ...details, contentType: 'text/plain' } });
+    renderDrawer();
+
+    const contentType = await screen.findByLabelText('Content type');
+    await userEvent.clear(contentType);
+    await userEvent.type(contentType, 'text/plain');
+    await userEvent.click(screen.getByText('Add metadata'));
+    await userEvent.type(screen.getByLabelText('metadata key 2'), 'stage');
+    await userEvent.type(screen.getByLabelText('metadata value 2'), 'prod');
+    await userEvent.click(screen.getByText('Save metadata'));
+
+    await waitFor(() => expect(mockOnUpdated).toHaveBeenCalled());
+    expect(mockedAxios.put).toHaveBeenCalledWith(expect.stringContaining('/objects/metadata/bucket1/'), {
+      contentType: 'text/plain',
+      metadata: { source: 'huggingface', stage: 'prod' },
+    });
+  });
+
+  it('should save the tags without the removed ones', async () => {
+    mockedAxios.put.mockResolvedValue({ data: { ...details, tags: {} } });
+    renderDrawer();
+
+    await userEvent.click(await screen.findByLabelText('Remove tag 1'));
+    await userEvent.click(screen.getByText('Save tags'));
+
+    expect(mockedAxios.put).toHaveBeenCalledWith(expect.stringContaining('/objects/tags/bucket1/'), { tags: {} });
+  });
+
+  it('should not offer to edit tags when tagging is not supported', async () => {
+    mockedAxios.get.mockResolvedValue({ data: { ...details, tags: null } });
+    renderDrawer();
+
+    expect(await screen.findByText('Tagging is not supported by this S3 storage.')).toBeInTheDocument();
+    expect(screen.queryByText('Save tags')).not.toBeInTheDocument();
+  });
+
+  it('should only render its content when no object is selected', () => {
+    renderDrawer(null);
+
+    expect(screen.getByText('Files')).toBeInTheDocument();
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import axios from 'axios';
+import { ObjectVersions } from '@app/components/ObjectVersions/ObjectVersions';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// Mock the emitter
+jest.mock('@app/utils/emitter', () => ({
+  __esModule: true,
+  default: {
+    emit: jest.fn(),
+  },
+}));
+
+describe('ObjectVersions', () => {
+  const mockOnClose = jest.fn();
+  const mockOnRestored = jest.fn();
+
+  const versionsPage = {
+    versions: [
+      {
+        key: 'models/model.bin',
+        versionId: 'v3',
+        isLatest: true,
+        isDeleteMarker: true,
+        lastModified: '2026-01-03T00:00:00.000Z',
+      },
+      {
+        key: 'models/model.bin',
+        versionId: 'v2',
+        isLatest: false,
+        isDeleteMarker: false,
+        lastModified: '2026-01-02T00:00:00.000Z',
+        size: 2048,
+      },
+    ],
+    isTruncated: false,
+    nextKeyMarker: null,
+    nextVersionIdMarker: null,
+  };
+
+  const renderVersions = () =>
+    render(
+      <ObjectVersions
+        isOpen={true}
+        locationId="bucket1"
+        objectKey="models/model.bin"
+        onClose={mockOnClose}
+        onRestored={mockOnRestored}
+      />,
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.get.mockImplementation((url: string) =>
+      Promise.resolve({ data: url.endsWith('/versioning') ? { status: 'Enabled' } : versionsPage }),
+    );
+  });
+
+  it('should list the versions with the latest version and delete markers labelled', async () => {
+    renderVersions();
+
+    expect(await screen.findByText('v2')).toBeInTheDocument();
+    expect(screen.getByText('Latest')).toBeInTheDocument();
+    expect(screen.getByText('Delete marker')).toBeInTheDocument();
+    expect(screen.getByLabelText('Download version v2')).toHaveAttribute(
+      'href',
+      expect.stringContaining('/objects/download/bucket1/bW9kZWxzL21vZGVsLmJpbg==?versionId=v2'),
+    );
+    // Delete markers have no content to download or restore
+    expect(screen.queryByLabelText('Restore version v3')).not.toBeInTheDocument();
+    expect(screen.queryByText('Enable versioning')).not.toBeInTheDocument();
+  });
+
+  it('should restore a previous version', async () => {
+    mockedAxios.post.mockResolvedValue({ data: {} });
+    renderVersions();
+
+    await userEvent.click(await screen.findByLabelText('Restore version v2'));
+
+    await waitFor(() => expect(mockOnRestored).toHaveBeenCalled());
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      expect.stringContaining('/objects/versions/bucket1/bW9kZWxzL21vZGVsLmJpbg==/restore'),
+      { versionId: 'v2' },
+    );
+  });
+
+  it('should offer to enable versioning when it is not enabled', async () => {
+    mockedAxios.get.mockImplementation((url: string) =>
+      Promise.resolve({ data: url.endsWith('/versioning') ? { status: null } : versionsPage }),
+    );
+    mockedAxios.put.mockResolvedValue({ data: {} });
+    renderVersions();
+
+    await userEvent.click(await screen.findByText('Enable versioning'));
+
+    expect(mockedAxios.put).toHaveBeenCalledWith(expect.stringContaining('/buckets/bucket1/versioning'), {
+      status: 'Enabled',
+    });
+    await waitFor(() => expect(screen.queryByText('Enable versioning')).not.toBeInTheDocument());
+  });
+});
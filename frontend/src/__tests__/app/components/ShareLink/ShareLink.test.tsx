@@ -0,0 +1,72 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import axios from 'axios';
+import { ShareLink } from '@app/components/ShareLink/ShareLink';
+import Emitter from '@app/utils/emitter';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// Mock the emitter
+jest.mock('@app/utils/emitter', () => ({
+  __esModule: true,
+  default: {
+    emit: jest.fn(),
+  },
+}));
+
+describe('ShareLink', () => {
+  const mockOnClose = jest.fn();
+  const mockWriteText = jest.fn();
+
+  const renderShareLink = () =>
+    render(<ShareLink isOpen locationId="bucket1" objectKey="models/config.json" onClose={mockOnClose} />);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockWriteText.mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText: mockWriteText }, configurable: true });
+  });
+
+  it('should create a link with the chosen expiry and copy it to the clipboard', async () => {
+    mockedAxios.post.mockResolvedValue({
+      data: {
+        url: 'https://s3.example.com/bucket1/models/config.json?X-Amz-Expires=86400',
+        method: 'GET',
+        expiresIn: 86400,
+        expiresAt: '2026-01-02T00:00:00.000Z',
+      },
+    });
+    renderShareLink();
+
+    await userEvent.selectOptions(screen.getByLabelText('Link expires after'), '1 day');
+    await userEvent.click(screen.getByText('Copy share link'));
+
+    await waitFor(() =>
+      expect(mockWriteText).toHaveBeenCalledWith(
+        'https://s3.example.com/bucket1/models/config.json?X-Amz-Expires=86400',
+      ),
+    );
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      expect.stringContaining('/objects/presign/bucket1/bW9kZWxzL2NvbmZpZy5qc29u'),
+      { method: 'GET', expiresIn: 86400 },
+    );
+    expect(Emitter.emit).toHaveBeenCalledWith('notification', expect.objectContaining({ variant: 'success' }));
+  });
+
+  it('should notify the error when the link cannot be created', async () => {
+    mockedAxios.post.mockRejectedValue(new Error('Network Error'));
+    renderShareLink();
+
+    await userEvent.click(screen.getByText('Copy share link'));
+
+    await waitFor(() =>
+      expect(Emitter.emit).toHaveBeenCalledWith(
+        'notification',
+        expect.objectContaining({ variant: 'warning', description: 'Network Error' }),
+      ),
+    );
+    expect(mockWriteText).not.toHaveBeenCalled();
+  });
+});
@@ -9,6 +9,9 @@ import { MockEventSource } from '../../../utils/testHelpers';
 jest.mock('@app/services/storageService', () => ({
   storageService: {
     cancelTransfer: jest.fn(),
+    retryTransfer: jest.fn(),
+    pauseTransfer: jest.fn(),
+    resumeTransfer: jest.fn(),
   },
 }));
 
@@ -286,4 +289,143 @@ describe('TransferProgress', () => {
       expect(screen.getByText(/1\.00 KB.*1\.00 KB/)).toBeInTheDocument();
     });
   });
+
+  it('should pause and resume the transfer', async () => {
+    const user = userEvent.setup();
+    (storageService.pauseTransfer as jest.Mock).mockResolvedValue(undefined);
+    (storageService.resumeTransfer as jest.Mock).mockResolvedValue(undefined);
+
+    render(
+      <TransferProgress
+        isOpen={true}
+        jobId="job-123"
+        sseUrl="http://test.com/progress/job-123"
+        onClose={jest.fn()}
+      />
+    );
+
+    await user.click(screen.getByText('Pause'));
+    expect(storageService.pauseTransfer).toHaveBeenCalledWith('job-123');
+
+    const resumeButton = await screen.findByText('Resume');
+    expect(screen.getByText('Paused')).toBeInTheDocument();
+    expect(screen.getByText('Cancel Transfer')).toBeInTheDocument();
+
+    await user.click(resumeButton);
+    expect(storageService.resumeTransfer).toHaveBeenCalledWith('job-123');
+    await waitFor(() => {
+      expect(screen.getByText('Pause')).toBeInTheDocument();
+    });
+  });
+
+  it('should show a paused transfer reported by progress updates', async () => {
+    render(
+      <TransferProgress
+        isOpen={true}
+        jobId="job-123"
+        sseUrl="http://test.com/progress/job-123"
+        onClose={jest.fn()}
+      />
+    );
+
+    mockEventSource.simulateMessage({
+      jobId: 'job-123',
+      status: 'paused',
+      progress: { totalFiles: 1, completedFiles: 0, failedFiles: 0, percentage: 40 },
+      files: [{ file: 'model.bin', loaded: 4, total: 10, status: 'queued' }],
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('Resume')).toBeInTheDocument();
+    });
+    expect(mockEventSource.readyState).not.toBe(mockEventSource.CLOSED);
+  });
+
+  it('should show the verified checksum of transferred files', async () => {
+    render(
+      <TransferProgress
+        isOpen={true}
+        jobId="job-123"
+        sseUrl="http://test.com/progress/job-123"
+        onClose={jest.fn()}
+      />
+    );
+
+    mockEventSource.simulateMessage({
+      jobId: 'job-123',
+      status: 'completed',
+      progress: { totalFiles: 1, completedFiles: 1, failedFiles: 0, percentage: 100 },
+      files: [
+        {
+          file: 'model.bin',
+          loaded: 10,
+          total: 10,
+          status: 'completed',
+          checksum: { algorithm: 'md5', value: 'abc', verifiedAgainst: 'etag' },
+        },
+      ],
+    });
+
+    expect(await screen.findByText(/MD5 verified against/)).toHaveTextContent('MD5 verified against the S3 ETag');
+  });
+
+  it('should retry failed files and reconnect to progress updates', async () => {
+    const user = userEvent.setup();
+    (storageService.retryTransfer as jest.Mock).mockResolvedValue({
+      jobId: 'job-123',
+      sseUrl: '/transfer/progress/job-123',
+      retriedFiles: 1,
+    });
+
+    render(
+      <TransferProgress
+        isOpen={true}
+        jobId="job-123"
+        sseUrl="http://test.com/progress/job-123"
+        onClose={jest.fn()}
+      />
+    );
+
+    mockEventSource.simulateMessage({
+      jobId: 'job-123',
+      status: 'failed',
+      progress: { totalFiles: 2, completedFiles: 1, failedFiles: 1, percentage: 50 },
+      files: [
+        { file: 'ok.txt', loaded: 10, total: 10, status: 'completed' },
+        { file: 'broken.txt', loaded: 0, total: 10, status: 'error', error: 'Network error' },
+      ],
+    });
+
+    const retryButton = await screen.findByText('Retry failed');
+    await user.click(retryButton);
+
+    expect(storageService.retryTransfer).toHaveBeenCalledWith('job-123');
+    await waitFor(() => {
+      expect(global.EventSource).toHaveBeenCalledTimes(2);
+      expect(screen.getByText('Cancel Transfer')).toBeInTheDocument();
+    });
+  });
+
+  it('should not offer retry when the transfer completed', async () => {
+    render(
+      <TransferProgress
+        isOpen={true}
+        jobId="job-123"
+        sseUrl="http://test.com/progress/job-123"
+        onClose={jest.fn()}
+      />
+    );
+
+    mockEventSource.simulateMessage({
+      jobId: 'job-123',
+      status: 'completed',
+      progress: { totalFiles: 1, completedFiles: 1, failedFiles: 0, percentage: 100 },
+      files: [{ file: 'ok.txt', loaded: 10, total: 10, status: 'completed' }],
+    });
+
+    await waitFor(() => {
+      expect(screen.getByText('Close')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Retry failed')).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,135 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Transfers from '@app/components/Transfers/Transfers';
+import { TransferJobSummary, storageService } from '@app/services/storageService';
+
+// Mock the storage service
+jest.mock('@app/services/storageService', () => ({
+  storageService: {
+    listTransfers: jest.fn(),
+    getTransfer: jest.fn(),
+    cancelTransfer: jest.fn(),
+    pauseTransfer: jest.fn(),
+    resumeTransfer: jest.fn(),
+    retryTransfer: jest.fn(),
+  },
+}));
+
+// Mock the emitter
+jest.mock('@app/utils/emitter', () => ({
+  __esModule: true,
+  default: {
+    emit: jest.fn(),
+  },
+}));
+
+const createJob = (overrides: Partial<TransferJobSummary> = {}): TransferJobSummary => ({
+  jobId: 'transfer-1-1',
+  type: 'cross-storage',
+  status: 'active',
+  priority: 'normal',
+  progress: { totalFiles: 3, completedFiles: 1, failedFiles: 0, totalBytes: 300, loadedBytes: 150, percentage: 50 },
+  sourcePath: 's3:bucket/models/a.bin',
+  destinationPath: 'local:local-0/models/a.bin',
+  createdAt: '2026-01-01T10:00:00.000Z',
+  sseUrl: '/transfer/progress/transfer-1-1',
+  ...overrides,
+});
+
+describe('Transfers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list transfer jobs', async () => {
+    (storageService.listTransfers as jest.Mock).mockResolvedValue([
+      createJob(),
+      createJob({ jobId: 'transfer-2-1', status: 'failed', sourcePath: 'hf:org/model/config.json' }),
+    ]);
+
+    render(<Transfers />);
+
+    expect(await screen.findByText('s3:bucket/models/a.bin')).toBeInTheDocument();
+    expect(screen.getByText('hf:org/model/config.json')).toBeInTheDocument();
+    expect(screen.getByText('Active')).toBeInTheDocument();
+    // Status label, next to the "Failed" status filter
+    expect(screen.getAllByText('Failed')).toHaveLength(2);
+    expect(screen.getAllByText('Storage transfer')).toHaveLength(2);
+    expect(screen.getAllByText('and 2 more files')).toHaveLength(2);
+  });
+
+  it('should filter jobs by status', async () => {
+    const user = userEvent.setup();
+    (storageService.listTransfers as jest.Mock).mockResolvedValue([]);
+
+    render(<Transfers />);
+
+    expect(await screen.findByText('No transfers')).toBeInTheDocument();
+    await user.click(screen.getByText('In progress'));
+
+    await waitFor(() => {
+      expect(storageService.listTransfers).toHaveBeenLastCalledWith({ status: ['queued', 'active', 'paused'] });
+    });
+  });
+
+  it('should offer actions matching the job status', async () => {
+    const user = userEvent.setup();
+    (storageService.listTransfers as jest.Mock).mockResolvedValue([
+      createJob({ jobId: 'active-job' }),
+      createJob({ jobId: 'paused-job', status: 'paused' }),
+      createJob({
+        jobId: 'failed-job',
+        status: 'failed',
+        progress: { totalFiles: 1, completedFiles: 0, failedFiles: 1, totalBytes: 100, loadedBytes: 0, percentage: 0 },
+      }),
+    ]);
+    (storageService.pauseTransfer as jest.Mock).mockResolvedValue(undefined);
+    (storageService.retryTransfer as jest.Mock).mockResolvedValue({});
+
+    render(<Transfers />);
+
+    await user.click(await screen.findByText('Pause'));
+    expect(storageService.pauseTransfer).toHaveBeenCalledWith('active-job');
+
+    expect(screen.getByText('Resume')).toBeInTheDocument();
+    expect(screen.getAllByText('Cancel')).toHaveLength(2);
+
+    await user.click(screen.getByText('Retry failed'));
+    expect(storageService.retryTransfer).toHaveBeenCalledWith('failed-job');
+  });
+
+  it('should show per-file state when a job is expanded', async () => {
+    const user = userEvent.setup();
+    (storageService.listTransfers as jest.Mock).mockResolvedValue([createJob()]);
+    (storageService.getTransfer as jest.Mock).mockResolvedValue({
+      ...createJob(),
+      files: [
+        {
+          sourcePath: 's3:bucket/models/a.bin',
+          destinationPath: 'local:local-0/models/a.bin',
+          size: 100,
+          loaded: 100,
+          status: 'completed',
+        },
+        {
+          sourcePath: 's3:bucket/models/b.bin',
+          destinationPath: 'local:local-0/models/b.bin',
+          size: 100,
+          loaded: 0,
+          status: 'error',
+          error: 'Access denied',
+        },
+      ],
+    });
+
+    render(<Transfers />);
+
+    await screen.findByText('s3:bucket/models/a.bin');
+    await user.click(screen.getByRole('button', { name: /details/i }));
+
+    expect(await screen.findByText('Access denied')).toBeInTheDocument();
+    expect(storageService.getTransfer).toHaveBeenCalledWith('transfer-1-1');
+    expect(screen.getByText('local:local-0/models/b.bin')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,81 @@
+import axios from 'axios';
+import config from '@app/config';
+import { DirectUploadUnavailableError, uploadFileDirect } from '@app/services/directUpload';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('uploadFileDirect', () => {
+  const baseUrl = `${config.backend_api_url}/objects/direct-upload/bucket1/${btoa('models/model.bin')}`;
+  const file = new File(['0123456789abcdefghij'], 'model.bin', { type: 'application/octet-stream' });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.isAxiosError.mockImplementation((error) => !!(error as { isAxiosError?: boolean }).isAxiosError);
+    mockedAxios.post.mockImplementation(async (url, body) => {
+      if (url === baseUrl) {
+        return { data: { uploadId: 'upload-1', key: 'models/model.bin', partSize: 8, partCount: 3 } };
+      }
+      if (url === `${baseUrl}/parts`) {
+        const { partNumbers } = body as { partNumbers: number[] };
+        return {
+          data: {
+            parts: partNumbers.map((partNumber) => ({ partNumber, url: `https://s3.example.com/part-${partNumber}` })),
+          },
+        };
+      }
+      return { data: {} };
+    });
+  });
+
+  it('should upload the parts to S3 and complete the upload', async () => {
+    mockedAxios.put.mockImplementation(async (url) => ({ headers: { etag: `"${url.split('/').pop()}"` } }));
+    const onProgress = jest.fn();
+
+    await uploadFileDirect('bucket1', 'models/model.bin', file, { onProgress });
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      baseUrl,
+      { size: 20, contentType: 'application/octet-stream' },
+      expect.anything(),
+    );
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      `${baseUrl}/parts`,
+      { uploadId: 'upload-1', partNumbers: [1, 2, 3] },
+      expect.anything(),
+    );
+    const bodies = mockedAxios.put.mock.calls.map(([, body]) => (body as Blob).size);
+    expect(bodies).toEqual([8, 8, 4]);
+
+    const completeCall = mockedAxios.post.mock.calls.find(([url]) => url === `${baseUrl}/complete`);
+    expect(completeCall?.[1]).toEqual({
+      uploadId: 'upload-1',
+      parts: expect.arrayContaining([
+        { partNumber: 1, etag: '"part-1"' },
+        { partNumber: 2, etag: '"part-2"' },
+        { partNumber: 3, etag: '"part-3"' },
+      ]),
+    });
+    expect(onProgress).toHaveBeenLastCalledWith(100);
+  });
+
+  it('should abort the upload and report when S3 is not reachable from the browser', async () => {
+    mockedAxios.put.mockRejectedValue({ isAxiosError: true, message: 'Network Error', config: { method: 'put' } });
+
+    await expect(uploadFileDirect('bucket1', 'models/model.bin', file)).rejects.toBeInstanceOf(
+      DirectUploadUnavailableError,
+    );
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(`${baseUrl}/abort`, { uploadId: 'upload-1' });
+    expect(mockedAxios.post).not.toHaveBeenCalledWith(`${baseUrl}/complete`, expect.anything(), expect.anything());
+  });
+
+  it('should abort the upload and rethrow S3 errors', async () => {
+    const error = { isAxiosError: true, message: 'Forbidden', response: { status: 403 }, config: { method: 'put' } };
+    mockedAxios.put.mockRejectedValue(error);
+
+    await expect(uploadFileDirect('bucket1', 'models/model.bin', file)).rejects.toBe(error);
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(`${baseUrl}/abort`, { uploadId: 'upload-1' });
+  });
+});
@@ -8,11 +8,19 @@ import {
   ConflictCheckResponse
 } from '@app/services/storageService';
 import config from '@app/config';
+import { DirectUploadUnavailableError, uploadFileDirect } from '@app/services/directUpload';
 
 // Mock axios
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Mock the direct uploads to S3, tested on their own
+jest.mock('@app/services/directUpload', () => ({
+  ...jest.requireActual('@app/services/directUpload'),
+  uploadFileDirect: jest.fn(),
+}));
+const mockedUploadFileDirect = uploadFileDirect as jest.MockedFunction<typeof uploadFileDirect>;
+
 describe('StorageService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -85,6 +93,26 @@ describe('StorageService', () => {
       });
     });
 
+    it('should namespace buckets of other S3 connections', async () => {
+      const s3Buckets = {
+        data: {
+          buckets: [
+            { Name: 'models', connectionId: 'default', connectionName: 'Default', locationId: 'models' },
+            { Name: 'models', connectionId: 'archive', connectionName: 'Archive', locationId: 'archive:models' },
+          ],
+        },
+      };
+
+      mockedAxios.get.mockResolvedValueOnce(s3Buckets).mockResolvedValueOnce({ data: { locations: [] } });
+
+      const locations = await storageService.getLocations();
+
+      expect(locations.map((loc) => [loc.id, loc.name, loc.connectionId])).toEqual([
+        ['models', 'models', 'default'],
+        ['archive:models', 'models (Archive)', 'archive'],
+      ]);
+    });
+
     it('should return only S3 locations if local storage fails', async () => {
       const s3Buckets = {
         data: {
@@ -345,6 +373,81 @@ describe('StorageService', () => {
         },
       );
     });
+
+    it('should upload large S3 files directly to S3', async () => {
+      mockedUploadFileDirect.mockResolvedValueOnce(undefined);
+      const onStorageProgress = jest.fn();
+      const file = new File(['content'], 'model.bin');
+      Object.defineProperty(file, 'size', { value: 64 * 1024 * 1024 });
+
+      await storageService.uploadFile('bucket1', 'models/model.bin', file, { onStorageProgress });
+
+      expect(mockedUploadFileDirect).toHaveBeenCalledWith('bucket1', 'models/model.bin', file, {
+        onProgress: onStorageProgress,
+        signal: undefined,
+      });
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should upload through the backend when S3 is not reachable from the browser', async () => {
+      mockedUploadFileDirect.mockRejectedValueOnce(new DirectUploadUnavailableError('Network Error'));
+      mockedAxios.post.mockResolvedValue({ data: {} });
+      const getUploadId = jest.fn().mockResolvedValue('session-1');
+      const file = new File(['content'], 'model.bin');
+      Object.defineProperty(file, 'size', { value: 64 * 1024 * 1024 });
+
+      await storageService.uploadFile('bucket1', 'models/model.bin', file, { getUploadId });
+      // The location is remembered, the next files go through the backend directly
+      await storageService.uploadFile('bucket1', 'models/model.bin', file);
+
+      expect(mockedUploadFileDirect).toHaveBeenCalledTimes(1);
+      expect(storageService.usesDirectUpload('bucket1', file.size)).toBe(false);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+      // The file that fell back gets an upload session, to follow its progress and abort it
+      expect(getUploadId).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `${config.backend_api_url}/objects/upload/bucket1/${btoa('models/model.bin')}`,
+        expect.any(FormData),
+        expect.objectContaining({ params: { uploadId: 'session-1' } }),
+      );
+    });
+
+    it('should upload S3 files with their upload session', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: {} });
+      const file = new File(['content'], 'file.txt');
+
+      await storageService.uploadFile('bucket1', 'uploads/file.txt', file, { uploadId: 'session-1' });
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `${config.backend_api_url}/objects/upload/bucket1/${btoa('uploads/file.txt')}`,
+        expect.any(FormData),
+        expect.objectContaining({ params: { uploadId: 'session-1' } }),
+      );
+    });
+  });
+
+  describe('upload sessions', () => {
+    it('should create an upload session', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { uploadId: 'session-1' } });
+
+      await expect(storageService.createUploadSession()).resolves.toBe('session-1');
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(`${config.backend_api_url}/objects/upload-sessions`);
+    });
+
+    it('should only need sessions for files uploaded through the backend', () => {
+      // Large files go straight to S3, unless the location is known to be unreachable from the browser
+      expect(storageService.usesDirectUpload('bucket2', 64 * 1024 * 1024)).toBe(true);
+      expect(storageService.usesDirectUpload('bucket2', 1024)).toBe(false);
+    });
+
+    it('should abort an upload by its id', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { message: 'Upload aborted' } });
+
+      await storageService.abortUpload('session-1');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(`${config.backend_api_url}/objects/abort-upload/session-1`);
+    });
   });
 
   describe('deleteFile', () => {
@@ -512,4 +615,25 @@ describe('StorageService', () => {
       );
     });
   });
+
+  describe('listTransfers', () => {
+    it('should pass filters as comma-separated query parameters', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { jobs: [{ jobId: 'job-123' }] } });
+
+      const jobs = await storageService.listTransfers({
+        status: ['active', 'paused'],
+        since: '2026-01-01T00:00:00.000Z',
+      });
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(`${config.backend_api_url}/transfer`, {
+        params: {
+          status: 'active,paused',
+          type: undefined,
+          since: '2026-01-01T00:00:00.000Z',
+          until: undefined,
+        },
+      });
+      expect(jobs).toEqual([{ jobId: 'job-123' }]);
+    });
+  });
 });
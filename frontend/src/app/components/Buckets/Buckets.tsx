@@ -8,6 +8,8 @@ import {
   FlexItem,
   Form,
   FormGroup,
+  FormSelect,
+  FormSelectOption,
   Page,
   PageSection,
   Content,
@@ -29,13 +31,22 @@ import { storageService, StorageLocation } from '../../services/storageService';
 class Bucket {
   Name: string;
   CreationDate: string;
+  LocationId: string; // "<connectionId>:<bucket>", or the bucket name for the default connection
+  ConnectionId: string;
 
-  constructor(name: string, creationDate: string) {
+  constructor(name: string, creationDate: string, locationId?: string, connectionId?: string) {
     this.Name = name;
     this.CreationDate = creationDate;
+    this.LocationId = locationId || name;
+    this.ConnectionId = connectionId || 'default';
   }
 }
 
+interface S3Connection {
+  id: string;
+  name: string;
+}
+
 class Owner {
   DisplayName: string;
   ID: string;
@@ -67,6 +78,8 @@ const Buckets: React.FunctionComponent = () => {
 
   // New bucket handling
   const [newBucketName, setNewBucketName] = React.useState('');
+  const [newBucketConnectionId, setNewBucketConnectionId] = React.useState('default');
+  const [s3Connections, setS3Connections] = React.useState<S3Connection[]>([]);
   const [newBucketNameRulesVisibility, setNewBucketNameRulesVisibility] = React.useState(false);
 
   // Validate bucket name
@@ -101,9 +114,11 @@ const Buckets: React.FunctionComponent = () => {
       return false;
     }
 
-    // Check if name is unique
+    // Check if name is unique on the selected connection
     if (bucketsList) {
-      return !bucketsList.buckets.some((bucket) => bucket.Name === name);
+      return !bucketsList.buckets.some(
+        (bucket) => bucket.Name === name && bucket.ConnectionId === newBucketConnectionId,
+      );
     }
 
     return true;
@@ -115,7 +130,7 @@ const Buckets: React.FunctionComponent = () => {
     } else {
       setNewBucketNameRulesVisibility(false);
     }
-  }, [newBucketName]);
+  }, [newBucketName, newBucketConnectionId]);
 
   // Create bucket modal handling
   const [isCreateBucketModalOpen, setIsCreateBucketModalOpen] = React.useState(false);
@@ -135,6 +150,7 @@ const Buckets: React.FunctionComponent = () => {
       axios
         .post(`${config.backend_api_url}/buckets`, {
           bucketName: newBucketName,
+          connectionId: newBucketConnectionId,
         })
         .then((response) => {
           Emitter.emit('notification', {
@@ -148,7 +164,7 @@ const Buckets: React.FunctionComponent = () => {
               setLocations(newLocations);
               const { owner, buckets } = bucketsResponse.data;
               const newBucketsState = new BucketsList(
-                buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate)),
+                buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate, bucket.locationId, bucket.connectionId)),
                 new Owner(owner.DisplayName, owner.ID),
               );
               setBucketsList(newBucketsState);
@@ -222,7 +238,7 @@ const Buckets: React.FunctionComponent = () => {
               setLocations(newLocations);
               const { owner, buckets } = bucketsResponse.data;
               const newBucketsState = new BucketsList(
-                buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate)),
+                buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate, bucket.locationId, bucket.connectionId)),
                 new Owner(owner.DisplayName, owner.ID),
               );
               setBucketsList(newBucketsState);
@@ -275,7 +291,7 @@ const Buckets: React.FunctionComponent = () => {
       // Update S3 bucket details
       const { owner, buckets } = bucketsResponse.data;
       const newBucketsState = new BucketsList(
-        buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate)),
+        buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate, bucket.locationId, bucket.connectionId)),
         new Owner(owner.DisplayName, owner.ID),
       );
       setBucketsList(newBucketsState);
@@ -321,7 +337,7 @@ const Buckets: React.FunctionComponent = () => {
     type: location.type,
     available: location.available,
     creation_date:
-      location.type === 's3' ? bucketsList?.buckets.find((b) => b.Name === location.id)?.CreationDate : undefined,
+      location.type === 's3' ? bucketsList?.buckets.find((b) => b.LocationId === location.id)?.CreationDate : undefined,
     owner: location.type === 's3' ? bucketsList?.owner.DisplayName : undefined,
   }));
 
@@ -414,13 +430,23 @@ const Buckets: React.FunctionComponent = () => {
         });
       });
 
+    // S3 connections a bucket can be created on
+    axios
+      .get(`${config.backend_api_url}/settings/s3-connections`)
+      .then((response) => {
+        setS3Connections(response.data.connections || []);
+      })
+      .catch((error) => {
+        console.error(error);
+      });
+
     // Also load S3 bucket details for creation date and owner
     axios
       .get(`${config.backend_api_url}/buckets`)
       .then((response) => {
         const { owner, buckets } = response.data;
         const newBucketsState = new BucketsList(
-          buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate)),
+          buckets.map((bucket: any) => new Bucket(bucket.Name, bucket.CreationDate, bucket.locationId, bucket.connectionId)),
           new Owner(owner.DisplayName, owner.ID),
         );
         setBucketsList(newBucketsState);
@@ -522,7 +548,7 @@ const Buckets: React.FunctionComponent = () => {
                   <Td className="bucket-column">{row.owner || '-'}</Td>
                   <Td className="bucket-column align-right">
                     {row.type === 's3' && (
-                      <Button variant="danger" onClick={handleDeleteBucketClick(row.name)} isDisabled={!row.available}>
+                      <Button variant="danger" onClick={handleDeleteBucketClick(row.id)} isDisabled={!row.available}>
                         <TrashIcon />
                       </Button>
                     )}
@@ -549,6 +575,20 @@ const Buckets: React.FunctionComponent = () => {
               }
             }}
           >
+            {s3Connections.length > 1 && (
+              <FormGroup label="Connection" fieldId="bucket-connection">
+                <FormSelect
+                  id="bucket-connection"
+                  aria-label="Select S3 connection"
+                  value={newBucketConnectionId}
+                  onChange={(_event, value) => setNewBucketConnectionId(value as string)}
+                >
+                  {s3Connections.map((connection) => (
+                    <FormSelectOption key={connection.id} value={connection.id} label={connection.name} />
+                  ))}
+                </FormSelect>
+              </FormGroup>
+            )}
             <FormGroup label="Bucket name" isRequired fieldId="bucket-name">
               <TextInput
                 isRequired
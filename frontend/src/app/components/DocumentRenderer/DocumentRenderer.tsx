@@ -1,5 +1,6 @@
 import * as React from 'react';
 import { CodeEditor, Language } from '@patternfly/react-code-editor';
+import { ModelManifest, isModelManifestFile, parseModelManifest } from '../ModelManifest/ModelManifest';
 
 // Note: MonacoWebpackPlugin automatically bundles Monaco Editor assets
 // and configures the loader. No manual configuration needed.
@@ -55,6 +56,13 @@ const DocumentRenderer: React.FC<DocumentRendererProps> = ({ fileData, fileName
     console.log('fileName: ', fileName);
     const imagesExtensions = ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg', 'webp', 'ico'];
     const textFilesExtensions = ['txt', 'md', 'html', 'css', 'scss', 'js', 'jsx', 'ts', 'tsx', 'json', 'xml', 'yml', 'yaml', 'java', 'py', 'go', 'php', 'rb', 'sh', 'bat', 'ps1', 'psm1', 'psd1', 'ps1xml', 'clj', 'cljc', 'cljs', 'edn', 'r', 'rmd', 'cs', 'csx', 'fs', 'fsx', 'fsi', 'vb', 'vbs', 'vba', 'sql', 'pl', 'pm', 't', 'rs', 'toml', 'ini', 'cfg', 'conf', 'cnf', 'env', 'properties', 'csv', 'tsv', 'log', 'gitignore', 'gitattributes', 'editorconfig', 'babelrc', 'eslintrc', 'prettierrc', 'dockerignore', 'dockerfile']
+    // Manifests of HuggingFace imports are shown as a summary of the import
+    if (isModelManifestFile(fileName)) {
+        const manifest = parseModelManifest(atob(fileData));
+        if (manifest) {
+            return <ModelManifest manifest={manifest} />;
+        }
+    }
     if (imagesExtensions.includes(fileName?.split('.').pop() || '')) {
         return <img src={`data:${fileName};base64,${fileData}`} alt="image" />;
     } else if (textFilesExtensions.includes(fileName?.split('.').pop() || '')) {
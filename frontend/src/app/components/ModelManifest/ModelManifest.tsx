@@ -0,0 +1,142 @@
+import {
+  Content,
+  ContentVariants,
+  DescriptionList,
+  DescriptionListDescription,
+  DescriptionListGroup,
+  DescriptionListTerm,
+  Label,
+} from '@patternfly/react-core';
+import { Table, Tbody, Td, Th, Thead, Tr } from '@patternfly/react-table';
+import * as React from 'react';
+import { formatBytes } from '@app/utils/format';
+
+// Name of the manifest written by the backend next to the files of a HuggingFace import
+export const MODEL_MANIFEST_FILE_NAME = 'hf-manifest.json';
+
+export const isModelManifestFile = (fileName: string): boolean => fileName === MODEL_MANIFEST_FILE_NAME;
+
+interface ModelManifestFile {
+  path: string;
+  size: number;
+  checksum?: {
+    algorithm: 'sha256' | 'git-sha1';
+    value: string;
+  };
+}
+
+// Same shape as ModelManifest in the backend (utils/modelManifest.ts)
+export interface ModelManifestData {
+  manifestVersion: number;
+  source: 'huggingface';
+  endpoint: string;
+  repoType: 'model' | 'dataset';
+  repoId: string;
+  revision: string;
+  sha?: string;
+  importedAt: string;
+  totalSize: number;
+  files: ModelManifestFile[];
+  config?: {
+    modelType?: string;
+    architectures?: string[];
+    dtype?: string;
+    maxPositionEmbeddings?: number;
+    hiddenSize?: number;
+    numHiddenLayers?: number;
+    numAttentionHeads?: number;
+    numKeyValueHeads?: number;
+    vocabSize?: number;
+    quantization?: string;
+    transformersVersion?: string;
+  };
+}
+
+// Parse the content of a manifest file
+// Returns undefined if it is not a manifest (e.g. a file with the same name but another content)
+export const parseModelManifest = (content: string): ModelManifestData | undefined => {
+  try {
+    const manifest = JSON.parse(content);
+    if (manifest?.source === 'huggingface' && typeof manifest.repoId === 'string' && Array.isArray(manifest.files)) {
+      return manifest;
+    }
+  } catch {
+    // Not JSON
+  }
+  return undefined;
+};
+
+interface ModelManifestProps {
+  manifest: ModelManifestData;
+}
+
+export const ModelManifest: React.FC<ModelManifestProps> = ({ manifest }) => {
+  const { config } = manifest;
+  const repoUrl = `${manifest.endpoint}/${manifest.repoType === 'dataset' ? 'datasets/' : ''}${manifest.repoId}`;
+
+  const details: [string, React.ReactNode][] = [
+    ['Repository', repoUrl],
+    ['Revision', manifest.revision],
+    ['Commit', manifest.sha || '-'],
+    ['Imported', new Date(manifest.importedAt).toLocaleString()],
+    ['Files', `${manifest.files.length} (${formatBytes(manifest.totalSize)})`],
+  ];
+  if (config) {
+    details.push(
+      ['Architecture', config.architectures?.join(', ') || config.modelType || '-'],
+      ['Data type', config.dtype || '-'],
+      ['Context length', config.maxPositionEmbeddings?.toLocaleString() || '-'],
+      ['Layers', config.numHiddenLayers ?? '-'],
+      [
+        'Attention heads',
+        config.numAttentionHeads !== undefined
+          ? `${config.numAttentionHeads}${config.numKeyValueHeads !== undefined ? ` (${config.numKeyValueHeads} KV)` : ''}`
+          : '-',
+      ],
+      ['Hidden size', config.hiddenSize ?? '-'],
+      ['Vocabulary size', config.vocabSize?.toLocaleString() || '-'],
+    );
+    if (config.quantization) {
+      details.push(['Quantization', config.quantization]);
+    }
+  }
+
+  return (
+    <>
+      <Content component={ContentVariants.h3}>
+        {manifest.repoId}{' '}
+        <Label isCompact color="blue">
+          {manifest.repoType === 'dataset' ? 'Dataset' : 'Model'} manifest
+        </Label>
+      </Content>
+      <DescriptionList isHorizontal isCompact>
+        {details.map(([term, description]) => (
+          <DescriptionListGroup key={term}>
+            <DescriptionListTerm>{term}</DescriptionListTerm>
+            <DescriptionListDescription>{description}</DescriptionListDescription>
+          </DescriptionListGroup>
+        ))}
+      </DescriptionList>
+      <Table aria-label="Manifest files" variant="compact">
+        <Thead>
+          <Tr>
+            <Th>File</Th>
+            <Th>Size</Th>
+            <Th>Checksum</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {manifest.files.map((file) => (
+            <Tr key={file.path}>
+              <Td>{file.path}</Td>
+              <Td>{formatBytes(file.size)}</Td>
+              <Td className="manifest-checksum">
+                {file.checksum ? `${file.checksum.algorithm}:${file.checksum.value}` : '-'}
+              </Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </>
+  );
+};
@@ -0,0 +1,307 @@
+import config from '@app/config';
+import { base64Encode } from '@app/utils/encoding';
+import Emitter from '@app/utils/emitter';
+import { formatBytes } from '@app/utils/format';
+import {
+  Alert,
+  Button,
+  Content,
+  ContentVariants,
+  DescriptionList,
+  DescriptionListDescription,
+  DescriptionListGroup,
+  DescriptionListTerm,
+  Drawer,
+  DrawerActions,
+  DrawerCloseButton,
+  DrawerContent,
+  DrawerContentBody,
+  DrawerHead,
+  DrawerPanelBody,
+  DrawerPanelContent,
+  Flex,
+  FlexItem,
+  Spinner,
+  TextInput,
+} from '@patternfly/react-core';
+import { MinusCircleIcon, PlusCircleIcon } from '@patternfly/react-icons';
+import axios from 'axios';
+import * as React from 'react';
+
+// Same shape as ObjectDetails in the backend (utils/objectDetails.ts)
+export interface ObjectDetails {
+  key: string;
+  versionId?: string;
+  size: number;
+  lastModified?: string;
+  etag?: string;
+  storageClass: string;
+  contentType?: string;
+  contentEncoding?: string;
+  contentDisposition?: string;
+  contentLanguage?: string;
+  cacheControl?: string;
+  metadata: Record<string, string>;
+  tags: Record<string, string> | null; // null when the S3 storage doesn't support tagging
+  checksum?: { algorithm: string; value: string; type?: string };
+  encryption?: { algorithm: string; kmsKeyId?: string; bucketKeyEnabled?: boolean };
+}
+
+type Entries = [string, string][];
+
+const notifyError = (title: string, error: unknown) => {
+  Emitter.emit('notification', {
+    variant: 'warning',
+    title: (axios.isAxiosError(error) && error.response?.data?.error) || title,
+    description:
+      (axios.isAxiosError(error) && error.response?.data?.message) ||
+      (error instanceof Error ? error.message : String(error)),
+  });
+};
+
+interface KeyValueEditorProps {
+  label: string; // "metadata" or "tag", used in the input labels
+  entries: Entries;
+  onChange: (entries: Entries) => void;
+  isDisabled?: boolean;
+}
+
+// Editable list of key/value pairs
+const KeyValueEditor: React.FC<KeyValueEditorProps> = ({ label, entries, onChange, isDisabled }) => {
+  const update = (index: number, entry: [string, string]) =>
+    onChange(entries.map((current, i) => (i === index ? entry : current)));
+
+  return (
+    <>
+      {entries.map(([key, value], index) => (
+        <Flex key={index} spaceItems={{ default: 'spaceItemsSm' }} flexWrap={{ default: 'nowrap' }}>
+          <FlexItem flex={{ default: 'flex_1' }}>
+            <TextInput
+              aria-label={`${label} key ${index + 1}`}
+              placeholder="Key"
+              value={key}
+              onChange={(_event, newKey) => update(index, [newKey, value])}
+              isDisabled={isDisabled}
+            />
+          </FlexItem>
+          <FlexItem flex={{ default: 'flex_2' }}>
+            <TextInput
+              aria-label={`${label} value ${index + 1}`}
+              placeholder="Value"
+              value={value}
+              onChange={(_event, newValue) => update(index, [key, newValue])}
+              isDisabled={isDisabled}
+            />
+          </FlexItem>
+          <FlexItem>
+            <Button
+              variant="plain"
+              aria-label={`Remove ${label} ${index + 1}`}
+              onClick={() => onChange(entries.filter((_entry, i) => i !== index))}
+              isDisabled={isDisabled}
+            >
+              <MinusCircleIcon />
+            </Button>
+          </FlexItem>
+        </Flex>
+      ))}
+      <Button
+        variant="link"
+        icon={<PlusCircleIcon />}
+        onClick={() => onChange([...entries, ['', '']])}
+        isDisabled={isDisabled}
+      >
+        Add {label}
+      </Button>
+    </>
+  );
+};
+
+interface ObjectDetailsPanelProps {
+  locationId: string;
+  objectKey: string;
+  onClose: () => void;
+  onUpdated: () => void;
+}
+
+const ObjectDetailsPanel: React.FC<ObjectDetailsPanelProps> = ({ locationId, objectKey, onClose, onUpdated }) => {
+  const [details, setDetails] = React.useState<ObjectDetails | null>(null);
+  const [contentType, setContentType] = React.useState('');
+  const [metadata, setMetadata] = React.useState<Entries>([]);
+  const [tags, setTags] = React.useState<Entries>([]);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const encodedKey = base64Encode(objectKey);
+
+  const showDetails = (newDetails: ObjectDetails) => {
+    setDetails(newDetails);
+    setContentType(newDetails.contentType || '');
+    setMetadata(Object.entries(newDetails.metadata));
+    setTags(Object.entries(newDetails.tags || {}));
+  };
+
+  React.useEffect(() => {
+    setDetails(null);
+    axios
+      .get<ObjectDetails>(`${config.backend_api_url}/objects/details/${locationId}/${encodedKey}`)
+      .then((response) => showDetails(response.data))
+      .catch((error) => {
+        console.error('Error getting object details', error);
+        notifyError('Error Getting Object Details', error);
+      });
+  }, [locationId, encodedKey]);
+
+  const save = async (path: 'metadata' | 'tags', body: object, successTitle: string) => {
+    setIsSaving(true);
+    try {
+      const response = await axios.put<ObjectDetails>(
+        `${config.backend_api_url}/objects/${path}/${locationId}/${encodedKey}`,
+        body,
+      );
+      showDetails(response.data);
+      Emitter.emit('notification', {
+        variant: 'success',
+        title: successTitle,
+        description: `"${objectKey.split('/').pop()}" has been updated.`,
+      });
+      onUpdated();
+    } catch (error) {
+      console.error(`Error updating object ${path}`, error);
+      notifyError('Error Updating Object', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Empty rows are ignored, as when nothing was entered in them
+  const toRecord = (entries: Entries) =>
+    Object.fromEntries(
+      entries.filter(([key, value]) => key.trim() || value.trim()).map(([key, value]) => [key.trim(), value]),
+    );
+
+  const handleSaveHeaders = () =>
+    save('metadata', { contentType: contentType.trim(), metadata: toRecord(metadata) }, 'Metadata saved');
+
+  const handleSaveTags = () => save('tags', { tags: toRecord(tags) }, 'Tags saved');
+
+  const properties: [string, React.ReactNode][] = details
+    ? [
+        ['Size', formatBytes(details.size)],
+        ['Last modified', details.lastModified ? new Date(details.lastModified).toLocaleString() : '-'],
+        ['ETag', details.etag || '-'],
+        ['Storage class', details.storageClass],
+        ['Version ID', details.versionId || '-'],
+        [
+          'Checksum',
+          details.checksum
+            ? `${details.checksum.algorithm}${details.checksum.type ? ` (${details.checksum.type})` : ''}: ${
+                details.checksum.value
+              }`
+            : '-',
+        ],
+        [
+          'Encryption',
+          details.encryption
+            ? `${details.encryption.algorithm}${details.encryption.kmsKeyId ? ` (${details.encryption.kmsKeyId})` : ''}`
+            : 'None',
+        ],
+      ]
+    : [];
+
+  return (
+    <DrawerPanelContent widths={{ default: 'width_33' }} isResizable minSize="350px">
+      <DrawerHead>
+        <Content component={ContentVariants.h3}>{objectKey.split('/').pop()}</Content>
+        <DrawerActions>
+          <DrawerCloseButton onClick={onClose} />
+        </DrawerActions>
+      </DrawerHead>
+      <DrawerPanelBody>
+        {!details ? (
+          <Spinner size="lg" aria-label="Loading object details" />
+        ) : (
+          <>
+            <DescriptionList isCompact isHorizontal className="object-details-properties">
+              {properties.map(([term, description]) => (
+                <DescriptionListGroup key={term}>
+                  <DescriptionListTerm>{term}</DescriptionListTerm>
+                  <DescriptionListDescription>{description}</DescriptionListDescription>
+                </DescriptionListGroup>
+              ))}
+            </DescriptionList>
+
+            <Content component={ContentVariants.h4} className="object-details-section">
+              Content type and metadata
+            </Content>
+            <TextInput
+              aria-label="Content type"
+              placeholder="application/octet-stream"
+              value={contentType}
+              onChange={(_event, value) => setContentType(value)}
+              isDisabled={isSaving}
+            />
+            <KeyValueEditor label="metadata" entries={metadata} onChange={setMetadata} isDisabled={isSaving} />
+            <Content component={ContentVariants.small}>
+              Saving copies the object over itself: in versioned buckets, this creates a new version.
+            </Content>
+            <Button variant="primary" onClick={handleSaveHeaders} isDisabled={isSaving || !contentType.trim()}>
+              Save metadata
+            </Button>
+
+            <Content component={ContentVariants.h4} className="object-details-section">
+              Tags
+            </Content>
+            {details.tags === null ? (
+              <Alert variant="info" isInline isPlain title="Tagging is not supported by this S3 storage." />
+            ) : (
+              <>
+                <KeyValueEditor label="tag" entries={tags} onChange={setTags} isDisabled={isSaving} />
+                <Button variant="primary" onClick={handleSaveTags} isDisabled={isSaving}>
+                  Save tags
+                </Button>
+              </>
+            )}
+          </>
+        )}
+      </DrawerPanelBody>
+    </DrawerPanelContent>
+  );
+};
+
+interface ObjectDetailsDrawerProps {
+  locationId?: string;
+  objectKey: string | null; // Object whose details are shown, the drawer is closed when null
+  onClose: () => void;
+  onUpdated: () => void; // Called after the object was changed, to refresh the listing
+  children: React.ReactNode;
+}
+
+// Side drawer showing and editing the details of an S3 object next to its content
+export const ObjectDetailsDrawer: React.FC<ObjectDetailsDrawerProps> = ({
+  locationId,
+  objectKey,
+  onClose,
+  onUpdated,
+  children,
+}) => {
+  const isExpanded = !!locationId && objectKey !== null;
+  return (
+    <Drawer isExpanded={isExpanded} isInline>
+      <DrawerContent
+        panelContent={
+          isExpanded ? (
+            <ObjectDetailsPanel
+              key={`${locationId}/${objectKey}`}
+              locationId={locationId}
+              objectKey={objectKey}
+              onClose={onClose}
+              onUpdated={onUpdated}
+            />
+          ) : undefined
+        }
+      >
+        <DrawerContentBody>{children}</DrawerContentBody>
+      </DrawerContent>
+    </Drawer>
+  );
+};
@@ -0,0 +1,253 @@
+import config from '@app/config';
+import { base64Encode } from '@app/utils/encoding';
+import Emitter from '@app/utils/emitter';
+import { formatBytes } from '@app/utils/format';
+import {
+  Alert,
+  AlertActionLink,
+  Button,
+  Label,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  ModalHeader,
+  Spinner,
+  Tooltip,
+} from '@patternfly/react-core';
+import { DownloadIcon, UndoIcon } from '@patternfly/react-icons';
+import { Table, Tbody, Td, Th, Thead, Tr } from '@patternfly/react-table';
+import axios from 'axios';
+import * as React from 'react';
+
+// Same shape as ObjectVersion in the backend (utils/objectVersions.ts)
+export interface ObjectVersion {
+  key: string;
+  versionId: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  lastModified?: string;
+  size?: number;
+  etag?: string;
+  storageClass?: string;
+}
+
+interface ObjectVersionsPage {
+  versions: ObjectVersion[];
+  isTruncated: boolean;
+  nextKeyMarker: string | null;
+  nextVersionIdMarker: string | null;
+}
+
+// 'Enabled' or 'Suspended', null when versioning was never enabled on the bucket
+type VersioningStatus = 'Enabled' | 'Suspended' | null;
+
+interface ObjectVersionsProps {
+  isOpen: boolean;
+  locationId: string;
+  objectKey: string;
+  onClose: () => void;
+  onRestored: () => void; // Called after a version was restored, to refresh the listing
+}
+
+export const ObjectVersions: React.FC<ObjectVersionsProps> = ({
+  isOpen,
+  locationId,
+  objectKey,
+  onClose,
+  onRestored,
+}) => {
+  const [versioningStatus, setVersioningStatus] = React.useState<VersioningStatus | undefined>(undefined);
+  const [versions, setVersions] = React.useState<ObjectVersion[]>([]);
+  const [nextMarkers, setNextMarkers] = React.useState<{ keyMarker: string; versionIdMarker: string } | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [restoringVersionId, setRestoringVersionId] = React.useState<string | null>(null);
+
+  const encodedKey = base64Encode(objectKey);
+
+  const notifyError = (title: string, error: unknown) => {
+    Emitter.emit('notification', {
+      variant: 'warning',
+      title: (axios.isAxiosError(error) && error.response?.data?.error) || title,
+      description:
+        (axios.isAxiosError(error) && error.response?.data?.message) ||
+        (error instanceof Error ? error.message : String(error)),
+    });
+  };
+
+  const loadVersions = React.useCallback(
+    async (markers: { keyMarker: string; versionIdMarker: string } | null) => {
+      setIsLoading(true);
+      try {
+        const response = await axios.get<ObjectVersionsPage>(
+          `${config.backend_api_url}/objects/versions/${locationId}/${encodedKey}`,
+          { params: markers || undefined },
+        );
+        const page = response.data;
+        setVersions((previous) => (markers ? [...previous, ...page.versions] : page.versions));
+        setNextMarkers(
+          page.isTruncated && page.nextKeyMarker && page.nextVersionIdMarker
+            ? { keyMarker: page.nextKeyMarker, versionIdMarker: page.nextVersionIdMarker }
+            : null,
+        );
+      } catch (error) {
+        console.error('Error listing object versions', error);
+        notifyError('Error Listing Versions', error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [locationId, encodedKey],
+  );
+
+  React.useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    setVersions([]);
+    setNextMarkers(null);
+    setVersioningStatus(undefined);
+    axios
+      .get(`${config.backend_api_url}/buckets/${locationId}/versioning`)
+      .then((response) => setVersioningStatus(response.data.status))
+      .catch((error) => {
+        // Not all S3 implementations support versioning, the versions are listed anyway
+        console.error('Error getting bucket versioning', error);
+      });
+    loadVersions(null);
+  }, [isOpen, locationId, loadVersions]);
+
+  const handleEnableVersioning = async () => {
+    try {
+      await axios.put(`${config.backend_api_url}/buckets/${locationId}/versioning`, { status: 'Enabled' });
+      setVersioningStatus('Enabled');
+      Emitter.emit('notification', {
+        variant: 'success',
+        title: 'Versioning enabled',
+        description: 'Every change to the objects of this bucket now keeps the previous version.',
+      });
+    } catch (error) {
+      console.error('Error enabling bucket versioning', error);
+      notifyError('Error Enabling Versioning', error);
+    }
+  };
+
+  const handleRestore = (version: ObjectVersion) => async () => {
+    setRestoringVersionId(version.versionId);
+    try {
+      await axios.post(`${config.backend_api_url}/objects/versions/${locationId}/${encodedKey}/restore`, {
+        versionId: version.versionId,
+      });
+      Emitter.emit('notification', {
+        variant: 'success',
+        title: 'Version restored',
+        description: `The version of ${
+          version.lastModified ? new Date(version.lastModified).toLocaleString() : version.versionId
+        } is now the latest version.`,
+      });
+      onRestored();
+      await loadVersions(null);
+    } catch (error) {
+      console.error('Error restoring object version', error);
+      notifyError('Error Restoring Version', error);
+    } finally {
+      setRestoringVersionId(null);
+    }
+  };
+
+  const getDownloadUrl = (version: ObjectVersion) =>
+    `${config.backend_api_url}/objects/download/${locationId}/${encodedKey}?versionId=${encodeURIComponent(
+      version.versionId,
+    )}`;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} variant="large" ouiaId="object-versions-modal">
+      <ModalHeader title="Versions" description={objectKey} />
+      <ModalBody>
+        {versioningStatus !== undefined && versioningStatus !== 'Enabled' && (
+          <Alert
+            variant="info"
+            isInline
+            title={versioningStatus === 'Suspended' ? 'Versioning is suspended' : 'Versioning is not enabled'}
+            actionLinks={<AlertActionLink onClick={handleEnableVersioning}>Enable versioning</AlertActionLink>}
+            style={{ marginBottom: '1rem' }}
+          >
+            New changes to the objects of this bucket replace them without keeping the previous version.
+          </Alert>
+        )}
+        <Table aria-label="Object versions" variant="compact">
+          <Thead>
+            <Tr>
+              <Th>Modified</Th>
+              <Th>Size</Th>
+              <Th>Version ID</Th>
+              <Th screenReaderText="Actions" />
+            </Tr>
+          </Thead>
+          <Tbody>
+            {versions.map((version) => (
+              <Tr key={version.versionId}>
+                <Td>
+                  {version.lastModified ? new Date(version.lastModified).toLocaleString() : '-'}{' '}
+                  {version.isLatest && (
+                    <Label isCompact color="green">
+                      Latest
+                    </Label>
+                  )}{' '}
+                  {version.isDeleteMarker && (
+                    <Label isCompact color="red">
+                      Delete marker
+                    </Label>
+                  )}
+                </Td>
+                <Td>{version.size !== undefined ? formatBytes(version.size) : '-'}</Td>
+                <Td className="version-id">{version.versionId}</Td>
+                <Td isActionCell>
+                  {!version.isDeleteMarker && (
+                    <>
+                      <Tooltip content={<div>Download this version.</div>}>
+                        <Button
+                          variant="plain"
+                          component="a"
+                          href={getDownloadUrl(version)}
+                          download={objectKey.split('/').pop()}
+                          aria-label={`Download version ${version.versionId}`}
+                        >
+                          <DownloadIcon />
+                        </Button>
+                      </Tooltip>
+                      {!version.isLatest && (
+                        <Tooltip content={<div>Restore this version as the latest version.</div>}>
+                          <Button
+                            variant="plain"
+                            onClick={handleRestore(version)}
+                            isLoading={restoringVersionId === version.versionId}
+                            isDisabled={restoringVersionId !== null}
+                            aria-label={`Restore version ${version.versionId}`}
+                          >
+                            <UndoIcon />
+                          </Button>
+                        </Tooltip>
+                      )}
+                    </>
+                  )}
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+        {isLoading && <Spinner size="lg" aria-label="Loading versions" />}
+        {!isLoading && versions.length === 0 && <p>No versions found for this object.</p>}
+      </ModalBody>
+      <ModalFooter>
+        {nextMarkers && (
+          <Button variant="secondary" onClick={() => loadVersions(nextMarkers)} isDisabled={isLoading}>
+            Load more versions
+          </Button>
+        )}
+        <Button key="close" variant="primary" onClick={onClose}>
+          Close
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
@@ -1,7 +1,7 @@
 import HfLogo from '@app/assets/bgimages/hf-logo.svg';
 import config from '@app/config';
-import { Button, Content, ContentVariants, Flex, FlexItem, Form, FormGroup, PageSection, Slider, SliderOnChangeEvent, Tab, Tabs, TabTitleIcon, TabTitleText, TextInput, TextInputGroup, TextInputGroupMain, TextInputGroupUtilities } from '@patternfly/react-core';
-import { DatabaseIcon, EyeIcon, GlobeIcon } from '@patternfly/react-icons';
+import { Button, Content, ContentVariants, Flex, FlexItem, Form, FormGroup, FormHelperText, FormSelect, FormSelectOption, HelperText, HelperTextItem, PageSection, Slider, SliderOnChangeEvent, Tab, Tabs, TabTitleIcon, TabTitleText, TextInput, TextInputGroup, TextInputGroupMain, TextInputGroupUtilities } from '@patternfly/react-core';
+import { DatabaseIcon, EyeIcon, GlobeIcon, TachometerAltIcon } from '@patternfly/react-icons';
 import axios from 'axios';
 import * as React from 'react';
 import { useLocation, useNavigate, useParams } from 'react-router-dom';
@@ -10,27 +10,61 @@ import { storageService } from '../../services/storageService';
 
 interface SettingsProps { }
 
+// Bandwidth limits are stored in bytes per second by the backend and edited in MB/s, 0 means unlimited
+const BYTES_PER_MB = 1024 * 1024;
+
+// Connection configured with the AWS_* environment variables, it can't be removed
+const DEFAULT_S3_CONNECTION_ID = 'default';
+// Selection value of a connection that is being created
+const NEW_S3_CONNECTION_ID = '';
+
+// Same rules as the backend: connection ids are part of location ids ("<connectionId>:<bucket>")
+const isValidS3ConnectionId = (id: string) => /^[a-z0-9]([a-z0-9-]{0,30}[a-z0-9])?$/.test(id);
+
+// Where a connection was configured, as reported by the backend
+const S3_CONNECTION_SOURCE_LABELS: Record<string, string> = {
+    environment: 'Environment variables',
+    'data-connection': 'Data Connection',
+    settings: 'Saved from Settings',
+};
+
 class S3Settings {
+    id: string;
+    name: string;
     accessKeyId: string;
     secretAccessKey: string;
     region: string;
     endpoint: string;
     defaultBucket: string;
+    httpProxy: string;
+    httpsProxy: string;
+    source: string;
+    sourceDetail: string;
 
-    constructor(accessKeyId: string, secretAccessKey: string, region: string, endpoint: string, defaultBucket: string) {
+    constructor(id: string, name: string, accessKeyId: string, secretAccessKey: string, region: string, endpoint: string, defaultBucket: string, httpProxy?: string, httpsProxy?: string, source?: string, sourceDetail?: string) {
+        this.id = id ?? '';
+        this.name = name ?? '';
         this.accessKeyId = accessKeyId ?? '';
         this.secretAccessKey = secretAccessKey ?? '';
         this.region = region ?? '';
         this.endpoint = endpoint ?? '';
         this.defaultBucket = defaultBucket ?? '';
+        this.httpProxy = httpProxy ?? '';
+        this.httpsProxy = httpsProxy ?? '';
+        this.source = source ?? '';
+        this.sourceDetail = sourceDetail ?? '';
     }
 }
 
 class HuggingFaceSettings {
     hfToken: string;
+    hfEndpoint: string;
+    hfCaBundle: boolean;
 
-    constructor(hfToken: string) {
+    constructor(hfToken: string, hfEndpoint?: string, hfCaBundle?: boolean) {
         this.hfToken = hfToken ?? '';
+        this.hfEndpoint = hfEndpoint ?? '';
+        this.hfCaBundle = hfCaBundle ?? false;
     }
 }
 
@@ -63,17 +97,27 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
 
     /* S3 Settings Management */
 
-    const [s3Settings, setS3Settings] = React.useState<S3Settings>(new S3Settings('', '', '', '', ''));
+    const [s3Connections, setS3Connections] = React.useState<S3Settings[]>([]);
+    const [selectedS3ConnectionId, setSelectedS3ConnectionId] = React.useState<string>(DEFAULT_S3_CONNECTION_ID);
+    const [s3Settings, setS3Settings] = React.useState<S3Settings>(new S3Settings('', '', '', '', '', '', ''));
     const [s3SettingsChanged, setS3SettingsChanged] = React.useState<boolean>(false);
 
     const [showS3SecretKey, setS3ShowSecretKey] = React.useState<boolean>(false);
 
-    React.useEffect(() => {
-        axios.get(`${config.backend_api_url}/settings/s3`)
+    const isNewS3Connection = selectedS3ConnectionId === NEW_S3_CONNECTION_ID;
+
+    // Load all connections and edit the given one (the default connection if it doesn't exist)
+    const loadS3Connections = React.useCallback((connectionId: string) => {
+        axios.get(`${config.backend_api_url}/settings/s3-connections`)
             .then((response) => {
-                const { settings } = response.data;
-                if (settings !== undefined) {
-                    setS3Settings(new S3Settings(settings.accessKeyId, settings.secretAccessKey, settings.region, settings.endpoint, settings.defaultBucket));
+                const connections: S3Settings[] = (response.data.connections || []).map((c) =>
+                    new S3Settings(c.id, c.name, c.accessKeyId, c.secretAccessKey, c.region, c.endpoint, c.defaultBucket, c.httpProxy, c.httpsProxy, c.source, c.sourceDetail));
+                const selected = connections.find((c) => c.id === connectionId) || connections[0];
+                setS3Connections(connections);
+                if (selected) {
+                    setSelectedS3ConnectionId(selected.id);
+                    setS3Settings(selected);
+                    setS3SettingsChanged(false);
                 }
             })
             .catch((error) => {
@@ -82,6 +126,17 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
             });
     }, []);
 
+    React.useEffect(() => {
+        loadS3Connections(DEFAULT_S3_CONNECTION_ID);
+    }, [loadS3Connections]);
+
+    const handleS3ConnectionSelect = (connectionId: string) => {
+        setSelectedS3ConnectionId(connectionId);
+        setS3Settings(s3Connections.find((c) => c.id === connectionId)
+            || new S3Settings('', '', '', '', 'us-east-1', '', ''));
+        setS3SettingsChanged(false);
+    };
+
     const handleS3Change = (value, field) => {
         setS3Settings(prevState => ({
             ...prevState,
@@ -92,10 +147,10 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
 
     const handleSaveS3Settings = (event) => {
         event.preventDefault();
-        axios.put(`${config.backend_api_url}/settings/s3`, s3Settings)
-            .then((response) => {
+        axios.put(`${config.backend_api_url}/settings/s3-connections/${s3Settings.id}`, s3Settings)
+            .then(() => {
                 Emitter.emit('notification', { variant: 'success', title: '', description: 'Settings saved successfully!' });
-                setS3SettingsChanged(false);
+                loadS3Connections(s3Settings.id);
                 // Refresh storage locations to reflect new S3 configuration
                 storageService.refreshLocations()
                     .catch((error) => {
@@ -109,6 +164,23 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
             });
     };
 
+    const handleRemoveS3Connection = (event) => {
+        event.preventDefault();
+        axios.delete(`${config.backend_api_url}/settings/s3-connections/${s3Settings.id}`)
+            .then(() => {
+                Emitter.emit('notification', { variant: 'success', title: '', description: `Connection ${s3Settings.name} removed successfully!` });
+                loadS3Connections(DEFAULT_S3_CONNECTION_ID);
+                storageService.refreshLocations()
+                    .catch((error) => {
+                        console.error('Failed to refresh storage locations after S3 connection removal:', error);
+                    });
+            })
+            .catch((error) => {
+                console.error(error);
+                Emitter.emit('notification', { variant: 'warning', title: error.response?.data?.error || 'Remove Failed', description: error.response?.data?.message || 'An unknown error occurred' });
+            });
+    };
+
     const handleTestS3Connection = (event) => {
         event.preventDefault();
         axios.post(`${config.backend_api_url}/settings/test-s3`, s3Settings)
@@ -132,7 +204,7 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
             .then((response) => {
                 const { settings } = response.data;
                 if (settings !== undefined) {
-                    setHfSettings(new HuggingFaceSettings(settings.hfToken));
+                    setHfSettings(new HuggingFaceSettings(settings.hfToken, settings.hfEndpoint, settings.hfCaBundle));
                 }
             })
             .catch((error) => {
@@ -231,6 +303,47 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
             });
     };
 
+    /* Bandwidth Limits Management */
+
+    const [maxTransferMBPerSecond, setMaxTransferMBPerSecond] = React.useState<string>('0');
+    const [maxJobMBPerSecond, setMaxJobMBPerSecond] = React.useState<string>('0');
+    const [bandwidthLimitsChanged, setBandwidthLimitsChanged] = React.useState<boolean>(false);
+
+    React.useEffect(() => {
+        axios.get(`${config.backend_api_url}/settings/bandwidth-limits`)
+            .then((response) => {
+                const { maxTransferBytesPerSecond, maxJobBytesPerSecond } = response.data;
+                if (maxTransferBytesPerSecond !== undefined) {
+                    setMaxTransferMBPerSecond(String(maxTransferBytesPerSecond / BYTES_PER_MB));
+                }
+                if (maxJobBytesPerSecond !== undefined) {
+                    setMaxJobMBPerSecond(String(maxJobBytesPerSecond / BYTES_PER_MB));
+                }
+            })
+            .catch((error) => {
+                console.error(error);
+                Emitter.emit('error', `Failed to fetch Bandwidth Limits settings: ${error.response?.data?.error ? `${error.response.data.error} - ` : ''}${error.response?.data?.message || 'Server error'}`);
+            });
+    }, []);
+
+    const isValidBandwidthLimit = (value: string) => value.trim() !== '' && Number(value) >= 0;
+
+    const handleSaveBandwidthLimits = (event) => {
+        event.preventDefault();
+        axios.put(`${config.backend_api_url}/settings/bandwidth-limits`, {
+            maxTransferBytesPerSecond: Math.round(Number(maxTransferMBPerSecond) * BYTES_PER_MB),
+            maxJobBytesPerSecond: Math.round(Number(maxJobMBPerSecond) * BYTES_PER_MB)
+        })
+            .then(() => {
+                Emitter.emit('notification', { variant: 'success', title: '', description: 'Settings saved successfully!' });
+                setBandwidthLimitsChanged(false);
+            })
+            .catch((error) => {
+                console.error(error);
+                Emitter.emit('notification', { variant: 'warning', title: error.response?.data?.error || 'Save Failed', description: error.response?.data?.message || 'An unknown error occurred' });
+            });
+    };
+
     /* Proxy Settings Management */
 
     const [proxySettings, setProxySettings] = React.useState<ProxySettings>(new ProxySettings('', ''));
@@ -321,6 +434,52 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
                     >
                         <Form onSubmit={handleSaveS3Settings}
                             className='settings-form'>
+                            <FormGroup label="Connection" fieldId="s3Connection">
+                                <FormSelect
+                                    value={selectedS3ConnectionId}
+                                    onChange={(_event, value) => handleS3ConnectionSelect(value)}
+                                    id="s3Connection"
+                                    aria-label="Select S3 connection"
+                                    className='form-settings'
+                                >
+                                    {s3Connections.map((connection) => (
+                                        <FormSelectOption key={connection.id} value={connection.id} label={connection.name} />
+                                    ))}
+                                    <FormSelectOption value={NEW_S3_CONNECTION_ID} label="New connection..." />
+                                </FormSelect>
+                                {s3Settings.source && (
+                                    <FormHelperText>
+                                        <HelperText>
+                                            <HelperTextItem>
+                                                Source: {S3_CONNECTION_SOURCE_LABELS[s3Settings.source] || s3Settings.source}
+                                                {s3Settings.sourceDetail && ` (${s3Settings.sourceDetail})`}
+                                            </HelperTextItem>
+                                        </HelperText>
+                                    </FormHelperText>
+                                )}
+                            </FormGroup>
+                            {isNewS3Connection && (
+                                <FormGroup label="Connection id" fieldId="connectionId">
+                                    <TextInput
+                                        value={s3Settings.id}
+                                        onChange={(_event, value) => handleS3Change(value, 'id')}
+                                        id="connectionId"
+                                        name="connectionId"
+                                        placeholder="Lowercase letters, digits and hyphens"
+                                        validated={s3Settings.id === '' || isValidS3ConnectionId(s3Settings.id) ? 'default' : 'error'}
+                                        className='form-settings'
+                                    />
+                                </FormGroup>
+                            )}
+                            <FormGroup label="Name" fieldId="connectionName">
+                                <TextInput
+                                    value={s3Settings.name}
+                                    onChange={(_event, value) => handleS3Change(value, 'name')}
+                                    id="connectionName"
+                                    name="connectionName"
+                                    className='form-settings'
+                                />
+                            </FormGroup>
                             <FormGroup label="Access key" fieldId="accessKeyId">
                                 <TextInput
                                     value={s3Settings.accessKeyId}
@@ -375,13 +534,36 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
                                     className='form-settings'
                                 />
                             </FormGroup>
+                            <FormGroup label="HTTP Proxy (uses the Proxy Settings when empty)" fieldId="connectionHttpProxy">
+                                <TextInput
+                                    value={s3Settings.httpProxy}
+                                    onChange={(_event, value) => handleS3Change(value, 'httpProxy')}
+                                    id="connectionHttpProxy"
+                                    name="connectionHttpProxy"
+                                    className='form-settings-long'
+                                />
+                            </FormGroup>
+                            <FormGroup label="HTTPS Proxy (uses the Proxy Settings when empty)" fieldId="connectionHttpsProxy">
+                                <TextInput
+                                    value={s3Settings.httpsProxy}
+                                    onChange={(_event, value) => handleS3Change(value, 'httpsProxy')}
+                                    id="connectionHttpsProxy"
+                                    name="connectionHttpsProxy"
+                                    className='form-settings-long'
+                                />
+                            </FormGroup>
                             <Flex>
                                 <FlexItem>
-                                    <Button type="submit" className='form-settings-submit' isDisabled={!s3SettingsChanged}>Save S3 Settings</Button>
+                                    <Button type="submit" className='form-settings-submit' isDisabled={!s3SettingsChanged || !isValidS3ConnectionId(s3Settings.id)}>Save S3 Settings</Button>
                                 </FlexItem>
                                 <FlexItem>
                                     <Button className='form-settings-submit' onClick={handleTestS3Connection}>Test Connection</Button>
                                 </FlexItem>
+                                {!isNewS3Connection && selectedS3ConnectionId !== DEFAULT_S3_CONNECTION_ID && (
+                                    <FlexItem>
+                                        <Button variant="danger" className='form-settings-submit' onClick={handleRemoveS3Connection}>Remove Connection</Button>
+                                    </FlexItem>
+                                )}
                             </Flex>
                         </Form>
                     </Tab>
@@ -415,6 +597,24 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
                                     </TextInputGroupUtilities>
                                 </TextInputGroup>
                             </FormGroup>
+                            <FormGroup label="Endpoint" fieldId="hfEndpoint">
+                                <TextInput
+                                    value={hfSettings.hfEndpoint}
+                                    onChange={(_event, value) => handleHfChange(value, 'hfEndpoint')}
+                                    id="hfEndpoint"
+                                    name="hfEndpoint"
+                                    placeholder="https://huggingface.co"
+                                    className='form-settings'
+                                />
+                                <FormHelperText>
+                                    <HelperText>
+                                        <HelperTextItem>
+                                            HuggingFace Hub or a mirror of it (Artifactory, Nexus, hf-mirror...). Leave empty to use https://huggingface.co.
+                                            {hfSettings.hfCaBundle && ' The custom CA bundle set with HF_CA_BUNDLE is trusted.'}
+                                        </HelperTextItem>
+                                    </HelperText>
+                                </FormHelperText>
+                            </FormGroup>
                             <Flex>
                                 <FlexItem>
                                     <Button type="submit" className='form-settings-submit' isDisabled={!hfSettingsChanged}>Save HuggingFace Settings</Button>
@@ -528,6 +728,51 @@ const SettingsManagement: React.FunctionComponent<SettingsProps> = () => {
                             </Flex>
                         </Form>
                     </Tab>
+                    <Tab eventKey={5}
+                        title={
+                            <>
+                                <TabTitleIcon>
+                                    <TachometerAltIcon />
+                                </TabTitleIcon>{' '}
+                                <TabTitleText>Bandwidth Limits</TabTitleText>{' '}
+                            </>
+                        }
+                        aria-label="Bandwidth limits">
+                        <Form onSubmit={handleSaveBandwidthLimits}
+                            className='settings-form'>
+                            <FormGroup label="Max Bandwidth For All Transfers (MB/s, 0 = unlimited)" fieldId="maxTransferMBPerSecond">
+                                <TextInput
+                                    value={maxTransferMBPerSecond}
+                                    onChange={(_event, value) => { setMaxTransferMBPerSecond(value); setBandwidthLimitsChanged(true); }}
+                                    id="maxTransferMBPerSecond"
+                                    name="maxTransferMBPerSecond"
+                                    type="number"
+                                    min={0}
+                                    validated={isValidBandwidthLimit(maxTransferMBPerSecond) ? 'default' : 'error'}
+                                    className='form-settings'
+                                />
+                            </FormGroup>
+                            <FormGroup label="Max Bandwidth Per Transfer Job (MB/s, 0 = unlimited)" fieldId="maxJobMBPerSecond">
+                                <TextInput
+                                    value={maxJobMBPerSecond}
+                                    onChange={(_event, value) => { setMaxJobMBPerSecond(value); setBandwidthLimitsChanged(true); }}
+                                    id="maxJobMBPerSecond"
+                                    name="maxJobMBPerSecond"
+                                    type="number"
+                                    min={0}
+                                    validated={isValidBandwidthLimit(maxJobMBPerSecond) ? 'default' : 'error'}
+                                    className='form-settings'
+                                />
+                            </FormGroup>
+                            <Button
+                                type="submit"
+                                className='form-settings-submit'
+                                isDisabled={!bandwidthLimitsChanged || !isValidBandwidthLimit(maxTransferMBPerSecond) || !isValidBandwidthLimit(maxJobMBPerSecond)}
+                            >
+                                Save Bandwidth Limits
+                            </Button>
+                        </Form>
+                    </Tab>
                 </Tabs>
             </PageSection>
         </div>
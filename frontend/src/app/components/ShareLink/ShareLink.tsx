@@ -0,0 +1,129 @@
+import config from '@app/config';
+import { base64Encode } from '@app/utils/encoding';
+import Emitter from '@app/utils/emitter';
+import {
+  Alert,
+  Button,
+  ClipboardCopy,
+  Form,
+  FormGroup,
+  FormSelect,
+  FormSelectOption,
+  Modal,
+  ModalBody,
+  ModalFooter,
+  ModalHeader,
+} from '@patternfly/react-core';
+import axios from 'axios';
+import * as React from 'react';
+
+// Same shape as PresignedUrl in the backend (utils/presignedUrl.ts)
+interface PresignedUrl {
+  url: string;
+  method: 'GET' | 'PUT';
+  expiresIn: number;
+  expiresAt: string;
+}
+
+// Presigned URLs are valid for at most 7 days (SigV4 limit)
+const EXPIRY_OPTIONS = [
+  { value: 15 * 60, label: '15 minutes' },
+  { value: 3600, label: '1 hour' },
+  { value: 24 * 3600, label: '1 day' },
+  { value: 7 * 24 * 3600, label: '7 days' },
+];
+
+interface ShareLinkProps {
+  isOpen: boolean;
+  locationId: string;
+  objectKey: string;
+  onClose: () => void;
+}
+
+// Creates a presigned download link of an S3 object and copies it to the clipboard
+export const ShareLink: React.FC<ShareLinkProps> = ({ isOpen, locationId, objectKey, onClose }) => {
+  const [expiresIn, setExpiresIn] = React.useState(3600);
+  const [presigned, setPresigned] = React.useState<PresignedUrl | null>(null);
+  const [isCreating, setIsCreating] = React.useState(false);
+
+  React.useEffect(() => {
+    setPresigned(null);
+  }, [isOpen, objectKey]);
+
+  const handleCopyLink = async () => {
+    setIsCreating(true);
+    try {
+      const response = await axios.post<PresignedUrl>(
+        `${config.backend_api_url}/objects/presign/${locationId}/${base64Encode(objectKey)}`,
+        { method: 'GET', expiresIn },
+      );
+      setPresigned(response.data);
+      await navigator.clipboard.writeText(response.data.url);
+      Emitter.emit('notification', {
+        variant: 'success',
+        title: 'Share link copied',
+        description: `The link to "${objectKey.split('/').pop()}" has been copied to the clipboard.`,
+      });
+    } catch (error) {
+      console.error('Error creating share link', error);
+      Emitter.emit('notification', {
+        variant: 'warning',
+        title: (axios.isAxiosError(error) && error.response?.data?.error) || 'Error Creating Share Link',
+        description:
+          (axios.isAxiosError(error) && error.response?.data?.message) ||
+          (error instanceof Error ? error.message : String(error)),
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} variant="small" ouiaId="share-link-modal">
+      <ModalHeader title="Share link" description={objectKey} />
+      <ModalBody>
+        <Form onSubmit={(event) => event.preventDefault()}>
+          <FormGroup label="Link expires after" fieldId="share-link-expiry">
+            <FormSelect
+              id="share-link-expiry"
+              value={expiresIn}
+              onChange={(_event, value) => {
+                setExpiresIn(Number(value));
+                setPresigned(null);
+              }}
+              aria-label="Link expires after"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <FormSelectOption key={option.value} value={option.value} label={option.label} />
+              ))}
+            </FormSelect>
+          </FormGroup>
+          {presigned && (
+            <FormGroup
+              label={`Link, valid until ${new Date(presigned.expiresAt).toLocaleString()}`}
+              fieldId="share-link-url"
+            >
+              <ClipboardCopy isReadOnly hoverTip="Copy" clickTip="Copied" id="share-link-url">
+                {presigned.url}
+              </ClipboardCopy>
+            </FormGroup>
+          )}
+          <Alert
+            variant="info"
+            isInline
+            isPlain
+            title="Anyone with the link can download this file until it expires."
+          />
+        </Form>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="primary" onClick={handleCopyLink} isLoading={isCreating} isDisabled={isCreating}>
+          Copy share link
+        </Button>
+        <Button variant="link" onClick={onClose}>
+          Close
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
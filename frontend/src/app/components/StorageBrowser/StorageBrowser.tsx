@@ -18,6 +18,7 @@ import {
   FormSelectOption,
   HelperText,
   HelperTextItem,
+  Label,
   MultipleFileUpload,
   MultipleFileUploadMain,
   MultipleFileUploadStatus,
@@ -29,6 +30,8 @@ import {
   Content,
   Radio,
   TextInput,
+  ToggleGroup,
+  ToggleGroupItem,
   ContentVariants,
   Toolbar,
   ToolbarContent,
@@ -47,6 +50,9 @@ import {
   EyeIcon,
   FileIcon,
   FolderIcon,
+  HistoryIcon,
+  InfoCircleIcon,
+  LinkIcon,
   TrashIcon,
   UploadIcon,
 } from '@patternfly/react-icons';
@@ -56,6 +62,10 @@ import * as React from 'react';
 import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import Emitter from '../../utils/emitter';
 import DocumentRenderer from '../DocumentRenderer/DocumentRenderer';
+import { isModelManifestFile } from '../ModelManifest/ModelManifest';
+import { ObjectVersions } from '../ObjectVersions/ObjectVersions';
+import { ObjectDetailsDrawer } from '../ObjectDetails/ObjectDetailsDrawer';
+import { ShareLink } from '../ShareLink/ShareLink';
 import { UploadedFile, ExtendedFile } from './storageBrowserTypes';
 import HfLogo from '@app/assets/bgimages/hf-logo.svg';
 import pLimit from 'p-limit';
@@ -65,6 +75,37 @@ import { formatBytes } from '@app/utils/format';
 
 interface StorageBrowserProps { }
 
+interface HfPreviewFile {
+  path: string;
+  size: number | null;
+}
+
+// Pre-flight check of the files against the destination
+interface HfImportCapacity {
+  availableSpace: number | null; // Only known for local storage
+  maxFileSize: number;
+  oversizedFiles: string[];
+  unknownSizeFiles: number;
+}
+
+interface HfPreview {
+  revision: string;
+  sha: string | null;
+  files: HfPreviewFile[];
+  totalSize: number;
+  capacity: HfImportCapacity;
+}
+
+// Split a comma-separated list of glob patterns
+const splitPatterns = (patterns: string): string[] =>
+  patterns
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern !== '');
+
+// Glob pattern matching exactly the given file path
+const escapeGlob = (filePath: string): string => filePath.replace(/[*?[]/g, (char) => `[${char}]`);
+
 const StorageBrowser: React.FC<StorageBrowserProps> = () => {
   /*
       Common variables
@@ -77,8 +118,9 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
 
   // EventSource refs for proper cleanup
   const singleFileEventSource = React.useRef<EventSource | null>(null);
+  const singleFileUploadId = React.useRef<string | null>(null); // Session of the upload to S3
   const modelImportEventSource = React.useRef<EventSource | null>(null);
-  const multiFileEventSources = React.useRef<Map<string, EventSource>>(new Map());
+  const multiFileEventSources = React.useRef<Map<string, EventSource>>(new Map()); // By upload id
 
   // Cleanup EventSources on component unmount
   React.useEffect(() => {
@@ -150,7 +192,8 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
   // URL parameters from /browse/:locationId/:path?
   //
   // ENCODING STRATEGY (see docs/architecture/frontend-architecture.md):
-  // - locationId: NOT encoded (validated to URL-safe [a-z0-9-] on backend)
+  // - locationId: NOT encoded (validated to URL-safe [a-z0-9-] on backend, S3 buckets of
+  //   other connections than the default one are prefixed with "<connectionId>:")
   // - path: Base64-encoded (can contain slashes, spaces, special chars)
   const { locationId, path: encodedPath } = useParams<{
     locationId?: string;
@@ -901,6 +944,18 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
   };
 
   // Download file handler - avoids page navigation issues
+  // Object whose versions are shown (S3 only)
+  const [versionsKey, setVersionsKey] = React.useState<string | null>(null);
+
+  // Object whose share link is created (S3 only)
+  const [shareKey, setShareKey] = React.useState<string | null>(null);
+
+  // Object whose details are shown in the side drawer (S3 only), closed when browsing elsewhere
+  const [detailsKey, setDetailsKey] = React.useState<string | null>(null);
+  React.useEffect(() => {
+    setDetailsKey(null);
+  }, [locationId, currentPath]);
+
   const handleFileDownload = (file: FileEntry) => {
     if (!selectedLocation || !locationId) {
       console.error('[Download] No location selected');
@@ -991,6 +1046,7 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
     setUploadPercentages({});
     setIsUploadSingleFileModalOpen(false);
     abortUploadController.current = null;
+    singleFileUploadId.current = null;
   };
 
   const handleFileInputChange = (_, file: File) => {
@@ -1002,23 +1058,26 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
     if (abortUploadController.current) {
       abortUploadController.current.abort(); // Abort the current request if controller exists
     }
-    axios
-      .get(`${config.backend_api_url}/objects/abort-upload`, {})
-      .then((response) => {
-        console.log('Upload aborted', response);
-      })
-      .catch((error) => {
-        console.error('Error aborting upload', error);
-        Emitter.emit('notification', {
-          variant: 'warning',
-          title: error.response?.data?.error || 'Error Aborting Upload',
-          description: error.response?.data?.message || 'Failed to abort the upload process.',
+    const uploadId = singleFileUploadId.current;
+    if (uploadId) {
+      // Abort the upload from the backend to S3 as well
+      storageService
+        .abortUpload(uploadId)
+        .then(() => {
+          console.log('Upload aborted', uploadId);
+        })
+        .catch((error) => {
+          Emitter.emit('notification', {
+            variant: 'warning',
+            title: error.response?.data?.error || 'Error Aborting Upload',
+            description: error.response?.data?.message || 'Failed to abort the upload process.',
+          });
         });
-      });
+    }
     resetSingleFileUploadPanel();
   };
 
-  const handleUploadFileConfirm = (_event: React.MouseEvent) => {
+  const handleUploadFileConfirm = async (_event: React.MouseEvent) => {
     if (!singleFileUploadValue || !selectedLocation || !locationId) {
       return;
     }
@@ -1038,27 +1097,56 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
       [singleFilename]: { loaded: 0 },
     }));
 
-    // Upload to storage progress feedback (backend-side progress)
-    const eventSource = new EventSource(`${config.backend_api_url}/objects/upload-progress/${base64Encode(fullPath)}`);
-    singleFileEventSource.current = eventSource;
+    const abortController = new AbortController();
+    abortUploadController.current = abortController;
 
-    eventSource.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      if (data.loaded !== 0 && data.status === 'uploading') {
-        updateS3Progress(singleFilename, Math.round((data.loaded / fileSize) * 100));
+    // Uploads to S3 through the backend go through an upload session, to follow their progress and abort them.
+    // Without one (it couldn't be created), the backend still uploads the file. Files uploaded straight to S3
+    // don't need one, unless they fall back to the backend.
+    const startUploadSession = async (): Promise<string | undefined> => {
+      const sessionId = await storageService.createUploadSession().catch(() => undefined);
+      if (!sessionId) {
+        return undefined;
+      }
+      if (abortController.signal.aborted) {
+        // Cancelled while the session was created
+        storageService.abortUpload(sessionId).catch(() => undefined);
+        return undefined;
       }
-      if (data.status === 'completed') {
-        console.log('Upload to storage completed');
+      singleFileUploadId.current = sessionId;
+
+      // Upload to storage progress feedback (backend-side progress)
+      const eventSource = new EventSource(`${config.backend_api_url}/objects/upload-progress/${sessionId}`);
+      singleFileEventSource.current = eventSource;
+
+      eventSource.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        if (data.loaded !== 0 && data.status === 'uploading') {
+          updateS3Progress(singleFilename, Math.round((data.loaded / fileSize) * 100));
+        }
+        if (data.status !== 'uploading') {
+          console.log('Upload to storage', data.status);
+          eventSource.close();
+          singleFileEventSource.current = null;
+          delete uploadToS3Percentages[singleFilename];
+        }
+      };
+
+      eventSource.onerror = () => {
         eventSource.close();
         singleFileEventSource.current = null;
-        delete uploadToS3Percentages[singleFilename];
-      }
+      };
+      return sessionId;
     };
 
-    eventSource.onerror = () => {
-      eventSource.close();
-      singleFileEventSource.current = null;
-    };
+    const uploadId =
+      selectedLocation.type === 's3' && !storageService.usesDirectUpload(locationId, fileSize)
+        ? await startUploadSession()
+        : undefined;
+    if (abortController.signal.aborted) {
+      // Cancelled in the meantime, the panel was already reset
+      return;
+    }
 
     // Upload using storageService with progress callback
     // Note: storageService handles base64 encoding internally for local storage
@@ -1067,6 +1155,13 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
         onProgress: (percentCompleted) => {
           updateProgress(singleFilename, percentCompleted);
         },
+        // Large files uploaded straight to S3
+        onStorageProgress: (percentCompleted) => {
+          updateS3Progress(singleFilename, percentCompleted);
+        },
+        signal: abortController.signal,
+        uploadId,
+        getUploadId: startUploadSession,
       })
       .then(() => {
         const oldFileName = singleFilename;
@@ -1088,6 +1183,10 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
         }
       })
       .catch((error) => {
+        if (axios.isCancel(error)) {
+          // Cancelled with the Cancel button, the panel was already reset
+          return;
+        }
         console.error('Error uploading file', error);
         Emitter.emit('notification', {
           variant: 'warning',
@@ -1329,37 +1428,46 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
 
     const fileSize = fullFile.size;
 
-    // Upload to storage progress feedback (backend-side progress)
-    const eventSource = new EventSource(`${config.backend_api_url}/objects/upload-progress/${base64Encode(fullPath)}`);
-    multiFileEventSources.current.set(fullPath, eventSource);
-
-    eventSource.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      if (data.loaded !== 0 && data.status === 'uploading') {
-        updateS3Progress(fullPath, Math.round((data.loaded / fileSize) * 100), data.status);
+    // Each upload to S3 has its own session (see handleUploadFileConfirm), files with the same name
+    // or uploaded by other users don't mix up their progress
+    let uploadId: string | undefined;
+    const startUploadSession = async (): Promise<string | undefined> => {
+      const sessionId = await storageService.createUploadSession().catch(() => undefined);
+      if (!sessionId) {
+        return undefined;
       }
-      if (data.status === 'completed') {
-        updateS3Progress(fullPath, 100, data.status);
-        // Close and remove this specific EventSource
+      uploadId = sessionId;
+
+      // Upload to storage progress feedback (backend-side progress)
+      const eventSource = new EventSource(`${config.backend_api_url}/objects/upload-progress/${sessionId}`);
+      multiFileEventSources.current.set(sessionId, eventSource);
+
+      eventSource.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        if (data.loaded !== 0 && data.status === 'uploading') {
+          updateS3Progress(fullPath, Math.round((data.loaded / fileSize) * 100), data.status);
+        }
+        if (data.status === 'completed') {
+          updateS3Progress(fullPath, 100, data.status);
+          // Note: File list will be refreshed after all uploads complete
+        }
+        if (data.status !== 'uploading') {
+          // Close and remove this specific EventSource
+          eventSource.close();
+          multiFileEventSources.current.delete(sessionId);
+        }
+      };
+
+      eventSource.onerror = () => {
         eventSource.close();
-        multiFileEventSources.current.delete(fullPath);
-        setUploadedFiles((prevUploadedFiles) => {
-          const fileExists = prevUploadedFiles.some(
-            (file) => file.path === fullFile.path && file.loadResult === 'success',
-          );
-          if (!fileExists) {
-            return [...prevUploadedFiles, { fileName: fullFile.name, loadResult: 'success', path: fullFile.path }];
-          }
-          return prevUploadedFiles;
-        });
-        // Note: File list will be refreshed after all uploads complete
-      }
+        multiFileEventSources.current.delete(sessionId);
+      };
+      return sessionId;
     };
 
-    eventSource.onerror = () => {
-      eventSource.close();
-      multiFileEventSources.current.delete(fullPath);
-    };
+    if (selectedLocation.type === 's3' && !storageService.usesDirectUpload(locationId, fileSize)) {
+      await startUploadSession();
+    }
 
     // Upload using storageService with progress callback
     // Note: storageService handles base64 encoding internally for local storage
@@ -1368,20 +1476,33 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
         onProgress: (percentCompleted) => {
           updateProgress(fullPath, percentCompleted);
         },
+        // Large files uploaded straight to S3, the EventSource doesn't report their progress
+        onStorageProgress: (percentCompleted) => {
+          updateS3Progress(fullPath, percentCompleted, 'uploading');
+        },
+        uploadId,
+        getUploadId: startUploadSession,
       })
       .then(() => {
-        // Track success for local/PVC uploads (EventSource doesn't fire completion for local storage)
-        if (selectedLocation?.type === 'local') {
-          setUploadedFiles((prevUploadedFiles) => {
-            const fileExists = prevUploadedFiles.some((f) => f.path === fullFile.path && f.loadResult === 'success');
-            if (!fileExists) {
-              return [...prevUploadedFiles, { fileName: fullFile.name, loadResult: 'success', path: fullFile.path }];
-            }
-            return prevUploadedFiles;
-          });
-
-          // Note: File list will be refreshed after all uploads complete
+        if (selectedLocation?.type === 's3') {
+          // The object is stored once the upload request completes, whether it went through the backend or not
+          if (uploadId) {
+            multiFileEventSources.current.get(uploadId)?.close();
+            multiFileEventSources.current.delete(uploadId);
+          }
+          updateS3Progress(fullPath, 100, 'completed');
         }
+
+        // Track success once the upload request completes, for all storage types
+        setUploadedFiles((prevUploadedFiles) => {
+          const fileExists = prevUploadedFiles.some((f) => f.path === fullFile.path && f.loadResult === 'success');
+          if (!fileExists) {
+            return [...prevUploadedFiles, { fileName: fullFile.name, loadResult: 'success', path: fullFile.path }];
+          }
+          return prevUploadedFiles;
+        });
+
+        // Note: File list will be refreshed after all uploads complete
       })
       .catch((error) => {
         console.error('Error uploading file', error);
@@ -1655,6 +1776,14 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
 
   // Import HF model handling
   const [modelName, setModelName] = React.useState('');
+  const [hfRepoType, setHfRepoType] = React.useState<'model' | 'dataset'>('model');
+  const [hfParquetConversion, setHfParquetConversion] = React.useState(false);
+  const [hfRevision, setHfRevision] = React.useState('');
+  const [hfAllowPatterns, setHfAllowPatterns] = React.useState('');
+  const [hfIgnorePatterns, setHfIgnorePatterns] = React.useState('');
+  const [hfPreview, setHfPreview] = React.useState<HfPreview | null>(null);
+  const [hfSelectedFiles, setHfSelectedFiles] = React.useState<Set<string>>(new Set());
+  const [isHfPreviewLoading, setIsHfPreviewLoading] = React.useState(false);
   const [isImportModelModalOpen, setIsImportModelModalOpen] = React.useState(false);
   const [modelFiles, setModelFiles] = React.useState<string[]>([]);
   const [currentImportJobId, setCurrentImportJobId] = React.useState<string | null>(null);
@@ -1669,6 +1798,13 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
   const handleImportModelClose = (_event: React.MouseEvent) => {
     setIsImportModelModalOpen(false);
     setModelName('');
+    setHfRepoType('model');
+    setHfParquetConversion(false);
+    setHfRevision('');
+    setHfAllowPatterns('');
+    setHfIgnorePatterns('');
+    setHfPreview(null);
+    setHfSelectedFiles(new Set());
     setModelFiles([]);
     setUploadToS3Percentages({});
   };
@@ -1709,30 +1845,121 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
     message?: string;
   }
 
+  const hfSelectedSize = hfPreview
+    ? hfPreview.files.reduce((total, file) => total + (hfSelectedFiles.has(file.path) ? file.size || 0 : 0), 0)
+    : 0;
+
+  // Capacity problems of the files selected in the preview
+  // Local storage refuses files over the size limit and imports larger than its free space
+  const hfIsLocalDestination = hfPreview !== null && hfPreview.capacity.availableSpace !== null;
+  const hfOversizedFiles = hfPreview
+    ? hfPreview.capacity.oversizedFiles.filter((filePath) => hfSelectedFiles.has(filePath))
+    : [];
+  const hfInsufficientSpace = hfIsLocalDestination && hfSelectedSize > (hfPreview?.capacity.availableSpace ?? 0);
+  const hfHasCapacityError = hfInsufficientSpace || (hfIsLocalDestination && hfOversizedFiles.length > 0);
+
   // Form validation for HF import
   const isHfFormValid = () => {
-    return modelName.trim() !== '';
+    return modelName.trim() !== '' && (!hfPreview || (hfSelectedFiles.size > 0 && !hfHasCapacityError));
+  };
+
+  // The file list no longer matches the form once the repository, revision, patterns or destination change
+  React.useEffect(() => {
+    setHfPreview(null);
+    setHfSelectedFiles(new Set());
+  }, [
+    modelName,
+    hfRepoType,
+    hfParquetConversion,
+    hfRevision,
+    hfAllowPatterns,
+    hfIgnorePatterns,
+    locationId,
+    currentPath,
+  ]);
+
+  // Destination of the HF import: the current location and path, the backend appends the repository ID
+  const getHfDestinationParams = () =>
+    selectedLocation?.type === 'local'
+      ? { destinationType: 'local', localLocationId: locationId, localPath: currentPath || '' }
+      : { destinationType: 's3', bucketName: locationId, prefix: currentPath || '' };
+
+  // Repository, revision and file patterns of the HF import or preview
+  const getHfRepoParams = () => {
+    const params: {
+      modelId: string;
+      repoType: 'model' | 'dataset';
+      parquetConversion?: boolean;
+      revision?: string;
+      allowPatterns?: string[];
+      ignorePatterns?: string[];
+    } = { modelId: modelName.trim(), repoType: hfRepoType };
+
+    if (hfRepoType === 'dataset' && hfParquetConversion) {
+      params.parquetConversion = true;
+    } else if (hfRevision.trim() !== '') {
+      params.revision = hfRevision.trim();
+    }
+
+    const allowPatterns = splitPatterns(hfAllowPatterns);
+    const ignorePatterns = splitPatterns(hfIgnorePatterns);
+    if (allowPatterns.length > 0) {
+      params.allowPatterns = allowPatterns;
+    }
+    if (ignorePatterns.length > 0) {
+      params.ignorePatterns = ignorePatterns;
+    }
+    return params;
+  };
+
+  const handleHfPreview = async () => {
+    setIsHfPreviewLoading(true);
+    try {
+      const response = await axios.post<HfPreview>(`${config.backend_api_url}/objects/huggingface-preview`, {
+        ...getHfRepoParams(),
+        ...getHfDestinationParams(),
+      });
+      setHfPreview(response.data);
+      setHfSelectedFiles(new Set(response.data.files.map((file) => file.path)));
+    } catch (error) {
+      console.error('HuggingFace preview failed:', error);
+      Emitter.emit('notification', {
+        variant: 'warning',
+        title: 'Preview failed',
+        description:
+          (axios.isAxiosError(error) && error.response?.data?.message) ||
+          `Failed to list the files of the ${hfRepoType}.`,
+      });
+    } finally {
+      setIsHfPreviewLoading(false);
+    }
+  };
+
+  const handleHfSelectFile = (filePath: string, isSelecting: boolean) => {
+    const selected = new Set(hfSelectedFiles);
+    if (isSelecting) {
+      selected.add(filePath);
+    } else {
+      selected.delete(filePath);
+    }
+    setHfSelectedFiles(selected);
   };
 
   // Transfer modal state
   const [isTransferModalOpen, setIsTransferModalOpen] = React.useState(false);
 
   const handleImportModelConfirm = async (_event: React.MouseEvent) => {
+    const repoLabel = hfRepoType === 'dataset' ? 'Dataset' : 'Model';
     try {
-      // Use current path as-is; backend will append the full modelId
-      const destinationPath = currentPath || '';
-
       const params: any = {
-        modelId: modelName,
-        destinationType: selectedLocation?.type || 's3',
+        ...getHfRepoParams(),
+        ...getHfDestinationParams(),
       };
 
-      if (selectedLocation?.type === 's3') {
-        params.bucketName = locationId;
-        params.prefix = destinationPath;
-      } else {
-        params.localLocationId = locationId;
-        params.localPath = destinationPath;
+      // Files unchecked in the preview are left out by only allowing the checked ones
+      if (hfPreview && hfSelectedFiles.size < hfPreview.files.length) {
+        params.allowPatterns = Array.from(hfSelectedFiles).map(escapeGlob);
+        delete params.ignorePatterns;
       }
 
       const response = await axios.post(`${config.backend_api_url}/objects/huggingface-import`, params);
@@ -1766,7 +1993,7 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
             console.error('Job error:', data.error);
             Emitter.emit('notification', {
               variant: 'warning',
-              title: 'Model import error',
+              title: `${repoLabel} import error`,
               description: data.error,
             });
             eventSource.close();
@@ -1800,7 +2027,7 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
                 if (error !== 'Cancelled by user') {
                   Emitter.emit('notification', {
                     variant: 'warning',
-                    title: 'Model file import error',
+                    title: `${repoLabel} file import error`,
                     description: `Error importing "${fileName}": ${error}`,
                   });
                 }
@@ -1825,8 +2052,8 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
 
               Emitter.emit('notification', {
                 variant: 'success',
-                title: 'Model imported',
-                description: `Model "${modelName}" has been successfully imported.`,
+                title: `${repoLabel} imported`,
+                description: `${repoLabel} "${modelName}" has been successfully imported.`,
               });
               handleImportModelClose(_event);
               // Refresh file browser to show imported model
@@ -1846,16 +2073,16 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
 
               Emitter.emit('notification', {
                 variant: 'warning',
-                title: 'Model import failed',
-                description: `Import of model "${modelName}" failed.`,
+                title: `${repoLabel} import failed`,
+                description: `Import of ${hfRepoType} "${modelName}" failed.`,
               });
             } else if (jobStatus === 'cancelled') {
               // Job was cancelled - don't clear jobId yet as we might need it for cleanup
               // It will be cleared after user makes cleanup decision
               Emitter.emit('notification', {
                 variant: 'info',
-                title: 'Model import cancelled',
-                description: `Import of model "${modelName}" was cancelled.`,
+                title: `${repoLabel} import cancelled`,
+                description: `Import of ${hfRepoType} "${modelName}" was cancelled.`,
               });
             }
           }
@@ -1904,15 +2131,22 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
 
       Emitter.emit('notification', {
         variant: 'success',
-        title: 'Model import started',
-        description: `Model "${modelName}" import has successfully started.`,
+        title: `${repoLabel} import started`,
+        description: `${repoLabel} "${modelName}" import has successfully started.`,
       });
+      if (response.data.warnings?.length > 0) {
+        Emitter.emit('notification', {
+          variant: 'warning',
+          title: `${repoLabel} import warning`,
+          description: response.data.warnings.join(' '),
+        });
+      }
     } catch (error: any) {
       console.error('HuggingFace import failed:', error);
       Emitter.emit('notification', {
         variant: 'warning',
-        title: 'Model import failed',
-        description: error.response?.data?.message || 'Failed to start model import.',
+        title: `${repoLabel} import failed`,
+        description: error.response?.data?.message || `Failed to start ${hfRepoType} import.`,
       });
     }
   };
@@ -2319,146 +2553,206 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
                 </ToolbarContent>
               </Toolbar>
             )}
-            <Card component="div">
-              <Table aria-label="Files list" isStickyHeader>
-                <Thead>
-                  <Tr>
-                    <Th
-                      screenReaderText="Select all"
-                      select={{
-                        onSelect: (_event, isSelecting) => handleSelectAll(isSelecting),
-                        isSelected:
-                          selectedItems.size > 0 &&
-                          selectedItems.size === (filteredFiles.length + filteredDirectories.length) &&
-                          (filteredFiles.length + filteredDirectories.length) > 0,
-                      }}
-                    />
-                    <Th width={30}>{columnNames.key}</Th>
-                    <Th width={10}>{columnNames.lastModified}</Th>
-                    <Th width={10}>{columnNames.size}</Th>
-                    <Th width={10} screenReaderText="Actions" />
-                  </Tr>
-                </Thead>
-                <Tbody>
-                  {filteredDirectories.map((dir, rowIndex) => (
-                    <Tr
-                      key={dir.path}
-                      className="bucket-row"
-                      isRowSelected={selectedItems.has(dir.path)}
-                      onRowClick={(event) => {
-                        if (event?.shiftKey) {
-                          handleShiftClick(dir.path);
-                        }
-                      }}
-                    >
-                      <Td
+            <ObjectDetailsDrawer
+              locationId={selectedLocation?.type === 's3' ? locationId : undefined}
+              objectKey={detailsKey}
+              onClose={() => setDetailsKey(null)}
+              onUpdated={() => {
+                if (selectedLocation && selectedLocation.available) {
+                  refreshFiles(selectedLocation, currentPath, null, false);
+                }
+              }}
+            >
+              <Card component="div">
+                <Table aria-label="Files list" isStickyHeader>
+                  <Thead>
+                    <Tr>
+                      <Th
+                        screenReaderText="Select all"
                         select={{
-                          rowIndex: rowIndex,
-                          onSelect: (_event, isSelecting) => handleSelectRow(dir.path, isSelecting),
-                          isSelected: selectedItems.has(dir.path),
+                          onSelect: (_event, isSelecting) => handleSelectAll(isSelecting),
+                          isSelected:
+                            selectedItems.size > 0 &&
+                            selectedItems.size === (filteredFiles.length + filteredDirectories.length) &&
+                            (filteredFiles.length + filteredDirectories.length) > 0,
                         }}
                       />
-                      <Td className="bucket-column">
-                        <Button variant="link" onClick={handlePathClick(dir.path)} className="button-folder-link">
-                          <FolderIcon className="folder-icon" />
-                          {dir.name}
-                        </Button>
-                      </Td>
-                      <Td className="bucket-column">{dir.modified ? new Date(dir.modified).toLocaleString() : '-'}</Td>
-                      <Td className="bucket-column">-</Td>
-                      <Td className="bucket-column align-right">
-                        <Button
-                          variant="danger"
-                          className="button-file-control"
-                          onClick={handleDeleteFolderClick(dir.path)}
-                        >
-                          <TrashIcon />
-                        </Button>
-                      </Td>
+                      <Th width={30}>{columnNames.key}</Th>
+                      <Th width={10}>{columnNames.lastModified}</Th>
+                      <Th width={10}>{columnNames.size}</Th>
+                      <Th width={10} screenReaderText="Actions" />
                     </Tr>
-                  ))}
-                </Tbody>
-                <Tbody>
-                  {filteredFiles.map((file, rowIndex) => (
-                    <Tr
-                      key={file.path}
-                      className="bucket-row"
-                      isRowSelected={selectedItems.has(file.path)}
-                      onRowClick={(event) => {
-                        if (event?.shiftKey) {
-                          handleShiftClick(file.path);
-                        }
-                      }}
-                    >
-                      <Td
-                        select={{
-                          rowIndex: rowIndex,
-                          onSelect: (_event, isSelecting) => handleSelectRow(file.path, isSelecting),
-                          isSelected: selectedItems.has(file.path),
+                  </Thead>
+                  <Tbody>
+                    {filteredDirectories.map((dir, rowIndex) => (
+                      <Tr
+                        key={dir.path}
+                        className="bucket-row"
+                        isRowSelected={selectedItems.has(dir.path)}
+                        onRowClick={(event) => {
+                          if (event?.shiftKey) {
+                            handleShiftClick(dir.path);
+                          }
                         }}
-                      />
-                      <Td className="bucket-column">
-                        <FileIcon className="file-icon" />
-                        {file.name}
-                      </Td>
-                      <Td className="bucket-column">
-                        {file.modified ? new Date(file.modified).toLocaleString() : '-'}
-                      </Td>
-                      <Td className="bucket-column">{file.size ? formatBytes(file.size) : '-'}</Td>
-                      <Td className="bucket-column align-right">
-                        <ToolbarContent>
-                          <ToolbarGroup
-                            variant="action-group-plain"
-                            align={{ default: 'alignEnd' }}
-                            gap={{ default: 'gapMd', md: 'gapMd' }}
+                      >
+                        <Td
+                          select={{
+                            rowIndex: rowIndex,
+                            onSelect: (_event, isSelecting) => handleSelectRow(dir.path, isSelecting),
+                            isSelected: selectedItems.has(dir.path),
+                          }}
+                        />
+                        <Td className="bucket-column">
+                          <Button variant="link" onClick={handlePathClick(dir.path)} className="button-folder-link">
+                            <FolderIcon className="folder-icon" />
+                            {dir.name}
+                          </Button>
+                        </Td>
+                        <Td className="bucket-column">
+                          {dir.modified ? new Date(dir.modified).toLocaleString() : '-'}
+                        </Td>
+                        <Td className="bucket-column">-</Td>
+                        <Td className="bucket-column align-right">
+                          <Button
+                            variant="danger"
+                            className="button-file-control"
+                            onClick={handleDeleteFolderClick(dir.path)}
                           >
-                            <ToolbarItem gap={{ default: 'gapLg' }}>
-                              <Tooltip content={<div>View this file.</div>}>
-                                <Button
-                                  variant="primary"
-                                  className="button-file-control"
-                                  isDisabled={!validateFileView(file.name, file.size || 0)}
-                                  onClick={
-                                    selectedLocation?.type === 'local'
-                                      ? handleLocalFileViewClick(file.path)
-                                      : handleObjectViewClick(file.path)
-                                  }
-                                >
-                                  <EyeIcon />
-                                </Button>
-                              </Tooltip>
-                            </ToolbarItem>
-                            <ToolbarItem gap={{ default: 'gapLg' }}>
-                              <Tooltip content={<div>Download this file.</div>}>
-                                <Button
-                                  variant="primary"
-                                  className="button-file-control"
-                                  onClick={() => handleFileDownload(file)}
-                                >
-                                  <DownloadIcon />
-                                </Button>
-                              </Tooltip>
-                            </ToolbarItem>
-                            <ToolbarItem variant="separator" />
-                            <ToolbarItem>
-                              <Tooltip content={<div>Delete this file.</div>}>
-                                <Button
-                                  variant="danger"
-                                  className="button-file-control"
-                                  onClick={handleDeleteFileClick(file.path)}
-                                >
-                                  <TrashIcon />
-                                </Button>
-                              </Tooltip>
-                            </ToolbarItem>
-                          </ToolbarGroup>
-                        </ToolbarContent>
-                      </Td>
-                    </Tr>
-                  ))}
-                </Tbody>
-              </Table>
-            </Card>
+                            <TrashIcon />
+                          </Button>
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                  <Tbody>
+                    {filteredFiles.map((file, rowIndex) => (
+                      <Tr
+                        key={file.path}
+                        className="bucket-row"
+                        isRowSelected={selectedItems.has(file.path)}
+                        onRowClick={(event) => {
+                          if (event?.shiftKey) {
+                            handleShiftClick(file.path);
+                          }
+                        }}
+                      >
+                        <Td
+                          select={{
+                            rowIndex: rowIndex,
+                            onSelect: (_event, isSelecting) => handleSelectRow(file.path, isSelecting),
+                            isSelected: selectedItems.has(file.path),
+                          }}
+                        />
+                        <Td className="bucket-column">
+                          <FileIcon className="file-icon" />
+                          {file.name}
+                          {isModelManifestFile(file.name) && (
+                            <Label isCompact color="blue" className="manifest-label">
+                              Manifest
+                            </Label>
+                          )}
+                        </Td>
+                        <Td className="bucket-column">
+                          {file.modified ? new Date(file.modified).toLocaleString() : '-'}
+                        </Td>
+                        <Td className="bucket-column">{file.size ? formatBytes(file.size) : '-'}</Td>
+                        <Td className="bucket-column align-right">
+                          <ToolbarContent>
+                            <ToolbarGroup
+                              variant="action-group-plain"
+                              align={{ default: 'alignEnd' }}
+                              gap={{ default: 'gapMd', md: 'gapMd' }}
+                            >
+                              <ToolbarItem gap={{ default: 'gapLg' }}>
+                                <Tooltip content={<div>View this file.</div>}>
+                                  <Button
+                                    variant="primary"
+                                    className="button-file-control"
+                                    isDisabled={!validateFileView(file.name, file.size || 0)}
+                                    onClick={
+                                      selectedLocation?.type === 'local'
+                                        ? handleLocalFileViewClick(file.path)
+                                        : handleObjectViewClick(file.path)
+                                    }
+                                  >
+                                    <EyeIcon />
+                                  </Button>
+                                </Tooltip>
+                              </ToolbarItem>
+                              <ToolbarItem gap={{ default: 'gapLg' }}>
+                                <Tooltip content={<div>Download this file.</div>}>
+                                  <Button
+                                    variant="primary"
+                                    className="button-file-control"
+                                    onClick={() => handleFileDownload(file)}
+                                  >
+                                    <DownloadIcon />
+                                  </Button>
+                                </Tooltip>
+                              </ToolbarItem>
+                              {selectedLocation?.type === 's3' && (
+                                <ToolbarItem gap={{ default: 'gapLg' }}>
+                                  <Tooltip content={<div>Show and edit the metadata and tags of this file.</div>}>
+                                    <Button
+                                      variant="secondary"
+                                      className="button-file-control"
+                                      aria-label="Details"
+                                      onClick={() => setDetailsKey(file.path)}
+                                    >
+                                      <InfoCircleIcon />
+                                    </Button>
+                                  </Tooltip>
+                                </ToolbarItem>
+                              )}
+                              {selectedLocation?.type === 's3' && (
+                                <ToolbarItem gap={{ default: 'gapLg' }}>
+                                  <Tooltip content={<div>Browse and restore the versions of this file.</div>}>
+                                    <Button
+                                      variant="secondary"
+                                      className="button-file-control"
+                                      aria-label="Versions"
+                                      onClick={() => setVersionsKey(file.path)}
+                                    >
+                                      <HistoryIcon />
+                                    </Button>
+                                  </Tooltip>
+                                </ToolbarItem>
+                              )}
+                              {selectedLocation?.type === 's3' && (
+                                <ToolbarItem gap={{ default: 'gapLg' }}>
+                                  <Tooltip content={<div>Copy a temporary download link to this file.</div>}>
+                                    <Button
+                                      variant="secondary"
+                                      className="button-file-control"
+                                      aria-label="Copy share link"
+                                      onClick={() => setShareKey(file.path)}
+                                    >
+                                      <LinkIcon />
+                                    </Button>
+                                  </Tooltip>
+                                </ToolbarItem>
+                              )}
+                              <ToolbarItem variant="separator" />
+                              <ToolbarItem>
+                                <Tooltip content={<div>Delete this file.</div>}>
+                                  <Button
+                                    variant="danger"
+                                    className="button-file-control"
+                                    onClick={handleDeleteFileClick(file.path)}
+                                  >
+                                    <TrashIcon />
+                                  </Button>
+                                </Tooltip>
+                              </ToolbarItem>
+                            </ToolbarGroup>
+                          </ToolbarContent>
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Card>
+            </ObjectDetailsDrawer>
             {/* Pagination Controls */}
             {isTruncated && !serverSearchActive && (
               <Flex direction={{ default: 'row' }} style={{ marginTop: 'var(--pf-t--global--spacer--md)' }}>
@@ -2527,6 +2821,22 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
           </FlexItem>
         </Flex>
       </PageSection>
+      {locationId && versionsKey !== null && (
+        <ObjectVersions
+          isOpen
+          locationId={locationId}
+          objectKey={versionsKey}
+          onClose={() => setVersionsKey(null)}
+          onRestored={() => {
+            if (selectedLocation && selectedLocation.available) {
+              refreshFiles(selectedLocation, currentPath, null, false);
+            }
+          }}
+        />
+      )}
+      {locationId && shareKey !== null && (
+        <ShareLink isOpen locationId={locationId} objectKey={shareKey} onClose={() => setShareKey(null)} />
+      )}
       <Modal
         isOpen={isFileViewerOpen}
         onClose={handleFileViewerToggle}
@@ -2742,7 +3052,7 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
         onClose={handleImportModelModalToggle}
         ouiaId="ImportModelModal"
       >
-        <ModalHeader title="Import a model from Hugging Face" />
+        <ModalHeader title={`Import a ${hfRepoType} from Hugging Face`} />
         <ModalBody>
           <Form
             onSubmit={(event) => {
@@ -2752,14 +3062,32 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
               }
             }}
           >
-            <FormGroup label="Model ID" isRequired fieldId="model-name">
+            <FormGroup label="Repository type" fieldId="hf-repo-type">
+              <ToggleGroup aria-label="HuggingFace repository type">
+                <ToggleGroupItem
+                  text="Model"
+                  buttonId="hf-repo-type-model"
+                  isSelected={hfRepoType === 'model'}
+                  isDisabled={currentImportJobId !== null}
+                  onChange={() => setHfRepoType('model')}
+                />
+                <ToggleGroupItem
+                  text="Dataset"
+                  buttonId="hf-repo-type-dataset"
+                  isSelected={hfRepoType === 'dataset'}
+                  isDisabled={currentImportJobId !== null}
+                  onChange={() => setHfRepoType('dataset')}
+                />
+              </ToggleGroup>
+            </FormGroup>
+            <FormGroup label={hfRepoType === 'dataset' ? 'Dataset ID' : 'Model ID'} isRequired fieldId="model-name">
               <TextInput
                 isRequired
                 type="text"
                 id="model-name"
                 name="model-name"
                 aria-describedby="model-name-helper"
-                placeholder="e.g., meta-llama/Llama-2-7b-hf"
+                placeholder={hfRepoType === 'dataset' ? 'e.g., openai/gsm8k' : 'e.g., meta-llama/Llama-2-7b-hf'}
                 value={modelName}
                 onChange={(_event, modelName) => setModelName(modelName)}
                 onKeyDown={(event) => {
@@ -2774,12 +3102,141 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
               <FormHelperText>
                 <HelperText>
                   <HelperTextItem>
-                    Enter the HuggingFace model repository ID. Model will be imported to the current location.
+                    Enter the HuggingFace {hfRepoType} repository ID. The {hfRepoType} will be imported to the current
+                    location.
+                  </HelperTextItem>
+                </HelperText>
+              </FormHelperText>
+            </FormGroup>
+            {hfRepoType === 'dataset' && (
+              <FormGroup fieldId="hf-parquet-conversion">
+                <Checkbox
+                  id="hf-parquet-conversion"
+                  label="Import the Parquet conversion"
+                  description="Import the Parquet files generated by the Hugging Face dataset viewer (refs/convert/parquet) instead of the original files."
+                  isChecked={hfParquetConversion}
+                  isDisabled={currentImportJobId !== null}
+                  onChange={(_event, checked) => setHfParquetConversion(checked)}
+                />
+              </FormGroup>
+            )}
+            {!(hfRepoType === 'dataset' && hfParquetConversion) && (
+              <FormGroup label="Revision" fieldId="hf-revision">
+                <TextInput
+                  type="text"
+                  id="hf-revision"
+                  name="hf-revision"
+                  placeholder="main"
+                  value={hfRevision}
+                  isDisabled={currentImportJobId !== null}
+                  onChange={(_event, revision) => setHfRevision(revision)}
+                />
+                <FormHelperText>
+                  <HelperText>
+                    <HelperTextItem>Branch, tag or commit to import. Defaults to main.</HelperTextItem>
+                  </HelperText>
+                </FormHelperText>
+              </FormGroup>
+            )}
+            <FormGroup label="Include files" fieldId="hf-allow-patterns">
+              <TextInput
+                type="text"
+                id="hf-allow-patterns"
+                name="hf-allow-patterns"
+                placeholder="e.g., *.json, *Q4_K_M.gguf"
+                value={hfAllowPatterns}
+                isDisabled={currentImportJobId !== null}
+                onChange={(_event, patterns) => setHfAllowPatterns(patterns)}
+              />
+              <FormHelperText>
+                <HelperText>
+                  <HelperTextItem>
+                    Comma-separated glob patterns. Only matching files are imported, all files if empty.
                   </HelperTextItem>
                 </HelperText>
               </FormHelperText>
             </FormGroup>
+            <FormGroup label="Exclude files" fieldId="hf-ignore-patterns">
+              <TextInput
+                type="text"
+                id="hf-ignore-patterns"
+                name="hf-ignore-patterns"
+                placeholder="e.g., *.bin, original/"
+                value={hfIgnorePatterns}
+                isDisabled={currentImportJobId !== null}
+                onChange={(_event, patterns) => setHfIgnorePatterns(patterns)}
+              />
+              <FormHelperText>
+                <HelperText>
+                  <HelperTextItem>Comma-separated glob patterns. Matching files are not imported.</HelperTextItem>
+                </HelperText>
+              </FormHelperText>
+            </FormGroup>
           </Form>
+          {hfPreview && modelFiles.length === 0 && (
+            <>
+              <Content component={ContentVariants.p}>
+                {hfSelectedFiles.size} of {hfPreview.files.length} files selected ({formatBytes(hfSelectedSize)})
+                {hfPreview.sha && ` at commit ${hfPreview.sha.substring(0, 12)}`}
+                {hfPreview.capacity.availableSpace !== null &&
+                  `, ${formatBytes(hfPreview.capacity.availableSpace)} available at the destination`}
+              </Content>
+              {hfInsufficientSpace && (
+                <Alert variant="danger" isInline isPlain title="Not enough space at the destination" />
+              )}
+              {hfOversizedFiles.length > 0 && (
+                <Alert
+                  variant={hfIsLocalDestination ? 'danger' : 'warning'}
+                  isInline
+                  isPlain
+                  title={`${hfOversizedFiles.length} selected file(s) exceed the ${formatBytes(
+                    hfPreview.capacity.maxFileSize,
+                  )} file size limit`}
+                />
+              )}
+              {hfPreview.capacity.unknownSizeFiles > 0 && (
+                <Alert
+                  variant="warning"
+                  isInline
+                  isPlain
+                  title={`The size of ${hfPreview.capacity.unknownSizeFiles} file(s) is unknown`}
+                />
+              )}
+              <div className="hf-preview-files">
+                <Table aria-label="HuggingFace files" variant="compact">
+                  <Thead>
+                    <Tr>
+                      <Th
+                        screenReaderText="Select all"
+                        select={{
+                          onSelect: (_event, isSelecting) =>
+                            setHfSelectedFiles(new Set(isSelecting ? hfPreview.files.map((file) => file.path) : [])),
+                          isSelected: hfPreview.files.length > 0 && hfSelectedFiles.size === hfPreview.files.length,
+                        }}
+                      />
+                      <Th>File</Th>
+                      <Th>Size</Th>
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {hfPreview.files.map((file, rowIndex) => (
+                      <Tr key={file.path}>
+                        <Td
+                          select={{
+                            rowIndex: rowIndex,
+                            onSelect: (_event, isSelecting) => handleHfSelectFile(file.path, isSelecting),
+                            isSelected: hfSelectedFiles.has(file.path),
+                          }}
+                        />
+                        <Td dataLabel="File">{file.path}</Td>
+                        <Td dataLabel="Size">{file.size !== null ? formatBytes(file.size) : '-'}</Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </div>
+            </>
+          )}
           <Flex direction={{ default: 'column' }} className="upload-bars">
             {modelFiles.map((file) => (
               <FlexItem key={file}>
@@ -2803,6 +3260,15 @@ const StorageBrowser: React.FC<StorageBrowserProps> = () => {
           >
             Import
           </Button>
+          <Button
+            key="preview"
+            variant="secondary"
+            onClick={handleHfPreview}
+            isLoading={isHfPreviewLoading}
+            isDisabled={modelName.trim() === '' || isHfPreviewLoading || currentImportJobId !== null}
+          >
+            Preview files
+          </Button>
           {currentImportJobId !== null && (
             <Button key="cancel-import" variant="danger" onClick={handleCancelImport}>
               Cancel Import
@@ -33,7 +33,7 @@ export const loadBuckets = (bucketName: string, navigate: NavigateFunction, setB
                     if (defaultBucket !== '')
                         navigate(`/browse/${defaultBucket}`);
                     else {
-                        navigate(`/browse/${buckets[0].Name}`);
+                        navigate(`/browse/${buckets[0].locationId || buckets[0].Name}`);
                     }
                 }
             } else {
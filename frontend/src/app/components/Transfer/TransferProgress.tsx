@@ -4,6 +4,8 @@ import {
   Card,
   CardBody,
   CardTitle,
+  Content,
+  ContentVariants,
   Flex,
   FlexItem,
   Label,
@@ -14,7 +16,7 @@ import {
   Progress,
 } from '@patternfly/react-core';
 import * as React from 'react';
-import { storageService } from '@app/services/storageService';
+import { TransferFileChecksum, storageService } from '@app/services/storageService';
 import Emitter from '@app/utils/emitter';
 import { formatBytes } from '@app/utils/format';
 
@@ -35,7 +37,7 @@ interface TransferProgressProps {
 // Interface for the SSE event data from backend (job-level updates)
 interface JobProgressEvent {
   jobId: string;
-  status: 'active' | 'completed' | 'failed' | 'cancelled';
+  status: 'queued' | 'active' | 'paused' | 'completed' | 'failed' | 'cancelled';
   progress: {
     totalFiles: number;
     completedFiles: number;
@@ -48,6 +50,7 @@ interface JobProgressEvent {
     total: number;
     status: 'queued' | 'transferring' | 'completed' | 'error';
     error?: string;
+    checksum?: TransferFileChecksum;
   }>;
 }
 
@@ -58,6 +61,7 @@ interface TransferEvent {
   loaded?: number;
   total?: number;
   error?: string;
+  checksum?: TransferFileChecksum;
 }
 
 export const TransferProgress: React.FC<TransferProgressProps> = ({
@@ -68,9 +72,13 @@ export const TransferProgress: React.FC<TransferProgressProps> = ({
   originalItems = [],
 }) => {
   const [transfers, setTransfers] = React.useState<Map<string, TransferEvent>>(new Map());
-  const [jobStatus, setJobStatus] = React.useState<'active' | 'completed' | 'failed' | 'cancelled'>(
+  const [jobStatus, setJobStatus] = React.useState<'active' | 'paused' | 'completed' | 'failed' | 'cancelled'>(
     'active',
   );
+  // Incremented to reconnect to progress updates after the job is restarted (retry)
+  const [connectionKey, setConnectionKey] = React.useState(0);
+  const [isRetrying, setIsRetrying] = React.useState(false);
+  const [isPausing, setIsPausing] = React.useState(false);
 
   // Calculate selection summary with expanded file count
   // Uses React.useMemo to recalculate when transfers update (reactive to SSE events)
@@ -123,11 +131,19 @@ export const TransferProgress: React.FC<TransferProgressProps> = ({
               loaded: fileData.loaded,
               total: fileData.total,
               error: fileData.error,
+              checksum: fileData.checksum,
             });
           });
           return newTransfers;
         });
 
+        // Track pause/resume (the connection stays open while paused)
+        if (data.status === 'paused') {
+          setJobStatus('paused');
+        } else if (data.status === 'queued' || data.status === 'active') {
+          setJobStatus('active');
+        }
+
         // Close connection when job reaches terminal state
         if (data.status === 'completed' || data.status === 'failed' || data.status === 'cancelled') {
           console.log('[TransferProgress] Job finished with status:', data.status);
@@ -182,11 +198,11 @@ export const TransferProgress: React.FC<TransferProgressProps> = ({
       console.log('[TransferProgress] Closing SSE connection');
       eventSource.close();
     };
-  }, [sseUrl, jobId]);
+  }, [sseUrl, jobId, connectionKey]);
 
   const handleCancel = async () => {
-    // Only attempt to cancel if job is still active
-    if (jobId && jobStatus === 'active') {
+    // Only attempt to cancel if job is still running (or paused)
+    if (jobId && (jobStatus === 'active' || jobStatus === 'paused')) {
       try {
         await storageService.cancelTransfer(jobId);
         Emitter.emit('notification', {
@@ -207,6 +223,56 @@ export const TransferProgress: React.FC<TransferProgressProps> = ({
     onClose();
   };
 
+  const handlePauseResume = async () => {
+    if (!jobId) return;
+
+    const isPaused = jobStatus === 'paused';
+    setIsPausing(true);
+    try {
+      if (isPaused) {
+        await storageService.resumeTransfer(jobId);
+        setJobStatus('active');
+      } else {
+        await storageService.pauseTransfer(jobId);
+        setJobStatus('paused');
+      }
+    } catch (error) {
+      console.error(`Failed to ${isPaused ? 'resume' : 'pause'} transfer:`, error);
+      Emitter.emit('notification', {
+        variant: 'danger',
+        title: `Failed to ${isPaused ? 'resume' : 'pause'} transfer`,
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsPausing(false);
+    }
+  };
+
+  const handleRetry = async () => {
+    if (!jobId) return;
+
+    setIsRetrying(true);
+    try {
+      const { retriedFiles } = await storageService.retryTransfer(jobId);
+      Emitter.emit('notification', {
+        variant: 'info',
+        title: 'Retrying transfer',
+        description: `Retrying ${retriedFiles} failed file(s)`,
+      });
+      setJobStatus('active');
+      setConnectionKey((key) => key + 1);
+    } catch (error) {
+      console.error('Failed to retry transfer:', error);
+      Emitter.emit('notification', {
+        variant: 'danger',
+        title: 'Failed to retry transfer',
+        description: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
   // Calculate total bytes by aggregating all transfers
   const totalBytes = Array.from(transfers.values()).reduce((sum, t) => sum + (t.total || 0), 0);
   const transferredBytes = Array.from(transfers.values()).reduce(
@@ -240,6 +306,11 @@ export const TransferProgress: React.FC<TransferProgressProps> = ({
             <div style={{ marginTop: '0.5rem', display: 'flex', justifyContent: 'space-between' }}>
               <span>
                 {completedFiles} / {totalFiles} files
+                {jobStatus === 'paused' && (
+                  <Label color="orange" style={{ marginLeft: '0.5rem' }}>
+                    Paused
+                  </Label>
+                )}
                 {failedFiles > 0 && (
                   <Label color="red" style={{ marginLeft: '0.5rem' }}>
                     {failedFiles} failed
@@ -282,6 +353,12 @@ export const TransferProgress: React.FC<TransferProgressProps> = ({
                   {transfer.error}
                 </Alert>
               )}
+              {transfer.checksum && (
+                <Content component={ContentVariants.small}>
+                  {transfer.checksum.algorithm.toUpperCase()} verified against{' '}
+                  {transfer.checksum.verifiedAgainst === 'etag' ? 'the S3 ETag' : 'the destination'}
+                </Content>
+              )}
             </CardBody>
           </Card>
         ))}
@@ -293,14 +370,26 @@ export const TransferProgress: React.FC<TransferProgressProps> = ({
         )}
       </ModalBody>
       <ModalFooter>
-        {jobStatus === 'active' ? (
-          <Button variant="danger" onClick={handleCancel}>
-            Cancel Transfer
-          </Button>
+        {jobStatus === 'active' || jobStatus === 'paused' ? (
+          <>
+            <Button variant="secondary" onClick={handlePauseResume} isLoading={isPausing} isDisabled={isPausing}>
+              {jobStatus === 'paused' ? 'Resume' : 'Pause'}
+            </Button>
+            <Button variant="danger" onClick={handleCancel}>
+              Cancel Transfer
+            </Button>
+          </>
         ) : (
-          <Button variant="primary" onClick={handleCancel}>
-            Close
-          </Button>
+          <>
+            {jobStatus === 'failed' && failedFiles > 0 && (
+              <Button variant="secondary" onClick={handleRetry} isLoading={isRetrying} isDisabled={isRetrying}>
+                Retry failed
+              </Button>
+            )}
+            <Button variant="primary" onClick={handleCancel}>
+              Close
+            </Button>
+          </>
         )}
       </ModalFooter>
     </Modal>
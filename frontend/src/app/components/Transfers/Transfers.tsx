@@ -0,0 +1,350 @@
+import * as React from 'react';
+import {
+  Button,
+  Card,
+  Content,
+  ContentVariants,
+  Flex,
+  FlexItem,
+  Label,
+  PageSection,
+  Progress,
+  ProgressSize,
+  ProgressVariant,
+  ToggleGroup,
+  ToggleGroupItem,
+} from '@patternfly/react-core';
+import { ExpandableRowContent, Table, Tbody, Td, Th, Thead, Tr } from '@patternfly/react-table';
+import { SyncIcon } from '@patternfly/react-icons';
+import {
+  TransferJobDetails,
+  TransferJobStatus,
+  TransferJobSummary,
+  TransferJobType,
+  storageService,
+} from '@app/services/storageService';
+import Emitter from '@app/utils/emitter';
+import { formatBytes } from '@app/utils/format';
+
+// Jobs are kept in memory by the backend, polling the list is cheap
+const POLL_INTERVAL_MS = 3000;
+
+type StatusFilter = 'all' | 'in-progress' | 'completed' | 'failed' | 'cancelled';
+
+const statusFilters: Record<StatusFilter, { label: string; status?: TransferJobStatus[] }> = {
+  all: { label: 'All' },
+  'in-progress': { label: 'In progress', status: ['queued', 'active', 'paused'] },
+  completed: { label: 'Completed', status: ['completed'] },
+  failed: { label: 'Failed', status: ['failed'] },
+  cancelled: { label: 'Cancelled', status: ['cancelled'] },
+};
+
+type LabelColor = 'grey' | 'blue' | 'orange' | 'green' | 'red';
+
+const statusLabels: Record<TransferJobStatus, { label: string; color: LabelColor }> = {
+  queued: { label: 'Queued', color: 'grey' },
+  active: { label: 'Active', color: 'blue' },
+  paused: { label: 'Paused', color: 'orange' },
+  completed: { label: 'Completed', color: 'green' },
+  failed: { label: 'Failed', color: 'red' },
+  cancelled: { label: 'Cancelled', color: 'grey' },
+};
+
+const typeLabels: Record<TransferJobType, string> = {
+  's3-upload': 'S3 upload',
+  's3-download': 'S3 download',
+  'local-upload': 'Local upload',
+  'cross-storage': 'Storage transfer',
+  huggingface: 'HuggingFace import',
+  'url-import': 'URL import',
+};
+
+const columnNames = {
+  job: 'Transfer',
+  type: 'Type',
+  status: 'Status',
+  progress: 'Progress',
+  created: 'Started',
+};
+
+/**
+ * Per-file state of a job, shown when its row is expanded
+ * Reloaded whenever the job summary reports new progress.
+ */
+const TransferJobFiles: React.FunctionComponent<{ job: TransferJobSummary }> = ({ job }) => {
+  const [details, setDetails] = React.useState<TransferJobDetails | null>(null);
+
+  React.useEffect(() => {
+    storageService
+      .getTransfer(job.jobId)
+      .then(setDetails)
+      .catch((error) => {
+        console.error(`Failed to load files of transfer ${job.jobId}:`, error);
+      });
+  }, [job.jobId, job.status, job.progress.loadedBytes, job.progress.completedFiles, job.progress.failedFiles]);
+
+  if (!details) {
+    return <Content component={ContentVariants.p}>Loading files...</Content>;
+  }
+
+  return (
+    <Table aria-label={`Files of transfer ${job.jobId}`} variant="compact">
+      <Thead>
+        <Tr>
+          <Th width={50}>File</Th>
+          <Th width={20}>Size</Th>
+          <Th width={10}>Status</Th>
+          <Th width={20}>Error</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {details.files.map((file) => (
+          <Tr key={file.destinationPath}>
+            <Td dataLabel="File">{file.destinationPath}</Td>
+            <Td dataLabel="Size">
+              {file.status === 'transferring'
+                ? `${formatBytes(file.loaded)} / ${formatBytes(file.size)}`
+                : formatBytes(file.size)}
+            </Td>
+            <Td dataLabel="Status">
+              {file.status === 'error' ? (
+                <Label color="red">Error</Label>
+              ) : file.status === 'completed' ? (
+                <Label color="green">Complete</Label>
+              ) : file.status === 'queued' ? (
+                <Label color="grey">Queued</Label>
+              ) : (
+                <Label color="blue">Transferring</Label>
+              )}
+            </Td>
+            <Td dataLabel="Error">{file.error || '-'}</Td>
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  );
+};
+
+const Transfers: React.FunctionComponent = () => {
+  const [jobs, setJobs] = React.useState<TransferJobSummary[]>([]);
+  const [statusFilter, setStatusFilter] = React.useState<StatusFilter>('all');
+  const [isRefreshing, setIsRefreshing] = React.useState(false);
+  const [expandedJobIds, setExpandedJobIds] = React.useState<string[]>([]);
+  const [busyJobId, setBusyJobId] = React.useState<string | null>(null);
+
+  const fetchJobs = React.useCallback(async () => {
+    try {
+      setJobs(await storageService.listTransfers({ status: statusFilters[statusFilter].status }));
+    } catch (error) {
+      console.error('Failed to load transfers:', error);
+    }
+  }, [statusFilter]);
+
+  React.useEffect(() => {
+    fetchJobs();
+    const interval = setInterval(fetchJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchJobs]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await fetchJobs();
+    setIsRefreshing(false);
+  };
+
+  const toggleExpanded = (jobId: string) => {
+    setExpandedJobIds((prev) => (prev.includes(jobId) ? prev.filter((id) => id !== jobId) : [...prev, jobId]));
+  };
+
+  const runJobAction =
+    (jobId: string, actionLabel: string, action: (jobId: string) => Promise<unknown>) => async () => {
+      setBusyJobId(jobId);
+      try {
+        await action(jobId);
+        await fetchJobs();
+      } catch (error) {
+        Emitter.emit('notification', {
+          variant: 'warning',
+          title: `Failed to ${actionLabel} transfer`,
+          description: error instanceof Error ? error.message : 'An unknown error occurred',
+        });
+      } finally {
+        setBusyJobId(null);
+      }
+    };
+
+  const renderActions = (job: TransferJobSummary) => {
+    const isBusy = busyJobId === job.jobId;
+
+    return (
+      <Flex spaceItems={{ default: 'spaceItemsSm' }} justifyContent={{ default: 'justifyContentFlexEnd' }}>
+        {(job.status === 'queued' || job.status === 'active') && (
+          <FlexItem>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={runJobAction(job.jobId, 'pause', (jobId) => storageService.pauseTransfer(jobId))}
+              isDisabled={isBusy}
+            >
+              Pause
+            </Button>
+          </FlexItem>
+        )}
+        {job.status === 'paused' && (
+          <FlexItem>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={runJobAction(job.jobId, 'resume', (jobId) => storageService.resumeTransfer(jobId))}
+              isDisabled={isBusy}
+            >
+              Resume
+            </Button>
+          </FlexItem>
+        )}
+        {job.status === 'failed' && job.progress.failedFiles > 0 && (
+          <FlexItem>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={runJobAction(job.jobId, 'retry', (jobId) => storageService.retryTransfer(jobId))}
+              isDisabled={isBusy}
+            >
+              Retry failed
+            </Button>
+          </FlexItem>
+        )}
+        {(job.status === 'queued' || job.status === 'active' || job.status === 'paused') && (
+          <FlexItem>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={runJobAction(job.jobId, 'cancel', (jobId) => storageService.cancelTransfer(jobId))}
+              isDisabled={isBusy}
+            >
+              Cancel
+            </Button>
+          </FlexItem>
+        )}
+      </Flex>
+    );
+  };
+
+  return (
+    <div className="transfers-list">
+      <PageSection hasBodyWrapper={false}>
+        <Content>
+          <Content component={ContentVariants.h1}>Transfers</Content>
+        </Content>
+      </PageSection>
+      <PageSection hasBodyWrapper={false}>
+        <Flex>
+          <FlexItem>
+            <ToggleGroup aria-label="Filter transfers by status">
+              {(Object.keys(statusFilters) as StatusFilter[]).map((filter) => (
+                <ToggleGroupItem
+                  key={filter}
+                  text={statusFilters[filter].label}
+                  buttonId={`transfers-filter-${filter}`}
+                  isSelected={statusFilter === filter}
+                  onChange={() => setStatusFilter(filter)}
+                />
+              ))}
+            </ToggleGroup>
+          </FlexItem>
+          <FlexItem align={{ default: 'alignRight' }}>
+            <Button
+              variant="secondary"
+              onClick={handleRefresh}
+              isLoading={isRefreshing}
+              isDisabled={isRefreshing}
+              icon={<SyncIcon />}
+              aria-label="Refresh transfers"
+            >
+              Refresh
+            </Button>
+          </FlexItem>
+        </Flex>
+      </PageSection>
+      <PageSection hasBodyWrapper={false}>
+        <Card component="div">
+          <Table aria-label="Transfers list" isStickyHeader>
+            <Thead>
+              <Tr>
+                <Th screenReaderText="Expand" />
+                <Th width={30}>{columnNames.job}</Th>
+                <Th width={10}>{columnNames.type}</Th>
+                <Th width={10}>{columnNames.status}</Th>
+                <Th width={20}>{columnNames.progress}</Th>
+                <Th width={10}>{columnNames.created}</Th>
+                <Th width={20} screenReaderText="Actions" />
+              </Tr>
+            </Thead>
+            {jobs.map((job, rowIndex) => {
+              const isExpanded = expandedJobIds.includes(job.jobId);
+              const otherFiles = job.progress.totalFiles - 1;
+
+              return (
+                <Tbody key={job.jobId} isExpanded={isExpanded}>
+                  <Tr>
+                    <Td
+                      expand={{
+                        rowIndex,
+                        isExpanded,
+                        onToggle: () => toggleExpanded(job.jobId),
+                        expandId: 'transfer-job-expandable',
+                      }}
+                    />
+                    <Td dataLabel={columnNames.job}>
+                      <div>{job.sourcePath || job.jobId}</div>
+                      {job.destinationPath && <div>&rarr; {job.destinationPath}</div>}
+                      {otherFiles > 0 && (
+                        <Content component={ContentVariants.small}>
+                          and {otherFiles} more file{otherFiles > 1 ? 's' : ''}
+                        </Content>
+                      )}
+                    </Td>
+                    <Td dataLabel={columnNames.type}>{typeLabels[job.type] || job.type}</Td>
+                    <Td dataLabel={columnNames.status}>
+                      <Label color={statusLabels[job.status].color}>{statusLabels[job.status].label}</Label>
+                    </Td>
+                    <Td dataLabel={columnNames.progress}>
+                      <Progress
+                        value={job.progress.percentage}
+                        title={`${formatBytes(job.progress.loadedBytes)} / ${formatBytes(job.progress.totalBytes)}`}
+                        size={ProgressSize.sm}
+                        variant={
+                          job.status === 'failed'
+                            ? ProgressVariant.danger
+                            : job.status === 'completed'
+                              ? ProgressVariant.success
+                              : undefined
+                        }
+                      />
+                    </Td>
+                    <Td dataLabel={columnNames.created}>{new Date(job.createdAt).toLocaleString()}</Td>
+                    <Td dataLabel="Actions">{renderActions(job)}</Td>
+                  </Tr>
+                  <Tr isExpanded={isExpanded}>
+                    <Td colSpan={7}>
+                      <ExpandableRowContent>{isExpanded && <TransferJobFiles job={job} />}</ExpandableRowContent>
+                    </Td>
+                  </Tr>
+                </Tbody>
+              );
+            })}
+            {jobs.length === 0 && (
+              <Tbody>
+                <Tr>
+                  <Td colSpan={7}>No transfers</Td>
+                </Tr>
+              </Tbody>
+            )}
+          </Table>
+        </Card>
+      </PageSection>
+    </div>
+  );
+};
+
+export default Transfers;
@@ -4,6 +4,7 @@ import { Route, Routes, useNavigate } from 'react-router-dom';
 import Buckets from './components/Buckets/Buckets';
 import StorageBrowser from './components/StorageBrowser/StorageBrowser';
 import SettingsManagement from './components/Settings/Settings';
+import Transfers from './components/Transfers/Transfers';
 import VramEstimator from './components/VramEstimator/VramEstimator';
 
 /**
@@ -55,6 +56,12 @@ const routes: AppRouteConfig[] = [
         path: '/buckets',
         title: 'Storage Management',
       },
+      {
+        element: <Transfers />,
+        label: 'Transfers',
+        path: '/transfers',
+        title: 'Transfers',
+      },
     ],
   },
   {
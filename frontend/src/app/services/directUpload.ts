@@ -0,0 +1,162 @@
+import axios from 'axios';
+import config from '@app/config';
+import { base64Encode } from '@app/utils/encoding';
+
+/**
+ * Files at least this large are uploaded straight to S3, smaller ones go through the backend
+ */
+export const DIRECT_UPLOAD_MIN_SIZE = 16 * 1024 * 1024; // 16 MiB
+
+/**
+ * Number of part URLs requested at once (the backend signs at most 100 per request)
+ */
+const PART_URL_BATCH_SIZE = 20;
+
+/**
+ * Number of parts uploaded concurrently for a file
+ */
+const PARALLEL_PARTS = 4;
+
+/**
+ * Multipart upload started by the backend (same shape as DirectUpload in utils/directUpload.ts)
+ */
+interface DirectUpload {
+  uploadId: string;
+  key: string;
+  partSize: number;
+  partCount: number;
+}
+
+interface DirectUploadPartUrls {
+  parts: { partNumber: number; url: string }[];
+}
+
+/**
+ * The browser couldn't reach S3: the endpoint isn't reachable from the browser, or the CORS
+ * configuration of the bucket doesn't allow the upload. The multipart upload was aborted and
+ * the file can be uploaded through the backend instead.
+ */
+export class DirectUploadUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectUploadUnavailableError';
+  }
+}
+
+/**
+ * Upload a file straight to S3 with a multipart upload
+ *
+ * The backend starts the upload and signs the URL of each part, the browser sends the parts to S3
+ * with PUT requests and reads their ETag from the responses. The backend then completes the
+ * upload, or aborts it when a part fails or the signal is aborted.
+ */
+export async function uploadFileDirect(
+  locationId: string,
+  path: string,
+  file: File,
+  options?: {
+    onProgress?: (percentCompleted: number) => void;
+    signal?: AbortSignal;
+  },
+): Promise<void> {
+  const baseUrl = `${config.backend_api_url}/objects/direct-upload/${locationId}/${base64Encode(path)}`;
+  const { data: upload } = await axios.post<DirectUpload>(
+    baseUrl,
+    { size: file.size, contentType: file.type || undefined },
+    { signal: options?.signal },
+  );
+
+  // Part URLs are requested in batches, when the first part of a batch is uploaded
+  const batches = new Map<number, Promise<Map<number, string>>>();
+  const getPartUrl = async (partNumber: number): Promise<string> => {
+    const batch = Math.floor((partNumber - 1) / PART_URL_BATCH_SIZE);
+    if (!batches.has(batch)) {
+      const first = batch * PART_URL_BATCH_SIZE + 1;
+      const partNumbers = Array.from(
+        { length: Math.min(PART_URL_BATCH_SIZE, upload.partCount - first + 1) },
+        (_, i) => first + i,
+      );
+      batches.set(
+        batch,
+        axios
+          .post<DirectUploadPartUrls>(
+            `${baseUrl}/parts`,
+            { uploadId: upload.uploadId, partNumbers },
+            { signal: options?.signal },
+          )
+          .then((response) => new Map(response.data.parts.map((part) => [part.partNumber, part.url]))),
+      );
+    }
+    return (await batches.get(batch)!).get(partNumber)!;
+  };
+
+  const loadedByPart = new Map<number, number>();
+  const reportProgress = () => {
+    if (options?.onProgress) {
+      const loaded = Array.from(loadedByPart.values()).reduce((sum, value) => sum + value, 0);
+      options.onProgress(file.size > 0 ? Math.round((loaded * 100) / file.size) : 100);
+    }
+  };
+
+  // Cancels the parts in progress when the upload is aborted or another part fails
+  const partsController = new AbortController();
+  const abortParts = () => partsController.abort();
+  options?.signal?.addEventListener('abort', abortParts);
+
+  const parts: { partNumber: number; etag: string }[] = [];
+  let nextPartNumber = 1;
+  let uploadedParts = 0;
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * upload.partSize;
+    const body = file.slice(start, Math.min(start + upload.partSize, file.size));
+    const response = await axios.put(await getPartUrl(partNumber), body, {
+      signal: partsController.signal,
+      onUploadProgress: (progressEvent) => {
+        loadedByPart.set(partNumber, progressEvent.loaded);
+        reportProgress();
+      },
+    });
+    const etag = response.headers['etag'];
+    if (!etag) {
+      // S3 returned the ETag, but the CORS configuration doesn't let the browser read it
+      throw new DirectUploadUnavailableError('The CORS configuration of the bucket must expose the ETag header.');
+    }
+    parts.push({ partNumber, etag });
+    loadedByPart.set(partNumber, body.size);
+    uploadedParts++;
+    reportProgress();
+  };
+
+  const worker = async () => {
+    while (nextPartNumber <= upload.partCount) {
+      await uploadPart(nextPartNumber++);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(PARALLEL_PARTS, upload.partCount) }, () => worker()));
+  } catch (error) {
+    // Stop the other parts and release the storage used by the uploaded ones
+    nextPartNumber = upload.partCount + 1;
+    partsController.abort();
+    await axios.post(`${baseUrl}/abort`, { uploadId: upload.uploadId }).catch((abortError) => {
+      console.error('Error aborting direct upload', abortError);
+    });
+    // Requests to S3 without a response, before any part was uploaded: S3 isn't reachable
+    if (
+      uploadedParts === 0 &&
+      !options?.signal?.aborted &&
+      axios.isAxiosError(error) &&
+      !error.response &&
+      error.config?.method === 'put'
+    ) {
+      throw new DirectUploadUnavailableError(`S3 is not reachable from the browser: ${error.message}`);
+    }
+    throw error;
+  } finally {
+    options?.signal?.removeEventListener('abort', abortParts);
+  }
+
+  await axios.post(`${baseUrl}/complete`, { uploadId: upload.uploadId, parts }, { signal: options?.signal });
+}
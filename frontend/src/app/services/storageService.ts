@@ -1,6 +1,7 @@
 import axios from 'axios';
 import config from '@app/config';
 import { base64Encode } from '@app/utils/encoding';
+import { DIRECT_UPLOAD_MIN_SIZE, DirectUploadUnavailableError, uploadFileDirect } from './directUpload';
 
 /**
  * Storage type discriminator
@@ -11,12 +12,13 @@ export type StorageType = 's3' | 'local';
  * Unified storage location interface
  */
 export interface StorageLocation {
-  id: string; // "local-0", "local-1", or S3 bucket name
+  id: string; // "local-0", "local-1", S3 bucket name, or "<connectionId>:<bucket>" for other S3 connections
   name: string; // Display name
   type: StorageType;
   available: boolean; // false if directory missing/inaccessible
   // S3-specific
   region?: string;
+  connectionId?: string; // S3 connection the bucket belongs to
   // Local-specific
   path?: string;
 }
@@ -80,6 +82,7 @@ export interface TransferRequest {
   };
   items: TransferItem[];  // CHANGED from 'files: string[]'
   conflictResolution: 'overwrite' | 'skip' | 'rename';
+  priority?: TransferPriority; // Defaults to 'normal'
 }
 
 /**
@@ -90,6 +93,83 @@ export interface TransferResponse {
   sseUrl: string;
 }
 
+export interface RetryTransferResponse extends TransferResponse {
+  retriedFiles: number;
+}
+
+export type TransferPriority = 'low' | 'normal' | 'high';
+
+export type TransferJobStatus = 'queued' | 'active' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+export type TransferJobType =
+  | 's3-upload'
+  | 's3-download'
+  | 'local-upload'
+  | 'cross-storage'
+  | 'huggingface'
+  | 'url-import';
+
+export interface TransferJobProgress {
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  totalBytes: number;
+  loadedBytes: number;
+  percentage: number;
+}
+
+/**
+ * Transfer job as returned by the job list
+ */
+export interface TransferJobSummary {
+  jobId: string;
+  type: TransferJobType;
+  status: TransferJobStatus;
+  priority: TransferPriority;
+  progress: TransferJobProgress;
+  sourcePath?: string;      // First file of the job
+  destinationPath?: string; // First file of the job
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  error?: string;
+  sseUrl: string;
+}
+
+/**
+ * Checksum of a transferred file, set once the transferred bytes were verified
+ */
+export interface TransferFileChecksum {
+  algorithm: 'md5' | 'sha256';
+  value: string;
+  verifiedAgainst: 'etag' | 'destination'; // S3 ETag, or a re-read of the destination
+}
+
+/**
+ * Transfer job with per-file state
+ */
+export interface TransferJobDetails extends Omit<TransferJobSummary, 'sourcePath' | 'destinationPath' | 'sseUrl'> {
+  files: {
+    sourcePath: string;
+    destinationPath: string;
+    size: number;
+    loaded: number;
+    status: 'queued' | 'transferring' | 'completed' | 'error';
+    error?: string;
+    checksum?: TransferFileChecksum;
+  }[];
+}
+
+/**
+ * Filters for listing transfer jobs (timestamps in ISO 8601)
+ */
+export interface TransferJobFilter {
+  status?: TransferJobStatus[];
+  type?: TransferJobType[];
+  since?: string;
+  until?: string;
+}
+
 /**
  * Unified Storage Service
  *
@@ -103,6 +183,12 @@ class StorageService {
    */
   private locationsCache: StorageLocation[] | null = null;
 
+  /**
+   * S3 locations the browser can't upload to directly (endpoint not reachable or CORS not configured)
+   * Their files are uploaded through the backend until the page is reloaded
+   */
+  private directUploadUnavailable = new Set<string>();
+
   /**
    * Get all storage locations (S3 + local)
    * Uses indefinite cache - locations only fetched once until manual refresh
@@ -124,14 +210,20 @@ class StorageService {
     const [s3Result, localResult] = results;
 
     // Process S3 locations (gracefully handle failure)
+    // Buckets of other connections than the default one are namespaced with their connection,
+    // so buckets with the same name on two endpoints are distinct locations
     const s3Locations: StorageLocation[] =
       s3Result.status === 'fulfilled'
         ? s3Result.value.data.buckets.map((bucket: any) => ({
-            id: bucket.Name,
-            name: bucket.Name,
+            id: bucket.locationId || bucket.Name,
+            name:
+              bucket.connectionId && bucket.connectionId !== 'default'
+                ? `${bucket.Name} (${bucket.connectionName})`
+                : bucket.Name,
             type: 's3' as const,
             available: true,
             region: bucket.Region,
+            connectionId: bucket.connectionId,
           }))
         : [];
 
@@ -287,8 +379,47 @@ class StorageService {
     }
   }
 
+  /**
+   * Create the session of an upload to S3 through the backend
+   * Its id follows the progress of the upload (/objects/upload-progress/:uploadId) and aborts it.
+   */
+  async createUploadSession(): Promise<string> {
+    try {
+      const response = await axios.post(`${config.backend_api_url}/objects/upload-sessions`);
+      return response.data.uploadId;
+    } catch (error) {
+      console.error('Failed to create upload session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Abort an upload to S3 through the backend, or prevent it from starting
+   */
+  async abortUpload(uploadId: string): Promise<void> {
+    try {
+      await axios.get(`${config.backend_api_url}/objects/abort-upload/${uploadId}`);
+    } catch (error) {
+      console.error(`Failed to abort upload ${uploadId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a file of the given size is uploaded straight to S3 rather than through the backend
+   * Only applies to S3 locations. Files uploaded through the backend are the ones that need an upload session.
+   * A location falls back to the backend once direct uploads turned out to be unavailable.
+   */
+  usesDirectUpload(locationId: string, size: number): boolean {
+    return size >= DIRECT_UPLOAD_MIN_SIZE && !this.directUploadUnavailable.has(locationId);
+  }
+
   /**
    * Upload file with optional progress tracking
+   * Large files are uploaded straight to S3 when the browser can reach it (see uploadFileDirect):
+   * onStorageProgress then reports their progress, instead of onProgress for uploads to the backend.
+   * uploadId is the session of the upload to S3 through the backend (see createUploadSession).
+   * getUploadId creates that session when a direct upload falls back to the backend.
    */
   async uploadFile(
     locationId: string,
@@ -296,9 +427,33 @@ class StorageService {
     file: File,
     options?: {
       onProgress?: (percentCompleted: number) => void;
+      onStorageProgress?: (percentCompleted: number) => void;
+      signal?: AbortSignal;
+      uploadId?: string;
+      getUploadId?: () => Promise<string | undefined>;
     },
   ): Promise<void> {
     const location = await this.getLocation(locationId);
+    let uploadId = options?.uploadId;
+
+    if (location.type === 's3' && this.usesDirectUpload(locationId, file.size)) {
+      try {
+        await uploadFileDirect(locationId, path, file, {
+          onProgress: options?.onStorageProgress,
+          signal: options?.signal,
+        });
+        return;
+      } catch (error) {
+        if (!(error instanceof DirectUploadUnavailableError)) {
+          console.error(`Failed to upload file to ${locationId}/${path}:`, error);
+          throw error;
+        }
+        console.warn(`Direct upload to ${locationId} unavailable, uploading through the backend:`, error.message);
+        this.directUploadUnavailable.add(locationId);
+        uploadId = await options?.getUploadId?.();
+      }
+    }
+
     const formData = new FormData();
     formData.append('file', file);
 
@@ -307,6 +462,7 @@ class StorageService {
         headers: {
           'Content-Type': 'multipart/form-data',
         },
+        signal: options?.signal,
       };
 
       // Add progress tracking if callback provided
@@ -322,6 +478,9 @@ class StorageService {
       if (location.type === 's3') {
         // S3 requires encoded path to match backend route: /objects/upload/:bucketName/:encodedKey
         const encodedPath = base64Encode(path);
+        if (uploadId) {
+          axiosConfig.params = { uploadId };
+        }
         await axios.post(`${config.backend_api_url}/objects/upload/${locationId}/${encodedPath}`, formData, axiosConfig);
       } else {
         // Local storage requires base64-encoded paths
@@ -465,6 +624,76 @@ class StorageService {
     }
   }
 
+  /**
+   * Pause transfer
+   */
+  async pauseTransfer(jobId: string): Promise<void> {
+    try {
+      await axios.post(`${config.backend_api_url}/transfer/${jobId}/pause`);
+    } catch (error) {
+      console.error(`Failed to pause transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resume paused transfer
+   */
+  async resumeTransfer(jobId: string): Promise<void> {
+    try {
+      await axios.post(`${config.backend_api_url}/transfer/${jobId}/resume`);
+    } catch (error) {
+      console.error(`Failed to resume transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Retry the failed files of a transfer
+   */
+  async retryTransfer(jobId: string): Promise<RetryTransferResponse> {
+    try {
+      const response = await axios.post(`${config.backend_api_url}/transfer/${jobId}/retry`);
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to retry transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * List transfer jobs, most recent first
+   */
+  async listTransfers(filter: TransferJobFilter = {}): Promise<TransferJobSummary[]> {
+    try {
+      const response = await axios.get(`${config.backend_api_url}/transfer`, {
+        params: {
+          status: filter.status?.join(','),
+          type: filter.type?.join(','),
+          since: filter.since,
+          until: filter.until,
+        },
+      });
+      return response.data.jobs;
+    } catch (error) {
+      console.error('Failed to list transfers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a transfer job with its per-file state
+   */
+  async getTransfer(jobId: string): Promise<TransferJobDetails> {
+    try {
+      const response = await axios.get(`${config.backend_api_url}/transfer/${jobId}`);
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to get transfer ${jobId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Helper: Get single location by ID
    */